@@ -12,7 +12,11 @@ export type IconName =
   | 'menu'
   | 'log-out'
   | 'check'
-  | 'x';
+  | 'x'
+  | 'edit'
+  | 'grip'
+  | 'message'
+  | 'paperclip';
 
 export interface IconProps {
   name: IconName;
@@ -96,6 +100,32 @@ export const Icon: React.FC<IconProps> = ({ name, className = "", size = 16 }) =
         <line x1="6" y1="6" x2="18" y2="18"></line>
       </svg>
     ),
+    'edit': (
+      <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M12 20h9"></path>
+        <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+      </svg>
+    ),
+    'grip': (
+      <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <circle cx="9" cy="6" r="1"></circle>
+        <circle cx="15" cy="6" r="1"></circle>
+        <circle cx="9" cy="12" r="1"></circle>
+        <circle cx="15" cy="12" r="1"></circle>
+        <circle cx="9" cy="18" r="1"></circle>
+        <circle cx="15" cy="18" r="1"></circle>
+      </svg>
+    ),
+    'message': (
+      <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path>
+      </svg>
+    ),
+    'paperclip': (
+      <svg xmlns="http://www.w3.org/2000/svg" width={size} height={size} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+        <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path>
+      </svg>
+    ),
   };
 
   return <>{iconMap[name] || null}</>;
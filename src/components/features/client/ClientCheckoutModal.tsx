@@ -0,0 +1,140 @@
+// src/components/features/client/ClientCheckoutModal.tsx - Pays the first invoice of a trainer plan through the active payment gateway
+import React, { useMemo, useState } from 'react';
+import { Elements, PaymentElement, useElements } from '@stripe/react-stripe-js';
+import { StripeElements } from '@stripe/stripe-js';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { getStripe } from '@/lib/stripe';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { CheckoutSession, MOCK_SUCCESS_CARD, getPaymentGateway } from '@/lib/payments';
+import { formatPrice } from '@/pages/features/trainer/hooks/useSubscription';
+
+interface ClientCheckoutModalProps {
+  session: CheckoutSession;
+  trainerName: string;
+  onClose: () => void;
+  // The payment went through; the plan starts once the stripe-webhook function confirms it
+  onPaid: () => void;
+}
+
+interface CheckoutFormProps extends ClientCheckoutModalProps {
+  children: React.ReactNode;
+  // Stripe's Elements, or undefined for the mock gateway
+  elements?: StripeElements | null;
+  testCard?: string;
+}
+
+// Shared by both gateways: the summary, the pay button and what happens with the result
+const CheckoutForm: React.FC<CheckoutFormProps> = ({ session, trainerName, onClose, onPaid, children, elements, testCard }) => {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const gateway = getPaymentGateway();
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (gateway.usesStripeElements && !elements) return;
+
+    try {
+      setIsProcessing(true);
+      const result = await gateway.confirmPayment({
+        clientSecret: session.clientSecret,
+        elements: elements ?? undefined,
+        testCard
+      });
+
+      if (result.status === 'succeeded') {
+        showSuccessToast(`Payment received for ${trainerName}'s ${session.tierName} plan`);
+        onPaid();
+      } else {
+        showErrorToast(result.message, 'Payment failed');
+      }
+    } catch (error) {
+      showErrorToast(error, 'Payment processing failed');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Subscribe to {trainerName}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+          <h3 className="font-semibold text-blue-900">{session.tierName}</h3>
+          <p className="text-blue-700">{formatPrice(session.amount, session.billingCycle)}</p>
+          <p className="text-xs text-blue-700 mt-1">Renews automatically until you cancel.</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {children}
+
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isProcessing} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="blue" isLoading={isProcessing} disabled={isProcessing} className="flex-1">
+              {isProcessing ? 'Processing...' : 'Pay and subscribe'}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+const StripeCheckoutForm: React.FC<ClientCheckoutModalProps> = (props) => {
+  const elements = useElements();
+
+  return (
+    <CheckoutForm {...props} elements={elements}>
+      <PaymentElement />
+    </CheckoutForm>
+  );
+};
+
+const MockCheckoutForm: React.FC<ClientCheckoutModalProps> = (props) => {
+  const [testCard, setTestCard] = useState(MOCK_SUCCESS_CARD);
+
+  return (
+    <CheckoutForm {...props} testCard={testCard}>
+      <label className="block text-sm">
+        <span className="block font-medium mb-1">Test card number</span>
+        <Input value={testCard} onChange={event => setTestCard(event.target.value)} />
+        <span className="block text-xs text-gray-500 mt-1">Payments are simulated. 4000 0000 0000 0002 is declined.</span>
+      </label>
+    </CheckoutForm>
+  );
+};
+
+const ClientCheckoutModal: React.FC<ClientCheckoutModalProps> = (props) => {
+  const gateway = getPaymentGateway();
+  const stripePromise = useMemo(() => (gateway.usesStripeElements ? getStripe() : null), [gateway]);
+
+  const options = {
+    clientSecret: props.session.clientSecret,
+    appearance: {
+      theme: 'stripe' as const,
+      variables: {
+        colorPrimary: '#007bff'
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-auto">
+        {stripePromise ? (
+          <Elements stripe={stripePromise} options={options}>
+            <StripeCheckoutForm {...props} />
+          </Elements>
+        ) : (
+          <MockCheckoutForm {...props} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClientCheckoutModal;
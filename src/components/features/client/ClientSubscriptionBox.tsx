@@ -4,7 +4,7 @@ import { Link } from 'react-router-dom';
 import { Button } from '@/components/atoms/Button';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
-import { ClientAPI } from '@/lib/api';
+import { ClientAPI, AssignedTrainer } from '@/lib/api';
 import { showErrorToast } from '@/lib/errors';
 import { DASHBOARD_ROUTES } from '@/lib/constants';
 
@@ -12,18 +12,8 @@ import { DASHBOARD_ROUTES } from '@/lib/constants';
 // TYPES & INTERFACES
 // ============================================================================
 
-interface TrainerInfo {
-  id: string;
-  full_name: string;
-  email: string;
-  subscription_name: string;
-  subscription_price: number | null;
-  start_date: string;
-  status: 'active' | 'inactive' | 'pending';
-}
-
 interface SubscriptionState {
-  trainer: TrainerInfo | null;
+  trainer: AssignedTrainer | null;
   loading: boolean;
   error: string | null;
   hasActiveSubscription: boolean;
@@ -162,7 +152,7 @@ const TrainerAvatar: React.FC<TrainerAvatarProps> = ({ fullName, size = 'md' })
 };
 
 interface TrainerInfoSectionProps {
-  trainer: TrainerInfo;
+  trainer: AssignedTrainer;
 }
 
 const TrainerInfoSection: React.FC<TrainerInfoSectionProps> = ({ trainer }) => (
@@ -177,7 +167,7 @@ const TrainerInfoSection: React.FC<TrainerInfoSectionProps> = ({ trainer }) => (
             ? 'bg-yellow-100 text-yellow-800' 
             : 'bg-red-100 text-red-800'
         }`}>
-          {trainer.status === 'pending' ? 'Pending' : 'Inactive'}
+          {trainer.status === 'pending' ? 'Pending' : trainer.status === 'suspended' ? 'Payment failed' : 'Inactive'}
         </span>
       )}
     </div>
@@ -185,7 +175,7 @@ const TrainerInfoSection: React.FC<TrainerInfoSectionProps> = ({ trainer }) => (
 );
 
 interface SubscriptionDetailsProps {
-  trainer: TrainerInfo;
+  trainer: AssignedTrainer;
 }
 
 const SubscriptionDetails: React.FC<SubscriptionDetailsProps> = ({ trainer }) => (
@@ -193,7 +183,7 @@ const SubscriptionDetails: React.FC<SubscriptionDetailsProps> = ({ trainer }) =>
     <div className="space-y-3">
       <DetailRow 
         label="Subscription" 
-        value={trainer.subscription_name} 
+        value={trainer.subscription_name || 'Custom plan'} 
       />
       <DetailRow 
         label="Price" 
@@ -201,7 +191,7 @@ const SubscriptionDetails: React.FC<SubscriptionDetailsProps> = ({ trainer }) =>
       />
       <DetailRow 
         label="Start Date" 
-        value={formatDate(trainer.start_date)} 
+        value={trainer.start_date ? formatDate(trainer.start_date) : '—'} 
       />
       {trainer.status === 'active' && (
         <DetailRow 
@@ -232,7 +222,7 @@ const DetailRow: React.FC<DetailRowProps> = ({ label, value }) => (
 );
 
 interface ActionButtonsProps {
-  trainer: TrainerInfo;
+  trainer: AssignedTrainer;
 }
 
 const ActionButtons: React.FC<ActionButtonsProps> = ({ trainer }) => (
@@ -252,7 +242,7 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({ trainer }) => (
 );
 
 interface ActiveSubscriptionProps {
-  trainer: TrainerInfo;
+  trainer: AssignedTrainer;
 }
 
 const ActiveSubscription: React.FC<ActiveSubscriptionProps> = ({ trainer }) => (
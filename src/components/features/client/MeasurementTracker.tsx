@@ -17,7 +17,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { showSuccessToast, showErrorToast } from '@/lib/errors';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
-import { ClientProgress } from '@/lib/types';
+import { ClientProgress } from '@/lib/api';
 
 // ============================================================================
 // FORM SCHEMA & VALIDATION
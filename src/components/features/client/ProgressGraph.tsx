@@ -3,8 +3,9 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
 import { Button } from '@/components/atoms/Button';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
-import { ClientAPI, ClientProgress } from '@/lib/api';
-import { showErrorToast } from '@/lib/errors';
+import { ClientAPI, TrainerAPI, ClientProgress, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { getErrorMessage, showErrorToast } from '@/lib/errors';
 import { 
   LineChart, 
   Line, 
@@ -21,7 +22,8 @@ import {
 // ============================================================================
 
 interface ProgressGraphProps {
-  refreshTrigger?: number;
+  // When set, loads this client's measurements through the trainer API
+  clientId?: string;
 }
 
 interface ChartDataPoint {
@@ -51,10 +53,6 @@ interface ProgressStats {
 interface GraphState {
   selectedType: MeasurementType;
   timeRange: TimeRange;
-  measurements: ClientProgress[];
-  loading: boolean;
-  error: string | null;
-  hasData: boolean;
 }
 
 type MeasurementType = 'body_weight' | 'waist_size' | 'chest_size' | 'biceps_size' | 'thigh_size' | 'all';
@@ -111,11 +109,7 @@ const TIME_RANGE_OPTIONS = [
 
 const INITIAL_STATE: GraphState = {
   selectedType: 'all',
-  timeRange: '3m',
-  measurements: [],
-  loading: true,
-  error: null,
-  hasData: false
+  timeRange: '3m'
 };
 
 // ============================================================================
@@ -463,56 +457,40 @@ const AllMeasurementsChart: React.FC<AllMeasurementsChartProps> = ({ data }) =>
 // CUSTOM HOOK
 // ============================================================================
 
-const useProgressGraph = (refreshTrigger?: number) => {
+const useProgressGraph = (clientId?: string) => {
   const [state, setState] = useState<GraphState>(INITIAL_STATE);
 
   const updateState = useCallback((updates: Partial<GraphState>) => {
     setState(prev => ({ ...prev, ...updates }));
   }, []);
 
-  const fetchMeasurements = useCallback(async () => {
-    try {
-      updateState({ loading: true, error: null });
-      
-      const allMeasurements = await ClientAPI.getClientMeasurements(100);
-      
-      if (allMeasurements && allMeasurements.length > 0) {
-        const sortedMeasurements = allMeasurements.sort((a, b) => 
-          new Date(a.date).getTime() - new Date(b.date).getTime()
-        );
-        
-        updateState({ 
-          measurements: sortedMeasurements,
-          hasData: true,
-          loading: false
-        });
-      } else {
-        updateState({ 
-          measurements: [],
-          hasData: false,
-          loading: false
-        });
-      }
-    } catch (error: any) {
+  // Cached per client, so realtime changes merged into the cache show up here
+  const { data, error, isLoading, refetch } = useQuery(
+    clientId ? queryKeys.clientMeasurements(clientId) : queryKeys.measurements,
+    () => clientId
+      ? TrainerAPI.getClientMeasurements(clientId, 100)
+      : ClientAPI.getClientMeasurements(100)
+  );
+
+  useEffect(() => {
+    if (error) {
       console.error('Error fetching measurements:', error);
       showErrorToast(error, 'Failed to load progress data');
-      updateState({ 
-        measurements: [],
-        hasData: false,
-        error: error?.message || 'Failed to load progress data',
-        loading: false
-      });
     }
-  }, [updateState]);
+  }, [error]);
 
-  useEffect(() => {
-    fetchMeasurements();
-  }, [fetchMeasurements, refreshTrigger]);
+  const measurements = useMemo(() => [...(data || [])].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  ), [data]);
 
   return {
     ...state,
+    measurements,
+    loading: isLoading,
+    error: error && !data ? getErrorMessage(error) || 'Failed to load progress data' : null,
+    hasData: measurements.length > 0,
     updateState,
-    refetch: fetchMeasurements
+    refetch
   };
 };
 
@@ -520,7 +498,7 @@ const useProgressGraph = (refreshTrigger?: number) => {
 // MAIN COMPONENT
 // ============================================================================
 
-export const ProgressGraph: React.FC<ProgressGraphProps> = ({ refreshTrigger }) => {
+export const ProgressGraph: React.FC<ProgressGraphProps> = ({ clientId }) => {
   const {
     selectedType,
     timeRange,
@@ -529,7 +507,7 @@ export const ProgressGraph: React.FC<ProgressGraphProps> = ({ refreshTrigger })
     error,
     hasData,
     updateState
-  } = useProgressGraph(refreshTrigger);
+  } = useProgressGraph(clientId);
 
   const chartData = useMemo(() => {
     if (selectedType === 'all') {
@@ -581,7 +559,9 @@ export const ProgressGraph: React.FC<ProgressGraphProps> = ({ refreshTrigger })
         ) : !hasData ? (
           <EmptyState
             title="No measurements available"
-            description="Add measurements to see your progress over time"
+            description={clientId
+              ? 'This client has not logged any measurements yet'
+              : 'Add measurements to see your progress over time'}
           />
         ) : selectedType === 'all' ? (
           <AllMeasurementsChart data={chartData} />
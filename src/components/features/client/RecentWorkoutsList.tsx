@@ -1,45 +1,19 @@
 // src/components/features/client/RecentWorkoutsList.tsx - Refactored Version
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
 import { Button } from '@/components/atoms/Button';
 import Icon from '@/components/atoms/Icon';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import { Link } from 'react-router-dom';
 import { DASHBOARD_ROUTES } from '@/lib/constants';
-import { ClientAPI } from '@/lib/api';
-import { showErrorToast } from '@/lib/errors';
+import { ClientAPI, ClientWorkout, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { getErrorMessage, showErrorToast } from '@/lib/errors';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-interface Exercise {
-  id: string;
-  exercise_name: string;
-  series: string;
-  series_description: string;
-}
-
-interface Workout {
-  id: string;
-  workout_name: string;
-  workout_day: string;
-  description?: string;
-  exercises?: Exercise[];
-  exercise_count?: number;
-}
-
-interface ClientWorkout {
-  id: string;
-  client_id: string;
-  workout_id: string;
-  assigned_date: string;
-  status: 'assigned' | 'in_progress' | 'completed';
-  trainer_notes?: string;
-  completion_date?: string;
-  workout?: Workout;
-}
-
 interface WorkoutWithStatus extends ClientWorkout {
   isToday: boolean;
   isUpcoming: boolean;
@@ -60,13 +34,6 @@ type FilterType = 'all' | 'completed' | 'upcoming' | 'today';
 // CONSTANTS
 // ============================================================================
 
-const INITIAL_STATE: WorkoutsState = {
-  workouts: [],
-  loading: true,
-  error: null,
-  hasData: false
-};
-
 const FILTER_OPTIONS: { value: FilterType; label: string }[] = [
   { value: 'all', label: 'All' },
   { value: 'today', label: 'Today' },
@@ -74,74 +41,6 @@ const FILTER_OPTIONS: { value: FilterType; label: string }[] = [
   { value: 'completed', label: 'Completed' }
 ];
 
-// Mock data for development (since API might not be ready)
-const MOCK_WORKOUTS: ClientWorkout[] = [
-  {
-    id: '1',
-    client_id: 'client-1',
-    workout_id: 'workout-1',
-    assigned_date: new Date().toISOString().split('T')[0], // Today
-    status: 'assigned',
-    workout: {
-      id: 'workout-1',
-      workout_name: 'Full Body Strength',
-      workout_day: 'Monday',
-      description: 'Complete body workout focusing on strength',
-      exercise_count: 8,
-      exercises: [
-        { id: '1', exercise_name: 'Push-ups', series: '3 sets x 12 reps', series_description: 'Standard push-ups' },
-        { id: '2', exercise_name: 'Squats', series: '3 sets x 15 reps', series_description: 'Bodyweight squats' }
-      ]
-    }
-  },
-  {
-    id: '2',
-    client_id: 'client-1',
-    workout_id: 'workout-2',
-    assigned_date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 2 days ago
-    status: 'completed',
-    completion_date: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-    workout: {
-      id: 'workout-2',
-      workout_name: 'HIIT Cardio',
-      workout_day: 'Wednesday',
-      description: 'High intensity interval training',
-      exercise_count: 6,
-      exercises: [
-        { id: '3', exercise_name: 'Burpees', series: '4 rounds x 30 seconds', series_description: 'High intensity burpees' }
-      ]
-    }
-  },
-  {
-    id: '3',
-    client_id: 'client-1',
-    workout_id: 'workout-3',
-    assigned_date: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // Tomorrow
-    status: 'assigned',
-    workout: {
-      id: 'workout-3',
-      workout_name: 'Upper Body Focus',
-      workout_day: 'Friday',
-      description: 'Focus on upper body strength',
-      exercise_count: 9
-    }
-  },
-  {
-    id: '4',
-    client_id: 'client-1',
-    workout_id: 'workout-4',
-    assigned_date: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // 5 days ago
-    status: 'assigned', // Missed workout
-    workout: {
-      id: 'workout-4',
-      workout_name: 'Yoga & Mobility',
-      workout_day: 'Tuesday',
-      description: 'Flexibility and mobility work',
-      exercise_count: 10
-    }
-  }
-];
-
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -438,9 +337,11 @@ const WorkoutItem: React.FC<WorkoutItemProps> = ({ workout }) => {
       {/* Action Buttons */}
       {workout.status !== 'completed' && (
         <div className="flex space-x-2">
-          <Button variant="blue" size="sm">
-            {workout.status === 'in_progress' ? 'Continue Workout' : 'Start Workout'}
-          </Button>
+          <Link to={`${DASHBOARD_ROUTES.CLIENT.WORKOUTS}/${workout.id}`}>
+            <Button variant="blue" size="sm">
+              {workout.status === 'in_progress' ? 'Continue Workout' : 'Start Workout'}
+            </Button>
+          </Link>
           {workout.status === 'assigned' && (
             <Button variant="outline" size="sm">
               Schedule
@@ -469,50 +370,29 @@ const WorkoutsList: React.FC<WorkoutsListProps> = ({ workouts }) => (
 // ============================================================================
 
 const useRecentWorkouts = () => {
-  const [state, setState] = useState<WorkoutsState>(INITIAL_STATE);
   const [filter, setFilter] = useState<FilterType>('all');
 
-  const updateState = useCallback((updates: Partial<WorkoutsState>) => {
-    setState(prev => ({ ...prev, ...updates }));
-  }, []);
+  // Shared with the realtime listener, which merges assignment changes into this cache entry
+  const { data, error, isLoading, refetch } = useQuery(queryKeys.clientWorkouts, ClientAPI.getClientWorkouts);
+  const workouts = useMemo(() => data || [], [data]);
 
-  const fetchWorkouts = useCallback(async () => {
-    try {
-      updateState({ loading: true, error: null });
-      
-      // For now, use mock data since the client workout API might not be ready
-      // TODO: Replace with actual API call when ready
-      // const workouts = await ClientAPI.getClientWorkouts();
-      
-      // Simulate API delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const workouts = MOCK_WORKOUTS;
-      
-      updateState({
-        workouts,
-        hasData: workouts.length > 0,
-        loading: false
-      });
-      
-    } catch (error: any) {
+  useEffect(() => {
+    if (error) {
       console.error('Error fetching workouts:', error);
-      const errorMessage = error?.message || 'Failed to load workouts';
-      
-      updateState({
-        workouts: [],
-        hasData: false,
-        error: errorMessage,
-        loading: false
-      });
-      
       showErrorToast(error, 'Failed to load workouts');
     }
-  }, [updateState]);
+  }, [error]);
+
+  const state: WorkoutsState = {
+    workouts,
+    loading: isLoading,
+    error: error && !data ? getErrorMessage(error) || 'Failed to load workouts' : null,
+    hasData: workouts.length > 0
+  };
 
   const enrichedWorkouts = useMemo(() => {
-    return state.workouts.map(enrichWorkoutWithStatus);
-  }, [state.workouts]);
+    return workouts.map(enrichWorkoutWithStatus);
+  }, [workouts]);
 
   const filteredWorkouts = useMemo(() => {
     return filterWorkouts(enrichedWorkouts, filter);
@@ -532,17 +412,13 @@ const useRecentWorkouts = () => {
     return counts;
   }, [enrichedWorkouts]);
 
-  useEffect(() => {
-    fetchWorkouts();
-  }, [fetchWorkouts]);
-
   return {
     ...state,
     filter,
     sortedWorkouts,
     workoutCounts,
     setFilter,
-    refetch: fetchWorkouts
+    refetch
   };
 };
 
@@ -0,0 +1,86 @@
+// src/components/features/client/TrainerListingCard.tsx - One trainer in the client-facing directory
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/atoms/Button';
+import { Card, CardContent } from '@/components/organisms/Card';
+import { TrainerListing, TrainerRequest } from '@/lib/api';
+import { DASHBOARD_ROUTES } from '@/lib/constants';
+import { formatTrainingModes, getStartingTier } from '@/lib/marketplace';
+import { formatPrice } from '@/pages/features/trainer/hooks/useSubscription';
+
+interface TrainerListingCardProps {
+  listing: TrainerListing;
+  request?: TrainerRequest;
+}
+
+const MAX_SPECIALTIES = 4;
+
+export const TrainerPhoto: React.FC<{ listing: Pick<TrainerListing, 'full_name' | 'photo_url'>; size?: 'md' | 'lg' }> = ({ listing, size = 'md' }) => {
+  const sizeClass = size === 'lg' ? 'h-20 w-20 text-2xl' : 'h-14 w-14 text-lg';
+
+  if (listing.photo_url) {
+    return <img src={listing.photo_url} alt={listing.full_name} className={`${sizeClass} rounded-full object-cover`} />;
+  }
+
+  return (
+    <div className={`${sizeClass} flex flex-shrink-0 items-center justify-center rounded-full bg-gray-200 font-medium text-gray-600`}>
+      {listing.full_name.charAt(0)}
+    </div>
+  );
+};
+
+const TrainerListingCard: React.FC<TrainerListingCardProps> = ({ listing, request }) => {
+  const startingTier = getStartingTier(listing);
+  const modes = formatTrainingModes(listing);
+  const profilePath = `${DASHBOARD_ROUTES.CLIENT.TRAINERS}/${listing.trainer_id}`;
+
+  return (
+    <Card className="flex flex-col">
+      <CardContent className="flex flex-1 flex-col p-5">
+        <div className="flex items-center gap-4 mb-3">
+          <TrainerPhoto listing={listing} />
+          <div className="min-w-0">
+            <Link to={profilePath} className="block truncate font-semibold text-[#040b07] hover:text-[#007bff]">
+              {listing.full_name}
+            </Link>
+            <p className="text-xs text-gray-500">
+              {[listing.location, modes].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+        </div>
+
+        {listing.bio && <p className="text-sm text-gray-600 line-clamp-3 mb-3">{listing.bio}</p>}
+
+        {listing.specialties.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {listing.specialties.slice(0, MAX_SPECIALTIES).map(specialty => (
+              <span key={specialty} className="rounded-full bg-blue-50 px-2 py-0.5 text-xs text-[#007bff]">
+                {specialty}
+              </span>
+            ))}
+            {listing.specialties.length > MAX_SPECIALTIES && (
+              <span className="px-1 text-xs text-gray-500">+{listing.specialties.length - MAX_SPECIALTIES}</span>
+            )}
+          </div>
+        )}
+
+        <div className="mt-auto flex items-center justify-between pt-3 border-t border-gray-100">
+          <span className="text-sm text-gray-700">
+            {startingTier ? `From ${formatPrice(startingTier.price, startingTier.billing_cycle)}` : 'No plans yet'}
+          </span>
+          {request ? (
+            <span className="text-xs font-medium text-gray-500">
+              {request.status === 'active' ? 'Your trainer' : 'Requested'}
+            </span>
+          ) : (
+            <Link to={profilePath}>
+              <Button variant="outline" size="sm">View plans</Button>
+            </Link>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrainerListingCard;
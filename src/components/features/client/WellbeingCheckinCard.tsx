@@ -0,0 +1,200 @@
+// src/components/features/client/WellbeingCheckinCard.tsx - Today's "Table of Feelings" check-in: mood, energy, sleep, stress and soreness
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { ClientAPI, SaveWellbeingCheckinData, SorenessRegion, WellbeingCheckin, queryKeys } from '@/lib/api';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { useQuery } from '@/lib/queryCache';
+import { getTodayDate } from '@/lib/utils';
+import {
+  MAX_SLEEP_HOURS,
+  SCALE_LABELS,
+  SCALE_VALUES,
+  SORENESS_LEVEL_LABELS,
+  SORENESS_REGIONS,
+  SORENESS_REGION_LABELS
+} from '@/lib/wellbeing';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+type ScaleField = keyof typeof SCALE_LABELS;
+
+// Sleep is kept as typed so the field can be cleared while editing
+type CheckinDraft = Omit<SaveWellbeingCheckinData, 'sleep_hours'> & { sleep_hours: string };
+
+const SCALE_FIELDS: { field: ScaleField; label: string }[] = [
+  { field: 'mood', label: 'Mood' },
+  { field: 'energy', label: 'Energy' },
+  { field: 'stress', label: 'Stress' }
+];
+
+const SORENESS_STYLES = [
+  'bg-gray-100 text-gray-700',
+  'bg-yellow-100 text-yellow-800',
+  'bg-orange-200 text-orange-900',
+  'bg-red-400 text-white'
+];
+
+const toDraft = (date: string, checkin: WellbeingCheckin | null | undefined): CheckinDraft => ({
+  date,
+  mood: checkin?.mood ?? 3,
+  energy: checkin?.energy ?? 3,
+  stress: checkin?.stress ?? 3,
+  sleep_hours: checkin ? String(checkin.sleep_hours) : '',
+  soreness: checkin?.soreness ?? {},
+  notes: checkin?.notes ?? ''
+});
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const WellbeingCheckinCard: React.FC = () => {
+  const today = getTodayDate();
+  const { data: checkin, error, isLoading } = useQuery(
+    queryKeys.wellbeingCheckin(today),
+    () => ClientAPI.getWellbeingCheckin(today)
+  );
+  // null until the client edits something, so the saved check-in shows once it loads
+  const [draft, setDraft] = useState<CheckinDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (error) showErrorToast(error, "Failed to load today's check-in");
+  }, [error]);
+
+  const values = draft ?? toDraft(today, checkin);
+  const sleepHours = parseFloat(values.sleep_hours.replace(',', '.'));
+  const isSleepValid = !isNaN(sleepHours) && sleepHours >= 0 && sleepHours <= MAX_SLEEP_HOURS;
+
+  const update = (changes: Partial<CheckinDraft>) => setDraft({ ...values, ...changes });
+
+  const cycleSoreness = (region: SorenessRegion) => {
+    const level = ((values.soreness[region] ?? 0) + 1) % SORENESS_LEVEL_LABELS.length;
+    update({ soreness: { ...values.soreness, [region]: level } });
+  };
+
+  const handleSave = async () => {
+    if (!isSleepValid) return;
+
+    try {
+      setIsSaving(true);
+      await ClientAPI.saveWellbeingCheckin({ ...values, sleep_hours: sleepHours });
+      setDraft(null);
+      showSuccessToast(checkin ? 'Check-in updated' : 'Check-in saved');
+    } catch (error) {
+      showErrorToast(error, 'Failed to save your check-in');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-10">
+          <LoadingSpinner size="md" color="primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>How are you feeling?</CardTitle>
+        {checkin && !draft && (
+          <span className="text-xs font-medium text-green-700">Checked in today</span>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {SCALE_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <div className="flex justify-between text-sm mb-1">
+              <span className="font-medium">{label}</span>
+              <span className="text-gray-500">{SCALE_LABELS[field][values[field] - 1]}</span>
+            </div>
+            <div className="flex gap-1" role="radiogroup" aria-label={label}>
+              {SCALE_VALUES.map(value => (
+                <button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={values[field] === value}
+                  aria-label={SCALE_LABELS[field][value - 1]}
+                  onClick={() => update({ [field]: value })}
+                  className={`flex-1 h-8 rounded text-sm font-medium transition-colors ${
+                    values[field] === value ? 'bg-[#007bff] text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div>
+          <label htmlFor="wellbeing-sleep" className="text-sm font-medium">Sleep last night (hours)</label>
+          <Input
+            id="wellbeing-sleep"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={MAX_SLEEP_HOURS}
+            step={0.5}
+            value={values.sleep_hours}
+            onChange={event => update({ sleep_hours: event.target.value })}
+            className="mt-1"
+            placeholder="e.g. 7.5"
+          />
+        </div>
+
+        <div>
+          <p className="text-sm font-medium mb-1">Soreness</p>
+          <p className="text-xs text-gray-500 mb-2">Tap a region to change how sore it is</p>
+          <div className="grid grid-cols-3 gap-2">
+            {SORENESS_REGIONS.map(region => {
+              const level = values.soreness[region] ?? 0;
+              return (
+                <button
+                  key={region}
+                  type="button"
+                  onClick={() => cycleSoreness(region)}
+                  className={`rounded px-2 py-1.5 text-xs font-medium transition-colors ${SORENESS_STYLES[level]}`}
+                >
+                  {SORENESS_REGION_LABELS[region]}
+                  <span className="block font-normal">{SORENESS_LEVEL_LABELS[level]}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <textarea
+          value={values.notes ?? ''}
+          onChange={event => update({ notes: event.target.value })}
+          className="flex h-20 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          placeholder="Anything else your trainer should know?"
+          aria-label="Notes"
+        />
+
+        <Button
+          variant="blue"
+          size="full"
+          onClick={handleSave}
+          disabled={!isSleepValid || isSaving || (checkin !== null && draft === null)}
+          isLoading={isSaving}
+        >
+          {checkin ? 'Update Check-in' : 'Save Check-in'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WellbeingCheckinCard;
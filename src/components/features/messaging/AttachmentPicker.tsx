@@ -0,0 +1,82 @@
+// src/components/features/messaging/AttachmentPicker.tsx - Choose a workout, menu plan or measurement to share in a conversation
+import React, { useState } from 'react';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import MessageAttachmentCard from '@/components/features/messaging/MessageAttachmentCard';
+import { MessageAttachment, MessageAttachmentType, UserType } from '@/lib/api';
+import { MESSAGE_ATTACHMENT_LABELS } from '@/lib/messaging';
+import { useAttachmentOptions } from '@/pages/features/messaging/hooks/useMessaging';
+
+const ATTACHMENT_TYPES: MessageAttachmentType[] = ['workout', 'menu_plan', 'measurement'];
+
+interface AttachmentPickerProps {
+  isOpen: boolean;
+  userType: UserType;
+  clientId: string;
+  onSelect: (attachment: MessageAttachment) => void;
+  onClose: () => void;
+}
+
+const AttachmentPicker: React.FC<AttachmentPickerProps> = ({ isOpen, userType, clientId, onSelect, onClose }) => {
+  const [type, setType] = useState<MessageAttachmentType>('workout');
+  const { options, isLoading } = useAttachmentOptions(userType, clientId, isOpen);
+
+  if (!isOpen) return null;
+
+  const visibleOptions = options.filter(option => option.type === type);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-auto p-6">
+        <div className="flex justify-between items-start mb-4">
+          <h2 className="text-xl font-semibold text-[#040b07]">Attach to message</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <Icon name="x" size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4" role="tablist">
+          {ATTACHMENT_TYPES.map(attachmentType => (
+            <button
+              key={attachmentType}
+              type="button"
+              role="tab"
+              aria-selected={type === attachmentType}
+              onClick={() => setType(attachmentType)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                type === attachmentType ? 'bg-[#007bff] text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {MESSAGE_ATTACHMENT_LABELS[attachmentType]}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" color="primary" />
+          </div>
+        ) : visibleOptions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">
+            Nothing to share yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {visibleOptions.map(option => (
+              <button
+                key={`${option.type}:${option.id}`}
+                type="button"
+                onClick={() => onSelect(option)}
+                className="block w-full rounded-lg hover:ring-2 hover:ring-[#007bff] transition-shadow"
+              >
+                <MessageAttachmentCard attachment={option} />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentPicker;
@@ -0,0 +1,73 @@
+// src/components/features/messaging/ConversationList.tsx - The user's conversations with unread counts and the latest message
+import React from 'react';
+import { ConversationSummary } from '@/lib/api';
+import { formatRelativeDate } from '@/lib/utils';
+
+interface ConversationListProps {
+  conversations: ConversationSummary[];
+  selectedId: string | null;
+  userId: string | null;
+  onSelect: (conversation: ConversationSummary) => void;
+}
+
+const ConversationList: React.FC<ConversationListProps> = ({ conversations, selectedId, userId, onSelect }) => {
+  if (conversations.length === 0) {
+    return (
+      <p className="p-6 text-center text-sm text-gray-500">
+        No conversations yet
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100" aria-label="Conversations">
+      {conversations.map(conversation => {
+        const isSelected = conversation.client_trainer_id === selectedId;
+        const isOwnMessage = conversation.last_message_sender_id === userId;
+
+        return (
+          <li key={conversation.client_trainer_id}>
+            <button
+              type="button"
+              onClick={() => onSelect(conversation)}
+              aria-current={isSelected ? 'true' : undefined}
+              className={`flex w-full items-start px-4 py-3 text-left transition-colors ${
+                isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+              }`}
+            >
+              <div className="mr-3 flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full bg-[#007bff] text-sm font-medium text-white">
+                {conversation.participant_name.charAt(0).toUpperCase()}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between">
+                  <p className={`truncate text-sm ${conversation.unread_count > 0 ? 'font-semibold' : 'font-medium'} text-[#040b07]`}>
+                    {conversation.participant_name}
+                  </p>
+                  {conversation.last_message_at && (
+                    <span className="ml-2 flex-shrink-0 text-xs text-gray-400">
+                      {formatRelativeDate(conversation.last_message_at)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="truncate text-xs text-gray-500">
+                    {conversation.last_message_preview
+                      ? `${isOwnMessage ? 'You: ' : ''}${conversation.last_message_preview}`
+                      : 'No messages yet'}
+                  </p>
+                  {conversation.unread_count > 0 && (
+                    <span className="ml-2 inline-flex min-w-[1.25rem] flex-shrink-0 items-center justify-center rounded-full bg-[#007bff] px-1.5 text-xs font-medium text-white">
+                      {conversation.unread_count}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ConversationList;
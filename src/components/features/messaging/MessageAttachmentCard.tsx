@@ -0,0 +1,43 @@
+// src/components/features/messaging/MessageAttachmentCard.tsx - Rich card for a workout, menu plan or measurement shared in a message
+import React from 'react';
+import Icon, { IconName } from '@/components/atoms/Icon';
+import { MessageAttachment, MessageAttachmentType } from '@/lib/api';
+import { MESSAGE_ATTACHMENT_LABELS } from '@/lib/messaging';
+
+const ATTACHMENT_ICONS: Record<MessageAttachmentType, IconName> = {
+  workout: 'dumbbell',
+  menu_plan: 'calendar',
+  measurement: 'chart-line'
+};
+
+interface MessageAttachmentCardProps {
+  attachment: MessageAttachment;
+  onRemove?: () => void;
+}
+
+const MessageAttachmentCard: React.FC<MessageAttachmentCardProps> = ({ attachment, onRemove }) => (
+  <div className="flex items-start rounded-lg border border-gray-200 bg-white p-3 text-left text-[#040b07]">
+    <div className="mr-3 flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-lg bg-blue-50 text-[#007bff]">
+      <Icon name={ATTACHMENT_ICONS[attachment.type]} size={18} />
+    </div>
+    <div className="min-w-0 flex-1">
+      <p className="text-xs font-medium uppercase tracking-wider text-gray-500">
+        {MESSAGE_ATTACHMENT_LABELS[attachment.type]}
+      </p>
+      <p className="truncate text-sm font-medium">{attachment.title}</p>
+      <p className="text-xs text-gray-600">{attachment.summary}</p>
+    </div>
+    {onRemove && (
+      <button
+        type="button"
+        onClick={onRemove}
+        className="ml-2 text-gray-400 hover:text-gray-600 transition-colors"
+        aria-label="Remove attachment"
+      >
+        <Icon name="x" size={16} />
+      </button>
+    )}
+  </div>
+);
+
+export default MessageAttachmentCard;
@@ -0,0 +1,194 @@
+// src/components/features/messaging/MessageThread.tsx - One conversation: messages, read receipts, typing indicator and composer
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/atoms/Button';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import AttachmentPicker from '@/components/features/messaging/AttachmentPicker';
+import MessageAttachmentCard from '@/components/features/messaging/MessageAttachmentCard';
+import { ConversationSummary, Message, MessageAttachment, UserType } from '@/lib/api';
+import { showErrorToast } from '@/lib/errors';
+import { MESSAGE_MAX_LENGTH } from '@/lib/messaging';
+import { useConversationThread } from '@/pages/features/messaging/hooks/useMessaging';
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const formatMessageTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface MessageBubbleProps {
+  message: Message;
+  isOwn: boolean;
+  showReceipt: boolean;
+}
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isOwn, showReceipt }) => (
+  <div className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+    <div
+      className={`max-w-[80%] space-y-2 rounded-lg px-3 py-2 text-sm ${
+        isOwn ? 'bg-[#007bff] text-white' : 'bg-gray-100 text-[#040b07]'
+      }`}
+    >
+      {message.body && <p className="whitespace-pre-wrap break-words">{message.body}</p>}
+      {message.attachment && <MessageAttachmentCard attachment={message.attachment} />}
+    </div>
+    <span className="mt-1 text-xs text-gray-400">
+      {formatMessageTime(message.created_at)}
+      {showReceipt && ` • ${message.read_at ? 'Seen' : 'Sent'}`}
+    </span>
+  </div>
+);
+
+const TypingIndicator: React.FC<{ name: string }> = ({ name }) => (
+  <div className="flex items-center text-xs text-gray-500" role="status">
+    <span className="mr-2 flex space-x-1">
+      <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-gray-400" />
+      <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-gray-400 [animation-delay:150ms]" />
+      <span className="h-1.5 w-1.5 animate-bounce rounded-full bg-gray-400 [animation-delay:300ms]" />
+    </span>
+    {name} is typing…
+  </div>
+);
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+interface MessageThreadProps {
+  conversation: ConversationSummary;
+  userType: UserType;
+  userId: string | null;
+}
+
+const MessageThread: React.FC<MessageThreadProps> = ({ conversation, userType, userId }) => {
+  const { messages, isLoading, error, isOtherTyping, notifyTyping, sendMessage } = useConversationThread(conversation, userId);
+  const [body, setBody] = useState('');
+  const [attachment, setAttachment] = useState<MessageAttachment | null>(null);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, isOtherTyping]);
+
+  useEffect(() => {
+    if (error) showErrorToast(error, 'Failed to load messages');
+  }, [error]);
+
+  const lastOwnMessageId = [...messages].reverse().find(message => message.sender_id === userId)?.id;
+  const canSend = conversation.messaging_enabled && !isSending && (body.trim().length > 0 || attachment !== null);
+
+  const handleSend = async (event: React.SyntheticEvent) => {
+    event.preventDefault();
+    if (!canSend) return;
+
+    try {
+      setIsSending(true);
+      await sendMessage({ body, attachment });
+      setBody('');
+      setAttachment(null);
+    } catch (error) {
+      showErrorToast(error, 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      handleSend(event);
+    }
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="border-b border-gray-200 px-4 py-3">
+        <p className="font-medium text-[#040b07]">{conversation.participant_name}</p>
+        <p className="text-xs text-gray-500">{conversation.participant_email}</p>
+      </div>
+
+      <div className="flex-1 space-y-3 overflow-y-auto p-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="md" color="primary" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500">
+            Start the conversation with {conversation.participant_name}
+          </p>
+        ) : (
+          messages.map(message => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              isOwn={message.sender_id === userId}
+              showReceipt={message.id === lastOwnMessageId}
+            />
+          ))
+        )}
+        {isOtherTyping && <TypingIndicator name={conversation.participant_name} />}
+        <div ref={bottomRef} />
+      </div>
+
+      {conversation.messaging_enabled ? (
+        <form onSubmit={handleSend} className="space-y-2 border-t border-gray-200 p-4">
+          {attachment && (
+            <MessageAttachmentCard attachment={attachment} onRemove={() => setAttachment(null)} />
+          )}
+          <div className="flex items-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => setIsPickerOpen(true)}
+              aria-label="Attach a workout, menu plan or measurement"
+            >
+              <Icon name="paperclip" size={18} />
+            </Button>
+            <textarea
+              value={body}
+              onChange={event => {
+                setBody(event.target.value);
+                notifyTyping();
+              }}
+              onKeyDown={handleKeyDown}
+              maxLength={MESSAGE_MAX_LENGTH}
+              rows={2}
+              placeholder="Write a message…"
+              aria-label="Message"
+              className="flex-1 resize-none rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-[#007bff] focus:outline-none focus:ring-1 focus:ring-[#007bff]"
+            />
+            <Button type="submit" variant="blue" disabled={!canSend} isLoading={isSending}>
+              Send
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="border-t border-gray-200 bg-gray-50 p-4 text-center text-sm text-gray-600">
+          {userType === 'trainer'
+            ? 'Upgrade to the Pro plan to message your clients.'
+            : "Your trainer's plan doesn't include messaging yet."}
+        </div>
+      )}
+
+      <AttachmentPicker
+        isOpen={isPickerOpen}
+        userType={userType}
+        clientId={conversation.client_id}
+        onSelect={selected => {
+          setAttachment(selected);
+          setIsPickerOpen(false);
+        }}
+        onClose={() => setIsPickerOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default MessageThread;
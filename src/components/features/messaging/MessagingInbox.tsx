@@ -0,0 +1,95 @@
+// src/components/features/messaging/MessagingInbox.tsx - Conversation list beside the open thread, shared by the client and trainer pages
+import React, { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/atoms/Button';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card } from '@/components/organisms/Card';
+import ConversationList from '@/components/features/messaging/ConversationList';
+import MessageThread from '@/components/features/messaging/MessageThread';
+import { UserType } from '@/lib/api';
+import { DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { showErrorToast } from '@/lib/errors';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import { useConversations } from '@/pages/features/messaging/hooks/useMessaging';
+
+interface MessagingInboxProps {
+  userType: UserType;
+}
+
+const MessagingInbox: React.FC<MessagingInboxProps> = ({ userType }) => {
+  const navigate = useNavigate();
+  const { clientTrainerId } = useParams<{ clientTrainerId: string }>();
+  const { user } = useAuth();
+  const { data, error, isLoading, refetch } = useConversations(userType);
+
+  const messagesRoute = userType === USER_TYPES.CLIENT ? DASHBOARD_ROUTES.CLIENT.MESSAGES : DASHBOARD_ROUTES.TRAINER.MESSAGES;
+  const conversations = data || [];
+  const selected = conversations.find(conversation => conversation.client_trainer_id === clientTrainerId) || null;
+
+  useEffect(() => {
+    if (error) showErrorToast(error, 'Failed to load conversations');
+  }, [error]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" color="primary" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card className="p-8 text-center">
+        <p className="mb-4 text-sm text-gray-600">Unable to load your conversations</p>
+        <Button variant="outline" size="sm" onClick={refetch}>
+          Try Again
+        </Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="flex h-[calc(100vh-12rem)] min-h-[480px] overflow-hidden">
+      <div className={`w-full border-r border-gray-200 md:block md:w-80 md:flex-shrink-0 overflow-y-auto ${selected ? 'hidden' : 'block'}`}>
+        <ConversationList
+          conversations={conversations}
+          selectedId={selected?.client_trainer_id ?? null}
+          userId={user?.id ?? null}
+          onSelect={conversation => navigate(`${messagesRoute}/${conversation.client_trainer_id}`)}
+        />
+      </div>
+
+      <div className={`flex-1 flex-col ${selected ? 'flex' : 'hidden md:flex'}`}>
+        {selected ? (
+          <>
+            <button
+              type="button"
+              onClick={() => navigate(messagesRoute)}
+              className="flex items-center px-4 pt-3 text-sm text-[#007bff] md:hidden"
+            >
+              <Icon name="x" size={14} className="mr-1" />
+              Close conversation
+            </button>
+            <div className="min-h-0 flex-1">
+              <MessageThread
+                key={selected.client_trainer_id}
+                conversation={selected}
+                userType={userType}
+                userId={user?.id ?? null}
+              />
+            </div>
+          </>
+        ) : (
+          <div className="flex flex-1 flex-col items-center justify-center p-8 text-center text-gray-500">
+            <Icon name="message" size={32} className="mb-3 text-gray-300" />
+            <p className="text-sm">Select a conversation to start messaging</p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default MessagingInbox;
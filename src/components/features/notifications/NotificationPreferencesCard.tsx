@@ -0,0 +1,95 @@
+// src/components/features/notifications/NotificationPreferencesCard.tsx - Email on/off switches for the notifications meant for the user's role
+import React, { useEffect, useState } from 'react';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import {
+  NotificationType,
+  NotificationsAPI,
+  UpdateNotificationPreferencesData,
+  UserType,
+  queryKeys
+} from '@/lib/api';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { NOTIFICATION_CATALOG } from '@/lib/notifications';
+import { useQuery } from '@/lib/queryCache';
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+interface NotificationPreferencesCardProps {
+  userType: UserType;
+  // Shown above the switches, e.g. when the trainer's tier does not include emails
+  notice?: React.ReactNode;
+}
+
+const NotificationPreferencesCard: React.FC<NotificationPreferencesCardProps> = ({ userType, notice }) => {
+  const { data: preferences, error, isLoading } = useQuery(queryKeys.notificationPreferences, NotificationsAPI.getPreferences);
+  const [savingField, setSavingField] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (error) showErrorToast(error, 'Failed to load notification settings');
+  }, [error]);
+
+  const types = (Object.keys(NOTIFICATION_CATALOG) as NotificationType[])
+    .filter(type => NOTIFICATION_CATALOG[type].audience === userType);
+
+  const handleToggle = async (field: keyof UpdateNotificationPreferencesData, enabled: boolean) => {
+    try {
+      setSavingField(field);
+      await NotificationsAPI.updatePreferences({ [field]: enabled });
+      showSuccessToast('Notification settings saved');
+    } catch (error) {
+      showErrorToast(error, 'Failed to save notification settings');
+    } finally {
+      setSavingField(null);
+    }
+  };
+
+  const renderSwitch = (field: keyof UpdateNotificationPreferencesData, label: string, description: string, disabled = false) => (
+    <label
+      key={field}
+      className={`flex items-start justify-between gap-4 py-3 ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+    >
+      <div>
+        <p className="text-sm font-medium text-[#040b07]">{label}</p>
+        <p className="text-xs text-gray-500">{description}</p>
+      </div>
+      <input
+        type="checkbox"
+        className="mt-1 h-4 w-4"
+        checked={!!preferences?.[field]}
+        disabled={disabled || savingField !== null}
+        onChange={event => handleToggle(field, event.target.checked)}
+      />
+    </label>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Notifications</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {notice}
+        {isLoading || !preferences ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner size="md" color="primary" />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {renderSwitch('email_enabled', 'Send me emails', 'Turn this off to stop all notification emails')}
+            {types.map(type => renderSwitch(
+              type,
+              NOTIFICATION_CATALOG[type].label,
+              NOTIFICATION_CATALOG[type].description,
+              !preferences.email_enabled
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NotificationPreferencesCard;
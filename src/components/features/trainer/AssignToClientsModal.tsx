@@ -0,0 +1,430 @@
+// src/components/features/trainer/AssignToClientsModal.tsx - Assign a workout or menu plan to roster clients
+import React, { useState, useEffect, useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/molecules/Form';
+import { TrainerAPI, TrainerClient, AssignmentConflict, Program } from '@/lib/api';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { addDays, getTodayDate } from '@/lib/utils';
+import { buildProgramSchedule } from '@/lib/programs';
+import { NotificationService } from '@/lib/notifications';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface AssignmentTarget {
+  type: 'workout' | 'menu_plan' | 'program';
+  id: string;
+  name: string;
+  program?: Program; // required for programs, used to preview the generated schedule
+}
+
+interface AssignToClientsModalProps {
+  target: AssignmentTarget | null;
+  onClose: () => void;
+  onAssigned?: () => void;
+}
+
+type RepeatOption = 'once' | 'weekly' | 'biweekly';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const REPEAT_OPTIONS: { value: RepeatOption; label: string; intervalDays: number }[] = [
+  { value: 'once', label: 'Once', intervalDays: 0 },
+  { value: 'weekly', label: 'Every week', intervalDays: 7 },
+  { value: 'biweekly', label: 'Every 2 weeks', intervalDays: 14 }
+];
+
+const OCCURRENCE_OPTIONS = ['2', '4', '6', '8', '12'];
+
+const DURATION_OPTIONS = [
+  { value: 'ongoing', label: 'Until replaced' },
+  { value: '1', label: '1 week' },
+  { value: '2', label: '2 weeks' },
+  { value: '4', label: '4 weeks' },
+  { value: '8', label: '8 weeks' },
+  { value: '12', label: '12 weeks' }
+];
+
+const TARGET_LABELS: Record<AssignmentTarget['type'], string> = {
+  workout: 'Workout',
+  menu_plan: 'Menu Plan',
+  program: 'Program'
+};
+
+const SELECT_CLASS_NAME = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const assignSchema = z.object({
+  client_ids: z.array(z.string()).min(1, 'Select at least one client'),
+  start_date: z.string().min(1, 'Date is required'),
+  repeat: z.enum(['once', 'weekly', 'biweekly']),
+  occurrences: z.string(),
+  duration: z.string(),
+  trainer_notes: z.string().optional()
+});
+
+type AssignFormValues = z.infer<typeof assignSchema>;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+// Dates are handled as YYYY-MM-DD strings to match the date columns
+const buildWorkoutDates = (startDate: string, repeat: RepeatOption, occurrences: number) => {
+  const intervalDays = REPEAT_OPTIONS.find(option => option.value === repeat)?.intervalDays || 0;
+  if (!startDate) return [];
+  if (intervalDays === 0) return [startDate];
+  return Array.from({ length: occurrences }, (_, index) => addDays(startDate, index * intervalDays));
+};
+
+const getMenuPlanEndDate = (startDate: string, duration: string) => {
+  if (duration === 'ongoing' || !startDate) return null;
+  return addDays(startDate, Number(duration) * 7 - 1);
+};
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'ongoing';
+  return new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric'
+  });
+};
+
+const getDefaultValues = (): AssignFormValues => ({
+  client_ids: [],
+  start_date: getTodayDate(),
+  repeat: 'once',
+  occurrences: '4',
+  duration: 'ongoing',
+  trainer_notes: ''
+});
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const AssignToClientsModal: React.FC<AssignToClientsModalProps> = ({ target, onClose, onAssigned }) => {
+  const [clients, setClients] = useState<TrainerClient[]>([]);
+  const [loadingClients, setLoadingClients] = useState(false);
+  const [conflicts, setConflicts] = useState<AssignmentConflict[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<AssignFormValues>({
+    resolver: zodResolver(assignSchema),
+    defaultValues: getDefaultValues()
+  });
+
+  const isWorkout = target?.type === 'workout';
+  const isMenuPlan = target?.type === 'menu_plan';
+  const targetLabel = target ? TARGET_LABELS[target.type] : '';
+  const [clientIds, startDate, repeat, occurrences, duration] = form.watch([
+    'client_ids', 'start_date', 'repeat', 'occurrences', 'duration'
+  ]);
+
+  const programSchedule = useMemo(
+    () => (target?.program ? buildProgramSchedule(target.program, startDate) : []),
+    [target?.program, startDate]
+  );
+  // Workouts and programs both land as dated client_workouts rows
+  const workoutDates = useMemo(() => {
+    if (target?.type === 'program') return programSchedule.map(session => session.assigned_date);
+    if (target?.type === 'workout') return buildWorkoutDates(startDate, repeat, Number(occurrences));
+    return [];
+  }, [target?.type, programSchedule, startDate, repeat, occurrences]);
+  const menuPlanEndDate = useMemo(() => getMenuPlanEndDate(startDate, duration), [startDate, duration]);
+
+  // Joined keys keep the effects below keyed on values rather than array identity
+  const targetId = target?.id;
+  const clientKey = (clientIds || []).join(',');
+  const datesKey = workoutDates.join(',');
+
+  const { reset } = form;
+  useEffect(() => {
+    if (!targetId) return;
+    reset(getDefaultValues());
+    setConflicts([]);
+
+    const fetchClients = async () => {
+      try {
+        setLoadingClients(true);
+        const roster = await TrainerAPI.getClients();
+        setClients(roster.filter(client => client.status === 'active'));
+      } catch (error) {
+        showErrorToast(error, 'Failed to load clients');
+      } finally {
+        setLoadingClients(false);
+      }
+    };
+    fetchClients();
+  }, [targetId, reset]);
+
+  // Re-check overlaps whenever the selection or schedule changes
+  useEffect(() => {
+    if (!targetId || !clientKey) {
+      setConflicts([]);
+      return;
+    }
+
+    const selectedIds = clientKey.split(',');
+    let cancelled = false;
+    const checkConflicts = async () => {
+      try {
+        const found = isMenuPlan
+          ? await TrainerAPI.getMenuPlanAssignmentConflicts(selectedIds, startDate, menuPlanEndDate)
+          : await TrainerAPI.getWorkoutAssignmentConflicts(selectedIds, datesKey ? datesKey.split(',') : []);
+        if (!cancelled) setConflicts(found);
+      } catch (error) {
+        // The overlap warning is advisory, so assigning stays possible without it
+        console.error('Error checking assignment conflicts:', error);
+        if (!cancelled) setConflicts([]);
+      }
+    };
+    checkConflicts();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [targetId, isMenuPlan, clientKey, datesKey, startDate, menuPlanEndDate]);
+
+  if (!target) return null;
+
+  const getClientName = (clientId: string) =>
+    clients.find(client => client.client_id === clientId)?.full_name || 'Client';
+
+  const handleToggleClient = (clientId: string) => {
+    const selected = form.getValues('client_ids');
+    const next = selected.includes(clientId)
+      ? selected.filter(id => id !== clientId)
+      : [...selected, clientId];
+    form.setValue('client_ids', next, { shouldValidate: form.formState.isSubmitted });
+  };
+
+  const assignTarget = (values: AssignFormValues) => {
+    switch (target.type) {
+      case 'workout':
+        return TrainerAPI.assignWorkoutToClients({
+          client_ids: values.client_ids,
+          workout_id: target.id,
+          assigned_dates: workoutDates,
+          trainer_notes: values.trainer_notes
+        });
+      case 'program':
+        return TrainerAPI.assignProgramToClients({
+          client_ids: values.client_ids,
+          program_id: target.id,
+          start_date: values.start_date,
+          trainer_notes: values.trainer_notes
+        });
+      default:
+        return TrainerAPI.assignMenuPlanToClients({
+          client_ids: values.client_ids,
+          menu_plan_id: target.id,
+          start_date: values.start_date,
+          end_date: menuPlanEndDate,
+          trainer_notes: values.trainer_notes
+        });
+    }
+  };
+
+  // Emails go out in the background; a failed send never undoes the assignment
+  const notifyClients = (assignedIds: string[]) => {
+    if (target.type === 'menu_plan') {
+      NotificationService.menuPlanAssigned(assignedIds);
+    } else {
+      NotificationService.workoutAssigned(assignedIds);
+    }
+  };
+
+  const handleAssign = async (values: AssignFormValues) => {
+    try {
+      setSubmitting(true);
+      notifyClients(await assignTarget(values));
+
+      const clientLabel = values.client_ids.length === 1 ? '1 client' : `${values.client_ids.length} clients`;
+      showSuccessToast(`${target.name} assigned to ${clientLabel}`);
+      onAssigned?.();
+      onClose();
+    } catch (error) {
+      showErrorToast(error, `Failed to assign ${targetLabel.toLowerCase()}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Render functions
+  const renderConflict = (conflict: AssignmentConflict, index: number) => (
+    <li key={`${conflict.client_id}-${index}`}>
+      {getClientName(conflict.client_id)} already has <span className="font-medium">{conflict.name}</span>
+      {isMenuPlan
+        ? ` (${formatDate(conflict.start_date)} - ${formatDate(conflict.end_date)})`
+        : ` on ${formatDate(conflict.start_date)}`}
+    </li>
+  );
+
+  const renderScheduleFields = () => {
+    if (target.type === 'program') {
+      const lastSession = programSchedule[programSchedule.length - 1];
+      return (
+        <p className="text-xs text-gray-500">
+          {programSchedule.length} sessions over {target.program?.duration_weeks || 0} weeks
+          {lastSession && `, last one on ${formatDate(lastSession.assigned_date)}`}
+        </p>
+      );
+    }
+
+    return isWorkout ? (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField control={form.control} name="repeat" render={({ field }) => (
+          <FormItem>
+            <FormLabel>Repeat</FormLabel>
+            <FormControl>
+              <select {...field} className={SELECT_CLASS_NAME}>
+                {REPEAT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        {repeat !== 'once' && (
+          <FormField control={form.control} name="occurrences" render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sessions</FormLabel>
+              <FormControl>
+                <select {...field} className={SELECT_CLASS_NAME}>
+                  {OCCURRENCE_OPTIONS.map(count => <option key={count} value={count}>{count} sessions</option>)}
+                </select>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )} />
+        )}
+      </div>
+    ) : (
+      <FormField control={form.control} name="duration" render={({ field }) => (
+        <FormItem>
+          <FormLabel>Duration</FormLabel>
+          <FormControl>
+            <select {...field} className={SELECT_CLASS_NAME}>
+              {DURATION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )} />
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-auto p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-[#040b07]">
+              Assign {targetLabel}
+            </h2>
+            <p className="text-sm text-gray-600">{target.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <Icon name="x" size={20} />
+          </button>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleAssign)} className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Clients</label>
+              <div className="mt-2 max-h-48 overflow-y-auto border border-gray-200 rounded-md p-3">
+                {loadingClients ? (
+                  <div className="flex justify-center py-4">
+                    <LoadingSpinner size="sm" />
+                  </div>
+                ) : clients.length === 0 ? (
+                  <p className="text-gray-500 text-center py-4">You have no active clients yet.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {clients.map(client => (
+                      <label key={client.client_id} className="flex items-center space-x-3 p-2 hover:bg-gray-50 rounded cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={(clientIds || []).includes(client.client_id)}
+                          onChange={() => handleToggleClient(client.client_id)}
+                        />
+                        <div>
+                          <span className="font-medium">{client.full_name}</span>
+                          <p className="text-xs text-gray-500">{client.email}</p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {form.formState.errors.client_ids && (
+                <p className="text-sm font-medium text-destructive mt-2">{form.formState.errors.client_ids.message}</p>
+              )}
+            </div>
+
+            <FormField control={form.control} name="start_date" render={({ field }) => (
+              <FormItem>
+                <FormLabel>{isWorkout ? 'Date' : 'Start Date'}</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+
+            {renderScheduleFields()}
+
+            {isWorkout && workoutDates.length > 1 && (
+              <p className="text-xs text-gray-500">
+                Scheduled for {workoutDates.map(formatDate).join(', ')}
+              </p>
+            )}
+
+            <FormField control={form.control} name="trainer_notes" render={({ field }) => (
+              <FormItem>
+                <FormLabel>Notes (optional)</FormLabel>
+                <FormControl>
+                  <textarea {...field} className="flex h-20 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2" placeholder="Anything the client should know..." />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )} />
+
+            {conflicts.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                <p className="font-medium mb-1">Overlapping {isMenuPlan ? 'menu plans' : 'workouts'}</p>
+                <ul className="list-disc ml-5 space-y-1">
+                  {conflicts.map(renderConflict)}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={onClose} disabled={submitting}>Cancel</Button>
+              <Button type="submit" variant="blue" isLoading={submitting} disabled={clients.length === 0}>
+                {conflicts.length > 0 ? 'Assign Anyway' : 'Assign'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
+
+export default AssignToClientsModal;
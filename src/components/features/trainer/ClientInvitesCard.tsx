@@ -0,0 +1,230 @@
+// src/components/features/trainer/ClientInvitesCard.tsx - Create, copy and revoke invite links for new clients
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/atoms/Button';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { TrainerAPI, TrainerInvite, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import {
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MODE_LABELS,
+  INVITE_STATUS_LABELS,
+  INVITE_STATUS_STYLES,
+  InviteMode,
+  buildInviteUrl,
+  getInviteExpiry,
+  toMaxUses
+} from '@/lib/invites';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+interface InviteDraft {
+  tierId: string;
+  mode: InviteMode;
+  expiryDays: number | null;
+}
+
+const SELECT_CLASS_NAME = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const DEFAULT_EXPIRY_DAYS = 7;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatUses = (invite: TrainerInvite) =>
+  invite.max_uses === null ? `${invite.use_count} joined` : `${invite.use_count}/${invite.max_uses} used`;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+const ClientInvitesCard: React.FC = () => {
+  const [draft, setDraft] = useState<InviteDraft>({ tierId: '', mode: 'single', expiryDays: DEFAULT_EXPIRY_DAYS });
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const invitesQuery = useQuery(queryKeys.invites, TrainerAPI.getInvites);
+  const tiersQuery = useQuery(queryKeys.subscriptionTiers, TrainerAPI.getTrainerSubscriptionTiers);
+  const tiers = tiersQuery.data || [];
+  const queryError = invitesQuery.error || tiersQuery.error;
+
+  useEffect(() => {
+    if (queryError) showErrorToast(queryError, 'Failed to load invites');
+  }, [queryError]);
+
+  // Default to the first plan once the plans arrive
+  useEffect(() => {
+    const firstTierId = tiersQuery.data?.[0]?.id;
+    if (firstTierId) setDraft(prev => (prev.tierId ? prev : { ...prev, tierId: firstTierId }));
+  }, [tiersQuery.data]);
+
+  const copyLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(buildInviteUrl(code));
+      showSuccessToast('Invite link copied');
+    } catch (error) {
+      showErrorToast(error, 'Could not copy the link');
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      const invite = await TrainerAPI.createInvite({
+        trainer_subscription_tier_id: draft.tierId,
+        max_uses: toMaxUses(draft.mode),
+        expires_at: getInviteExpiry(draft.expiryDays)
+      });
+      await copyLink(invite.code);
+    } catch (error) {
+      showErrorToast(error, 'Failed to create invite');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invite: TrainerInvite) => {
+    if (!confirm('Revoke this invite? The link will stop working, but clients who already joined stay linked.')) return;
+
+    try {
+      setRevokingId(invite.id);
+      await TrainerAPI.revokeInvite(invite.id);
+      showSuccessToast('Invite revoked');
+    } catch (error) {
+      showErrorToast(error, 'Failed to revoke invite');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  // Render functions
+  const renderInvite = (invite: TrainerInvite) => (
+    <li key={invite.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-sm font-medium tracking-wider">{invite.code}</span>
+          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${INVITE_STATUS_STYLES[invite.status]}`}>
+            {INVITE_STATUS_LABELS[invite.status]}
+          </span>
+        </div>
+        <p className="text-xs text-gray-500">
+          {invite.tier_name} · {formatUses(invite)} · {invite.expires_at ? `Expires ${formatDate(invite.expires_at)}` : 'No expiry'}
+        </p>
+      </div>
+      {invite.status === 'active' && (
+        <div className="flex gap-2 sm:flex-shrink-0">
+          <Button variant="outline" size="sm" onClick={() => copyLink(invite.code)}>Copy link</Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-gray-600"
+            onClick={() => handleRevoke(invite)}
+            isLoading={revokingId === invite.id}
+            disabled={revokingId !== null}
+          >
+            Revoke
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+
+  const renderForm = () => {
+    if (tiers.length === 0) {
+      return (
+        <p className="text-sm text-gray-600">
+          Invites sign clients up to one of your plans.{' '}
+          <Link to="/trainer/subscription-plans" className="text-[#007bff] hover:underline">Create a plan</Link> first.
+        </p>
+      );
+    }
+
+    return (
+      <div className="grid gap-3 sm:grid-cols-[2fr_2fr_1fr_auto] sm:items-end">
+        <label className="text-sm">
+          <span className="block font-medium mb-1">Plan</span>
+          <select
+            className={SELECT_CLASS_NAME}
+            value={draft.tierId}
+            onChange={event => setDraft(prev => ({ ...prev, tierId: event.target.value }))}
+          >
+            {tiers.map(tier => (
+              <option key={tier.id} value={tier.id}>{tier.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block font-medium mb-1">Can be used by</span>
+          <select
+            className={SELECT_CLASS_NAME}
+            value={draft.mode}
+            onChange={event => setDraft(prev => ({ ...prev, mode: event.target.value as InviteMode }))}
+          >
+            {(Object.keys(INVITE_MODE_LABELS) as InviteMode[]).map(mode => (
+              <option key={mode} value={mode}>{INVITE_MODE_LABELS[mode]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          <span className="block font-medium mb-1">Expires after</span>
+          <select
+            className={SELECT_CLASS_NAME}
+            value={draft.expiryDays ?? ''}
+            onChange={event => setDraft(prev => ({ ...prev, expiryDays: event.target.value ? Number(event.target.value) : null }))}
+          >
+            {INVITE_EXPIRY_OPTIONS.map(option => (
+              <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <Button variant="blue" onClick={handleCreate} isLoading={isCreating} disabled={!draft.tierId}>
+          Create link
+        </Button>
+      </div>
+    );
+  };
+
+  const invites = invitesQuery.data || [];
+  const activeInvites = invites.filter(invite => invite.status === 'active');
+  const pastInvites = invites.filter(invite => invite.status !== 'active');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Invite Clients</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {invitesQuery.isLoading || tiersQuery.isLoading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            {renderForm()}
+
+            {activeInvites.length > 0 && (
+              <ul className="divide-y divide-gray-100 border-t border-gray-100">
+                {activeInvites.map(renderInvite)}
+              </ul>
+            )}
+
+            {pastInvites.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-gray-600">Past invites ({pastInvites.length})</summary>
+                <ul className="divide-y divide-gray-100">
+                  {pastInvites.map(renderInvite)}
+                </ul>
+              </details>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClientInvitesCard;
@@ -0,0 +1,257 @@
+// src/components/features/trainer/FoodCatalogPanel.tsx - Trainer food catalog with per-100g nutrients
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/molecules/Form';
+import { TrainerAPI, Food, FoodCategory } from '@/lib/api';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { FOOD_CATEGORY_LABELS, searchFoods, formatFoodNutrients } from '@/lib/foods';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+interface FoodCatalogPanelProps {
+  foods: Food[];
+  onFoodsChange: (foods: Food[]) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SELECT_CLASS_NAME = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const nutrientValue = z.string().regex(/^\d+([.,]\d+)?$/, 'Enter a number');
+
+const foodSchema = z.object({
+  name: z.string().min(1, 'Food name is required'),
+  category: z.enum(['protein', 'dairy_eggs', 'grains', 'legumes', 'vegetables', 'fruit', 'fats', 'other']),
+  calories: nutrientValue,
+  protein: nutrientValue,
+  carbohydrates: nutrientValue,
+  fat: nutrientValue
+});
+
+type FoodFormValues = z.infer<typeof foodSchema>;
+
+const FOOD_FORM_DEFAULTS: FoodFormValues = {
+  name: '', category: 'other', calories: '', protein: '', carbohydrates: '', fat: ''
+};
+
+const toNumber = (value: string) => Number(value.replace(',', '.'));
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function FoodCatalogPanel({ foods, onFoodsChange }: FoodCatalogPanelProps) {
+  const [query, setQuery] = useState('');
+  const [showFoodForm, setShowFoodForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [seeding, setSeeding] = useState(false);
+
+  const foodForm = useForm<FoodFormValues>({
+    resolver: zodResolver(foodSchema),
+    defaultValues: FOOD_FORM_DEFAULTS
+  });
+
+  const visibleFoods = searchFoods(foods, query);
+  const categories = (Object.keys(FOOD_CATEGORY_LABELS) as FoodCategory[])
+    .filter(category => visibleFoods.some(food => food.category === category));
+
+  const handleSeed = async () => {
+    try {
+      setSeeding(true);
+      const added = await TrainerAPI.seedFoodCatalog();
+      if (added > 0) {
+        onFoodsChange(await TrainerAPI.getFoods());
+        showSuccessToast(`Imported ${added} foods`);
+      } else {
+        showSuccessToast('All starter foods are already in your catalog');
+      }
+    } catch (error) {
+      showErrorToast(error, 'Failed to import foods');
+    } finally {
+      setSeeding(false);
+    }
+  };
+
+  const handleCreateFood = async (data: FoodFormValues) => {
+    try {
+      setSubmitting(true);
+      const food = await TrainerAPI.createFood({
+        name: data.name,
+        category: data.category,
+        calories: toNumber(data.calories),
+        protein: toNumber(data.protein),
+        carbohydrates: toNumber(data.carbohydrates),
+        fat: toNumber(data.fat)
+      });
+      onFoodsChange([...foods, food].sort((a, b) => a.name.localeCompare(b.name)));
+      showSuccessToast('Food added to catalog');
+      foodForm.reset(FOOD_FORM_DEFAULTS);
+      setShowFoodForm(false);
+    } catch (error) {
+      showErrorToast(error, 'Failed to add food');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteFood = async (food: Food) => {
+    if (!confirm(`Remove ${food.name} from your catalog?`)) return;
+    try {
+      await TrainerAPI.deleteFood(food.id);
+      onFoodsChange(foods.filter(item => item.id !== food.id));
+      showSuccessToast('Food removed');
+    } catch (error) {
+      showErrorToast(error, 'Failed to remove food');
+    }
+  };
+
+  const renderFoodForm = () => (
+    <Card>
+      <CardHeader><CardTitle>Add Food</CardTitle></CardHeader>
+      <CardContent>
+        <Form {...foodForm}>
+          <form onSubmit={foodForm.handleSubmit(handleCreateFood)} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField control={foodForm.control} name="name" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Food Name</FormLabel>
+                  <FormControl><Input {...field} placeholder="e.g., Protein bar, brand X" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={foodForm.control} name="category" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <FormControl>
+                    <select {...field} className={SELECT_CLASS_NAME}>
+                      {Object.entries(FOOD_CATEGORY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </div>
+            <p className="text-xs text-gray-500">Nutrients per 100 g, as printed on most labels.</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <FormField control={foodForm.control} name="calories" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Calories</FormLabel>
+                  <FormControl><Input {...field} inputMode="decimal" placeholder="165" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={foodForm.control} name="protein" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Protein (g)</FormLabel>
+                  <FormControl><Input {...field} inputMode="decimal" placeholder="31" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={foodForm.control} name="carbohydrates" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Carbs (g)</FormLabel>
+                  <FormControl><Input {...field} inputMode="decimal" placeholder="0" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={foodForm.control} name="fat" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Fat (g)</FormLabel>
+                  <FormControl><Input {...field} inputMode="decimal" placeholder="3.6" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+            </div>
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={() => setShowFoodForm(false)} disabled={submitting}>Cancel</Button>
+              <Button type="submit" variant="blue" isLoading={submitting}>Add Food</Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search your catalog..."
+          className="sm:max-w-xs"
+        />
+        <div className="flex space-x-3 sm:ml-auto">
+          <Button variant="outline" onClick={handleSeed} isLoading={seeding}>Import Starter Foods</Button>
+          <Button variant="blue" onClick={() => setShowFoodForm(true)} disabled={showFoodForm}>Add Food</Button>
+        </div>
+      </div>
+
+      {showFoodForm && renderFoodForm()}
+
+      {foods.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 mb-4">
+              <Icon name="menu" size={24} className="text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Foods Yet</h3>
+            <p className="text-gray-600 mb-6">
+              Import the starter catalog of common foods, or add your own, then build meals from ingredients.
+            </p>
+            <Button variant="blue" onClick={handleSeed} isLoading={seeding}>Import Starter Foods</Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {categories.map(category => (
+            <div key={category}>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{FOOD_CATEGORY_LABELS[category]}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {visibleFoods.filter(food => food.category === category).map(food => (
+                  <div key={food.id} className="flex items-start justify-between p-3 bg-white rounded border">
+                    <div>
+                      <p className="text-sm font-medium">
+                        {food.name}
+                        {food.source === 'custom' && (
+                          <span className="ml-2 px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-800">Custom</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-500">{formatFoodNutrients(food)}</p>
+                    </div>
+                    <button
+                      onClick={() => handleDeleteFood(food)}
+                      className="text-red-400 hover:text-red-600 transition-colors"
+                    >
+                      <Icon name="x" size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+          {visibleFoods.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-6">No foods match "{query}".</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
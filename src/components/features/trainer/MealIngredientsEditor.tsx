@@ -0,0 +1,143 @@
+// src/components/features/trainer/MealIngredientsEditor.tsx - Build a meal from catalog foods with gram amounts
+import { useState } from 'react';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import { Food } from '@/lib/api';
+import { searchFoods, formatFoodNutrients, getIngredientTotals } from '@/lib/foods';
+import { getIngredientMacros, roundMacros } from '@/lib/macros';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// Grams stay a string while editing, like the other form inputs
+export interface IngredientDraft {
+  food_id: string;
+  grams: string;
+}
+
+interface MealIngredientsEditorProps {
+  foods: Food[];
+  ingredients: IngredientDraft[];
+  onChange: (ingredients: IngredientDraft[]) => void;
+  error?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_GRAMS = '100';
+const MAX_SEARCH_RESULTS = 8;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function MealIngredientsEditor({ foods, ingredients, onChange, error }: MealIngredientsEditorProps) {
+  const [query, setQuery] = useState('');
+
+  const selectedIds = new Set(ingredients.map(ingredient => ingredient.food_id));
+  const results = query.trim()
+    ? searchFoods(foods, query).filter(food => !selectedIds.has(food.id)).slice(0, MAX_SEARCH_RESULTS)
+    : [];
+  const totals = getIngredientTotals(foods, ingredients);
+
+  const addIngredient = (food: Food) => {
+    onChange([...ingredients, { food_id: food.id, grams: DEFAULT_GRAMS }]);
+    setQuery('');
+  };
+
+  const updateGrams = (index: number, grams: string) => {
+    onChange(ingredients.map((ingredient, itemIndex) => itemIndex === index ? { ...ingredient, grams } : ingredient));
+  };
+
+  const removeIngredient = (index: number) => {
+    onChange(ingredients.filter((_, itemIndex) => itemIndex !== index));
+  };
+
+  if (foods.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 border border-dashed border-gray-300 rounded-md p-4 text-center">
+        Your food catalog is empty. Import the starter foods or add your own in the Food Catalog tab.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search foods, e.g., chicken, rice, oats"
+        />
+        {results.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-64 overflow-y-auto">
+            {results.map(food => (
+              <button
+                key={food.id}
+                type="button"
+                onClick={() => addIngredient(food)}
+                className="w-full text-left px-3 py-2 hover:bg-gray-50"
+              >
+                <p className="text-sm font-medium">{food.name}</p>
+                <p className="text-xs text-gray-500">{formatFoodNutrients(food)}</p>
+              </button>
+            ))}
+          </div>
+        )}
+        {query.trim() && results.length === 0 && (
+          <p className="text-xs text-gray-500 mt-1">No matching foods in your catalog.</p>
+        )}
+      </div>
+
+      {ingredients.length > 0 && (
+        <div className="space-y-2">
+          {ingredients.map((ingredient, index) => {
+            const food = foods.find(item => item.id === ingredient.food_id);
+            const macros = food ? roundMacros(getIngredientMacros(food, Number(ingredient.grams) || 0)) : null;
+            return (
+              <div key={ingredient.food_id} className="flex items-center space-x-3 p-2 bg-gray-50 rounded border">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{food?.name || 'Unknown food'}</p>
+                  {macros && (
+                    <p className="text-xs text-gray-500">
+                      {macros.calories}kcal | P: {macros.protein}g | C: {macros.carbohydrates}g | F: {macros.fat}g
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1 w-28">
+                  <Input
+                    value={ingredient.grams}
+                    onChange={(event) => updateGrams(index, event.target.value)}
+                    type="number"
+                    min="1"
+                    className="h-8"
+                  />
+                  <span className="text-xs text-gray-500">g</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeIngredient(index)}
+                  className="text-red-400 hover:text-red-600 transition-colors"
+                >
+                  <Icon name="x" size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center text-sm p-3 bg-blue-50 border border-blue-100 rounded-lg">
+        <span className="font-medium text-blue-800">Meal total</span>
+        <span className="text-blue-700">
+          {totals.calories}kcal | P: {totals.protein}g | C: {totals.carbohydrates}g | F: {totals.fat}g
+        </span>
+      </div>
+
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
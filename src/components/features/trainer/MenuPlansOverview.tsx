@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
 import { Button } from '@/components/atoms/Button';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import Icon from '@/components/atoms/Icon';
-import { TrainerAPI, Menu, MenuPlan } from '@/lib/api';
+import { TrainerAPI, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
 import { showErrorToast } from '@/lib/errors';
 
 interface MenuPlansStats {
@@ -13,39 +14,27 @@ interface MenuPlansStats {
 }
 
 export default function MenuPlansOverview() {
-  const [stats, setStats] = useState<MenuPlansStats>({
-    totalPlans: 0,
-    totalMenus: 0
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const menuPlansQuery = useQuery(queryKeys.menuPlans, TrainerAPI.getMenuPlans);
+  const menusQuery = useQuery(queryKeys.menus, TrainerAPI.getMenus);
 
-  const fetchMenuStats = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      const [menuPlans, individualMenus] = await Promise.all([
-        TrainerAPI.getMenuPlans(),
-        TrainerAPI.getMenus()
-      ]);
-
-      const totalPlans = menuPlans?.length || 0;
-      const totalMenus = individualMenus?.length || 0;
+  const stats: MenuPlansStats = {
+    totalPlans: menuPlansQuery.data?.length || 0,
+    totalMenus: menusQuery.data?.length || 0
+  };
+  const isLoading = menuPlansQuery.isLoading || menusQuery.isLoading;
+  const error = menuPlansQuery.error || menusQuery.error;
 
-      setStats({ totalPlans, totalMenus });
-    } catch (error) {
+  useEffect(() => {
+    if (error) {
       console.error('Error fetching menu stats:', error);
-      setError('Failed to load menu statistics');
       showErrorToast(error, 'Failed to load menu plans');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [error]);
 
-  useEffect(() => {
-    fetchMenuStats();
-  }, []);
+  const fetchMenuStats = () => {
+    menuPlansQuery.refetch();
+    menusQuery.refetch();
+  };
 
   if (isLoading) {
     return (
@@ -0,0 +1,100 @@
+// src/components/features/trainer/PaymentMethodModal.tsx - Saves a new card through a SetupIntent without charging it
+import React, { useMemo, useState } from 'react';
+import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import { Button } from '@/components/atoms/Button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { getStripe, StripeService } from '@/lib/stripe';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { DASHBOARD_ROUTES } from '@/lib/constants';
+
+interface PaymentMethodModalProps {
+  clientSecret: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const PaymentMethodForm: React.FC<Omit<PaymentMethodModalProps, 'clientSecret'>> = ({ onClose, onSaved }) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!stripe || !elements) return;
+
+    try {
+      setIsSaving(true);
+      const { error, setupIntent } = await stripe.confirmSetup({
+        elements,
+        confirmParams: {
+          return_url: `${window.location.origin}${DASHBOARD_ROUTES.TRAINER.BILLING}`
+        },
+        redirect: 'if_required'
+      });
+
+      if (error) {
+        showErrorToast(error, 'Card could not be saved');
+        return;
+      }
+
+      const paymentMethod = setupIntent?.payment_method;
+      if (!paymentMethod) throw new Error('Card could not be saved');
+
+      await StripeService.setDefaultPaymentMethod(typeof paymentMethod === 'string' ? paymentMethod : paymentMethod.id);
+      showSuccessToast('Card updated. Future invoices will be charged to it.');
+      onSaved();
+    } catch (error) {
+      showErrorToast(error, 'Card could not be saved');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle>Update Payment Method</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <PaymentElement />
+
+          <div className="flex space-x-3">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="blue" isLoading={isSaving} disabled={!stripe || isSaving} className="flex-1">
+              Save card
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+const PaymentMethodModal: React.FC<PaymentMethodModalProps> = ({ clientSecret, onClose, onSaved }) => {
+  const stripePromise = useMemo(() => getStripe(), []);
+
+  const options = {
+    clientSecret,
+    appearance: {
+      theme: 'stripe' as const,
+      variables: {
+        colorPrimary: '#007bff'
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[90vh] overflow-auto">
+        <Elements stripe={stripePromise} options={options}>
+          <PaymentMethodForm onClose={onClose} onSaved={onSaved} />
+        </Elements>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentMethodModal;
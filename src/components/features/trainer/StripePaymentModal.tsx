@@ -12,6 +12,8 @@ interface PaymentFormProps {
   onCancel: () => void;
   planName: string;
   amount: number;
+  // Set for a mid-period plan change, where the first charge is prorated
+  amountDueNow?: number;
   billingCycle: string;
 }
 
@@ -21,6 +23,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
   onCancel, 
   planName, 
   amount, 
+  amountDueNow,
   billingCycle 
 }) => {
   const stripe = useStripe();
@@ -69,6 +72,11 @@ const PaymentForm: React.FC<PaymentFormProps> = ({
           <p className="text-blue-700">
             {amount} CZK/{billingCycle === 'yearly' ? 'year' : 'month'}
           </p>
+          {amountDueNow !== undefined && (
+            <p className="text-sm text-blue-700 mt-1">
+              {amountDueNow} CZK due today, after credit for the unused time on your current plan
+            </p>
+          )}
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -107,6 +115,7 @@ interface StripePaymentModalProps {
   clientSecret: string;
   planName: string;
   amount: number;
+  amountDueNow?: number;
   billingCycle: string;
 }
 
@@ -117,6 +126,7 @@ const StripePaymentModal: React.FC<StripePaymentModalProps> = ({
   clientSecret,
   planName,
   amount,
+  amountDueNow,
   billingCycle
 }) => {
   const [stripePromise, setStripePromise] = useState<any>(null);
@@ -148,6 +158,7 @@ const StripePaymentModal: React.FC<StripePaymentModalProps> = ({
               onCancel={onClose}
               planName={planName}
               amount={amount}
+              amountDueNow={amountDueNow}
               billingCycle={billingCycle}
             />
           </Elements>
@@ -5,6 +5,9 @@ import { Button } from '@/components/atoms/Button';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import Icon from '@/components/atoms/Icon';
 import { useSubscription, formatPrice, calculateUsageStatus } from '@/pages/features/trainer/hooks/useSubscription';
+import { describeRenewal, getBilledPrice } from '@/lib/billing';
+import { BILLING_CYCLE_LABELS } from '@/lib/payments';
+import { BillingCycle } from '@/lib/api';
 
 interface PlanStyle {
   color: string;
@@ -96,12 +99,17 @@ interface CurrentPlanSectionProps {
   planName: string;
   price: string;
   style?: PlanStyle;
+  // Only paid plans have a cycle and a renewal date
+  billingCycle?: BillingCycle | null;
+  renewal?: string | null;
 }
 
 const CurrentPlanSection: React.FC<CurrentPlanSectionProps> = ({ 
   planName, 
   price, 
-  style = PLAN_STYLES.Basic 
+  style = PLAN_STYLES.Basic,
+  billingCycle,
+  renewal
 }) => (
   <div className="text-center p-4 bg-gray-50 rounded-lg">
     <div className="mb-2">
@@ -113,6 +121,11 @@ const CurrentPlanSection: React.FC<CurrentPlanSectionProps> = ({
     <div className="text-lg font-semibold text-gray-700">
       {price}
     </div>
+    {(billingCycle || renewal) && (
+      <div className="text-xs text-gray-500 mt-1">
+        {[billingCycle && `Billed ${BILLING_CYCLE_LABELS[billingCycle].toLowerCase()}`, renewal].filter(Boolean).join(' · ')}
+      </div>
+    )}
   </div>
 );
 
@@ -197,6 +210,7 @@ const SubscriptionBox: React.FC = () => {
     clientCount, 
     clientLimit, 
     usagePercentage, 
+    billing,
     isLoading,
     error,
     refetch
@@ -215,7 +229,9 @@ const SubscriptionBox: React.FC = () => {
   }
 
   const planStyle = getPlanStyle(subscription?.name || 'Basic');
-  const formattedPrice = formatPrice(subscription?.price, subscription?.billing_cycle);
+  const billedPrice = getBilledPrice(subscription, billing);
+  const formattedPrice = formatPrice(billedPrice.amount, billedPrice.cycle);
+  const renewal = describeRenewal(billing);
 
   return (
     <Card className="h-full">
@@ -233,6 +249,8 @@ const SubscriptionBox: React.FC = () => {
           planName={subscription?.name || 'Basic'}
           price={formattedPrice}
           style={planStyle}
+          billingCycle={renewal ? billing?.billing_cycle : null}
+          renewal={renewal}
         />
         
         <ClientUsageSection 
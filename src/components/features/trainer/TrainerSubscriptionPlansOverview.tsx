@@ -1,61 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
 import { Button } from '@/components/atoms/Button';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import Icon from '@/components/atoms/Icon';
-import { TrainerAPI } from '@/lib/api/trainer';
+import { TrainerAPI, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
 import { showErrorToast } from '@/lib/errors';
 
-interface TrainerSubscriptionTier {
-  id: string;
-  trainer_id: string;
-  name: string;
-  description: string;
-  price: number;
-  yearly_price?: number | null;
-  billing_cycle: 'monthly' | 'yearly';
-  created_at: string;
-  updated_at: string;
-}
-
 interface SubscriptionPlansStats {
   totalPlans: number;
 }
 
 export default function TrainerSubscriptionPlansOverview() {
-  const [stats, setStats] = useState<SubscriptionPlansStats>({
-    totalPlans: 0
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    data: subscriptionPlans,
+    isLoading,
+    error: queryError,
+    refetch: fetchSubscriptionPlansStats
+  } = useQuery(queryKeys.subscriptionTiers, TrainerAPI.getTrainerSubscriptionTiers);
 
-  const fetchSubscriptionPlansStats = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      if (typeof TrainerAPI.getTrainerSubscriptionTiers !== 'function') {
-        throw new Error('getTrainerSubscriptionTiers function is not available');
-      }
-      
-      const subscriptionPlans = await TrainerAPI.getTrainerSubscriptionTiers();
-      
-      const totalPlans = subscriptionPlans?.length || 0;
-      
-      setStats({ totalPlans });
-    } catch (error) {
-      console.error('Error fetching subscription plans stats:', error);
-      setError('Failed to load subscription plans');
-      showErrorToast(error, 'Failed to load subscription plans');
-    } finally {
-      setIsLoading(false);
-    }
+  const stats: SubscriptionPlansStats = {
+    totalPlans: subscriptionPlans?.length || 0
   };
+  const error = queryError ? 'Failed to load subscription plans' : null;
 
   useEffect(() => {
-    fetchSubscriptionPlansStats();
-  }, []);
+    if (queryError) {
+      console.error('Error fetching subscription plans stats:', queryError);
+      showErrorToast(queryError, 'Failed to load subscription plans');
+    }
+  }, [queryError]);
 
   if (isLoading) {
     return (
@@ -0,0 +1,57 @@
+// src/components/features/trainer/UpgradePrompt.tsx - Shown in place of a feature the trainer's tier does not unlock
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/atoms/Button';
+import Icon, { IconName } from '@/components/atoms/Icon';
+import { Card, CardContent } from '@/components/organisms/Card';
+import { DASHBOARD_ROUTES } from '@/lib/constants';
+import { ENTITLEMENT_LABELS, Entitlement, formatEntitledTiers } from '@/lib/entitlements';
+
+interface UpgradePromptProps {
+  entitlement: Entitlement;
+  description: string;
+  tierName?: string | null;
+  icon?: IconName;
+  // A single row for sections inside a page rather than a whole-page card
+  compact?: boolean;
+}
+
+const UpgradePrompt: React.FC<UpgradePromptProps> = ({ entitlement, description, tierName, icon = 'credit-card', compact = false }) => {
+  const label = ENTITLEMENT_LABELS[entitlement];
+  const availability = `Available on ${formatEntitledTiers(entitlement)}${tierName ? ` — you're on ${tierName}` : ''}.`;
+  const action = (
+    <Link to={DASHBOARD_ROUTES.TRAINER.SUBSCRIPTIONS}>
+      <Button variant={compact ? 'outline' : 'blue'} size={compact ? 'sm' : 'default'}>View plans</Button>
+    </Link>
+  );
+
+  if (compact) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 py-6">
+          <div>
+            <h3 className="font-medium text-[#040b07]">{label}</h3>
+            <p className="text-sm text-gray-600">{description} {availability}</p>
+          </div>
+          {action}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center p-8 text-center">
+        <div className="flex h-12 w-12 items-center justify-center rounded-full bg-blue-50 text-[#007bff] mb-4">
+          <Icon name={icon} size={24} />
+        </div>
+        <h2 className="text-lg font-semibold text-[#040b07] mb-2">Unlock {label}</h2>
+        <p className="text-sm text-gray-600 max-w-md mb-2">{description}</p>
+        <p className="text-sm text-gray-500 max-w-md mb-6">{availability}</p>
+        {action}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UpgradePrompt;
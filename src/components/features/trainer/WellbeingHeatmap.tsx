@@ -0,0 +1,164 @@
+// src/components/features/trainer/WellbeingHeatmap.tsx - A client's daily check-ins as a heatmap beside workout adherence, with trend warnings
+import React from 'react';
+import Icon from '@/components/atoms/Icon';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { ClientWorkout, WellbeingCheckin } from '@/lib/api';
+import { addDays, getTodayDate } from '@/lib/utils';
+import {
+  SORENESS_LEVEL_LABELS,
+  SORENESS_REGIONS,
+  SORENESS_REGION_LABELS,
+  WELLBEING_HISTORY_DAYS,
+  WELLBEING_METRICS,
+  WELLBEING_METRIC_LABELS,
+  WellbeingMetric,
+  countMissedWorkouts,
+  detectWellbeingFlags,
+  formatWellbeingValue,
+  getWellbeingColor,
+  getWellbeingScore
+} from '@/lib/wellbeing';
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' });
+
+const describeCheckin = (metric: WellbeingMetric, checkin: WellbeingCheckin) => {
+  if (metric !== 'soreness') return `${WELLBEING_METRIC_LABELS[metric]}: ${formatWellbeingValue(metric, checkin)}`;
+
+  const sore = SORENESS_REGIONS
+    .filter(region => (checkin.soreness[region] ?? 0) > 0)
+    .map(region => `${SORENESS_REGION_LABELS[region]} ${SORENESS_LEVEL_LABELS[checkin.soreness[region]!].toLowerCase()}`);
+  return sore.length > 0 ? `Soreness: ${sore.join(', ')}` : 'No soreness';
+};
+
+// Completed, missed or still open workouts scheduled on one day
+const getWorkoutCell = (dayWorkouts: ClientWorkout[], date: string, today: string) => {
+  if (dayWorkouts.length === 0) return { className: 'bg-gray-50 text-gray-400', label: '–', title: 'Rest day' };
+
+  const completed = dayWorkouts.filter(workout => workout.status === 'completed').length;
+  const label = `${completed}/${dayWorkouts.length}`;
+  const title = `${completed} of ${dayWorkouts.length} workouts completed`;
+
+  if (completed === dayWorkouts.length) return { className: 'bg-green-500 text-white', label, title };
+  if (date < today) return { className: 'bg-red-400 text-white', label, title };
+  return { className: 'bg-blue-100 text-blue-800', label, title };
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+interface WellbeingHeatmapProps {
+  checkins: WellbeingCheckin[];
+  workouts: ClientWorkout[];
+}
+
+const WellbeingHeatmap: React.FC<WellbeingHeatmapProps> = ({ checkins, workouts }) => {
+  const today = getTodayDate();
+  const days = Array.from({ length: WELLBEING_HISTORY_DAYS }, (_, index) =>
+    addDays(today, index - (WELLBEING_HISTORY_DAYS - 1)));
+
+  const flags = detectWellbeingFlags(checkins);
+  const missedWorkouts = countMissedWorkouts(workouts, days[0], today);
+  const latestNote = [...checkins].reverse().find(checkin => checkin.notes);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Table of Feelings</CardTitle>
+          <span className="text-sm text-gray-600">
+            {checkins.length} check-in{checkins.length === 1 ? '' : 's'} • last {WELLBEING_HISTORY_DAYS} days
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {flags.length > 0 && (
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm" role="alert">
+            <ul className="space-y-1">
+              {flags.map(flag => (
+                <li
+                  key={flag.metric}
+                  className={`flex items-center ${flag.severity === 'critical' ? 'text-red-700 font-medium' : 'text-yellow-800'}`}
+                >
+                  <Icon name="chart-line" size={14} className="mr-2 flex-shrink-0" />
+                  {flag.message}
+                </li>
+              ))}
+            </ul>
+            {missedWorkouts > 0 && (
+              <p className="mt-2 text-yellow-800">
+                {missedWorkouts} missed workout{missedWorkouts === 1 ? '' : 's'} in the same period — consider reducing load.
+              </p>
+            )}
+          </div>
+        )}
+
+        {checkins.length === 0 ? (
+          <p className="text-center text-gray-500 py-6">No check-ins yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-separate border-spacing-1 text-xs">
+              <thead>
+                <tr>
+                  <th className="w-20" />
+                  {days.map(date => (
+                    <th key={date} className="font-normal text-gray-500">
+                      {date === today ? 'Today' : formatDay(date)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {WELLBEING_METRICS.map(metric => (
+                  <tr key={metric}>
+                    <th scope="row" className="text-left font-medium text-gray-700">
+                      {WELLBEING_METRIC_LABELS[metric]}
+                    </th>
+                    {days.map(date => {
+                      const checkin = checkins.find(item => item.date === date);
+                      return checkin ? (
+                        <td
+                          key={date}
+                          className={`h-8 min-w-[2.25rem] rounded text-center ${getWellbeingColor(getWellbeingScore(metric, checkin))}`}
+                          title={`${formatDay(date)} • ${describeCheckin(metric, checkin)}`}
+                        >
+                          {formatWellbeingValue(metric, checkin)}
+                        </td>
+                      ) : (
+                        <td key={date} className="h-8 min-w-[2.25rem] rounded bg-gray-50" title={`${formatDay(date)}: no check-in`} />
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr>
+                  <th scope="row" className="text-left font-medium text-gray-700">Workouts</th>
+                  {days.map(date => {
+                    const cell = getWorkoutCell(workouts.filter(workout => workout.assigned_date === date), date, today);
+                    return (
+                      <td key={date} className={`h-8 min-w-[2.25rem] rounded text-center ${cell.className}`} title={`${formatDay(date)}: ${cell.title}`}>
+                        {cell.label}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {latestNote && (
+          <p className="text-sm text-gray-600">
+            <span className="font-medium">Latest note ({formatDay(latestNote.date)}):</span> {latestNote.notes}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WellbeingHeatmap;
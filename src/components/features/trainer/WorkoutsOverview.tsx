@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
 import { Button } from '@/components/atoms/Button';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import Icon from '@/components/atoms/Icon';
-import { TrainerAPI, Exercise, Workout } from '@/lib/api';
+import { TrainerAPI, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
 import { showErrorToast } from '@/lib/errors';
 
 interface WorkoutsStats {
@@ -13,39 +14,27 @@ interface WorkoutsStats {
 }
 
 export default function WorkoutsOverview() {
-  const [stats, setStats] = useState<WorkoutsStats>({
-    totalWorkouts: 0,
-    totalExercises: 0
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const workoutsQuery = useQuery(queryKeys.workouts, TrainerAPI.getWorkouts);
+  const exercisesQuery = useQuery(queryKeys.exercises, TrainerAPI.getExercises);
 
-  const fetchWorkoutStats = async () => {
-    try {
-      setIsLoading(true);
-      setError(null);
-      
-      const [workouts, exercises] = await Promise.all([
-        TrainerAPI.getWorkouts(),
-        TrainerAPI.getExercises()
-      ]);
-
-      const totalWorkouts = workouts?.length || 0;
-      const totalExercises = exercises?.length || 0;
+  const stats: WorkoutsStats = {
+    totalWorkouts: workoutsQuery.data?.length || 0,
+    totalExercises: exercisesQuery.data?.length || 0
+  };
+  const isLoading = workoutsQuery.isLoading || exercisesQuery.isLoading;
+  const error = workoutsQuery.error || exercisesQuery.error;
 
-      setStats({ totalWorkouts, totalExercises });
-    } catch (error) {
+  useEffect(() => {
+    if (error) {
       console.error('Error fetching workout stats:', error);
-      setError('Failed to load workout statistics');
       showErrorToast(error, 'Failed to load workouts');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [error]);
 
-  useEffect(() => {
-    fetchWorkoutStats();
-  }, []);
+  const fetchWorkoutStats = () => {
+    workoutsQuery.refetch();
+    exercisesQuery.refetch();
+  };
 
   if (isLoading) {
     return (
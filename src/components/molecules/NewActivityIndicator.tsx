@@ -0,0 +1,39 @@
+// src/components/molecules/NewActivityIndicator.tsx - Banner listing realtime changes the user has not seen yet
+import React from 'react';
+import Icon from '@/components/atoms/Icon';
+
+interface NewActivityIndicatorProps {
+  activity: string[];
+  onDismiss: () => void;
+}
+
+const NewActivityIndicator: React.FC<NewActivityIndicatorProps> = ({ activity, onDismiss }) => {
+  if (activity.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-between rounded-lg border border-blue-200 bg-blue-50 px-4 py-2 text-sm text-blue-800"
+    >
+      <div className="flex items-center">
+        <span className="relative mr-3 flex h-2.5 w-2.5">
+          <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-blue-400 opacity-75" />
+          <span className="relative inline-flex h-2.5 w-2.5 rounded-full bg-[#007bff]" />
+        </span>
+        <span>
+          <span className="font-medium">New activity:</span> {activity.join(' • ')}
+        </span>
+      </div>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="ml-4 text-blue-600 hover:text-blue-800 transition-colors"
+        aria-label="Dismiss new activity"
+      >
+        <Icon name="x" size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default NewActivityIndicator;
@@ -0,0 +1,76 @@
+// src/components/molecules/SortableList.tsx
+import React, { useState } from "react";
+import Icon from "@/components/atoms/Icon";
+import { cn } from "@/lib/utils";
+
+export interface SortableListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  onReorder: (items: T[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Moves the item at `from` to `to`, shifting the items in between
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+// Vertical list reordered with native HTML5 drag and drop; each row gets a grip handle
+export function SortableList<T>({ items, getKey, renderItem, onReorder, disabled = false, className }: SortableListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const resetDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder(moveItem(items, dragIndex, index));
+    }
+    resetDrag();
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {items.map((item, index) => (
+        <div
+          key={getKey(item)}
+          draggable={!disabled}
+          onDragStart={(event) => {
+            event.dataTransfer.effectAllowed = "move";
+            setDragIndex(index);
+          }}
+          onDragOver={(event) => {
+            if (dragIndex === null) return;
+            event.preventDefault();
+            setOverIndex(index);
+          }}
+          onDrop={(event) => {
+            event.preventDefault();
+            handleDrop(index);
+          }}
+          onDragEnd={resetDrag}
+          className={cn(
+            "flex items-start rounded border bg-white transition-colors",
+            dragIndex === index && "opacity-50",
+            overIndex === index && dragIndex !== index && "border-[#007bff] bg-blue-50"
+          )}
+        >
+          <span className={cn("p-2 text-gray-400", disabled ? "cursor-default" : "cursor-move")}>
+            <Icon name="grip" size={16} />
+          </span>
+          <div className="flex-1 min-w-0 py-2 pr-2">{renderItem(item, index)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SortableList;
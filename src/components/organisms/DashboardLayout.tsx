@@ -6,7 +6,9 @@ import Icon from '@/components/atoms/Icon';
 import { Button } from '@/components/atoms/Button';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import { USER_TYPES, DASHBOARD_ROUTES } from '@/lib/constants';
-import { UserType } from '@/lib/types';
+import { UserType } from '@/lib/api';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import { useUnreadMessageCount } from '@/pages/features/messaging/hooks/useMessaging';
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -18,6 +20,8 @@ export default function DashboardLayout({ children, userType }: DashboardLayoutP
   const location = useLocation();
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const { user } = useAuth();
+  const unreadMessages = useUnreadMessageCount(user?.id ?? null);
 
   const handleSignOut = async () => {
     try {
@@ -35,8 +39,9 @@ export default function DashboardLayout({ children, userType }: DashboardLayoutP
     }
   };
 
+  // Sub-pages such as an open conversation keep their section highlighted
   const isActivePath = (path: string) => {
-    return location.pathname === path;
+    return location.pathname === path || location.pathname.startsWith(`${path}/`);
   };
 
   // Memoize navigation items based on user type
@@ -47,21 +52,28 @@ export default function DashboardLayout({ children, userType }: DashboardLayoutP
         { name: 'My Profile', path: DASHBOARD_ROUTES.CLIENT.PROFILE, icon: 'user' },
         { name: 'My Trainers', path: DASHBOARD_ROUTES.CLIENT.TRAINERS, icon: 'users' },
         { name: 'Workouts', path: DASHBOARD_ROUTES.CLIENT.WORKOUTS, icon: 'dumbbell' },
+        { name: 'Nutrition', path: DASHBOARD_ROUTES.CLIENT.NUTRITION, icon: 'calendar' },
         { name: 'Progress', path: DASHBOARD_ROUTES.CLIENT.PROGRESS, icon: 'chart-line' },
+        { name: 'Messages', path: DASHBOARD_ROUTES.CLIENT.MESSAGES, icon: 'message' },
       ];
     } else {
       return [
         { name: 'Dashboard', path: DASHBOARD_ROUTES.TRAINER.DASHBOARD, icon: 'home' },
         { name: 'My Profile', path: DASHBOARD_ROUTES.TRAINER.PROFILE, icon: 'user' },
         { name: 'My Clients', path: DASHBOARD_ROUTES.TRAINER.CLIENTS, icon: 'users' },
+        { name: 'Messages', path: DASHBOARD_ROUTES.TRAINER.MESSAGES, icon: 'message' },
         { name: 'Workouts', path: '/trainer/workouts', icon: 'dumbbell' },
+        { name: 'Programs', path: DASHBOARD_ROUTES.TRAINER.PROGRAMS, icon: 'chart-line' },
         { name: 'Menus', path: '/trainer/menus', icon: 'calendar' },
         { name: 'My Plans', path: '/trainer/subscription-plans', icon: 'credit-card' },
         { name: 'Subscriptions', path: DASHBOARD_ROUTES.TRAINER.SUBSCRIPTIONS, icon: 'credit-card' },
+        { name: 'Billing', path: DASHBOARD_ROUTES.TRAINER.BILLING, icon: 'credit-card' },
       ];
     }
   }, [userType]);
 
+  const settingsPath = userType === USER_TYPES.CLIENT ? DASHBOARD_ROUTES.CLIENT.SETTINGS : DASHBOARD_ROUTES.TRAINER.SETTINGS;
+
   return (
     <div className="flex h-screen bg-[#f8f9fa]">
       {/* Mobile sidebar backdrop */}
@@ -119,6 +131,16 @@ export default function DashboardLayout({ children, userType }: DashboardLayoutP
                     <Icon name={item.icon as any} size={18} />
                   </span>
                   {item.name}
+                  {item.icon === 'message' && unreadMessages > 0 && (
+                    <span
+                      className={`ml-auto inline-flex min-w-[1.25rem] items-center justify-center rounded-full px-1.5 text-xs font-medium ${
+                        isActivePath(item.path) ? 'bg-white text-[#007bff]' : 'bg-[#007bff] text-white'
+                      }`}
+                      aria-label={`${unreadMessages} unread`}
+                    >
+                      {unreadMessages}
+                    </span>
+                  )}
                 </Link>
               ))}
             </nav>
@@ -132,17 +154,25 @@ export default function DashboardLayout({ children, userType }: DashboardLayoutP
               </p>
             </div>
             <nav className="space-y-1">
-              <button
-                className="group flex items-center w-full px-3 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100 hover:text-gray-900 transition-colors"
+              <Link
+                to={settingsPath}
+                className={`
+                  group flex items-center w-full px-3 py-2 text-sm font-medium rounded-lg transition-colors
+                  ${isActivePath(settingsPath)
+                    ? 'bg-[#007bff] text-white'
+                    : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'}
+                `}
+                onClick={() => setIsMobileSidebarOpen(false)}
+                aria-current={isActivePath(settingsPath) ? 'page' : undefined}
               >
-                <span className="mr-3 flex-shrink-0 text-gray-400 group-hover:text-gray-500">
+                <span className={`mr-3 flex-shrink-0 ${isActivePath(settingsPath) ? 'text-white' : 'text-gray-400 group-hover:text-gray-500'}`}>
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                   </svg>
                 </span>
                 Settings
-              </button>
+              </Link>
             </nav>
           </div>
         </div>
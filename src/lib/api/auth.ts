@@ -1,43 +1,46 @@
-// src/lib/api/auth.ts - Authentication related API calls
+// src/lib/api/auth.ts - Signed-in user's profile and role
 import { supabase } from '@/lib/supabaseClient';
-import { UserProfile, UserType } from '../types';
+import { UserProfile, UserType } from './types';
+import { apiError } from './helpers';
 
 export const AuthAPI = {
   getUserProfile: async (): Promise<UserProfile | null> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
+      
       if (!user) return null;
       
       const { data, error } = await supabase
         .from('users')
         .select('*')
         .eq('id', user.id)
-        .single();
+        .maybeSingle();
         
       if (error) throw error;
-      return data as UserProfile;
+      
+      return data as UserProfile | null;
     } catch (error) {
-      console.error('Error fetching user profile:', error);
-      return null;
+      throw apiError('Error fetching user profile', error);
     }
   },
   
   getUserType: async (): Promise<UserType | null> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
+      
       if (!user) return null;
       
       const { data, error } = await supabase
         .from('users')
         .select('user_type')
         .eq('id', user.id)
-        .single();
+        .maybeSingle();
         
       if (error) throw error;
-      return data?.user_type as UserType;
+      
+      return (data?.user_type as UserType | null) ?? null;
     } catch (error) {
-      console.error('Error fetching user type:', error);
-      return null;
+      throw apiError('Error fetching user type', error);
     }
   },
   
@@ -50,14 +53,14 @@ export const AuthAPI = {
         .maybeSingle();
         
       if (error) throw error;
+      
       return !!data;
     } catch (error) {
-      console.error('Error checking email:', error);
-      return false;
+      throw apiError('Error checking email', error);
     }
   },
 
-  updateUserType: async (userId: string, userType: UserType): Promise<boolean> => {
+  updateUserType: async (userId: string, userType: UserType): Promise<void> => {
     try {
       const { error: updateError } = await supabase
         .from('users')
@@ -90,11 +93,8 @@ export const AuthAPI = {
           
         if (trainerError) throw trainerError;
       }
-      
-      return true;
     } catch (error) {
-      console.error('Error updating user type:', error);
-      return false;
+      throw apiError('Error updating user type', error);
     }
   }
-};
\ No newline at end of file
+};
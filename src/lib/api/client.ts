@@ -1,142 +1,168 @@
-// src/lib/api/client.ts - Cleaned version with minimal debug
+// src/lib/api/client.ts - Data access for the signed-in client
 import { supabase } from '@/lib/supabaseClient';
-import { ClientProgress } from '../types';
+import { ApiError } from '@/lib/errors';
+import { getTodayDate } from '@/lib/utils';
+import { fetchQuery, invalidateQueries } from '@/lib/queryCache';
+import { ADHERENCE_HISTORY_DAYS } from '@/lib/nutrition';
+import { MAX_SLEEP_HOURS } from '@/lib/wellbeing';
+import {
+  AssignedTrainer,
+  ClientCheckout,
+  ClientMenuPlan,
+  ClientProfile,
+  ClientProgress,
+  ClientStats,
+  ClientTrainerStatus,
+  ClientWorkout,
+  CreateMeasurementData,
+  CreateWorkoutLogData,
+  InvitePreview,
+  MealCheckin,
+  NutritionAdherence,
+  RedeemedInvite,
+  SaveMealCheckinData,
+  SaveWellbeingCheckinData,
+  TrainerListing,
+  TrainerRequest,
+  TrainerSubscriptionTier,
+  WellbeingCheckin
+} from './types';
+import {
+  AssignedTrainerRow,
+  ClientMenuPlanRow,
+  ClientWorkoutRow,
+  TrainerListingRow
+} from './rows';
+import {
+  apiError,
+  estimateBodyFat,
+  estimateMuscleGain,
+  fetchAdherenceHistory,
+  getOrCreateClientId,
+  inviteUnavailableError,
+  requireClientCapacity,
+  fetchDailyAdherence,
+  toClientWorkout,
+  toInvitePreview,
+  toJson,
+  toTrainerListing,
+  toWellbeingCheckin,
+  withSortedMeals
+} from './helpers';
+import { queryKeys } from './queryKeys';
+
+const TRAINER_LISTING_SELECT = `
+  *,
+  trainer:trainers(
+    user:users(full_name),
+    trainer_subscription_tiers(*)
+  )
+`;
+
+const normalizeInviteCode = (code: string) => code.trim().toUpperCase();
 
 export const ClientAPI = {
-  getClientProfile: async (): Promise<any | null> => {
+  getClientProfile: async (): Promise<ClientProfile | null> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
+      
       if (!user) return null;
       
       const { data, error } = await supabase
         .from('clients')
         .select('*, users(*)')
         .eq('user_id', user.id)
-        .single();
+        .maybeSingle();
         
       if (error) throw error;
-      return data;
+      
+      return data as ClientProfile | null;
     } catch (error) {
-      console.error('Error fetching client profile:', error);
-      return null;
+      throw apiError('Error fetching client profile', error);
+    }
+  },
+
+  // Looked up once per session and shared by every call; a missing row is not cached
+  getClientId: async (): Promise<string | null> => {
+    try {
+      const clientId = await fetchQuery(queryKeys.clientId, async () => {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return null;
+
+        const { data: clientData, error } = await supabase
+          .from('clients')
+          .select('id')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return clientData?.id ?? null;
+      }, { staleTime: Infinity });
+
+      if (!clientId) invalidateQueries(queryKeys.clientId);
+      return clientId;
+    } catch (error) {
+      throw apiError('Error getting client ID', error);
     }
   },
 
   getClientMeasurements: async (limit = 10): Promise<ClientProgress[]> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
+      
       if (!user) return [];
       
-      const { data: clientData, error: clientError } = await supabase
-        .from('clients')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-        
-      if (clientError) {
-        if (clientError.code === 'PGRST116') {
-          // Client doesn't exist, create one
-          const { data: newClient, error: createError } = await supabase
-            .from('clients')
-            .insert({ user_id: user.id })
-            .select()
-            .single();
-            
-          if (createError) throw createError;
-          return [];
-        } else {
-          throw clientError;
-        }
-      }
+      const clientId = await getOrCreateClientId(user.id);
       
       const { data, error } = await supabase
         .from('client_progress')
-        .select(`
-          id, 
-          client_id, 
-          date, 
-          body_weight, 
-          chest_size, 
-          waist_size, 
-          biceps_size, 
-          thigh_size, 
-          notes, 
-          created_at, 
-          updated_at
-        `)
-        .eq('client_id', clientData.id)
+        .select('*')
+        .eq('client_id', clientId)
         .order('date', { ascending: false })
         .limit(limit);
         
       if (error) throw error;
       
-      return data || [];
+      return data;
     } catch (error) {
-      console.error('Error fetching client measurements:', error);
-      return [];
+      throw apiError('Error fetching client measurements', error);
     }
   },
 
-  addMeasurement: async (measurementData: any): Promise<boolean> => {
+  addMeasurement: async (measurementData: CreateMeasurementData): Promise<void> => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return false;
       
-      const { data: clientData, error: clientError } = await supabase
-        .from('clients')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-      
-      let clientId: string;
+      if (!user) throw new Error('Not signed in');
       
-      if (clientError) {
-        if (clientError.code === 'PGRST116') {
-          // Create client if doesn't exist
-          const { data: newClient, error: createError } = await supabase
-            .from('clients')
-            .insert({ user_id: user.id })
-            .select()
-            .single();
-            
-          if (createError) throw createError;
-          clientId = newClient.id;
-        } else {
-          throw clientError;
-        }
-      } else {
-        clientId = clientData.id;
-      }
-      
-      const measurementToInsert = {
-        client_id: clientId,
-        date: measurementData.date,
-        body_weight: measurementData.body_weight !== null ? Number(measurementData.body_weight) : null,
-        chest_size: measurementData.chest_size !== null ? Number(measurementData.chest_size) : null,
-        waist_size: measurementData.waist_size !== null ? Number(measurementData.waist_size) : null,
-        biceps_size: measurementData.biceps_size !== null ? Number(measurementData.biceps_size) : null,
-        thigh_size: measurementData.thigh_size !== null ? Number(measurementData.thigh_size) : null,
-        notes: measurementData.notes || null
-      };
+      const clientId = await getOrCreateClientId(user.id);
       
       const { error } = await supabase
         .from('client_progress')
-        .insert(measurementToInsert);
+        .insert({
+          client_id: clientId,
+          date: measurementData.date,
+          body_weight: measurementData.body_weight,
+          chest_size: measurementData.chest_size,
+          waist_size: measurementData.waist_size,
+          biceps_size: measurementData.biceps_size,
+          thigh_size: measurementData.thigh_size,
+          notes: measurementData.notes || null
+        });
         
       if (error) throw error;
-      
-      return true;
+
+      invalidateQueries(queryKeys.measurements);
     } catch (error) {
-      console.error('Error adding measurement:', error);
-      return false;
+      throw apiError('Error adding measurement', error);
     }
   },
 
-  getClientStats: async (): Promise<any> => {
+  getClientStats: async (): Promise<ClientStats> => {
     try {
       const measurements = await ClientAPI.getClientMeasurements(10);
       
-      if (!measurements || measurements.length === 0) {
+      if (measurements.length === 0) {
         return {
           currentWeight: { value: 0, change: 0, unit: 'kg' },
           bodyFat: { value: 0, change: 0, unit: '%' },
@@ -148,8 +174,8 @@ export const ClientAPI = {
       const oldest = measurements.length > 1 ? measurements[measurements.length - 1] : null;
       
       const currentWeight = {
-        value: parseFloat(latest.body_weight?.toString() || '0') || 0,
-        change: oldest ? (parseFloat(latest.body_weight?.toString() || '0') - parseFloat(oldest.body_weight?.toString() || '0')) : 0,
+        value: latest.body_weight || 0,
+        change: oldest ? (latest.body_weight || 0) - (oldest.body_weight || 0) : 0,
         unit: 'kg'
       };
       
@@ -170,32 +196,21 @@ export const ClientAPI = {
         muscleGain
       };
     } catch (error) {
-      console.error('Error calculating client stats:', error);
-      return {
-        currentWeight: { value: 0, change: 0, unit: 'kg' },
-        bodyFat: { value: 0, change: 0, unit: '%' },
-        muscleGain: { value: 0, change: 0, unit: 'kg' }
-      };
+      throw apiError('Error calculating client stats', error);
     }
   },
 
-  getAssignedTrainer: async (): Promise<any | null> => {
+  // The client's active trainer relation; null when the client has none
+  getAssignedTrainer: async (): Promise<AssignedTrainer | null> => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return null;
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return null;
       
-      const { data: clientData, error: clientError } = await supabase
-        .from('clients')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-        
-      if (clientError) return null;
-      
-      const { data: relationData, error: relationError } = await supabase
+      const { data, error } = await supabase
         .from('client_trainers')
         .select(`
-          *,
+          status,
+          subscription_start,
           trainer:trainers(
             id,
             user:users(full_name, email)
@@ -205,72 +220,544 @@ export const ClientAPI = {
             price
           )
         `)
-        .eq('client_id', clientData.id)
+        .eq('client_id', clientId)
         .eq('status', 'active')
-        .single();
+        .order('subscription_start', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      
+      if (error) throw error;
+      if (!data) return null;
       
-      if (relationError) return null;
+      const relation = data as unknown as AssignedTrainerRow;
       
       return {
-        id: relationData.trainer.id,
-        full_name: relationData.trainer.user.full_name,
-        email: relationData.trainer.user.email,
-        subscription_name: relationData.trainer_subscription_tier?.name,
-        subscription_price: relationData.trainer_subscription_tier?.price,
-        start_date: relationData.subscription_start
+        id: relation.trainer?.id || '',
+        full_name: relation.trainer?.user?.full_name || 'Your trainer',
+        email: relation.trainer?.user?.email || '',
+        status: relation.status,
+        subscription_name: relation.trainer_subscription_tier?.name || null,
+        subscription_price: relation.trainer_subscription_tier?.price ?? null,
+        start_date: relation.subscription_start || null
       };
     } catch (error) {
-      console.error('Error fetching assigned trainer:', error);
-      return null;
+      throw apiError('Error fetching assigned trainer', error);
     }
-  }
-};
+  },
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-
-function estimateBodyFat(measurement: ClientProgress): number {
-  if (!measurement) return 0;
-  
-  const waist = parseFloat(measurement.waist_size?.toString() || '0') || 0;
-  const chest = parseFloat(measurement.chest_size?.toString() || '0') || 0;
-  
-  if (waist === 0 || chest === 0) return 0;
-  
-  const ratio = waist / chest;
-  let bodyFat = (ratio * 100) - 30;
-  
-  bodyFat = Math.max(5, Math.min(bodyFat, 35));
-  
-  return parseFloat(bodyFat.toFixed(1));
-}
-
-function estimateMuscleGain(latest: ClientProgress, oldest: ClientProgress | null): any {
-  if (!latest || !oldest) {
-    return {
-      value: 0,
-      change: 0,
-      unit: 'kg'
-    };
-  }
-  
-  const weightChange = parseFloat(latest.body_weight?.toString() || '0') - parseFloat(oldest.body_weight?.toString() || '0');
-  const latestBodyFat = estimateBodyFat(latest);
-  const oldestBodyFat = estimateBodyFat(oldest);
-  const bodyFatChange = latestBodyFat - oldestBodyFat;
-  
-  let muscleGain = 0;
-  
-  if (weightChange > 0 && bodyFatChange <= 0) {
-    muscleGain = weightChange;
-  } else if (weightChange < 0 && bodyFatChange < -2) {
-    muscleGain = Math.abs(bodyFatChange) * 0.3;
+  // ========================================================================
+  // WORKOUT SESSIONS
+  // ========================================================================
+
+  getClientWorkouts: async (): Promise<ClientWorkout[]> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return [];
+
+      const { data, error } = await supabase
+        .from('client_workouts')
+        .select(`
+          *,
+          workout:workouts(
+            *,
+            workout_exercises(
+              id,
+              workout_id,
+              exercise_id,
+              exercise_order,
+              notes,
+              exercises(*)
+            )
+          ),
+          workout_version:workout_versions(version, snapshot)
+        `)
+        .eq('client_id', clientId)
+        .order('assigned_date', { ascending: false });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as ClientWorkoutRow[]).map(toClientWorkout);
+    } catch (error) {
+      throw apiError('Error fetching client workouts', error);
+    }
+  },
+
+  getClientWorkout: async (clientWorkoutId: string): Promise<ClientWorkout | null> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return null;
+
+      const { data, error } = await supabase
+        .from('client_workouts')
+        .select(`
+          *,
+          workout:workouts(
+            *,
+            workout_exercises(
+              id,
+              workout_id,
+              exercise_id,
+              exercise_order,
+              notes,
+              exercises(*)
+            )
+          ),
+          workout_version:workout_versions(version, snapshot)
+        `)
+        .eq('id', clientWorkoutId)
+        .eq('client_id', clientId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return toClientWorkout(data as unknown as ClientWorkoutRow);
+    } catch (error) {
+      throw apiError('Error fetching client workout', error);
+    }
+  },
+
+  startWorkout: async (clientWorkoutId: string): Promise<void> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) throw new Error('Client not found');
+
+      const { error } = await supabase
+        .from('client_workouts')
+        .update({ status: 'in_progress' })
+        .eq('id', clientWorkoutId)
+        .eq('client_id', clientId)
+        .neq('status', 'completed');
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.clientWorkouts);
+    } catch (error) {
+      throw apiError('Error starting workout', error);
+    }
+  },
+
+  // complete_workout closes the assignment and saves the log with its sets in one transaction;
+  // a double submit or a retry finds the assignment completed and never logs the session twice
+  completeWorkout: async (logData: CreateWorkoutLogData): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('complete_workout', {
+        p_client_workout_id: logData.client_workout_id,
+        p_started_at: logData.started_at,
+        p_notes: logData.notes || null,
+        p_sets: toJson(logData.sets)
+      });
+
+      if (error) {
+        if (error.hint === 'already_completed') {
+          throw new ApiError('This workout is already completed', { code: 'already_completed' });
+        }
+        throw error;
+      }
+
+      invalidateQueries(queryKeys.clientWorkouts);
+    } catch (error) {
+      throw apiError('Error completing workout', error);
+    }
+  },
+
+  // ========================================================================
+  // NUTRITION
+  // ========================================================================
+
+  // The most recently assigned plan that covers `date`
+  getActiveMenuPlan: async (date: string = getTodayDate()): Promise<ClientMenuPlan | null> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return null;
+
+      const { data, error } = await supabase
+        .from('client_menu_plans')
+        .select(`
+          *,
+          menu_plan:menu_plans(
+            *,
+            menu_plan_items(
+              id,
+              menu_id,
+              meal_order,
+              menus(*)
+            )
+          )
+        `)
+        .eq('client_id', clientId)
+        .eq('status', 'active')
+        .or(`start_date.is.null,start_date.lte.${date}`)
+        .or(`end_date.is.null,end_date.gte.${date}`)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const clientPlan = data as unknown as ClientMenuPlanRow;
+      return {
+        ...clientPlan,
+        menu_plan: clientPlan.menu_plan ? withSortedMeals(clientPlan.menu_plan) : undefined
+      };
+    } catch (error) {
+      throw apiError('Error fetching active menu plan', error);
+    }
+  },
+
+  getMealCheckins: async (date: string = getTodayDate()): Promise<MealCheckin[]> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return [];
+
+      const { data, error } = await supabase
+        .from('meal_checkins')
+        .select('*')
+        .eq('client_id', clientId)
+        .eq('date', date);
+
+      if (error) throw error;
+
+      return data as MealCheckin[];
+    } catch (error) {
+      throw apiError('Error fetching meal check-ins', error);
+    }
+  },
+
+  // Saves the check-off and returns the day's recalculated adherence
+  saveMealCheckin: async (checkinData: SaveMealCheckinData): Promise<NutritionAdherence> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) throw new Error('Client not found');
+
+      const { error } = await supabase
+        .from('meal_checkins')
+        .upsert({
+          client_id: clientId,
+          client_menu_plan_id: checkinData.client_menu_plan_id,
+          menu_id: checkinData.menu_id,
+          date: checkinData.date,
+          status: checkinData.status,
+          substitute_note: checkinData.status === 'substituted' ? checkinData.substitute_note || null : null,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'client_id,date,menu_id' });
+
+      if (error) throw error;
+
+      return await fetchDailyAdherence(clientId, checkinData.date);
+    } catch (error) {
+      throw apiError('Error saving meal check-in', error);
+    }
+  },
+
+  clearMealCheckin: async (menuId: string, date: string): Promise<NutritionAdherence> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) throw new Error('Client not found');
+
+      const { error } = await supabase
+        .from('meal_checkins')
+        .delete()
+        .eq('client_id', clientId)
+        .eq('menu_id', menuId)
+        .eq('date', date);
+
+      if (error) throw error;
+
+      return await fetchDailyAdherence(clientId, date);
+    } catch (error) {
+      throw apiError('Error clearing meal check-in', error);
+    }
+  },
+
+  getAdherenceHistory: async (days = ADHERENCE_HISTORY_DAYS): Promise<NutritionAdherence[]> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return [];
+
+      return await fetchAdherenceHistory(clientId, days);
+    } catch (error) {
+      throw apiError('Error fetching adherence history', error);
+    }
+  },
+
+  // ========================================================================
+  // WELLBEING
+  // ========================================================================
+
+  getWellbeingCheckin: async (date: string = getTodayDate()): Promise<WellbeingCheckin | null> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return null;
+
+      const { data, error } = await supabase
+        .from('wellbeing_checkins')
+        .select('*')
+        .eq('client_id', clientId)
+        .eq('date', date)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? toWellbeingCheckin(data) : null;
+    } catch (error) {
+      throw apiError('Error fetching wellbeing check-in', error);
+    }
+  },
+
+  // One check-in per day; saving again replaces that day's answers
+  saveWellbeingCheckin: async (checkinData: SaveWellbeingCheckinData): Promise<WellbeingCheckin> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) throw new Error('Client not found');
+
+      if (checkinData.sleep_hours < 0 || checkinData.sleep_hours > MAX_SLEEP_HOURS) {
+        throw new ApiError(`Sleep must be between 0 and ${MAX_SLEEP_HOURS} hours`, { code: 'invalid_sleep_hours' });
+      }
+
+      const { data, error } = await supabase
+        .from('wellbeing_checkins')
+        .upsert({
+          client_id: clientId,
+          date: checkinData.date,
+          mood: checkinData.mood,
+          energy: checkinData.energy,
+          sleep_hours: checkinData.sleep_hours,
+          stress: checkinData.stress,
+          soreness: toJson(checkinData.soreness),
+          notes: checkinData.notes?.trim() || null,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'client_id,date' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.wellbeingCheckin(checkinData.date));
+      return toWellbeingCheckin(data);
+    } catch (error) {
+      throw apiError('Error saving wellbeing check-in', error);
+    }
+  },
+
+  // ========================================================================
+  // TRAINER DIRECTORY
+  // ========================================================================
+
+  // Every listed trainer; search and filters are applied by the caller
+  getTrainerDirectory: async (): Promise<TrainerListing[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('trainer_profiles')
+        .select(TRAINER_LISTING_SELECT)
+        .eq('is_listed', true);
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as TrainerListingRow[])
+        .map(toTrainerListing)
+        .sort((a, b) => a.full_name.localeCompare(b.full_name));
+    } catch (error) {
+      throw apiError('Error fetching trainer directory', error);
+    }
+  },
+
+  getTrainerListing: async (trainerId: string): Promise<TrainerListing | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('trainer_profiles')
+        .select(TRAINER_LISTING_SELECT)
+        .eq('trainer_id', trainerId)
+        .eq('is_listed', true)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? toTrainerListing(data as unknown as TrainerListingRow) : null;
+    } catch (error) {
+      throw apiError('Error fetching trainer profile', error);
+    }
+  },
+
+  // The client's open requests, suspended subscriptions and active trainers
+  getTrainerRequests: async (): Promise<TrainerRequest[]> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) return [];
+
+      const { data, error } = await supabase
+        .from('client_trainers')
+        .select('id, trainer_id, status, trainer_subscription_tier_id')
+        .eq('client_id', clientId)
+        .in('status', ['active', 'pending', 'suspended']);
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        relation_id: row.id,
+        trainer_id: row.trainer_id,
+        status: row.status as TrainerRequest['status'],
+        trainer_subscription_tier_id: row.trainer_subscription_tier_id
+      }));
+    } catch (error) {
+      throw apiError('Error fetching trainer requests', error);
+    }
+  },
+
+  // Creates a pending client_trainers row for the trainer to accept or decline
+  requestTrainer: async (trainerId: string, tierId: string): Promise<TrainerRequest> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) throw new Error('Client not found');
+
+      const { data: tier, error: tierError } = await supabase
+        .from('trainer_subscription_tiers')
+        .select('id')
+        .eq('id', tierId)
+        .eq('trainer_id', trainerId)
+        .eq('is_published', true)
+        .maybeSingle();
+
+      if (tierError) throw tierError;
+      if (!tier) throw new ApiError('This plan is no longer offered', { code: 'not_found' });
+
+      const { count, error: existingError } = await supabase
+        .from('client_trainers')
+        .select('*', { count: 'exact', head: true })
+        .eq('client_id', clientId)
+        .eq('trainer_id', trainerId)
+        .in('status', ['active', 'pending', 'suspended']);
+
+      if (existingError) throw existingError;
+      if (count) throw new ApiError('You already have a request or subscription with this trainer', { code: 'already_requested' });
+
+      const { data, error } = await supabase
+        .from('client_trainers')
+        .insert({
+          client_id: clientId,
+          trainer_id: trainerId,
+          trainer_subscription_tier_id: tierId,
+          status: 'pending'
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.trainerRequests);
+      return { relation_id: data.id, trainer_id: trainerId, status: 'pending', trainer_subscription_tier_id: tierId };
+    } catch (error) {
+      throw apiError('Error requesting trainer', error);
+    }
+  },
+
+  // ========================================================================
+  // CHECKOUT - payment goes through CheckoutService in @/lib/payments; only the stripe-webhook function activates
+  // ========================================================================
+
+  // Reuses an open request or failed subscription with the trainer, so retrying never piles up rows
+  prepareCheckout: async (trainerId: string, tierId: string): Promise<ClientCheckout> => {
+    try {
+      const clientId = await ClientAPI.getClientId();
+      if (!clientId) throw new Error('Client not found');
+
+      const { data: tier, error: tierError } = await supabase
+        .from('trainer_subscription_tiers')
+        .select('*')
+        .eq('id', tierId)
+        .eq('trainer_id', trainerId)
+        .eq('is_published', true)
+        .maybeSingle();
+
+      if (tierError) throw tierError;
+      if (!tier) throw new ApiError('This plan is no longer offered', { code: 'not_found' });
+
+      const { data: existing, error: existingError } = await supabase
+        .from('client_trainers')
+        .select('id, status')
+        .eq('client_id', clientId)
+        .eq('trainer_id', trainerId)
+        .in('status', ['active', 'pending', 'suspended'])
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existing?.status === 'active') {
+        throw new ApiError('You are already subscribed to this trainer', { code: 'already_subscribed' });
+      }
+
+      // Checked before any charge, so a client is never billed for a trainer who can't take them
+      await requireClientCapacity(trainerId);
+
+      const { data: relation, error } = existing
+        ? await supabase
+          .from('client_trainers')
+          .update({ trainer_subscription_tier_id: tierId, updated_at: new Date().toISOString() })
+          .eq('id', existing.id)
+          .select('id')
+          .single()
+        : await supabase
+          .from('client_trainers')
+          .insert({ client_id: clientId, trainer_id: trainerId, trainer_subscription_tier_id: tierId, status: 'pending' })
+          .select('id')
+          .single();
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.trainerRequests);
+      return { relation_id: relation.id, trainer_id: trainerId, tier: tier as TrainerSubscriptionTier };
+    } catch (error) {
+      throw apiError('Error preparing checkout', error);
+    }
+  },
+
+  // ========================================================================
+  // INVITES
+  // ========================================================================
+
+  // Readable before sign-in, so the landing page can say who sent the invite. Invites themselves are
+  // private to the trainer; the function only ever returns the one matching the code.
+  getInvite: async (code: string): Promise<InvitePreview | null> => {
+    try {
+      const { data, error } = await supabase.rpc('get_trainer_invite_preview', { p_code: normalizeInviteCode(code) });
+
+      if (error) throw error;
+
+      const [row] = data;
+      return row ? toInvitePreview(row) : null;
+    } catch (error) {
+      throw apiError('Error fetching invite', error);
+    }
+  },
+
+  // Links the signed-in client to the inviting trainer: active on a free plan, pending checkout on a paid one.
+  // The redeem_trainer_invite function checks and counts the use in one transaction.
+  redeemInvite: async (code: string): Promise<RedeemedInvite> => {
+    try {
+      const invite = await ClientAPI.getInvite(code);
+      if (!invite) throw new ApiError('This invite link is not valid', { code: 'not_found' });
+
+      const { data, error } = await supabase.rpc('redeem_trainer_invite', { p_code: normalizeInviteCode(code) });
+
+      if (error) {
+        if (error.hint === 'revoked' || error.hint === 'expired' || error.hint === 'used_up') {
+          throw inviteUnavailableError(error.hint);
+        }
+        throw error;
+      }
+
+      const [redeemed] = data;
+      invalidateQueries(queryKeys.trainerRequests);
+      return {
+        relation_id: redeemed.relation_id,
+        trainer_id: invite.trainer_id,
+        trainer_name: invite.trainer_name,
+        tier_name: invite.tier_name,
+        status: redeemed.relation_status as ClientTrainerStatus,
+        linked: redeemed.linked
+      };
+    } catch (error) {
+      throw apiError('Error accepting invite', error);
+    }
   }
-  
-  return {
-    value: parseFloat(muscleGain.toFixed(1)),
-    change: parseFloat(muscleGain.toFixed(1)),
-    unit: 'kg'
-  };
-}
\ No newline at end of file
+};
@@ -0,0 +1,447 @@
+// src/lib/api/helpers.ts - Shared mapping and bookkeeping for the API objects; not re-exported from @/lib/api
+import { supabase } from '@/lib/supabaseClient';
+import { Json } from '@/lib/database.types';
+import { ApiError, toApiError } from '@/lib/errors';
+import { parseSeries } from '@/lib/prescription';
+import { addDays, getTodayDate } from '@/lib/utils';
+import { sumIngredientMacros, roundMacros, MacroTotals } from '@/lib/macros';
+import {
+  DEFAULT_CLIENT_LIMIT,
+  Entitlement,
+  ENTITLEMENT_LABELS,
+  formatEntitledTiers,
+  hasClientCapacity,
+  hasEntitlement
+} from '@/lib/entitlements';
+import {
+  ClientProgress,
+  ClientStat,
+  ClientWorkout,
+  CreateMenuData,
+  CreateWorkoutData,
+  Exercise,
+  Food,
+  InvitePreview,
+  InviteStatus,
+  MealIngredientInput,
+  Menu,
+  MenuPlan,
+  Message,
+  MessageAttachment,
+  NutritionAdherence,
+  Program,
+  SorenessLevels,
+  SubscriptionTier,
+  TrainerInvite,
+  TrainerListing,
+  WellbeingCheckin,
+  Workout
+} from './types';
+import {
+  ClientWorkoutRow,
+  ExerciseRow,
+  InvitePreviewRow,
+  MenuPlanRow,
+  MenuRow,
+  MessageRow,
+  TrainerInviteRow,
+  TrainerListingRow,
+  WellbeingCheckinRow,
+  WorkoutRow
+} from './rows';
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+// Every API method fails the same way: log with context, then throw an ApiError for the caller to show
+export function apiError(context: string, error: unknown): ApiError {
+  console.error(`${context}:`, error);
+  return toApiError(error);
+}
+
+// jsonb columns take plain data; the typed interfaces stored in them lack Json's index signature
+export function toJson<T>(value: T): Json {
+  return value as unknown as Json;
+}
+
+// ============================================================================
+// ENTITLEMENTS
+// ============================================================================
+
+// Platform tier of a trainer by trainers.id; null for trainers on no tier, who get Basic
+export async function getTrainerTier(trainerId: string): Promise<SubscriptionTier | null> {
+  const { data, error } = await supabase
+    .from('trainers')
+    .select('subscription_tier:subscription_tiers(*)')
+    .eq('id', trainerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as unknown as { subscription_tier: SubscriptionTier | null } | null)?.subscription_tier ?? null;
+}
+
+export function featureLockedError(entitlement: Entitlement): ApiError {
+  return new ApiError(`${ENTITLEMENT_LABELS[entitlement]} is available on ${formatEntitledTiers(entitlement)}`, {
+    code: 'feature_locked'
+  });
+}
+
+// Fails fast with a readable error before a call behind a paid feature; the database policies in
+// supabase/migrations/20261019140000_entitlements.sql are what actually refuse it
+export async function requireEntitlement(trainerId: string, entitlement: Entitlement): Promise<void> {
+  const tier = await getTrainerTier(trainerId);
+  if (!hasEntitlement(tier?.name, entitlement)) throw featureLockedError(entitlement);
+}
+
+// Early check before a client is made active past the tier's client_limit. It can race, so the
+// enforce_client_capacity trigger re-checks the limit on every activation, including the webhook's
+export async function requireClientCapacity(trainerId: string): Promise<void> {
+  const [tier, { count, error }] = await Promise.all([
+    getTrainerTier(trainerId),
+    supabase
+      .from('client_trainers')
+      .select('*', { count: 'exact', head: true })
+      .eq('trainer_id', trainerId)
+      .eq('status', 'active')
+  ]);
+
+  if (error) throw error;
+
+  const clientLimit = tier ? tier.client_limit : DEFAULT_CLIENT_LIMIT;
+  if (!hasClientCapacity(clientLimit, count || 0)) {
+    throw new ApiError(`This trainer has reached the ${clientLimit}-client limit of their plan`, {
+      code: 'client_limit_reached'
+    });
+  }
+}
+
+// ============================================================================
+// CLIENT LINKS
+// ============================================================================
+
+// The subset of clientIds actively coached by the trainer; assignments only ever reach these
+export async function requireActiveClients(trainerId: string, clientIds: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('client_trainers')
+    .select('client_id')
+    .eq('trainer_id', trainerId)
+    .eq('status', 'active')
+    .in('client_id', clientIds);
+
+  if (error) throw error;
+
+  const linkedIds = new Set((data || []).map(relation => relation.client_id));
+  const activeIds = clientIds.filter(clientId => linkedIds.has(clientId));
+  if (activeIds.length === 0) {
+    throw new ApiError('None of the selected clients are active with you', { code: 'client_not_linked' });
+  }
+  return activeIds;
+}
+
+// ============================================================================
+// MAPPING & BOOKKEEPING
+// ============================================================================
+
+// Clients who signed up before role selection created their clients row get one on first use
+export async function getOrCreateClientId(userId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data.id;
+
+  const { data: newClient, error: createError } = await supabase
+    .from('clients')
+    .insert({ user_id: userId })
+    .select('id')
+    .single();
+
+  if (createError) throw createError;
+
+  return newClient.id;
+}
+
+// Orders workout_exercises by exercise_order and flattens the joined exercises into `exercises`
+export function withOrderedExercises(workout: WorkoutRow): Workout {
+  const sortedItems = workout.workout_exercises?.sort((a, b) => a.exercise_order - b.exercise_order) || [];
+  const workoutExercises = sortedItems.map(({ exercises: exercise, ...item }) => ({
+    ...item,
+    exercise: exercise ? toExercise(exercise) : undefined
+  }));
+  const exercises = workoutExercises.map(item => item.exercise).filter(Boolean) as Exercise[];
+
+  return {
+    ...workout,
+    exercises,
+    exercise_count: exercises.length,
+    workout_exercises: workoutExercises
+  };
+}
+
+// Sessions pinned to an earlier version show that version instead of the workout's current state
+export function toClientWorkout({ workout_version: workoutVersion, ...row }: ClientWorkoutRow): ClientWorkout {
+  const workout = row.workout ? withOrderedExercises(row.workout) : undefined;
+  if (!workout || !workoutVersion) return { ...row, workout };
+
+  const { snapshot } = workoutVersion;
+  const exercises = snapshot.workout_exercises.map(item => item.exercise).filter(Boolean) as Exercise[];
+
+  return {
+    ...row,
+    workout: {
+      ...workout,
+      ...snapshot,
+      version: workoutVersion.version,
+      exercises,
+      exercise_count: exercises.length
+    }
+  };
+}
+
+export function toWorkoutExerciseItems(workoutId: string, workoutData: CreateWorkoutData) {
+  return workoutData.selected_exercise_ids.map((exerciseId, index) => ({
+    workout_id: workoutId,
+    exercise_id: exerciseId,
+    exercise_order: index + 1,
+    notes: workoutData.exercise_notes?.[exerciseId]?.trim() || null
+  }));
+}
+
+export function withSortedProgramWorkouts(program: Program): Program {
+  return {
+    ...program,
+    program_workouts: [...(program.program_workouts || [])].sort((a, b) => a.day_of_week - b.day_of_week)
+  };
+}
+
+// Legacy rows are backfilled by migration; anything still without a prescription is read from its free text
+export function toExercise(row: ExerciseRow): Exercise {
+  return {
+    ...row,
+    prescription: row.prescription || parseSeries(row.series)
+  };
+}
+
+// The day's score is recounted by a database trigger whenever a check-in changes
+export async function fetchDailyAdherence(clientId: string, date: string): Promise<NutritionAdherence> {
+  const { data, error } = await supabase
+    .from('nutrition_adherence')
+    .select('*')
+    .eq('client_id', clientId)
+    .eq('date', date)
+    .single();
+
+  if (error) throw error;
+
+  return data as NutritionAdherence;
+}
+
+export async function fetchAdherenceHistory(clientId: string, days: number): Promise<NutritionAdherence[]> {
+  const { data, error } = await supabase
+    .from('nutrition_adherence')
+    .select('*')
+    .eq('client_id', clientId)
+    .gte('date', addDays(getTodayDate(), -(days - 1)))
+    .order('date', { ascending: true });
+
+  if (error) throw error;
+
+  return data as NutritionAdherence[];
+}
+
+// Orders ingredients by ingredient_order and flattens the joined foods into `food`
+export function withOrderedIngredients({ menu_ingredients: rows, ...menu }: MenuRow): Menu {
+  const ingredients = (rows || [])
+    .sort((a, b) => a.ingredient_order - b.ingredient_order)
+    .map(({ foods: food, ...item }) => ({ ...item, food: food || undefined }));
+
+  return { ...menu, ingredients };
+}
+
+// Ingredient meals take their macros from the catalog; custom meals keep the entered values
+export async function resolveMenuMacros(menuData: CreateMenuData): Promise<MacroTotals> {
+  const ingredients = menuData.ingredients || [];
+  if (ingredients.length === 0) {
+    return {
+      calories: menuData.calories,
+      protein: menuData.protein,
+      carbohydrates: menuData.carbohydrates,
+      fat: menuData.fat
+    };
+  }
+
+  const { data, error } = await supabase
+    .from('foods')
+    .select('*')
+    .in('id', ingredients.map(ingredient => ingredient.food_id));
+
+  if (error) throw error;
+
+  const foods = new Map(((data || []) as Food[]).map(food => [food.id, food]));
+  const resolved = ingredients.map(ingredient => {
+    const food = foods.get(ingredient.food_id);
+    if (!food) throw new Error('Ingredient food not found in catalog');
+    return { food, grams: ingredient.grams };
+  });
+
+  return roundMacros(sumIngredientMacros(resolved));
+}
+
+export async function saveMenuIngredients(menuId: string, ingredients: MealIngredientInput[], replace = false): Promise<void> {
+  if (replace) {
+    const { error: deleteError } = await supabase
+      .from('menu_ingredients')
+      .delete()
+      .eq('menu_id', menuId);
+
+    if (deleteError) throw deleteError;
+  }
+
+  if (ingredients.length === 0) return;
+
+  const { error } = await supabase
+    .from('menu_ingredients')
+    .insert(ingredients.map((ingredient, index) => ({
+      menu_id: menuId,
+      food_id: ingredient.food_id,
+      grams: ingredient.grams,
+      ingredient_order: index + 1
+    })));
+
+  if (error) throw error;
+}
+
+// Orders plan items by meal_order and flattens the joined menus into `meals`
+export function withSortedMeals(plan: MenuPlanRow): MenuPlan {
+  const sortedItems = plan.menu_plan_items?.sort((a, b) => a.meal_order - b.meal_order) || [];
+  const menuPlanItems = sortedItems.map(({ menus: menu, ...item }) => ({ ...item, menu: menu || undefined }));
+  const meals = menuPlanItems.map(item => item.menu).filter(Boolean) as Menu[];
+
+  return {
+    ...plan,
+    meals,
+    meal_count: meals.length,
+    menu_plan_items: menuPlanItems
+  };
+}
+
+export function toWellbeingCheckin(row: WellbeingCheckinRow): WellbeingCheckin {
+  return { ...row, soreness: (row.soreness ?? {}) as SorenessLevels };
+}
+
+// Only published plans are shown to clients, cheapest first
+export function toTrainerListing({ trainer, ...profile }: TrainerListingRow): TrainerListing {
+  return {
+    trainer_id: profile.trainer_id,
+    bio: profile.bio,
+    specialties: profile.specialties ?? [],
+    photo_url: profile.photo_url,
+    location: profile.location,
+    offers_online: profile.offers_online,
+    offers_in_person: profile.offers_in_person,
+    full_name: trainer?.user?.full_name || 'Trainer',
+    tiers: (trainer?.trainer_subscription_tiers || [])
+      .filter(tier => tier.is_published)
+      .sort((a, b) => a.price - b.price)
+  };
+}
+
+// ============================================================================
+// INVITES
+// ============================================================================
+
+// No 0/O or 1/I, so codes survive being read out or typed from a screenshot
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+export function generateInviteCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(INVITE_CODE_LENGTH));
+  return Array.from(bytes, byte => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length]).join('');
+}
+
+export function getInviteStatus(invite: Pick<TrainerInviteRow, 'revoked_at' | 'expires_at' | 'max_uses' | 'use_count'>): InviteStatus {
+  if (invite.revoked_at) return 'revoked';
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= Date.now()) return 'expired';
+  if (invite.max_uses !== null && invite.use_count >= invite.max_uses) return 'used_up';
+  return 'active';
+}
+
+const INVITE_STATUS_ERRORS: Record<Exclude<InviteStatus, 'active'>, string> = {
+  revoked: 'This invite was revoked by the trainer',
+  expired: 'This invite has expired',
+  used_up: 'This invite has already been used'
+};
+
+export function inviteUnavailableError(status: Exclude<InviteStatus, 'active'>): ApiError {
+  return new ApiError(INVITE_STATUS_ERRORS[status], { code: `invite_${status}` });
+}
+
+export function toTrainerInvite({ tier, ...row }: TrainerInviteRow): TrainerInvite {
+  return { ...row, tier_name: tier?.name || 'Plan', status: getInviteStatus(row) };
+}
+
+export function toInvitePreview(row: InvitePreviewRow): InvitePreview {
+  return {
+    code: row.code,
+    trainer_id: row.trainer_id,
+    trainer_name: row.trainer_name || 'Your trainer',
+    tier_name: row.tier_name || 'Plan',
+    tier_price: row.tier_price ?? 0,
+    billing_cycle: row.billing_cycle || 'monthly',
+    status: getInviteStatus(row)
+  };
+}
+
+// The attachment column holds a MessageAttachment snapshot written by MessagingAPI.sendMessage
+export function toMessage(row: MessageRow): Message {
+  return { ...row, attachment: row.attachment as unknown as MessageAttachment | null };
+}
+
+export function estimateBodyFat(measurement: ClientProgress): number {
+  if (!measurement) return 0;
+  
+  const waist = parseFloat(measurement.waist_size?.toString() || '0') || 0;
+  const chest = parseFloat(measurement.chest_size?.toString() || '0') || 0;
+  
+  if (waist === 0 || chest === 0) return 0;
+  
+  const ratio = waist / chest;
+  let bodyFat = (ratio * 100) - 30;
+  
+  bodyFat = Math.max(5, Math.min(bodyFat, 35));
+  
+  return parseFloat(bodyFat.toFixed(1));
+}
+
+export function estimateMuscleGain(latest: ClientProgress, oldest: ClientProgress | null): ClientStat {
+  if (!latest || !oldest) {
+    return {
+      value: 0,
+      change: 0,
+      unit: 'kg'
+    };
+  }
+  
+  const weightChange = parseFloat(latest.body_weight?.toString() || '0') - parseFloat(oldest.body_weight?.toString() || '0');
+  const latestBodyFat = estimateBodyFat(latest);
+  const oldestBodyFat = estimateBodyFat(oldest);
+  const bodyFatChange = latestBodyFat - oldestBodyFat;
+  
+  let muscleGain = 0;
+  
+  if (weightChange > 0 && bodyFatChange <= 0) {
+    muscleGain = weightChange;
+  } else if (weightChange < 0 && bodyFatChange < -2) {
+    muscleGain = Math.abs(bodyFatChange) * 0.3;
+  }
+  
+  return {
+    value: parseFloat(muscleGain.toFixed(1)),
+    change: parseFloat(muscleGain.toFixed(1)),
+    unit: 'kg'
+  };
+}
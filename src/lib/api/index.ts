@@ -1,4 +1,8 @@
-export * from '../types';
+// src/lib/api/index.ts - The data-access layer. Every method throws an ApiError (see @/lib/errors) on failure.
+export * from './types';
 export { AuthAPI } from './auth';
 export { ClientAPI } from './client';
-export { TrainerAPI } from './trainer';
\ No newline at end of file
+export { TrainerAPI } from './trainer';
+export { MessagingAPI } from './messaging';
+export { NotificationsAPI } from './notifications';
+export { queryKeys } from './queryKeys';
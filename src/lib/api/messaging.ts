@@ -0,0 +1,172 @@
+// src/lib/api/messaging.ts - Data access for trainer-client conversations and their messages
+import { supabase } from '@/lib/supabaseClient';
+import { ApiError } from '@/lib/errors';
+import { invalidateQueries } from '@/lib/queryCache';
+import { hasEntitlement } from '@/lib/entitlements';
+import { MESSAGE_MAX_LENGTH } from '@/lib/messaging';
+import { ConversationSummary, Message, SendMessageData, UserType } from './types';
+import { ConversationRelationRow } from './rows';
+import { apiError, featureLockedError, toJson, toMessage } from './helpers';
+import { queryKeys } from './queryKeys';
+import { ClientAPI } from './client';
+import { TrainerAPI } from './trainer';
+
+export const MessagingAPI = {
+  // One entry per active relation, whether or not a message has been sent yet; newest threads first
+  getConversations: async (userType: UserType): Promise<ConversationSummary[]> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const ownId = userType === 'trainer' ? await TrainerAPI.getTrainerId() : await ClientAPI.getClientId();
+      if (!ownId) return [];
+
+      const { data: relations, error: relationsError } = await supabase
+        .from('client_trainers')
+        .select(`
+          id,
+          client_id,
+          client:clients(
+            user:users(full_name, email)
+          ),
+          trainer:trainers(
+            user:users(full_name, email),
+            subscription_tier:subscription_tiers(name)
+          ),
+          conversation:conversations(
+            id,
+            last_message_at,
+            last_message_preview,
+            last_message_sender_id
+          )
+        `)
+        .eq(userType === 'trainer' ? 'trainer_id' : 'client_id', ownId)
+        .eq('status', 'active');
+
+      if (relationsError) throw relationsError;
+      if (!relations || relations.length === 0) return [];
+
+      const rows = relations as unknown as ConversationRelationRow[];
+      const conversationIds = rows.flatMap(row => (row.conversation ? [row.conversation.id] : []));
+
+      const unreadCounts = new Map<string, number>();
+      if (conversationIds.length > 0) {
+        const { data: unread, error: unreadError } = await supabase
+          .from('messages')
+          .select('conversation_id')
+          .in('conversation_id', conversationIds)
+          .neq('sender_id', user.id)
+          .is('read_at', null);
+
+        if (unreadError) throw unreadError;
+        unread?.forEach(({ conversation_id }) => {
+          unreadCounts.set(conversation_id, (unreadCounts.get(conversation_id) || 0) + 1);
+        });
+      }
+
+      return rows
+        .map(row => {
+          const participant = userType === 'trainer' ? row.client?.user : row.trainer?.user;
+          return {
+            client_trainer_id: row.id,
+            client_id: row.client_id,
+            conversation_id: row.conversation?.id ?? null,
+            participant_name: participant?.full_name || 'Unknown',
+            participant_email: participant?.email || '',
+            last_message_preview: row.conversation?.last_message_preview ?? null,
+            last_message_at: row.conversation?.last_message_at ?? null,
+            last_message_sender_id: row.conversation?.last_message_sender_id ?? null,
+            unread_count: row.conversation ? unreadCounts.get(row.conversation.id) || 0 : 0,
+            messaging_enabled: hasEntitlement(row.trainer?.subscription_tier?.name, 'in_app_messaging')
+          };
+        })
+        .sort((a, b) => (b.last_message_at || '').localeCompare(a.last_message_at || ''));
+    } catch (error) {
+      throw apiError('Error fetching conversations', error);
+    }
+  },
+
+  getMessages: async (conversationId: string): Promise<Message[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toMessage);
+    } catch (error) {
+      throw apiError('Error fetching messages', error);
+    }
+  },
+
+  // send_message creates the conversation on the first message of a relation and refuses relations that
+  // are no longer active or whose trainer's plan lacks In-App Messaging
+  sendMessage: async (clientTrainerId: string, messageData: SendMessageData): Promise<Message> => {
+    try {
+      const body = messageData.body.trim();
+      const attachment = messageData.attachment ?? null;
+      if (!body && !attachment) {
+        throw new ApiError('Write a message or attach something to send', { code: 'empty_message' });
+      }
+      if (body.length > MESSAGE_MAX_LENGTH) {
+        throw new ApiError(`Messages can be at most ${MESSAGE_MAX_LENGTH} characters`, { code: 'message_too_long' });
+      }
+
+      const { data: message, error } = await supabase.rpc('send_message', {
+        p_client_trainer_id: clientTrainerId,
+        p_body: body,
+        p_attachment: attachment ? toJson(attachment) : null
+      });
+
+      if (error) {
+        if (error.hint === 'not_found') {
+          throw new ApiError('This trainer relationship is no longer active', { code: 'not_found' });
+        }
+        if (error.hint === 'feature_locked') throw featureLockedError('in_app_messaging');
+        throw error;
+      }
+
+      invalidateQueries(queryKeys.conversations);
+      return toMessage(message);
+    } catch (error) {
+      throw apiError('Error sending message', error);
+    }
+  },
+
+  // Marks the other participant's messages as read, which is what their read receipts show
+  markConversationRead: async (conversationId: string): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.unreadMessages);
+      invalidateQueries(queryKeys.conversations);
+    } catch (error) {
+      throw apiError('Error marking messages as read', error);
+    }
+  },
+
+  // Counted across every conversation the user can see; RLS limits messages to their own threads
+  getUnreadCount: async (): Promise<number> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return 0;
+
+      const { count, error } = await supabase
+        .from('messages')
+        .select('*', { count: 'exact', head: true })
+        .neq('sender_id', user.id)
+        .is('read_at', null);
+
+      if (error) throw error;
+
+      return count || 0;
+    } catch (error) {
+      throw apiError('Error fetching unread messages', error);
+    }
+  }
+};
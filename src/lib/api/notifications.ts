@@ -0,0 +1,52 @@
+// src/lib/api/notifications.ts - The signed-in user's email notification preferences
+import { supabase } from '@/lib/supabaseClient';
+import { invalidateQueries } from '@/lib/queryCache';
+import { withDefaultPreferences } from '@/lib/notifications/templates';
+import { NotificationPreferences, UpdateNotificationPreferencesData } from './types';
+import { apiError } from './helpers';
+import { queryKeys } from './queryKeys';
+
+export const NotificationsAPI = {
+  getPreferences: async (): Promise<NotificationPreferences | null> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return withDefaultPreferences(user.id, data);
+    } catch (error) {
+      throw apiError('Error fetching notification preferences', error);
+    }
+  },
+
+  updatePreferences: async (preferences: UpdateNotificationPreferencesData): Promise<NotificationPreferences> => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          ...preferences,
+          user_id: user.id,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.notificationPreferences);
+      return data;
+    } catch (error) {
+      throw apiError('Error updating notification preferences', error);
+    }
+  }
+};
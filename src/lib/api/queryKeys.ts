@@ -0,0 +1,34 @@
+// src/lib/api/queryKeys.ts - Cache keys for @/lib/queryCache; mutations invalidate the keys they affect
+export const queryKeys = {
+  clientId: ['client', 'id'],
+  measurements: ['client', 'measurements'],
+  clientWorkouts: ['client', 'workouts'],
+  activeMenuPlan: ['client', 'active-menu-plan'],
+  wellbeingCheckin: (date: string) => ['client', 'wellbeing', date],
+  trainerRequests: ['client', 'trainer-requests'],
+  trainerId: ['trainer', 'id'],
+  subscription: ['trainer', 'subscription'],
+  billing: ['trainer', 'billing'],
+  invoices: ['trainer', 'billing', 'invoices'],
+  upcomingInvoice: ['trainer', 'billing', 'upcoming-invoice'],
+  paymentMethod: ['trainer', 'billing', 'payment-method'],
+  clientCount: ['trainer', 'client-count'],
+  clients: ['trainer', 'clients'],
+  trainerProfile: ['trainer', 'profile'],
+  invites: ['trainer', 'invites'],
+  clientMeasurements: (clientId: string) => ['trainer', 'client-measurements', clientId],
+  subscriptionTiers: ['trainer', 'subscription-tiers'],
+  exercises: ['trainer', 'exercises'],
+  workouts: ['trainer', 'workouts'],
+  programs: ['trainer', 'programs'],
+  foods: ['trainer', 'foods'],
+  menus: ['trainer', 'menus'],
+  menuPlans: ['trainer', 'menu-plans'],
+  conversations: ['messages', 'conversations'],
+  conversationMessages: (conversationId: string) => ['messages', 'thread', conversationId],
+  unreadMessages: ['messages', 'unread'],
+  notificationPreferences: ['notifications', 'preferences'],
+  trainerDirectory: ['marketplace', 'trainers'],
+  trainerListing: (trainerId: string) => ['marketplace', 'trainers', trainerId],
+  invitePreview: (code: string) => ['invites', code]
+} as const;
@@ -0,0 +1,133 @@
+// src/lib/api/rows.ts - Raw row shapes returned by nested selects, before they are mapped to domain types.
+// Internal to the data-access layer; not re-exported from @/lib/api.
+import { Tables } from '@/lib/database.types';
+import {
+  Exercise,
+  ExercisePrescription,
+  Workout,
+  WorkoutExercise,
+  ClientWorkout,
+  WorkoutVersion,
+  ClientTrainerStatus,
+  Food,
+  Menu,
+  MenuIngredient,
+  MenuPlan,
+  MenuPlanItem,
+  ClientMenuPlan,
+  ClientProgress,
+  RosterWorkoutSummary,
+  TrainerSubscriptionTier
+} from './types';
+
+// exercises row before the prescription is filled in from legacy series text
+export interface ExerciseRow extends Omit<Exercise, 'prescription'> {
+  prescription: ExercisePrescription | null;
+}
+
+// workouts row with nested workout_exercises, as returned by nested selects
+export interface WorkoutRow extends Omit<Workout, 'exercises' | 'exercise_count' | 'workout_exercises'> {
+  workout_exercises?: (Omit<WorkoutExercise, 'exercise'> & { exercises: ExerciseRow | null })[];
+}
+
+export interface ClientWorkoutRow extends Omit<ClientWorkout, 'workout'> {
+  workout: WorkoutRow | null;
+  workout_version?: Pick<WorkoutVersion, 'version' | 'snapshot'> | null;
+}
+
+// Raw client_trainers row shape returned by the roster select
+export interface ClientTrainerRelationRow {
+  id: string;
+  client_id: string;
+  status: ClientTrainerStatus;
+  subscription_start: string | null;
+  client: { id: string; user: { full_name: string; email: string } | null } | null;
+  trainer_subscription_tier: { name: string; price: number } | null;
+}
+
+// get_client_roster_activity row: the newest measurement and completed workout of one client
+export interface RosterActivityRow {
+  client_id: string;
+  last_measurement: ClientProgress | null;
+  last_completed_workout: RosterWorkoutSummary | null;
+}
+
+export interface ScheduledWorkoutRow {
+  client_id: string;
+  assigned_date: string;
+  workout: { workout_name: string } | null;
+}
+
+export interface ActiveMenuPlanRow {
+  client_id: string;
+  start_date: string | null;
+  end_date: string | null;
+  created_at: string;
+  menu_plan: { plan_name: string } | null;
+}
+
+export interface ClientTrainerDetailRow extends ClientTrainerRelationRow {
+  notes: string | null;
+}
+
+// menu_plans row with its items and joined menus, as returned by nested selects
+export interface MenuRow extends Omit<Menu, 'ingredients'> {
+  menu_ingredients?: (Omit<MenuIngredient, 'food'> & { foods: Food | null })[];
+}
+
+export interface MenuPlanRow extends Omit<MenuPlan, 'menu_plan_items' | 'meals' | 'meal_count'> {
+  menu_plan_items?: (Omit<MenuPlanItem, 'menu'> & { menus: Menu | null })[];
+}
+
+export interface ClientMenuPlanRow extends Omit<ClientMenuPlan, 'menu_plan'> {
+  menu_plan: MenuPlanRow | null;
+}
+
+// Active client_trainers row seen from the client side
+export interface AssignedTrainerRow {
+  status: ClientTrainerStatus;
+  subscription_start: string | null;
+  trainer: { id: string; user: { full_name: string; email: string } | null } | null;
+  trainer_subscription_tier: { name: string; price: number } | null;
+}
+
+// client_trainers row with both participants and the thread, as returned by the conversation list select
+export interface ConversationRelationRow {
+  id: string;
+  client_id: string;
+  client: { user: { full_name: string; email: string } | null } | null;
+  trainer: {
+    user: { full_name: string; email: string } | null;
+    subscription_tier: { name: string } | null;
+  } | null;
+  conversation: {
+    id: string;
+    last_message_at: string | null;
+    last_message_preview: string | null;
+    last_message_sender_id: string | null;
+  } | null;
+}
+
+export type MessageRow = Tables<'messages'>;
+
+export type WellbeingCheckinRow = Tables<'wellbeing_checkins'>;
+
+// trainer_profiles row with the trainer's name and every plan, as returned by the directory select
+export interface TrainerListingRow extends Tables<'trainer_profiles'> {
+  trainer: {
+    user: { full_name: string } | null;
+    trainer_subscription_tiers: TrainerSubscriptionTier[] | null;
+  } | null;
+}
+
+export interface TrainerInviteRow extends Tables<'trainer_invites'> {
+  tier: Pick<TrainerSubscriptionTier, 'name' | 'price' | 'billing_cycle'> | null;
+}
+
+// get_trainer_invite_preview row: one invite with its trainer's name and plan
+export interface InvitePreviewRow extends Pick<TrainerInviteRow, 'code' | 'trainer_id' | 'max_uses' | 'use_count' | 'expires_at' | 'revoked_at'> {
+  trainer_name: string | null;
+  tier_name: string | null;
+  tier_price: number | null;
+  billing_cycle: string | null;
+}
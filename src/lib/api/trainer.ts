@@ -1,54 +1,107 @@
-// src/lib/api/trainer.ts - Updated to import from consolidated types
+// src/lib/api/trainer.ts - Data access for the signed-in trainer and their linked clients
 import { supabase } from '@/lib/supabaseClient';
-import { 
-  SubscriptionTier, 
-  Exercise, 
-  Workout, 
-  Menu, 
-  MenuPlan, 
-  CreateExerciseData, 
-  CreateWorkoutData, 
-  CreateMenuData, 
-  CreateMenuPlanData 
-} from '../types';
-
-export interface TrainerSubscriptionTier {
-  id: string;
-  trainer_id: string;
-  name: string;
-  description: string;
-  price: number;
-  yearly_price?: number | null;
-  billing_cycle: 'monthly' | 'yearly';
-  created_at: string;
-  updated_at: string;
-}
-
-export interface CreateTrainerSubscriptionData {
-  name: string;
-  description: string;
-  price: number;
-  yearly_price?: number | null;
-  billing_cycle: 'monthly' | 'yearly';
-}
+import { ApiError } from '@/lib/errors';
+import { fetchQuery, invalidateQueries } from '@/lib/queryCache';
+import { formatPrescription } from '@/lib/prescription';
+import { buildProgramSchedule, getProgramWeeks } from '@/lib/programs';
+import { addDays, getTodayDate } from '@/lib/utils';
+import { loadFoodDataset } from '@/lib/foods';
+import { ADHERENCE_HISTORY_DAYS } from '@/lib/nutrition';
+import { WELLBEING_HISTORY_DAYS } from '@/lib/wellbeing';
+import { hasEntitlement } from '@/lib/entitlements';
+import { TRAINER_BILLING_COLUMNS, toTrainerBilling } from '@/lib/billing';
+import { LINKED_CLIENT_STATUSES } from '@/lib/constants';
+import {
+  AssignMenuPlanData,
+  AssignProgramData,
+  AssignWorkoutData,
+  AssignmentConflict,
+  ClientMenuPlan,
+  ClientProgress,
+  ClientWorkout,
+  CreateExerciseData,
+  CreateFoodData,
+  CreateMenuData,
+  CreateMenuPlanData,
+  CreateProgramData,
+  CreateTrainerInviteData,
+  CreateTrainerSubscriptionData,
+  CreateWorkoutData,
+  Exercise,
+  Food,
+  Menu,
+  MenuPlan,
+  NutritionAdherence,
+  Program,
+  SubscriptionTier,
+  SubscriptionTierClient,
+  TrainerBilling,
+  TrainerClient,
+  TrainerClientDetail,
+  TrainerInvite,
+  TrainerProfile,
+  TrainerSubscriptionTier,
+  UpdateTrainerProfileData,
+  WellbeingCheckin,
+  Workout
+} from './types';
+import {
+  ActiveMenuPlanRow,
+  ClientMenuPlanRow,
+  ClientTrainerDetailRow,
+  ClientTrainerRelationRow,
+  ClientWorkoutRow,
+  ExerciseRow,
+  MenuPlanRow,
+  MenuRow,
+  RosterActivityRow,
+  ScheduledWorkoutRow,
+  TrainerInviteRow,
+  WorkoutRow
+} from './rows';
+import {
+  apiError,
+  fetchAdherenceHistory,
+  generateInviteCode,
+  requireActiveClients,
+  requireClientCapacity,
+  resolveMenuMacros,
+  saveMenuIngredients,
+  toClientWorkout,
+  toExercise,
+  toJson,
+  toTrainerInvite,
+  toWellbeingCheckin,
+  toWorkoutExerciseItems,
+  withOrderedExercises,
+  withOrderedIngredients,
+  withSortedMeals,
+  withSortedProgramWorkouts
+} from './helpers';
+import { queryKeys } from './queryKeys';
 
 export const TrainerAPI = {
+  // Looked up once per session and shared by every call; a missing row is not cached
   getTrainerId: async (): Promise<string | null> => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return null;
-      
-      const { data: trainerData, error } = await supabase
-        .from('trainers')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-        
-      if (error) throw error;
-      return trainerData.id;
+      const trainerId = await fetchQuery(queryKeys.trainerId, async () => {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return null;
+
+        const { data: trainerData, error } = await supabase
+          .from('trainers')
+          .select('id')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        return trainerData?.id ?? null;
+      }, { staleTime: Infinity });
+
+      if (!trainerId) invalidateQueries(queryKeys.trainerId);
+      return trainerId;
     } catch (error) {
-      console.error('Error getting trainer ID:', error);
-      return null;
+      throw apiError('Error getting trainer ID', error);
     }
   },
 
@@ -65,6 +118,7 @@ export const TrainerAPI = {
         .single();
         
       if (trainerError) throw trainerError;
+      if (!trainerData.subscription_tier_id) return null;
       
       const { data: subscription, error: subscriptionError } = await supabase
         .from('subscription_tiers')
@@ -74,28 +128,29 @@ export const TrainerAPI = {
         
       if (subscriptionError) throw subscriptionError;
       
-      return subscription as SubscriptionTier;
+      return subscription;
     } catch (error) {
-      console.error('Error fetching subscription:', error);
-      return null;
+      throw apiError('Error fetching subscription', error);
     }
   },
-  
-  updateSubscription: async (tierId: string): Promise<boolean> => {
+
+  // Cycle, period and status as last synced from Stripe by the webhook
+  getBilling: async (): Promise<TrainerBilling | null> => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return false;
-      
-      const { error } = await supabase
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return null;
+
+      const { data, error } = await supabase
         .from('trainers')
-        .update({ subscription_tier_id: tierId })
-        .eq('user_id', user.id);
-        
+        .select(TRAINER_BILLING_COLUMNS)
+        .eq('id', trainerId)
+        .single();
+
       if (error) throw error;
-      return true;
+
+      return toTrainerBilling(data);
     } catch (error) {
-      console.error('Error updating subscription:', error);
-      return false;
+      throw apiError('Error fetching billing', error);
     }
   },
   
@@ -111,267 +166,1175 @@ export const TrainerAPI = {
         .eq('status', 'active');
         
       if (error) throw error;
+      
       return count || 0;
     } catch (error) {
-      console.error('Error fetching client count:', error);
-      return 0;
+      throw apiError('Error fetching client count', error);
     }
   },
-  
-  getAllSubscriptionTiers: async (): Promise<SubscriptionTier[]> => {
+
+  // ========================================================================
+  // CLIENT ROSTER
+  // ========================================================================
+
+  getClients: async (): Promise<TrainerClient[]> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return [];
+
+      const { data: relations, error: relationsError } = await supabase
+        .from('client_trainers')
+        .select(`
+          id,
+          client_id,
+          status,
+          subscription_start,
+          client:clients(
+            id,
+            user:users(full_name, email)
+          ),
+          trainer_subscription_tier:trainer_subscription_tiers(
+            name,
+            price
+          )
+        `)
+        .eq('trainer_id', trainerId)
+        .in('status', ['active', 'pending', 'suspended', 'inactive'])
+        .order('subscription_start', { ascending: false });
+
+      if (relationsError) throw relationsError;
+      if (!relations || relations.length === 0) return [];
+
+      const rows = relations as unknown as ClientTrainerRelationRow[];
+      const clientIds = rows.map(relation => relation.client_id);
+
+      // Only each client's newest measurement and workout, in one request however large the roster grows
+      const { data: activity, error: activityError } = await supabase
+        .rpc('get_client_roster_activity', { p_client_ids: clientIds });
+
+      if (activityError) throw activityError;
+
+      const latestByClient = new Map(
+        ((activity || []) as unknown as RosterActivityRow[]).map(row => [row.client_id, row])
+      );
+
+      return rows.map(relation => ({
+        relation_id: relation.id,
+        client_id: relation.client_id,
+        full_name: relation.client?.user?.full_name || 'Unnamed client',
+        email: relation.client?.user?.email || '',
+        status: relation.status,
+        subscription_name: relation.trainer_subscription_tier?.name || null,
+        subscription_price: relation.trainer_subscription_tier?.price ?? null,
+        start_date: relation.subscription_start || null,
+        last_measurement: latestByClient.get(relation.client_id)?.last_measurement || null,
+        last_completed_workout: latestByClient.get(relation.client_id)?.last_completed_workout || null
+      }));
+    } catch (error) {
+      throw apiError('Error fetching trainer clients', error);
+    }
+  },
+
+  // ========================================================================
+  // CLIENT DETAIL - every read is limited to clients with a live client_trainers relation
+  // ========================================================================
+
+  isClientLinked: async (clientId: string): Promise<boolean> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return false;
+
+      const { count, error } = await supabase
+        .from('client_trainers')
+        .select('*', { count: 'exact', head: true })
+        .eq('trainer_id', trainerId)
+        .eq('client_id', clientId)
+        .in('status', LINKED_CLIENT_STATUSES);
+
+      if (error) throw error;
+
+      return (count || 0) > 0;
+    } catch (error) {
+      throw apiError('Error checking client link', error);
+    }
+  },
+
+  getClientDetail: async (clientId: string): Promise<TrainerClientDetail | null> => {
     try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return null;
+
       const { data, error } = await supabase
-        .from('subscription_tiers')
+        .from('client_trainers')
+        .select(`
+          id,
+          client_id,
+          status,
+          subscription_start,
+          notes,
+          client:clients(
+            id,
+            user:users(full_name, email)
+          ),
+          trainer_subscription_tier:trainer_subscription_tiers(
+            name,
+            price
+          )
+        `)
+        .eq('trainer_id', trainerId)
+        .eq('client_id', clientId)
+        .order('subscription_start', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const relation = data as unknown as ClientTrainerDetailRow;
+
+      return {
+        relation_id: relation.id,
+        client_id: relation.client_id,
+        full_name: relation.client?.user?.full_name || 'Unnamed client',
+        email: relation.client?.user?.email || '',
+        status: relation.status,
+        subscription_name: relation.trainer_subscription_tier?.name || null,
+        subscription_price: relation.trainer_subscription_tier?.price ?? null,
+        start_date: relation.subscription_start || null,
+        notes: relation.notes || null
+      };
+    } catch (error) {
+      throw apiError('Error fetching client detail', error);
+    }
+  },
+
+  getClientMeasurements: async (clientId: string, limit = 100): Promise<ClientProgress[]> => {
+    try {
+      const isLinked = await TrainerAPI.isClientLinked(clientId);
+      if (!isLinked) throw new Error('Client is not linked to this trainer');
+
+      const { data, error } = await supabase
+        .from('client_progress')
         .select('*')
-        .order('price', { ascending: true });
-        
+        .eq('client_id', clientId)
+        .order('date', { ascending: false })
+        .limit(limit);
+
       if (error) throw error;
-      return data as SubscriptionTier[];
+
+      return (data || []) as ClientProgress[];
+    } catch (error) {
+      throw apiError('Error fetching client measurements', error);
+    }
+  },
+
+  getClientMenuPlans: async (clientId: string): Promise<ClientMenuPlan[]> => {
+    try {
+      const isLinked = await TrainerAPI.isClientLinked(clientId);
+      if (!isLinked) throw new Error('Client is not linked to this trainer');
+
+      const { data, error } = await supabase
+        .from('client_menu_plans')
+        .select(`
+          *,
+          menu_plan:menu_plans(
+            *,
+            menu_plan_items(
+              id,
+              menu_id,
+              meal_order,
+              menus(*)
+            )
+          )
+        `)
+        .eq('client_id', clientId)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as ClientMenuPlanRow[]).map(clientPlan => ({
+        ...clientPlan,
+        menu_plan: clientPlan.menu_plan ? withSortedMeals(clientPlan.menu_plan) : undefined
+      }));
+    } catch (error) {
+      throw apiError('Error fetching client menu plans', error);
+    }
+  },
+
+  getClientAdherence: async (clientId: string, days = ADHERENCE_HISTORY_DAYS): Promise<NutritionAdherence[]> => {
+    try {
+      const isLinked = await TrainerAPI.isClientLinked(clientId);
+      if (!isLinked) throw new Error('Client is not linked to this trainer');
+
+      return await fetchAdherenceHistory(clientId, days);
+    } catch (error) {
+      throw apiError('Error fetching client adherence', error);
+    }
+  },
+
+  // Withheld rather than refused below the table_of_feelings tiers, so the rest of the client page still loads
+  getClientWellbeing: async (clientId: string, days = WELLBEING_HISTORY_DAYS): Promise<WellbeingCheckin[]> => {
+    try {
+      const isLinked = await TrainerAPI.isClientLinked(clientId);
+      if (!isLinked) throw new Error('Client is not linked to this trainer');
+
+      const subscription = await fetchQuery(queryKeys.subscription, TrainerAPI.getSubscription);
+      if (!hasEntitlement(subscription?.name, 'table_of_feelings')) return [];
+
+      const { data, error } = await supabase
+        .from('wellbeing_checkins')
+        .select('*')
+        .eq('client_id', clientId)
+        .gte('date', addDays(getTodayDate(), -(days - 1)))
+        .order('date', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toWellbeingCheckin);
+    } catch (error) {
+      throw apiError('Error fetching client wellbeing', error);
+    }
+  },
+
+  updateClientNotes: async (clientId: string, notes: string): Promise<void> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const { error } = await supabase
+        .from('client_trainers')
+        .update({ notes: notes.trim() || null })
+        .eq('trainer_id', trainerId)
+        .eq('client_id', clientId);
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.clients);
+    } catch (error) {
+      throw apiError('Error updating client notes', error);
+    }
+  },
+
+  // Pending clients only count against client_limit once accepted, so the limit is checked here
+  acceptClient: async (relationId: string): Promise<void> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      await requireClientCapacity(trainerId);
+
+      const { data, error } = await supabase
+        .from('client_trainers')
+        .update({ status: 'active', subscription_start: new Date().toISOString() })
+        .eq('id', relationId)
+        .eq('trainer_id', trainerId)
+        .eq('status', 'pending')
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new ApiError('This client is no longer waiting to be accepted', { code: 'not_found' });
+
+      invalidateQueries(queryKeys.clients);
+      invalidateQueries(queryKeys.clientCount);
+    } catch (error) {
+      throw apiError('Error accepting client', error);
+    }
+  },
+
+  // Declined requests stay on record as inactive; the client can send a new one later
+  declineClient: async (relationId: string): Promise<void> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const { data, error } = await supabase
+        .from('client_trainers')
+        .update({ status: 'inactive' })
+        .eq('id', relationId)
+        .eq('trainer_id', trainerId)
+        .eq('status', 'pending')
+        .select('id')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new ApiError('This client is no longer waiting to be accepted', { code: 'not_found' });
+
+      invalidateQueries(queryKeys.clients);
     } catch (error) {
-      console.error('Error fetching subscription tiers:', error);
-      return [];
+      throw apiError('Error declining client', error);
     }
   },
 
   // ========================================================================
-  // TRAINER SUBSCRIPTION TIER FUNCTIONS (NEW)
+  // PUBLIC PROFILE - what clients see in the trainer directory
   // ========================================================================
 
-  // Get all subscription tiers created by the trainer
-  getTrainerSubscriptionTiers: async (): Promise<TrainerSubscriptionTier[]> => {
+  getProfile: async (): Promise<TrainerProfile | null> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
-      if (!trainerId) throw new Error('Trainer not found');
+      if (!trainerId) return null;
 
       const { data, error } = await supabase
-        .from('trainer_subscription_tiers')
+        .from('trainer_profiles')
         .select('*')
         .eq('trainer_id', trainerId)
-        .order('created_at', { ascending: false });
+        .maybeSingle();
 
       if (error) throw error;
-      return data as TrainerSubscriptionTier[];
+
+      return data;
     } catch (error) {
-      console.error('Error fetching trainer subscription tiers:', error);
-      throw error;
+      throw apiError('Error fetching trainer profile', error);
     }
   },
 
-  // Create a new subscription tier
-  createTrainerSubscriptionTier: async (subscriptionData: CreateTrainerSubscriptionData): Promise<TrainerSubscriptionTier> => {
+  updateProfile: async (profileData: UpdateTrainerProfileData): Promise<TrainerProfile> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) throw new Error('Trainer not found');
 
       const { data, error } = await supabase
-        .from('trainer_subscription_tiers')
-        .insert({
+        .from('trainer_profiles')
+        .upsert({
+          ...profileData,
           trainer_id: trainerId,
-          name: subscriptionData.name,
-          description: subscriptionData.description,
-          price: subscriptionData.price,
-          yearly_price: subscriptionData.yearly_price,
-          billing_cycle: subscriptionData.billing_cycle
-        })
+          bio: profileData.bio?.trim() || null,
+          location: profileData.location?.trim() || null,
+          photo_url: profileData.photo_url?.trim() || null,
+          specialties: profileData.specialties.map(specialty => specialty.trim()).filter(Boolean),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'trainer_id' })
         .select()
         .single();
 
       if (error) throw error;
-      return data as TrainerSubscriptionTier;
+
+      invalidateQueries(queryKeys.trainerProfile);
+      invalidateQueries(queryKeys.trainerDirectory);
+      return data;
     } catch (error) {
-      console.error('Error creating trainer subscription tier:', error);
-      throw error;
+      throw apiError('Error updating trainer profile', error);
     }
   },
 
-  // Update an existing subscription tier
-  updateTrainerSubscriptionTier: async (tierId: string, subscriptionData: CreateTrainerSubscriptionData): Promise<TrainerSubscriptionTier> => {
+  getAllSubscriptionTiers: async (): Promise<SubscriptionTier[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('subscription_tiers')
+        .select('*')
+        .order('price', { ascending: true });
+        
+      if (error) throw error;
+      
+      return data as SubscriptionTier[];
+    } catch (error) {
+      throw apiError('Error fetching subscription tiers', error);
+    }
+  },
+
+  // ========================================================================
+  // INVITES - links and codes that sign a client up onto one of the trainer's plans
+  // ========================================================================
+
+  // Newest first, including revoked and expired invites so the trainer can see what happened to them
+  getInvites: async (): Promise<TrainerInvite[]> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return [];
+
+      const { data, error } = await supabase
+        .from('trainer_invites')
+        .select('*, tier:trainer_subscription_tiers(name, price, billing_cycle)')
+        .eq('trainer_id', trainerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as TrainerInviteRow[]).map(toTrainerInvite);
+    } catch (error) {
+      throw apiError('Error fetching invites', error);
+    }
+  },
+
+  createInvite: async (inviteData: CreateTrainerInviteData): Promise<TrainerInvite> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) throw new Error('Trainer not found');
 
-      // Verify the tier belongs to this trainer
-      const { data: existingTier, error: checkError } = await supabase
+      const { data: tier, error: tierError } = await supabase
         .from('trainer_subscription_tiers')
-        .select('trainer_id')
-        .eq('id', tierId)
-        .single();
+        .select('id')
+        .eq('id', inviteData.trainer_subscription_tier_id)
+        .eq('trainer_id', trainerId)
+        .maybeSingle();
+
+      if (tierError) throw tierError;
+      if (!tier) throw new ApiError('Choose one of your own plans for the invite', { code: 'not_found' });
 
-      if (checkError) throw checkError;
-      if (existingTier.trainer_id !== trainerId) {
-        throw new Error('Unauthorized: This subscription tier does not belong to you');
+      // Codes are random, so a clash on the unique index is rare; a fresh code is tried a couple of times
+      for (let attempt = 0; ; attempt++) {
+        const { data, error } = await supabase
+          .from('trainer_invites')
+          .insert({
+            trainer_id: trainerId,
+            trainer_subscription_tier_id: inviteData.trainer_subscription_tier_id,
+            code: generateInviteCode(),
+            max_uses: inviteData.max_uses,
+            expires_at: inviteData.expires_at
+          })
+          .select('*, tier:trainer_subscription_tiers(name, price, billing_cycle)')
+          .single();
+
+        if (error?.code === '23505' && attempt < 2) continue;
+        if (error) throw error;
+
+        invalidateQueries(queryKeys.invites);
+        return toTrainerInvite(data as unknown as TrainerInviteRow);
       }
+    } catch (error) {
+      throw apiError('Error creating invite', error);
+    }
+  },
 
-      const { data, error } = await supabase
-        .from('trainer_subscription_tiers')
-        .update({
-          name: subscriptionData.name,
-          description: subscriptionData.description,
-          price: subscriptionData.price,
-          yearly_price: subscriptionData.yearly_price,
-          billing_cycle: subscriptionData.billing_cycle,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', tierId)
-        .select()
-        .single();
+  // Revoked invites are kept so existing links show a clear message instead of "not found"
+  revokeInvite: async (inviteId: string): Promise<void> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const { error } = await supabase
+        .from('trainer_invites')
+        .update({ revoked_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', inviteId)
+        .eq('trainer_id', trainerId)
+        .is('revoked_at', null);
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.invites);
+    } catch (error) {
+      throw apiError('Error revoking invite', error);
+    }
+  },
+
+  // ========================================================================
+  // TRAINER SUBSCRIPTION TIERS - plans the trainer sells to clients
+  // ========================================================================
+
+  getTrainerSubscriptionTiers: async (): Promise<TrainerSubscriptionTier[]> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const { data, error } = await supabase
+        .from('trainer_subscription_tiers')
+        .select('*')
+        .eq('trainer_id', trainerId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return data as TrainerSubscriptionTier[];
+    } catch (error) {
+      throw apiError('Error fetching trainer subscription tiers', error);
+    }
+  },
+
+  createTrainerSubscriptionTier: async (subscriptionData: CreateTrainerSubscriptionData): Promise<TrainerSubscriptionTier> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const { data, error } = await supabase
+        .from('trainer_subscription_tiers')
+        .insert({
+          trainer_id: trainerId,
+          name: subscriptionData.name,
+          description: subscriptionData.description,
+          price: subscriptionData.price,
+          yearly_price: subscriptionData.yearly_price,
+          billing_cycle: subscriptionData.billing_cycle,
+          is_published: subscriptionData.is_published ?? true
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.subscriptionTiers);
+      invalidateQueries(queryKeys.trainerDirectory);
+
+      return data as TrainerSubscriptionTier;
+    } catch (error) {
+      throw apiError('Error creating trainer subscription tier', error);
+    }
+  },
+
+  updateTrainerSubscriptionTier: async (tierId: string, subscriptionData: CreateTrainerSubscriptionData): Promise<TrainerSubscriptionTier> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const { data, error } = await supabase
+        .from('trainer_subscription_tiers')
+        .update({
+          name: subscriptionData.name,
+          description: subscriptionData.description,
+          price: subscriptionData.price,
+          yearly_price: subscriptionData.yearly_price,
+          billing_cycle: subscriptionData.billing_cycle,
+          is_published: subscriptionData.is_published,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', tierId)
+        .eq('trainer_id', trainerId)
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new ApiError('This subscription plan does not belong to you', { code: 'not_found' });
+
+      invalidateQueries(queryKeys.subscriptionTiers);
+      invalidateQueries(queryKeys.trainerDirectory);
+
+      return data as TrainerSubscriptionTier;
+    } catch (error) {
+      throw apiError('Error updating trainer subscription tier', error);
+    }
+  },
+
+  // Plans with active subscribers are kept so their clients stay billed correctly
+  deleteTrainerSubscriptionTier: async (tierId: string): Promise<void> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const { count, error: clientError } = await supabase
+        .from('client_trainers')
+        .select('id', { count: 'exact', head: true })
+        .eq('trainer_subscription_tier_id', tierId)
+        .eq('status', 'active');
+
+      if (clientError) throw clientError;
+      if (count) {
+        throw new ApiError('Clients are currently subscribed to this plan, so it cannot be deleted', { code: 'tier_in_use' });
+      }
+
+      const { error } = await supabase
+        .from('trainer_subscription_tiers')
+        .delete()
+        .eq('id', tierId)
+        .eq('trainer_id', trainerId);
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.subscriptionTiers);
+      invalidateQueries(queryKeys.trainerDirectory);
+    } catch (error) {
+      throw apiError('Error deleting trainer subscription tier', error);
+    }
+  },
+
+  getClientsForSubscriptionTier: async (tierId: string): Promise<SubscriptionTierClient[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('client_trainers')
+        .select(`
+          id,
+          client_id,
+          subscription_start,
+          client:clients(
+            id,
+            user:users(full_name, email)
+          )
+        `)
+        .eq('trainer_subscription_tier_id', tierId)
+        .eq('status', 'active');
+
+      if (error) throw error;
+
+      return (data || []) as unknown as SubscriptionTierClient[];
+    } catch (error) {
+      throw apiError('Error fetching clients for subscription tier', error);
+    }
+  },
+
+  // ========================================================================
+  // SIMPLIFIED EXERCISES
+  // ========================================================================
+  
+  getExercises: async (): Promise<Exercise[]> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return [];
+      
+      const { data, error } = await supabase
+        .from('exercises')
+        .select('*')
+        .eq('trainer_id', trainerId)
+        .order('created_at', { ascending: false });
+        
+      if (error) throw error;
+
+      return ((data || []) as ExerciseRow[]).map(toExercise);
+    } catch (error) {
+      throw apiError('Error fetching exercises', error);
+    }
+  },
+
+  createExercise: async (exerciseData: CreateExerciseData): Promise<Exercise> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+      
+      const { data, error } = await supabase
+        .from('exercises')
+        .insert({
+          trainer_id: trainerId,
+          exercise_name: exerciseData.exercise_name,
+          series: formatPrescription(exerciseData.prescription),
+          series_description: exerciseData.series_description,
+          prescription: toJson(exerciseData.prescription)
+        })
+        .select()
+        .single();
+        
+      if (error) throw error;
+      
+      invalidateQueries(queryKeys.exercises);
+
+      return toExercise(data as ExerciseRow);
+    } catch (error) {
+      throw apiError('Error creating exercise', error);
+    }
+  },
+
+  // Workouts that contain the exercise get a new version, since their prescription changes too
+  updateExercise: async (exerciseId: string, exerciseData: CreateExerciseData): Promise<Exercise> => {
+    try {
+      const { data, error } = await supabase.rpc('update_exercise', {
+        p_exercise_id: exerciseId,
+        p_exercise_name: exerciseData.exercise_name,
+        p_series: formatPrescription(exerciseData.prescription),
+        p_series_description: exerciseData.series_description,
+        p_prescription: toJson(exerciseData.prescription)
+      });
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.exercises);
+      invalidateQueries(queryKeys.workouts);
+
+      return toExercise(data as unknown as ExerciseRow);
+    } catch (error) {
+      throw apiError('Error updating exercise', error);
+    }
+  },
+
+  deleteExercise: async (exerciseId: string): Promise<void> => {
+    try {
+      const { error } = await supabase
+        .from('exercises')
+        .delete()
+        .eq('id', exerciseId);
+        
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.exercises);
+      invalidateQueries(queryKeys.workouts);
+    } catch (error) {
+      throw apiError('Error deleting exercise', error);
+    }
+  },
+
+  // ========================================================================
+  // SIMPLIFIED WORKOUTS
+  // ========================================================================
+  
+  getWorkouts: async (): Promise<Workout[]> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return [];
+      
+      const { data, error } = await supabase
+        .from('workouts')
+        .select(`
+          *,
+          workout_exercises(
+            id,
+            exercise_id,
+            exercise_order,
+            notes,
+            exercises(*)
+          )
+        `)
+        .eq('trainer_id', trainerId)
+        .order('created_at', { ascending: false });
+        
+      if (error) throw error;
+      
+      return ((data || []) as unknown as WorkoutRow[]).map(withOrderedExercises);
+    } catch (error) {
+      throw apiError('Error fetching workouts', error);
+    }
+  },
+
+  createWorkout: async (workoutData: CreateWorkoutData): Promise<Workout> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+      
+      const { data: workout, error: workoutError } = await supabase
+        .from('workouts')
+        .insert({
+          trainer_id: trainerId,
+          workout_name: workoutData.workout_name,
+          workout_day: workoutData.workout_day,
+          description: workoutData.description || null
+        })
+        .select()
+        .single();
+        
+      if (workoutError) throw workoutError;
+      
+      if (workoutData.selected_exercise_ids.length > 0) {
+        const { error: itemsError } = await supabase
+          .from('workout_exercises')
+          .insert(toWorkoutExerciseItems(workout.id, workoutData));
+          
+        if (itemsError) throw itemsError;
+      }
+      
+      invalidateQueries(queryKeys.workouts);
+
+      return workout as Workout;
+    } catch (error) {
+      throw apiError('Error creating workout', error);
+    }
+  },
+
+  // update_workout pins started sessions to the current version, saves the edit and bumps the version in one transaction
+  updateWorkout: async (workoutId: string, workoutData: CreateWorkoutData): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('update_workout', {
+        p_workout_id: workoutId,
+        p_workout_name: workoutData.workout_name,
+        p_workout_day: workoutData.workout_day,
+        p_description: workoutData.description || null,
+        p_exercises: toJson(toWorkoutExerciseItems(workoutId, workoutData))
+      });
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.workouts);
+    } catch (error) {
+      throw apiError('Error updating workout', error);
+    }
+  },
+
+  // workoutExerciseIds in their new order
+  reorderWorkoutExercises: async (workoutId: string, workoutExerciseIds: string[]): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('reorder_workout_exercises', {
+        p_workout_id: workoutId,
+        p_workout_exercise_ids: workoutExerciseIds
+      });
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.workouts);
+    } catch (error) {
+      throw apiError('Error reordering workout exercises', error);
+    }
+  },
+
+  deleteWorkout: async (workoutId: string): Promise<void> => {
+    try {
+      const { error: itemsError } = await supabase
+        .from('workout_exercises')
+        .delete()
+        .eq('workout_id', workoutId);
+        
+      if (itemsError) throw itemsError;
+      
+      const { error: workoutError } = await supabase
+        .from('workouts')
+        .delete()
+        .eq('id', workoutId);
+        
+      if (workoutError) throw workoutError;
+
+      invalidateQueries(queryKeys.workouts);
+    } catch (error) {
+      throw apiError('Error deleting workout', error);
+    }
+  },
+
+  assignWorkoutToClients: async (assignment: AssignWorkoutData): Promise<string[]> => {
+    try {
+      if (assignment.client_ids.length === 0 || assignment.assigned_dates.length === 0) return [];
+
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const clientIds = await requireActiveClients(trainerId, assignment.client_ids);
+      const rows = clientIds.flatMap(clientId =>
+        assignment.assigned_dates.map(assignedDate => ({
+          client_id: clientId,
+          workout_id: assignment.workout_id,
+          assigned_date: assignedDate,
+          trainer_notes: assignment.trainer_notes || null,
+          status: 'assigned'
+        }))
+      );
+
+      const { data, error } = await supabase
+        .from('client_workouts')
+        .insert(rows)
+        .select('id');
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.clientWorkouts);
+      invalidateQueries(queryKeys.clients);
+      return data.map(row => row.id);
+    } catch (error) {
+      throw apiError('Error assigning workout to clients', error);
+    }
+  },
+
+  // Open (not completed) workouts already scheduled on any of the given dates
+  getWorkoutAssignmentConflicts: async (clientIds: string[], dates: string[]): Promise<AssignmentConflict[]> => {
+    try {
+      if (clientIds.length === 0 || dates.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('client_workouts')
+        .select('client_id, assigned_date, workout:workouts(workout_name)')
+        .in('client_id', clientIds)
+        .in('assigned_date', dates)
+        .neq('status', 'completed')
+        .order('assigned_date', { ascending: true });
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as ScheduledWorkoutRow[]).map(row => ({
+        client_id: row.client_id,
+        name: row.workout?.workout_name || 'Workout',
+        start_date: row.assigned_date,
+        end_date: row.assigned_date
+      }));
+    } catch (error) {
+      throw apiError('Error checking workout conflicts', error);
+    }
+  },
+
+  getClientWorkouts: async (clientId: string): Promise<ClientWorkout[]> => {
+    try {
+      const isLinked = await TrainerAPI.isClientLinked(clientId);
+      if (!isLinked) throw new Error('Client is not linked to this trainer');
+
+      const { data, error } = await supabase
+        .from('client_workouts')
+        .select(`
+          *,
+          workout:workouts(
+            *,
+            workout_exercises(
+              *,
+              exercises(*)
+            )
+          ),
+          workout_version:workout_versions(version, snapshot)
+        `)
+        .eq('client_id', clientId)
+        .order('assigned_date', { ascending: false });
+        
+      if (error) throw error;
+      
+      return ((data || []) as unknown as ClientWorkoutRow[]).map(toClientWorkout);
+    } catch (error) {
+      throw apiError('Error fetching client workouts', error);
+    }
+  },
+
+  // ========================================================================
+  // PROGRAMS
+  // ========================================================================
+
+  getPrograms: async (): Promise<Program[]> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) return [];
+
+      const { data, error } = await supabase
+        .from('programs')
+        .select(`
+          *,
+          program_workouts(
+            id,
+            program_id,
+            workout_id,
+            day_of_week,
+            workout:workouts(*)
+          )
+        `)
+        .eq('trainer_id', trainerId)
+        .order('created_at', { ascending: false });
 
       if (error) throw error;
-      return data as TrainerSubscriptionTier;
+
+      return ((data || []) as unknown as Program[]).map(withSortedProgramWorkouts);
+    } catch (error) {
+      throw apiError('Error fetching programs', error);
+    }
+  },
+
+  getProgram: async (programId: string): Promise<Program | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('programs')
+        .select(`
+          *,
+          program_workouts(
+            id,
+            program_id,
+            workout_id,
+            day_of_week,
+            workout:workouts(*)
+          )
+        `)
+        .eq('id', programId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return withSortedProgramWorkouts(data as unknown as Program);
     } catch (error) {
-      console.error('Error updating trainer subscription tier:', error);
-      throw error;
+      throw apiError('Error fetching program', error);
     }
   },
 
-  // Delete a subscription tier
-  deleteTrainerSubscriptionTier: async (tierId: string): Promise<boolean> => {
+  createProgram: async (programData: CreateProgramData): Promise<Program> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) throw new Error('Trainer not found');
 
-      // Verify the tier belongs to this trainer
-      const { data: existingTier, error: checkError } = await supabase
-        .from('trainer_subscription_tiers')
-        .select('trainer_id')
-        .eq('id', tierId)
+      const { data: program, error: programError } = await supabase
+        .from('programs')
+        .insert({
+          trainer_id: trainerId,
+          program_name: programData.program_name,
+          description: programData.description || null,
+          phases: toJson(programData.phases),
+          progression: toJson(programData.progression),
+          duration_weeks: getProgramWeeks(programData.phases)
+        })
+        .select()
         .single();
 
-      if (checkError) throw checkError;
-      if (existingTier.trainer_id !== trainerId) {
-        throw new Error('Unauthorized: This subscription tier does not belong to you');
-      }
+      if (programError) throw programError;
 
-      // Check if any clients are subscribed to this tier
-      const { data: clientSubscriptions, error: clientError } = await supabase
-        .from('client_trainers')
-        .select('id')
-        .eq('trainer_subscription_tier_id', tierId)
-        .eq('status', 'active');
+      if (programData.schedule.length > 0) {
+        const { error: scheduleError } = await supabase
+          .from('program_workouts')
+          .insert(programData.schedule.map(slot => ({ ...slot, program_id: program.id })));
 
-      if (clientError) throw clientError;
-      
-      if (clientSubscriptions && clientSubscriptions.length > 0) {
-        throw new Error('Cannot delete subscription tier: clients are currently subscribed to this plan');
+        if (scheduleError) throw scheduleError;
       }
 
-      const { error } = await supabase
-        .from('trainer_subscription_tiers')
+      invalidateQueries(queryKeys.programs);
+
+      return program as unknown as Program;
+    } catch (error) {
+      throw apiError('Error creating program', error);
+    }
+  },
+
+  deleteProgram: async (programId: string): Promise<void> => {
+    try {
+      const { error: scheduleError } = await supabase
+        .from('program_workouts')
         .delete()
-        .eq('id', tierId);
+        .eq('program_id', programId);
 
-      if (error) throw error;
-      return true;
+      if (scheduleError) throw scheduleError;
+
+      const { error: programError } = await supabase
+        .from('programs')
+        .delete()
+        .eq('id', programId);
+
+      if (programError) throw programError;
+
+      invalidateQueries(queryKeys.programs);
     } catch (error) {
-      console.error('Error deleting trainer subscription tier:', error);
-      throw error;
+      throw apiError('Error deleting program', error);
     }
   },
 
-  // Get clients subscribed to a specific tier
-  getClientsForSubscriptionTier: async (tierId: string): Promise<any[]> => {
+  // assign_program records the client_programs link and every dated client_workouts row in one transaction
+  assignProgramToClients: async (assignment: AssignProgramData): Promise<string[]> => {
     try {
-      const { data, error } = await supabase
-        .from('client_trainers')
-        .select(`
-          *,
-          client:clients(
-            id,
-            user:users(full_name, email)
-          )
-        `)
-        .eq('trainer_subscription_tier_id', tierId)
-        .eq('status', 'active');
+      if (assignment.client_ids.length === 0) return [];
+
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const clientIds = await requireActiveClients(trainerId, assignment.client_ids);
+      const program = await TrainerAPI.getProgram(assignment.program_id);
+      if (!program) throw new Error('Program not found');
+
+      const schedule = buildProgramSchedule(program, assignment.start_date);
+      if (schedule.length === 0) throw new Error('Program has no workouts scheduled');
+
+      const { data, error } = await supabase.rpc('assign_program', {
+        p_program_id: program.id,
+        p_client_ids: clientIds,
+        p_start_date: assignment.start_date,
+        p_trainer_notes: assignment.trainer_notes || null,
+        p_schedule: toJson(schedule)
+      });
 
       if (error) throw error;
-      return data || [];
+
+      invalidateQueries(queryKeys.clientWorkouts);
+      invalidateQueries(queryKeys.clients);
+      return data;
     } catch (error) {
-      console.error('Error fetching clients for subscription tier:', error);
-      throw error;
+      throw apiError('Error assigning program to clients', error);
     }
   },
 
   // ========================================================================
-  // EXERCISE FUNCTIONS (EXISTING)
+  // FOOD CATALOG
   // ========================================================================
-  
-  getExercises: async (): Promise<Exercise[]> => {
+
+  getFoods: async (): Promise<Food[]> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) return [];
-      
+
       const { data, error } = await supabase
-        .from('exercises')
+        .from('foods')
         .select('*')
         .eq('trainer_id', trainerId)
-        .order('created_at', { ascending: false });
-        
+        .order('name', { ascending: true });
+
       if (error) throw error;
-      return data as Exercise[];
+
+      return data as Food[];
     } catch (error) {
-      console.error('Error fetching exercises:', error);
-      return [];
+      throw apiError('Error fetching foods', error);
     }
   },
 
-  createExercise: async (exerciseData: CreateExerciseData): Promise<Exercise | null> => {
+  createFood: async (foodData: CreateFoodData): Promise<Food> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) throw new Error('Trainer not found');
-      
+
       const { data, error } = await supabase
-        .from('exercises')
-        .insert({
-          trainer_id: trainerId,
-          exercise_name: exerciseData.exercise_name,
-          series: exerciseData.series,
-          series_description: exerciseData.series_description
-        })
+        .from('foods')
+        .insert({ ...foodData, trainer_id: trainerId, source: 'custom', source_id: null })
         .select()
         .single();
-        
+
       if (error) throw error;
-      return data as Exercise;
+
+      invalidateQueries(queryKeys.foods);
+
+      return data as Food;
     } catch (error) {
-      console.error('Error creating exercise:', error);
-      return null;
+      throw apiError('Error creating food', error);
     }
   },
 
-  deleteExercise: async (exerciseId: string): Promise<boolean> => {
+  // Foods used in a meal are kept, since the meal's ingredients point at them
+  deleteFood: async (foodId: string): Promise<void> => {
     try {
+      const { count, error: usageError } = await supabase
+        .from('menu_ingredients')
+        .select('id', { count: 'exact', head: true })
+        .eq('food_id', foodId);
+
+      if (usageError) throw usageError;
+      if (count) throw new ApiError('This food is used in a meal and cannot be removed', { code: 'food_in_use' });
+
       const { error } = await supabase
-        .from('exercises')
+        .from('foods')
         .delete()
-        .eq('id', exerciseId);
-        
+        .eq('id', foodId);
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.foods);
+    } catch (error) {
+      throw apiError('Error deleting food', error);
+    }
+  },
+
+  // Copies the bundled dataset into the trainer's catalog; foods imported before are skipped. Returns the number added.
+  seedFoodCatalog: async (): Promise<number> => {
+    try {
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const [dataset, { data: existing, error: existingError }] = await Promise.all([
+        loadFoodDataset(),
+        supabase
+          .from('foods')
+          .select('source_id')
+          .eq('trainer_id', trainerId)
+          .eq('source', 'dataset')
+      ]);
+
+      if (existingError) throw existingError;
+
+      const existingIds = new Set((existing || []).map(food => food.source_id));
+      const rows = dataset.foods
+        .filter(food => !existingIds.has(food.source_id))
+        .map(food => ({ ...food, trainer_id: trainerId, source: 'dataset' }));
+
+      if (rows.length === 0) return 0;
+
+      const { error } = await supabase
+        .from('foods')
+        .insert(rows);
+
       if (error) throw error;
-      return true;
+
+      invalidateQueries(queryKeys.foods);
+
+      return rows.length;
     } catch (error) {
-      console.error('Error deleting exercise:', error);
-      return false;
+      throw apiError('Error seeding food catalog', error);
     }
   },
 
   // ========================================================================
-  // WORKOUT FUNCTIONS (EXISTING)
+  // MEALS AND MENU PLANS - plan totals are kept by database triggers
   // ========================================================================
-  
-  getWorkouts: async (): Promise<Workout[]> => {
+
+  getMenus: async (): Promise<Menu[]> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) return [];
       
       const { data, error } = await supabase
-        .from('workouts')
+        .from('menus')
         .select(`
           *,
-          workout_exercises(
+          menu_ingredients(
             id,
-            exercise_id,
-            exercise_order,
-            notes,
-            exercises(*)
+            menu_id,
+            food_id,
+            grams,
+            ingredient_order,
+            foods(*)
           )
         `)
         .eq('trainer_id', trainerId)
@@ -379,134 +1342,68 @@ export const TrainerAPI = {
         
       if (error) throw error;
       
-      const workoutsWithExercises = (data || []).map(workout => {
-        const sortedItems = workout.workout_exercises?.sort((a, b) => a.exercise_order - b.exercise_order) || [];
-        const exercises = sortedItems.map(item => item.exercises).filter(Boolean) as Exercise[];
-        
-        return {
-          ...workout,
-          exercises,
-          exercise_count: exercises.length
-        } as Workout;
-      });
-      
-      return workoutsWithExercises;
+      return ((data || []) as unknown as MenuRow[]).map(withOrderedIngredients);
     } catch (error) {
-      console.error('Error fetching workouts:', error);
-      return [];
+      throw apiError('Error fetching menus', error);
     }
   },
 
-  createWorkout: async (workoutData: CreateWorkoutData): Promise<Workout | null> => {
+  createMenu: async (menuData: CreateMenuData): Promise<Menu> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) throw new Error('Trainer not found');
       
-      const { data: workout, error: workoutError } = await supabase
-        .from('workouts')
+      const { data, error } = await supabase
+        .from('menus')
         .insert({
           trainer_id: trainerId,
-          workout_name: workoutData.workout_name,
-          workout_day: workoutData.workout_day,
-          description: workoutData.description || null
+          meal_type: menuData.meal_type,
+          food_details: menuData.food_details,
+          ...(await resolveMenuMacros(menuData)),
+          note: menuData.note || null
         })
         .select()
         .single();
         
-      if (workoutError) throw workoutError;
-      
-      if (workoutData.selected_exercise_ids.length > 0) {
-        const workoutExerciseItems = workoutData.selected_exercise_ids.map((exerciseId, index) => ({
-          workout_id: workout.id,
-          exercise_id: exerciseId,
-          exercise_order: index + 1
-        }));
-        
-        const { error: itemsError } = await supabase
-          .from('workout_exercises')
-          .insert(workoutExerciseItems);
-          
-        if (itemsError) throw itemsError;
-      }
-      
-      return workout as Workout;
-    } catch (error) {
-      console.error('Error creating workout:', error);
-      return null;
-    }
-  },
+      if (error) throw error;
 
-  deleteWorkout: async (workoutId: string): Promise<boolean> => {
-    try {
-      const { error: itemsError } = await supabase
-        .from('workout_exercises')
-        .delete()
-        .eq('workout_id', workoutId);
-        
-      if (itemsError) throw itemsError;
-      
-      const { error: workoutError } = await supabase
-        .from('workouts')
-        .delete()
-        .eq('id', workoutId);
-        
-      if (workoutError) throw workoutError;
+      await saveMenuIngredients(data.id, menuData.ingredients || []);
       
-      return true;
-    } catch (error) {
-      console.error('Error deleting workout:', error);
-      return false;
-    }
-  },
-
-  // ========================================================================
-  // MENU FUNCTIONS (EXISTING)
-  // ========================================================================
+      invalidateQueries(queryKeys.menus);
 
-  getMenus: async (): Promise<Menu[]> => {
-    try {
-      const trainerId = await TrainerAPI.getTrainerId();
-      if (!trainerId) return [];
-      
-      const { data, error } = await supabase
-        .from('menus')
-        .select('*')
-        .eq('trainer_id', trainerId)
-        .order('created_at', { ascending: false });
-        
-      if (error) throw error;
-      return data as Menu[];
+      return data as Menu;
     } catch (error) {
-      console.error('Error fetching menus:', error);
-      return [];
+      throw apiError('Error creating menu', error);
     }
   },
 
-  createMenu: async (menuData: CreateMenuData): Promise<Menu | null> => {
+  // Plans that include the meal get new totals from the menus trigger
+  updateMenu: async (menuId: string, menuData: CreateMenuData): Promise<Menu> => {
     try {
-      const trainerId = await TrainerAPI.getTrainerId();
-      if (!trainerId) throw new Error('Trainer not found');
-      
       const { data, error } = await supabase
         .from('menus')
-        .insert({
-          trainer_id: trainerId,
+        .update({
           meal_type: menuData.meal_type,
           food_details: menuData.food_details,
-          calories: menuData.calories,
-          protein: menuData.protein,
-          carbohydrates: menuData.carbohydrates,
-          fat: menuData.fat,
-          note: menuData.note || null
+          ...(await resolveMenuMacros(menuData)),
+          note: menuData.note || null,
+          updated_at: new Date().toISOString()
         })
+        .eq('id', menuId)
         .select()
         .single();
-        
+
       if (error) throw error;
+
+      // Switching a meal to custom clears its ingredients
+      await saveMenuIngredients(menuId, menuData.ingredients || [], true);
+
+      invalidateQueries(queryKeys.menus);
+      invalidateQueries(queryKeys.menuPlans);
+
       return data as Menu;
     } catch (error) {
-      console.error('Error creating menu:', error);
-      return null;
+      throw apiError('Error updating menu', error);
     }
   },
 
@@ -531,26 +1428,13 @@ export const TrainerAPI = {
         
       if (error) throw error;
       
-      const menuPlansWithMenus = (data || []).map(plan => {
-        const sortedItems = plan.menu_plan_items?.sort((a, b) => a.meal_order - b.meal_order) || [];
-        const meals = sortedItems.map(item => item.menus).filter(Boolean) as Menu[];
-        
-        return {
-          ...plan,
-          meals,
-          meal_count: meals.length,
-          menu_plan_items: sortedItems
-        } as MenuPlan;
-      });
-      
-      return menuPlansWithMenus;
+      return ((data || []) as unknown as MenuPlanRow[]).map(withSortedMeals);
     } catch (error) {
-      console.error('Error fetching menu plans:', error);
-      return [];
+      throw apiError('Error fetching menu plans', error);
     }
   },
 
-  createMenuPlan: async (planData: CreateMenuPlanData): Promise<MenuPlan | null> => {
+  createMenuPlan: async (planData: CreateMenuPlanData): Promise<MenuPlan> => {
     try {
       const trainerId = await TrainerAPI.getTrainerId();
       if (!trainerId) throw new Error('Trainer not found');
@@ -562,22 +1446,11 @@ export const TrainerAPI = {
         
       if (mealsError) throw mealsError;
       
-      const totals = selectedMeals.reduce((acc, meal) => ({
-        calories: acc.calories + meal.calories,
-        protein: acc.protein + meal.protein,
-        carbohydrates: acc.carbohydrates + meal.carbohydrates,
-        fat: acc.fat + meal.fat
-      }), { calories: 0, protein: 0, carbohydrates: 0, fat: 0 });
-      
       const { data: menuPlan, error: planError } = await supabase
         .from('menu_plans')
         .insert({
           trainer_id: trainerId,
-          plan_name: planData.plan_name,
-          total_calories: totals.calories,
-          total_protein: totals.protein,
-          total_carbohydrates: totals.carbohydrates,
-          total_fat: totals.fat
+          plan_name: planData.plan_name
         })
         .select()
         .single();
@@ -595,36 +1468,94 @@ export const TrainerAPI = {
         .insert(menuPlanItems);
         
       if (itemsError) throw itemsError;
+
+      // Totals were filled in by the menu_plan_items trigger
+      const { data: savedPlan, error: savedError } = await supabase
+        .from('menu_plans')
+        .select('*')
+        .eq('id', menuPlan.id)
+        .single();
+
+      if (savedError) throw savedError;
       
       const createdPlan: MenuPlan = {
-        ...menuPlan,
+        ...savedPlan,
         meals: selectedMeals,
         meal_count: selectedMeals.length
       };
       
+      invalidateQueries(queryKeys.menuPlans);
+
       return createdPlan;
     } catch (error) {
-      console.error('Error creating menu plan:', error);
-      return null;
+      throw apiError('Error creating menu plan', error);
+    }
+  },
+
+  updateMenuPlan: async (menuPlanId: string, planData: CreateMenuPlanData): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('update_menu_plan', {
+        p_menu_plan_id: menuPlanId,
+        p_plan_name: planData.plan_name,
+        p_menu_ids: planData.selected_meal_ids
+      });
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.menuPlans);
+    } catch (error) {
+      throw apiError('Error updating menu plan', error);
+    }
+  },
+
+  // menuPlanItemIds in their new order
+  reorderMenuPlanMeals: async (menuPlanId: string, menuPlanItemIds: string[]): Promise<void> => {
+    try {
+      const { error } = await supabase.rpc('reorder_menu_plan_meals', {
+        p_menu_plan_id: menuPlanId,
+        p_menu_plan_item_ids: menuPlanItemIds
+      });
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.menuPlans);
+    } catch (error) {
+      throw apiError('Error reordering menu plan meals', error);
     }
   },
 
-  deleteMenu: async (menuId: string): Promise<boolean> => {
+  // Removes the meal from any plans first; the menu_plan_items trigger brings their totals back in line
+  deleteMenu: async (menuId: string): Promise<void> => {
     try {
+      const { error: deleteItemsError } = await supabase
+        .from('menu_plan_items')
+        .delete()
+        .eq('menu_id', menuId);
+
+      if (deleteItemsError) throw deleteItemsError;
+
+      const { error: ingredientsError } = await supabase
+        .from('menu_ingredients')
+        .delete()
+        .eq('menu_id', menuId);
+
+      if (ingredientsError) throw ingredientsError;
+
       const { error } = await supabase
         .from('menus')
         .delete()
         .eq('id', menuId);
         
       if (error) throw error;
-      return true;
+
+      invalidateQueries(queryKeys.menus);
+      invalidateQueries(queryKeys.menuPlans);
     } catch (error) {
-      console.error('Error deleting menu:', error);
-      return false;
+      throw apiError('Error deleting menu', error);
     }
   },
 
-  deleteMenuPlan: async (menuPlanId: string): Promise<boolean> => {
+  deleteMenuPlan: async (menuPlanId: string): Promise<void> => {
     try {
       const { error: itemsError } = await supabase
         .from('menu_plan_items')
@@ -639,11 +1570,73 @@ export const TrainerAPI = {
         .eq('id', menuPlanId);
         
       if (planError) throw planError;
-      
-      return true;
+
+      invalidateQueries(queryKeys.menuPlans);
+    } catch (error) {
+      throw apiError('Error deleting menu plan', error);
+    }
+  },
+
+  assignMenuPlanToClients: async (assignment: AssignMenuPlanData): Promise<string[]> => {
+    try {
+      if (assignment.client_ids.length === 0) return [];
+
+      const trainerId = await TrainerAPI.getTrainerId();
+      if (!trainerId) throw new Error('Trainer not found');
+
+      const clientIds = await requireActiveClients(trainerId, assignment.client_ids);
+      const { data, error } = await supabase
+        .from('client_menu_plans')
+        .insert(clientIds.map(clientId => ({
+          client_id: clientId,
+          menu_plan_id: assignment.menu_plan_id,
+          start_date: assignment.start_date,
+          end_date: assignment.end_date,
+          trainer_notes: assignment.trainer_notes || null,
+          status: 'active'
+        })))
+        .select('id');
+
+      if (error) throw error;
+
+      invalidateQueries(queryKeys.activeMenuPlan);
+      invalidateQueries(queryKeys.clients);
+      return data.map(row => row.id);
+    } catch (error) {
+      throw apiError('Error assigning menu plan to clients', error);
+    }
+  },
+
+  // Active menu plans whose date range overlaps [startDate, endDate]; a null end means open-ended
+  getMenuPlanAssignmentConflicts: async (
+    clientIds: string[],
+    startDate: string,
+    endDate: string | null
+  ): Promise<AssignmentConflict[]> => {
+    try {
+      if (clientIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from('client_menu_plans')
+        .select('client_id, start_date, end_date, created_at, menu_plan:menu_plans(plan_name)')
+        .in('client_id', clientIds)
+        .eq('status', 'active');
+
+      if (error) throw error;
+
+      return ((data || []) as unknown as ActiveMenuPlanRow[])
+        .map(row => ({
+          client_id: row.client_id,
+          name: row.menu_plan?.plan_name || 'Menu plan',
+          start_date: row.start_date || row.created_at.slice(0, 10),
+          end_date: row.end_date
+        }))
+        .filter(plan =>
+          (plan.end_date === null || plan.end_date >= startDate) &&
+          (endDate === null || plan.start_date <= endDate)
+        );
     } catch (error) {
-      console.error('Error deleting menu plan:', error);
-      return false;
+      throw apiError('Error checking menu plan conflicts', error);
     }
   }
-};
\ No newline at end of file
+};
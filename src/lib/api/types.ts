@@ -0,0 +1,666 @@
+// src/lib/api/types.ts - Domain types returned by the data-access layer
+// Column shapes come from the generated schema; these narrow text columns to their allowed values
+// and jsonb columns to their stored structure.
+import { Tables } from '@/lib/database.types';
+
+// ============================================================================
+// USERS & SUBSCRIPTIONS
+// ============================================================================
+
+export type UserType = 'client' | 'trainer';
+
+export interface UserProfile extends Omit<Tables<'users'>, 'user_type'> {
+  user_type: UserType | null; // null until the user picks a role after sign-up
+}
+
+export type SubscriptionTier = Tables<'subscription_tiers'>;
+
+export interface TrainerSubscriptionTier extends Omit<Tables<'trainer_subscription_tiers'>, 'billing_cycle'> {
+  billing_cycle: 'monthly' | 'yearly';
+}
+
+export interface CreateTrainerSubscriptionData {
+  name: string;
+  description: string;
+  price: number;
+  yearly_price?: number | null;
+  billing_cycle: 'monthly' | 'yearly';
+  is_published?: boolean; // shown on the trainer's directory profile; new plans are published
+}
+
+// Active client on one of the trainer's own tiers
+export interface SubscriptionTierClient {
+  id: string;
+  client_id: string;
+  subscription_start: string | null;
+  client: { id: string; user: { full_name: string; email: string } | null } | null;
+}
+
+// ============================================================================
+// CLIENTS
+// ============================================================================
+
+export interface ClientProfile extends Tables<'clients'> {
+  users: UserProfile | null;
+}
+
+export type ClientProgress = Tables<'client_progress'>;
+
+export interface CreateMeasurementData {
+  date: string;
+  body_weight: number | null;
+  chest_size: number | null;
+  waist_size: number | null;
+  biceps_size: number | null;
+  thigh_size: number | null;
+  notes?: string | null;
+}
+
+export interface ClientStat {
+  value: number;
+  change: number;
+  unit: string;
+}
+
+export interface ClientStats {
+  currentWeight: ClientStat;
+  bodyFat: ClientStat;
+  muscleGain: ClientStat;
+}
+
+export interface AssignedTrainer {
+  id: string;
+  full_name: string;
+  email: string;
+  status: ClientTrainerStatus;
+  subscription_name: string | null;
+  subscription_price: number | null;
+  start_date: string | null;
+}
+
+// ============================================================================
+// TRAINING & NUTRITION
+// ============================================================================
+
+// Structured prescription stored as jsonb in exercises.prescription
+export type PrescriptionLoadType = 'none' | 'percent_1rm' | 'rpe' | 'fixed_kg';
+export type SetVariationType = 'standard' | 'warmup' | 'drop_set' | 'amrap';
+
+export interface SetVariation {
+  set_number: number; // 1-based
+  type: SetVariationType;
+}
+
+export interface ExercisePrescription {
+  sets: number;
+  rep_min: number | null;
+  rep_max: number | null; // same as rep_min for a fixed rep target
+  tempo: string | null; // eccentric-pause-concentric-pause, e.g. "3-1-1-0"
+  rest_seconds: number | null;
+  load_type: PrescriptionLoadType;
+  load_value: number | null;
+  set_variations: SetVariation[]; // only sets that differ from 'standard'
+}
+
+export interface Exercise {
+  id: string;
+  trainer_id: string;
+  exercise_name: string;
+  series: string; // Display summary of the prescription; legacy rows hold free text
+  series_description: string;
+  prescription: ExercisePrescription;
+  created_at: string;
+  updated_at: string;
+}
+
+// Simplified Workout - day-based with exercises
+export interface Workout {
+  id: string;
+  trainer_id: string;
+  workout_name: string;
+  workout_day: string; // e.g., "Monday", "Day 1"
+  description?: string;
+  version: number; // bumped on every edit; see WorkoutVersion
+  created_at: string;
+  updated_at: string;
+  exercises?: Exercise[];
+  exercise_count?: number;
+  workout_exercises?: WorkoutExercise[];
+}
+
+export interface WorkoutExercise {
+  id: string;
+  workout_id: string;
+  exercise_id: string;
+  exercise_order: number;
+  notes?: string;
+  exercise?: Exercise;
+}
+
+export interface ClientWorkout {
+  id: string;
+  client_id: string;
+  workout_id: string;
+  assigned_date: string;
+  status: 'assigned' | 'in_progress' | 'completed';
+  trainer_notes?: string;
+  completion_date?: string | null;
+  program_id?: string | null;
+  program_week?: number | null;
+  progression?: WorkoutProgression | null;
+  workout_version_id?: string | null; // set once the workout is edited after this session started
+  created_at: string;
+  updated_at: string;
+  workout?: Workout;
+}
+
+// Frozen copy of a workout as it was prescribed, so started and logged sessions survive later edits
+export interface WorkoutSnapshot {
+  workout_name: string;
+  workout_day: string;
+  description?: string;
+  workout_exercises: WorkoutExercise[];
+}
+
+export interface WorkoutVersion {
+  id: string;
+  workout_id: string;
+  version: number;
+  snapshot: WorkoutSnapshot;
+  created_at: string;
+}
+
+// Training programs - a weekly workout template laid out over consecutive phases
+export type ProgramPhaseType = 'accumulation' | 'intensification' | 'realization' | 'deload';
+
+export interface ProgramPhase {
+  name: string;
+  type: ProgramPhaseType;
+  weeks: number;
+  load_percent: number; // 100 = as prescribed, e.g. 60 for a deload
+}
+
+export interface ProgressionRule {
+  target: 'none' | 'load_kg' | 'reps';
+  amount: number;
+  per: 'week' | 'session';
+}
+
+export interface ProgramWorkout {
+  id: string;
+  program_id: string;
+  workout_id: string;
+  day_of_week: number; // 1 = Monday … 7 = Sunday
+  workout?: Workout;
+}
+
+export interface Program {
+  id: string;
+  trainer_id: string;
+  program_name: string;
+  description?: string | null;
+  phases: ProgramPhase[];
+  progression: ProgressionRule;
+  duration_weeks: number;
+  created_at: string;
+  updated_at: string;
+  program_workouts?: ProgramWorkout[];
+}
+
+export interface CreateProgramData {
+  program_name: string;
+  description?: string;
+  phases: ProgramPhase[];
+  progression: ProgressionRule;
+  schedule: { workout_id: string; day_of_week: number }[];
+}
+
+export interface AssignProgramData {
+  client_ids: string[];
+  program_id: string;
+  start_date: string;
+  trainer_notes?: string;
+}
+
+// Adjustment applied to one generated client_workouts row, stored as jsonb
+export interface WorkoutProgression {
+  phase_name: string;
+  phase_type: ProgramPhaseType;
+  load_percent: number;
+  load_kg_delta: number;
+  reps_delta: number;
+}
+
+// One performed set, recorded during a workout session
+export interface WorkoutSetLog {
+  exercise_id: string;
+  set_number: number;
+  reps: number | null;
+  load_kg: number | null;
+  rpe: number | null;
+}
+
+export interface WorkoutLog {
+  id: string;
+  client_workout_id: string;
+  client_id: string;
+  started_at: string;
+  completed_at: string;
+  notes?: string | null;
+  created_at: string;
+  sets?: WorkoutSetLog[];
+}
+
+export interface CreateWorkoutLogData {
+  client_workout_id: string;
+  started_at: string;
+  notes?: string;
+  sets: WorkoutSetLog[];
+}
+
+export interface CreateExerciseData {
+  exercise_name: string;
+  series_description: string;
+  prescription: ExercisePrescription;
+}
+
+// Exercise ids in workout order; notes are keyed by exercise id
+export interface CreateWorkoutData {
+  workout_name: string;
+  workout_day: string;
+  description?: string;
+  selected_exercise_ids: string[];
+  exercise_notes?: Record<string, string>;
+}
+
+// Food catalog - nutrients are per 100 g
+export type FoodCategory = 'protein' | 'dairy_eggs' | 'grains' | 'legumes' | 'vegetables' | 'fruit' | 'fats' | 'other';
+
+export interface Food {
+  id: string;
+  trainer_id: string;
+  name: string;
+  category: FoodCategory;
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  source: 'dataset' | 'custom';
+  source_id: string | null; // stable id within the bundled dataset, so re-seeding skips existing rows
+  created_at: string;
+}
+
+export interface CreateFoodData {
+  name: string;
+  category: FoodCategory;
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+}
+
+export interface MenuIngredient {
+  id: string;
+  menu_id: string;
+  food_id: string;
+  grams: number;
+  ingredient_order: number;
+  food?: Food;
+}
+
+export interface MealIngredientInput {
+  food_id: string;
+  grams: number;
+}
+
+// A meal is either built from catalog ingredients or "custom" with hand-entered macros
+export interface Menu {
+  id: string;
+  trainer_id: string;
+  meal_type: string;
+  food_details: string;
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  note?: string | null;
+  created_at: string;
+  updated_at: string;
+  ingredients?: MenuIngredient[];
+}
+
+export interface MenuPlanItem {
+  id: string;
+  menu_plan_id: string;
+  menu_id: string;
+  meal_order: number;
+  menu?: Menu;
+}
+
+export interface MenuPlan {
+  id: string;
+  trainer_id: string;
+  plan_name: string;
+  total_calories: number;
+  total_protein: number;
+  total_carbohydrates: number;
+  total_fat: number;
+  created_at: string;
+  updated_at: string;
+  menu_plan_items?: MenuPlanItem[];
+  meals?: Menu[];
+  meal_count?: number;
+}
+
+// With ingredients, the macros are computed from the catalog and the values passed here are ignored
+export interface CreateMenuData {
+  meal_type: string;
+  food_details: string;
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  note?: string;
+  ingredients?: MealIngredientInput[];
+}
+
+export interface CreateMenuPlanData {
+  plan_name: string;
+  selected_meal_ids: string[];
+}
+
+// Trainer client roster - one row per client_trainers relation; suspended means the client's payment failed
+export type ClientTrainerStatus = 'active' | 'pending' | 'suspended' | 'inactive';
+
+export interface RosterWorkoutSummary {
+  id: string;
+  workout_name: string;
+  completion_date: string;
+}
+
+// Scheduled workout whose day has passed without it being completed
+export interface MissedWorkout {
+  id: string;
+  client_id: string;
+  assigned_date: string;
+  workout_name: string;
+}
+
+export interface TrainerClient {
+  relation_id: string;
+  client_id: string;
+  full_name: string;
+  email: string;
+  status: ClientTrainerStatus;
+  subscription_name: string | null;
+  subscription_price: number | null;
+  start_date: string | null;
+  last_measurement: ClientProgress | null;
+  last_completed_workout: RosterWorkoutSummary | null;
+}
+
+// Trainer view of a single linked client
+export interface TrainerClientDetail {
+  relation_id: string;
+  client_id: string;
+  full_name: string;
+  email: string;
+  status: ClientTrainerStatus;
+  subscription_name: string | null;
+  subscription_price: number | null;
+  start_date: string | null;
+  notes: string | null;
+}
+
+export interface ClientMenuPlan {
+  id: string;
+  client_id: string;
+  menu_plan_id: string;
+  status: 'active' | 'inactive';
+  start_date: string | null;
+  end_date: string | null;
+  created_at: string;
+  menu_plan?: MenuPlan;
+}
+
+// Daily meal check-off against the client's active menu plan
+export type MealCheckinStatus = 'eaten' | 'skipped' | 'substituted';
+
+export interface MealCheckin {
+  id: string;
+  client_id: string;
+  client_menu_plan_id: string;
+  menu_id: string;
+  date: string;
+  status: MealCheckinStatus;
+  substitute_note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveMealCheckinData {
+  client_menu_plan_id: string;
+  menu_id: string;
+  date: string;
+  status: MealCheckinStatus;
+  substitute_note?: string;
+}
+
+// One row per client per day, rewritten whenever a meal of that day is checked off
+export interface NutritionAdherence {
+  id: string;
+  client_id: string;
+  client_menu_plan_id: string;
+  date: string;
+  score: number; // 0-100
+  meals_planned: number;
+  meals_eaten: number;
+  meals_substituted: number;
+  meals_skipped: number;
+  updated_at: string;
+}
+
+// Assigning workouts and menu plans to one or more roster clients
+export interface AssignWorkoutData {
+  client_ids: string[];
+  workout_id: string;
+  assigned_dates: string[]; // YYYY-MM-DD, one client_workouts row per date and client
+  trainer_notes?: string;
+}
+
+export interface AssignMenuPlanData {
+  client_ids: string[];
+  menu_plan_id: string;
+  start_date: string;
+  end_date: string | null; // null keeps the plan running until replaced
+  trainer_notes?: string;
+}
+
+// Something the client already has scheduled that the new assignment would overlap
+export interface AssignmentConflict {
+  client_id: string;
+  name: string;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+// ============================================================================
+// WELLBEING
+// ============================================================================
+
+// Daily "Table of Feelings" check-in; one row per client per day
+export type SorenessRegion = 'shoulders' | 'arms' | 'chest' | 'back' | 'core' | 'legs';
+
+// 0 = none … 3 = severe, stored as jsonb; regions left out are not sore
+export type SorenessLevels = Partial<Record<SorenessRegion, number>>;
+
+export interface WellbeingCheckin extends Omit<Tables<'wellbeing_checkins'>, 'soreness'> {
+  soreness: SorenessLevels;
+}
+
+// mood and energy run 1 (poor) to 5 (great); stress runs 1 (calm) to 5 (very stressed)
+export interface SaveWellbeingCheckinData {
+  date: string;
+  mood: number;
+  energy: number;
+  sleep_hours: number;
+  stress: number;
+  soreness: SorenessLevels;
+  notes?: string | null;
+}
+
+// ============================================================================
+// MESSAGING
+// ============================================================================
+
+export type MessageAttachmentType = 'workout' | 'menu_plan' | 'measurement';
+
+// Snapshot stored as jsonb in messages.attachment, so the card still renders if the source is edited or removed
+export interface MessageAttachment {
+  type: MessageAttachmentType;
+  id: string;
+  title: string;
+  summary: string;
+}
+
+export interface Message extends Omit<Tables<'messages'>, 'attachment'> {
+  attachment: MessageAttachment | null;
+}
+
+export interface SendMessageData {
+  body: string;
+  attachment?: MessageAttachment | null;
+}
+
+// One thread per client_trainers relation; the conversation row is created with the first message
+export interface ConversationSummary {
+  client_trainer_id: string;
+  client_id: string;
+  conversation_id: string | null;
+  participant_name: string;
+  participant_email: string;
+  last_message_preview: string | null;
+  last_message_at: string | null;
+  last_message_sender_id: string | null;
+  unread_count: number;
+  messaging_enabled: boolean; // false while the trainer's tier does not include messaging
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+// Each type has a matching on/off column in notification_preferences
+export type NotificationType =
+  | 'workout_assigned'
+  | 'menu_plan_assigned'
+  | 'missed_workout'
+  | 'measurement_reminder'
+  | 'payment_failed'
+  | 'new_client';
+
+export type NotificationPreferences = Tables<'notification_preferences'>;
+
+export type UpdateNotificationPreferencesData = Partial<Pick<NotificationPreferences, 'email_enabled' | NotificationType>>;
+
+export interface NotificationRecipient {
+  user_id: string;
+  email: string;
+  full_name: string;
+}
+
+// ============================================================================
+// MARKETPLACE
+// ============================================================================
+
+// What clients see in the trainer directory; a trainer without a row is not listed
+export type TrainerProfile = Tables<'trainer_profiles'>;
+
+export type UpdateTrainerProfileData = Omit<TrainerProfile, 'trainer_id' | 'created_at' | 'updated_at'>;
+
+// Listed trainer with the plans they publish
+export interface TrainerListing extends Omit<TrainerProfile, 'created_at' | 'updated_at' | 'is_listed'> {
+  full_name: string;
+  tiers: TrainerSubscriptionTier[];
+}
+
+// The client's own relation to a trainer, so the directory can show "Requested" or "Your trainer"
+export interface TrainerRequest {
+  relation_id: string;
+  trainer_id: string;
+  status: ClientTrainerStatus;
+  trainer_subscription_tier_id: string | null;
+}
+
+// ============================================================================
+// INVITES
+// ============================================================================
+
+export type InviteStatus = 'active' | 'expired' | 'used_up' | 'revoked';
+
+// Signs a client up straight onto one of the trainer's plans; max_uses null means unlimited
+export interface TrainerInvite extends Tables<'trainer_invites'> {
+  tier_name: string;
+  status: InviteStatus;
+}
+
+export interface CreateTrainerInviteData {
+  trainer_subscription_tier_id: string;
+  max_uses: number | null;
+  expires_at: string | null;
+}
+
+// What the invite landing page shows before the client signs in
+export interface InvitePreview {
+  code: string;
+  trainer_id: string;
+  trainer_name: string;
+  tier_name: string;
+  tier_price: number;
+  billing_cycle: string;
+  status: InviteStatus;
+}
+
+// Pending when the invite's plan is paid, until the client completes checkout
+export interface RedeemedInvite {
+  relation_id: string;
+  trainer_id: string;
+  trainer_name: string;
+  tier_name: string;
+  status: ClientTrainerStatus;
+  // False when the link was opened again and nothing changed
+  linked: boolean;
+}
+
+// ============================================================================
+// CHECKOUT
+// ============================================================================
+
+export type BillingCycle = 'monthly' | 'yearly';
+
+// The client_trainers row a checkout pays for, pending until the first payment succeeds
+export interface ClientCheckout {
+  relation_id: string;
+  trainer_id: string;
+  tier: TrainerSubscriptionTier;
+}
+
+// ============================================================================
+// BILLING
+// ============================================================================
+
+export type TrainerBillingStatus = 'incomplete' | 'active' | 'past_due' | 'canceled';
+
+// The trainer's platform subscription as last reported by Stripe webhooks
+export interface TrainerBilling {
+  trainer_id: string;
+  subscription_tier_id: string | null;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  subscription_status: TrainerBillingStatus | null;
+  billing_cycle: BillingCycle | null;
+  current_period_start: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  billing_synced_at: string | null;
+}
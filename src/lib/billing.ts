@@ -0,0 +1,70 @@
+// src/lib/billing.ts - The trainer's platform billing: columns shared by the API and the Stripe webhook, and how they are shown
+import { Tables } from '@/lib/database.types';
+import { BillingCycle, SubscriptionTier, TrainerBilling, TrainerBillingStatus } from '@/lib/api/types';
+
+export const BILLING_STATUS_LABELS: Record<TrainerBillingStatus, string> = {
+  incomplete: 'Awaiting payment',
+  active: 'Active',
+  past_due: 'Payment failed',
+  canceled: 'Canceled'
+};
+
+export const BILLING_STATUS_STYLES: Record<TrainerBillingStatus, string> = {
+  incomplete: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  past_due: 'bg-red-100 text-red-800',
+  canceled: 'bg-gray-100 text-gray-700'
+};
+
+export const INVOICE_STATUS_STYLES: Record<string, string> = {
+  paid: 'bg-green-100 text-green-800',
+  open: 'bg-yellow-100 text-yellow-800',
+  uncollectible: 'bg-red-100 text-red-800',
+  void: 'bg-gray-100 text-gray-700',
+  draft: 'bg-gray-100 text-gray-700'
+};
+
+export const TRAINER_BILLING_COLUMNS = 'id, subscription_tier_id, stripe_customer_id, stripe_subscription_id, subscription_status, billing_cycle, current_period_start, current_period_end, cancel_at_period_end, billing_synced_at';
+
+export type TrainerBillingRow = Pick<Tables<'trainers'>,
+  'id' | 'subscription_tier_id' | 'stripe_customer_id' | 'stripe_subscription_id' | 'subscription_status' | 'billing_cycle' |
+  'current_period_start' | 'current_period_end' | 'cancel_at_period_end' | 'billing_synced_at'>;
+
+export function toTrainerBilling({ id, ...row }: TrainerBillingRow): TrainerBilling {
+  return {
+    ...row,
+    trainer_id: id,
+    subscription_status: row.subscription_status as TrainerBillingStatus | null,
+    billing_cycle: row.billing_cycle as BillingCycle | null
+  };
+}
+
+// A paid subscription the trainer can switch cycle or plan on; the free plan and cancelled ones start over
+export function hasPaidSubscription(billing: TrainerBilling | null | undefined): boolean {
+  return Boolean(billing?.stripe_subscription_id) &&
+    (billing?.subscription_status === 'active' || billing?.subscription_status === 'past_due');
+}
+
+// "Renews on ...", "Ends on ..." or the failed payment, for the trainer's current period
+export function describeRenewal(billing: TrainerBilling | null | undefined): string | null {
+  if (!billing || !hasPaidSubscription(billing) || !billing.current_period_end) return null;
+
+  const date = new Date(billing.current_period_end).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  if (billing.subscription_status === 'past_due') return 'Payment failed, retrying';
+  return billing.cancel_at_period_end ? `Ends on ${date}` : `Renews on ${date}`;
+}
+
+// What the trainer pays per cycle: the tier's yearly price once Stripe bills them yearly
+export function getBilledPrice(
+  tier: Pick<SubscriptionTier, 'price' | 'yearly_price' | 'billing_cycle'> | null | undefined,
+  billing: TrainerBilling | null | undefined
+): { amount: number | null; cycle: string | undefined } {
+  const cycle = billing?.billing_cycle ?? tier?.billing_cycle;
+  const amount = cycle === 'yearly' ? tier?.yearly_price ?? tier?.price : tier?.price;
+  return { amount: amount ?? null, cycle };
+}
+
+// Stripe reports minor units; shown like the plan prices, e.g. "250 CZK"
+export function formatInvoiceAmount(amount: number, currency: string): string {
+  return `${(amount / 100).toLocaleString()} ${currency.toUpperCase()}`;
+}
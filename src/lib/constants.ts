@@ -1,4 +1,7 @@
 // src/lib/constants.ts
+import { ENTITLEMENT_LABELS, Entitlement, hasEntitlement } from '@/lib/entitlements';
+import { ClientTrainerStatus } from '@/lib/api/types';
+
 // App Information
 export const APP_NAME = 'Pumpee';
 export const APP_DESCRIPTION = 'Track your fitness journey and achieve your goals with Pumpee';
@@ -9,9 +12,17 @@ export const AUTH_ROUTES = {
   REGISTER: '/register',
   AUTH_CALLBACK: '/auth/callback',
   USER_TYPE_SELECTION: '/user-type-selection',
-  PASSWORD_RESET: '/password-reset'
+  PASSWORD_RESET: '/password-reset',
+  UPDATE_PASSWORD: '/update-password',
+  INVITE: '/invite'
 };
 
+// Page a guard sent to login, kept in session storage across the Google OAuth round trip
+export const POST_LOGIN_REDIRECT_KEY = 'pumpee_post_login_redirect';
+
+// Invite code opened before sign-up, kept in local storage since email confirmation opens a new tab
+export const PENDING_INVITE_KEY = 'pumpee_pending_invite';
+
 // Dashboard Routes
 export const DASHBOARD_ROUTES = {
   CLIENT: {
@@ -19,15 +30,22 @@ export const DASHBOARD_ROUTES = {
     PROFILE: '/client/profile',
     TRAINERS: '/client/trainers',
     WORKOUTS: '/client/workouts',
-    PROGRESS: '/client/progress'
+    NUTRITION: '/client/nutrition',
+    PROGRESS: '/client/progress',
+    MESSAGES: '/client/messages',
+    SETTINGS: '/client/settings'
   },
   TRAINER: {
     DASHBOARD: '/trainer/dashboard',
     PROFILE: '/trainer/profile',
     CLIENTS: '/trainer/clients',
     WORKOUTS: '/trainer/workouts',
+    PROGRAMS: '/trainer/programs',
     SCHEDULE: '/trainer/schedule',
-    SUBSCRIPTIONS: '/trainer/subscriptions'
+    SUBSCRIPTIONS: '/trainer/subscriptions',
+    BILLING: '/trainer/billing',
+    MESSAGES: '/trainer/messages',
+    SETTINGS: '/trainer/settings'
   }
 };
 
@@ -68,12 +86,16 @@ export const USER_TYPES = {
   TRAINER: 'trainer' as const
 };
 
-// Subscription tiers
+// Relations whose client data the trainer may read; mirrors trainer_can_view_client() in the database
+export const LINKED_CLIENT_STATUSES: ClientTrainerStatus[] = ['active', 'suspended'];
+
+// Subscription tiers; yearlyPrice is the whole year up front, null where the plan isn't sold yearly
 export const SUBSCRIPTION_TIERS = [
   {
     id: 'tier_basic',
     name: 'Basic',
     price: 0,
+    yearlyPrice: null,
     description: 'Perfect for new or part-time coaches starting small.',
     features: [
       'Up to 10 clients',
@@ -87,6 +109,7 @@ export const SUBSCRIPTION_TIERS = [
     name: 'Advanced',
     price: 300,
     salePrice: 250,
+    yearlyPrice: 2500,
     description: 'Adds tools for better client tracking & engagement.',
     features: [
       'Up to 50 clients',
@@ -101,6 +124,7 @@ export const SUBSCRIPTION_TIERS = [
     name: 'Pro',
     price: 800,
     salePrice: 650,
+    yearlyPrice: 6500,
     description: 'Designed for full-time coaches scaling their business.',
     features: [
       'Up to 150 clients',
@@ -116,6 +140,7 @@ export const SUBSCRIPTION_TIERS = [
     id: 'tier_arnold',
     name: 'Arnold',
     price: null,
+    yearlyPrice: null,
     description: 'Built for elite coaches managing large client bases.',
     features: [
       'Unlimited clients',
@@ -129,14 +154,11 @@ export const SUBSCRIPTION_TIERS = [
   }
 ];
 
-// Feature comparison for subscription tiers
-export const FEATURE_COMPARISON = [
-  { feature: 'Basic Analytics for Coaches', basic: true, advanced: true, pro: true, arnold: true },
-  { feature: 'Measurement of Progress', basic: true, advanced: true, pro: true, arnold: true },
-  { feature: 'Menu Planning', basic: true, advanced: true, pro: true, arnold: true },
-  { feature: 'Training Plans', basic: true, advanced: true, pro: true, arnold: true },
-  { feature: 'Table of Feelings', basic: false, advanced: true, pro: true, arnold: true },
-  { feature: 'Notifications (Email)', basic: false, advanced: true, pro: true, arnold: true },
-  { feature: 'In-App Messaging', basic: false, advanced: false, pro: true, arnold: true },
-  { feature: 'Advanced Analytics for Coaches', basic: false, advanced: false, pro: true, arnold: true }
-];
\ No newline at end of file
+// Feature comparison for subscription tiers, derived from the enforced entitlements
+export const FEATURE_COMPARISON = (Object.keys(ENTITLEMENT_LABELS) as Entitlement[]).map(entitlement => ({
+  feature: ENTITLEMENT_LABELS[entitlement],
+  basic: hasEntitlement('Basic', entitlement),
+  advanced: hasEntitlement('Advanced', entitlement),
+  pro: hasEntitlement('Pro', entitlement),
+  arnold: hasEntitlement('Arnold', entitlement)
+}));
\ No newline at end of file
@@ -0,0 +1,1711 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      client_menu_plans: {
+        Row: {
+          id: string
+          client_id: string
+          menu_plan_id: string
+          start_date: string | null
+          end_date: string | null
+          trainer_notes: string | null
+          status: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          menu_plan_id: string
+          start_date?: string | null
+          end_date?: string | null
+          trainer_notes?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          menu_plan_id?: string
+          start_date?: string | null
+          end_date?: string | null
+          trainer_notes?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_menu_plans_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_menu_plans_menu_plan_id_fkey"
+            columns: ["menu_plan_id"]
+            isOneToOne: false
+            referencedRelation: "menu_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_programs: {
+        Row: {
+          id: string
+          client_id: string
+          program_id: string
+          start_date: string
+          end_date: string | null
+          status: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          program_id: string
+          start_date: string
+          end_date?: string | null
+          status?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          program_id?: string
+          start_date?: string
+          end_date?: string | null
+          status?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_programs_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_programs_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_progress: {
+        Row: {
+          id: string
+          client_id: string
+          date: string
+          body_weight: number | null
+          chest_size: number | null
+          waist_size: number | null
+          biceps_size: number | null
+          thigh_size: number | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          date: string
+          body_weight?: number | null
+          chest_size?: number | null
+          waist_size?: number | null
+          biceps_size?: number | null
+          thigh_size?: number | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          date?: string
+          body_weight?: number | null
+          chest_size?: number | null
+          waist_size?: number | null
+          biceps_size?: number | null
+          thigh_size?: number | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_progress_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_trainers: {
+        Row: {
+          id: string
+          client_id: string
+          trainer_id: string
+          trainer_subscription_tier_id: string | null
+          status: string
+          subscription_start: string | null
+          stripe_subscription_id: string | null
+          billing_cycle: string | null
+          billing_synced_at: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          trainer_id: string
+          trainer_subscription_tier_id?: string | null
+          status?: string
+          subscription_start?: string | null
+          stripe_subscription_id?: string | null
+          billing_cycle?: string | null
+          billing_synced_at?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          trainer_id?: string
+          trainer_subscription_tier_id?: string | null
+          status?: string
+          subscription_start?: string | null
+          stripe_subscription_id?: string | null
+          billing_cycle?: string | null
+          billing_synced_at?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_trainers_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_trainers_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_trainers_trainer_subscription_tier_id_fkey"
+            columns: ["trainer_subscription_tier_id"]
+            isOneToOne: false
+            referencedRelation: "trainer_subscription_tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_workouts: {
+        Row: {
+          id: string
+          client_id: string
+          workout_id: string
+          assigned_date: string
+          status: string
+          trainer_notes: string | null
+          completion_date: string | null
+          program_id: string | null
+          program_week: number | null
+          progression: Json | null
+          workout_version_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          workout_id: string
+          assigned_date?: string
+          status?: string
+          trainer_notes?: string | null
+          completion_date?: string | null
+          program_id?: string | null
+          program_week?: number | null
+          progression?: Json | null
+          workout_version_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          workout_id?: string
+          assigned_date?: string
+          status?: string
+          trainer_notes?: string | null
+          completion_date?: string | null
+          program_id?: string | null
+          program_week?: number | null
+          progression?: Json | null
+          workout_version_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_workouts_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_workouts_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_workouts_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_workouts_workout_version_id_fkey"
+            columns: ["workout_version_id"]
+            isOneToOne: false
+            referencedRelation: "workout_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clients: {
+        Row: {
+          id: string
+          user_id: string
+          stripe_customer_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          stripe_customer_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          stripe_customer_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clients_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          id: string
+          client_trainer_id: string
+          last_message_at: string | null
+          last_message_preview: string | null
+          last_message_sender_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_trainer_id: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+          last_message_sender_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_trainer_id?: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+          last_message_sender_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_client_trainer_id_fkey"
+            columns: ["client_trainer_id"]
+            isOneToOne: true
+            referencedRelation: "client_trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_last_message_sender_id_fkey"
+            columns: ["last_message_sender_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exercises: {
+        Row: {
+          id: string
+          trainer_id: string
+          exercise_name: string
+          series: string
+          series_description: string
+          prescription: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          exercise_name: string
+          series: string
+          series_description: string
+          prescription?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          exercise_name?: string
+          series?: string
+          series_description?: string
+          prescription?: Json | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exercises_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      foods: {
+        Row: {
+          id: string
+          trainer_id: string
+          name: string
+          category: string
+          calories: number
+          protein: number
+          carbohydrates: number
+          fat: number
+          source: string
+          source_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          name: string
+          category?: string
+          calories: number
+          protein: number
+          carbohydrates: number
+          fat: number
+          source?: string
+          source_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          name?: string
+          category?: string
+          calories?: number
+          protein?: number
+          carbohydrates?: number
+          fat?: number
+          source?: string
+          source_id?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "foods_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_checkins: {
+        Row: {
+          id: string
+          client_id: string
+          client_menu_plan_id: string
+          menu_id: string
+          date: string
+          status: string
+          substitute_note: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          client_menu_plan_id: string
+          menu_id: string
+          date: string
+          status: string
+          substitute_note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          client_menu_plan_id?: string
+          menu_id?: string
+          date?: string
+          status?: string
+          substitute_note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_checkins_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_checkins_client_menu_plan_id_fkey"
+            columns: ["client_menu_plan_id"]
+            isOneToOne: false
+            referencedRelation: "client_menu_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_checkins_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menus"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_ingredients: {
+        Row: {
+          id: string
+          menu_id: string
+          food_id: string
+          grams: number
+          ingredient_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          menu_id: string
+          food_id: string
+          grams: number
+          ingredient_order: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          menu_id?: string
+          food_id?: string
+          grams?: number
+          ingredient_order?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_ingredients_food_id_fkey"
+            columns: ["food_id"]
+            isOneToOne: false
+            referencedRelation: "foods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_ingredients_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menus"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_plan_items: {
+        Row: {
+          id: string
+          menu_plan_id: string
+          menu_id: string
+          meal_order: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          menu_plan_id: string
+          menu_id: string
+          meal_order: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          menu_plan_id?: string
+          menu_id?: string
+          meal_order?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_plan_items_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menus"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_plan_items_menu_plan_id_fkey"
+            columns: ["menu_plan_id"]
+            isOneToOne: false
+            referencedRelation: "menu_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menu_plans: {
+        Row: {
+          id: string
+          trainer_id: string
+          plan_name: string
+          total_calories: number
+          total_protein: number
+          total_carbohydrates: number
+          total_fat: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          plan_name: string
+          total_calories?: number
+          total_protein?: number
+          total_carbohydrates?: number
+          total_fat?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          plan_name?: string
+          total_calories?: number
+          total_protein?: number
+          total_carbohydrates?: number
+          total_fat?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_plans_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menus: {
+        Row: {
+          id: string
+          trainer_id: string
+          meal_type: string
+          food_details: string
+          calories: number
+          protein: number
+          carbohydrates: number
+          fat: number
+          note: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          meal_type: string
+          food_details: string
+          calories: number
+          protein: number
+          carbohydrates: number
+          fat: number
+          note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          meal_type?: string
+          food_details?: string
+          calories?: number
+          protein?: number
+          carbohydrates?: number
+          fat?: number
+          note?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menus_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          id: string
+          conversation_id: string
+          sender_id: string
+          body: string
+          attachment: Json | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversation_id: string
+          sender_id: string
+          body?: string
+          attachment?: Json | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversation_id?: string
+          sender_id?: string
+          body?: string
+          attachment?: Json | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_log: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          reference_id: string
+          sent_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: string
+          reference_id: string
+          sent_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          reference_id?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_log_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          email_enabled: boolean
+          workout_assigned: boolean
+          menu_plan_assigned: boolean
+          missed_workout: boolean
+          measurement_reminder: boolean
+          payment_failed: boolean
+          new_client: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          email_enabled?: boolean
+          workout_assigned?: boolean
+          menu_plan_assigned?: boolean
+          missed_workout?: boolean
+          measurement_reminder?: boolean
+          payment_failed?: boolean
+          new_client?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          email_enabled?: boolean
+          workout_assigned?: boolean
+          menu_plan_assigned?: boolean
+          missed_workout?: boolean
+          measurement_reminder?: boolean
+          payment_failed?: boolean
+          new_client?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      nutrition_adherence: {
+        Row: {
+          id: string
+          client_id: string
+          client_menu_plan_id: string
+          date: string
+          score: number
+          meals_planned: number
+          meals_eaten: number
+          meals_substituted: number
+          meals_skipped: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          client_menu_plan_id: string
+          date: string
+          score?: number
+          meals_planned?: number
+          meals_eaten?: number
+          meals_substituted?: number
+          meals_skipped?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          client_menu_plan_id?: string
+          date?: string
+          score?: number
+          meals_planned?: number
+          meals_eaten?: number
+          meals_substituted?: number
+          meals_skipped?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "nutrition_adherence_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "nutrition_adherence_client_menu_plan_id_fkey"
+            columns: ["client_menu_plan_id"]
+            isOneToOne: false
+            referencedRelation: "client_menu_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      program_workouts: {
+        Row: {
+          id: string
+          program_id: string
+          workout_id: string
+          day_of_week: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          program_id: string
+          workout_id: string
+          day_of_week: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          program_id?: string
+          workout_id?: string
+          day_of_week?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "program_workouts_program_id_fkey"
+            columns: ["program_id"]
+            isOneToOne: false
+            referencedRelation: "programs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "program_workouts_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      programs: {
+        Row: {
+          id: string
+          trainer_id: string
+          program_name: string
+          description: string | null
+          phases: Json
+          progression: Json
+          duration_weeks: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          program_name: string
+          description?: string | null
+          phases?: Json
+          progression?: Json
+          duration_weeks: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          program_name?: string
+          description?: string | null
+          phases?: Json
+          progression?: Json
+          duration_weeks?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "programs_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stripe_events: {
+        Row: {
+          id: string
+          type: string
+          status: string
+          error: string | null
+          payload: Json
+          created_at: string
+          claimed_at: string
+          processed_at: string | null
+        }
+        Insert: {
+          id: string
+          type: string
+          status?: string
+          error?: string | null
+          payload: Json
+          created_at?: string
+          claimed_at?: string
+          processed_at?: string | null
+        }
+        Update: {
+          id?: string
+          type?: string
+          status?: string
+          error?: string | null
+          payload?: Json
+          created_at?: string
+          claimed_at?: string
+          processed_at?: string | null
+        }
+        Relationships: []
+      }
+      subscription_tiers: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          price: number | null
+          yearly_price: number | null
+          sale_price: number | null
+          billing_cycle: string
+          client_limit: number | null
+          justification: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          price?: number | null
+          yearly_price?: number | null
+          sale_price?: number | null
+          billing_cycle?: string
+          client_limit?: number | null
+          justification?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          price?: number | null
+          yearly_price?: number | null
+          sale_price?: number | null
+          billing_cycle?: string
+          client_limit?: number | null
+          justification?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      trainer_invites: {
+        Row: {
+          id: string
+          trainer_id: string
+          trainer_subscription_tier_id: string
+          code: string
+          max_uses: number | null
+          use_count: number
+          expires_at: string | null
+          revoked_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          trainer_subscription_tier_id: string
+          code: string
+          max_uses?: number | null
+          use_count?: number
+          expires_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          trainer_subscription_tier_id?: string
+          code?: string
+          max_uses?: number | null
+          use_count?: number
+          expires_at?: string | null
+          revoked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trainer_invites_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trainer_invites_trainer_subscription_tier_id_fkey"
+            columns: ["trainer_subscription_tier_id"]
+            isOneToOne: false
+            referencedRelation: "trainer_subscription_tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trainer_profiles: {
+        Row: {
+          trainer_id: string
+          bio: string | null
+          specialties: string[]
+          photo_url: string | null
+          location: string | null
+          offers_online: boolean
+          offers_in_person: boolean
+          is_listed: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          trainer_id: string
+          bio?: string | null
+          specialties?: string[]
+          photo_url?: string | null
+          location?: string | null
+          offers_online?: boolean
+          offers_in_person?: boolean
+          is_listed?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          trainer_id?: string
+          bio?: string | null
+          specialties?: string[]
+          photo_url?: string | null
+          location?: string | null
+          offers_online?: boolean
+          offers_in_person?: boolean
+          is_listed?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trainer_profiles_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: true
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trainer_subscription_tiers: {
+        Row: {
+          id: string
+          trainer_id: string
+          name: string
+          description: string
+          price: number
+          yearly_price: number | null
+          billing_cycle: string
+          is_published: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          name: string
+          description: string
+          price: number
+          yearly_price?: number | null
+          billing_cycle?: string
+          is_published?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          name?: string
+          description?: string
+          price?: number
+          yearly_price?: number | null
+          billing_cycle?: string
+          is_published?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trainer_subscription_tiers_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trainers: {
+        Row: {
+          id: string
+          user_id: string
+          subscription_tier_id: string | null
+          stripe_customer_id: string | null
+          stripe_subscription_id: string | null
+          subscription_status: string | null
+          billing_cycle: string | null
+          current_period_start: string | null
+          current_period_end: string | null
+          cancel_at_period_end: boolean
+          billing_synced_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          subscription_tier_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_subscription_id?: string | null
+          subscription_status?: string | null
+          billing_cycle?: string | null
+          current_period_start?: string | null
+          current_period_end?: string | null
+          cancel_at_period_end?: boolean
+          billing_synced_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          subscription_tier_id?: string | null
+          stripe_customer_id?: string | null
+          stripe_subscription_id?: string | null
+          subscription_status?: string | null
+          billing_cycle?: string | null
+          current_period_start?: string | null
+          current_period_end?: string | null
+          cancel_at_period_end?: boolean
+          billing_synced_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trainers_subscription_tier_id_fkey"
+            columns: ["subscription_tier_id"]
+            isOneToOne: false
+            referencedRelation: "subscription_tiers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trainers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          id: string
+          email: string
+          full_name: string
+          phone_number: string | null
+          registration_method: string | null
+          user_type: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id: string
+          email: string
+          full_name: string
+          phone_number?: string | null
+          registration_method?: string | null
+          user_type?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          full_name?: string
+          phone_number?: string | null
+          registration_method?: string | null
+          user_type?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      wellbeing_checkins: {
+        Row: {
+          id: string
+          client_id: string
+          date: string
+          mood: number
+          energy: number
+          sleep_hours: number
+          stress: number
+          soreness: Json
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          date: string
+          mood: number
+          energy: number
+          sleep_hours: number
+          stress: number
+          soreness?: Json
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          date?: string
+          mood?: number
+          energy?: number
+          sleep_hours?: number
+          stress?: number
+          soreness?: Json
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wellbeing_checkins_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_exercises: {
+        Row: {
+          id: string
+          workout_id: string
+          exercise_id: string
+          exercise_order: number
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          workout_id: string
+          exercise_id: string
+          exercise_order: number
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          workout_id?: string
+          exercise_id?: string
+          exercise_order?: number
+          notes?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_exercises_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "exercises"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_exercises_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_log_sets: {
+        Row: {
+          id: string
+          workout_log_id: string
+          exercise_id: string
+          set_number: number
+          reps: number | null
+          load_kg: number | null
+          rpe: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          workout_log_id: string
+          exercise_id: string
+          set_number: number
+          reps?: number | null
+          load_kg?: number | null
+          rpe?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          workout_log_id?: string
+          exercise_id?: string
+          set_number?: number
+          reps?: number | null
+          load_kg?: number | null
+          rpe?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_log_sets_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "exercises"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_log_sets_workout_log_id_fkey"
+            columns: ["workout_log_id"]
+            isOneToOne: false
+            referencedRelation: "workout_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_logs: {
+        Row: {
+          id: string
+          client_workout_id: string
+          client_id: string
+          started_at: string
+          completed_at: string | null
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          client_workout_id: string
+          client_id: string
+          started_at: string
+          completed_at?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          client_workout_id?: string
+          client_id?: string
+          started_at?: string
+          completed_at?: string | null
+          notes?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_logs_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_logs_client_workout_id_fkey"
+            columns: ["client_workout_id"]
+            isOneToOne: false
+            referencedRelation: "client_workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_versions: {
+        Row: {
+          id: string
+          workout_id: string
+          version: number
+          snapshot: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          workout_id: string
+          version: number
+          snapshot: Json
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          workout_id?: string
+          version?: number
+          snapshot?: Json
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_versions_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workouts: {
+        Row: {
+          id: string
+          trainer_id: string
+          workout_name: string
+          workout_day: string
+          description: string | null
+          version: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          trainer_id: string
+          workout_name: string
+          workout_day: string
+          description?: string | null
+          version?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          trainer_id?: string
+          workout_name?: string
+          workout_day?: string
+          description?: string | null
+          version?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workouts_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      assign_program: {
+        Args: {
+          p_program_id: string
+          p_client_ids: string[]
+          p_start_date: string
+          p_trainer_notes: string | null
+          p_schedule: Json
+        }
+        Returns: string[]
+      }
+      complete_workout: {
+        Args: {
+          p_client_workout_id: string
+          p_started_at: string
+          p_notes: string | null
+          p_sets: Json
+        }
+        Returns: string
+      }
+      get_client_roster_activity: {
+        Args: {
+          p_client_ids: string[]
+        }
+        Returns: {
+          client_id: string
+          last_measurement: Json | null
+          last_completed_workout: Json | null
+        }[]
+      }
+      get_trainer_invite_preview: {
+        Args: {
+          p_code: string
+        }
+        Returns: {
+          code: string
+          trainer_id: string
+          trainer_name: string | null
+          tier_name: string | null
+          tier_price: number | null
+          billing_cycle: string | null
+          max_uses: number | null
+          use_count: number
+          expires_at: string | null
+          revoked_at: string | null
+        }[]
+      }
+      mark_conversation_read: {
+        Args: {
+          p_conversation_id: string
+        }
+        Returns: undefined
+      }
+      redeem_trainer_invite: {
+        Args: {
+          p_code: string
+        }
+        Returns: {
+          relation_id: string
+          relation_status: string
+          linked: boolean
+        }[]
+      }
+      reorder_menu_plan_meals: {
+        Args: {
+          p_menu_plan_id: string
+          p_menu_plan_item_ids: string[]
+        }
+        Returns: undefined
+      }
+      reorder_workout_exercises: {
+        Args: {
+          p_workout_id: string
+          p_workout_exercise_ids: string[]
+        }
+        Returns: undefined
+      }
+      send_message: {
+        Args: {
+          p_client_trainer_id: string
+          p_body: string
+          p_attachment: Json | null
+        }
+        Returns: {
+          id: string
+          conversation_id: string
+          sender_id: string
+          body: string
+          attachment: Json | null
+          read_at: string | null
+          created_at: string
+        }
+      }
+      update_exercise: {
+        Args: {
+          p_exercise_id: string
+          p_exercise_name: string
+          p_series: string
+          p_series_description: string
+          p_prescription: Json
+        }
+        Returns: {
+          id: string
+          trainer_id: string
+          exercise_name: string
+          series: string
+          series_description: string
+          prescription: Json | null
+          created_at: string
+          updated_at: string
+        }
+      }
+      update_menu_plan: {
+        Args: {
+          p_menu_plan_id: string
+          p_plan_name: string
+          p_menu_ids: string[]
+        }
+        Returns: undefined
+      }
+      update_workout: {
+        Args: {
+          p_workout_id: string
+          p_workout_name: string
+          p_workout_day: string
+          p_description: string | null
+          p_exercises: Json
+        }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+type DefaultSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  TableName extends keyof DefaultSchema["Tables"],
+> = DefaultSchema["Tables"][TableName] extends {
+  Row: infer R
+}
+  ? R
+  : never
+
+export type TablesInsert<
+  TableName extends keyof DefaultSchema["Tables"],
+> = DefaultSchema["Tables"][TableName] extends {
+  Insert: infer I
+}
+  ? I
+  : never
+
+export type TablesUpdate<
+  TableName extends keyof DefaultSchema["Tables"],
+> = DefaultSchema["Tables"][TableName] extends {
+  Update: infer U
+}
+  ? U
+  : never
@@ -0,0 +1,73 @@
+// src/lib/entitlements.ts - What each platform tier unlocks; the single source for gating features and the plan comparison
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type Entitlement =
+  | 'basic_analytics'
+  | 'progress_measurement'
+  | 'menu_planning'
+  | 'training_plans'
+  | 'table_of_feelings'
+  | 'email_notifications'
+  | 'in_app_messaging'
+  | 'advanced_analytics';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Trainers without a tier row are treated as Basic, limit included
+export const DEFAULT_TIER_NAME = 'Basic';
+export const DEFAULT_CLIENT_LIMIT = 10;
+
+// In display order, cheapest first
+export const TIER_NAMES = ['Basic', 'Advanced', 'Pro', 'Arnold'];
+
+export const ENTITLEMENT_LABELS: Record<Entitlement, string> = {
+  basic_analytics: 'Basic Analytics for Coaches',
+  progress_measurement: 'Measurement of Progress',
+  menu_planning: 'Menu Planning',
+  training_plans: 'Training Plans',
+  table_of_feelings: 'Table of Feelings',
+  email_notifications: 'Notifications (Email)',
+  in_app_messaging: 'In-App Messaging',
+  advanced_analytics: 'Advanced Analytics for Coaches'
+};
+
+const BASIC_ENTITLEMENTS: Entitlement[] = ['basic_analytics', 'progress_measurement', 'menu_planning', 'training_plans'];
+const ADVANCED_ENTITLEMENTS: Entitlement[] = [...BASIC_ENTITLEMENTS, 'table_of_feelings', 'email_notifications'];
+const PRO_ENTITLEMENTS: Entitlement[] = [...ADVANCED_ENTITLEMENTS, 'in_app_messaging', 'advanced_analytics'];
+
+// Keyed by subscription_tiers.name; client limits stay on the tier row itself
+export const TIER_ENTITLEMENTS: Record<string, Entitlement[]> = {
+  Basic: BASIC_ENTITLEMENTS,
+  Advanced: ADVANCED_ENTITLEMENTS,
+  Pro: PRO_ENTITLEMENTS,
+  Arnold: PRO_ENTITLEMENTS
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+export function hasEntitlement(tierName: string | null | undefined, entitlement: Entitlement): boolean {
+  return (TIER_ENTITLEMENTS[tierName || DEFAULT_TIER_NAME] ?? []).includes(entitlement);
+}
+
+// Tiers that include the feature, for upgrade prompts
+export function getEntitledTierNames(entitlement: Entitlement): string[] {
+  return TIER_NAMES.filter(tierName => hasEntitlement(tierName, entitlement));
+}
+
+// e.g. "the Pro and Arnold plans"
+export function formatEntitledTiers(entitlement: Entitlement): string {
+  const names = getEntitledTierNames(entitlement);
+  if (names.length <= 1) return `the ${names[0] ?? 'higher'} plan`;
+  return `the ${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} plans`;
+}
+
+// A null limit means unlimited
+export function hasClientCapacity(clientLimit: number | null | undefined, activeClients: number): boolean {
+  return clientLimit == null || activeClients < clientLimit;
+}
@@ -8,6 +8,44 @@ export type ErrorWithMessage = {
   hint?: string;
 };
 
+/**
+ * Error thrown by every @/lib/api call that fails. Keeps the Postgrest code, details and hint
+ * when the failure came from Supabase, and the original error as `cause`.
+ */
+export class ApiError extends Error {
+  code?: string;
+  details?: string;
+  hint?: string;
+  cause?: unknown;
+
+  constructor(message: string, options: Omit<ErrorWithMessage, 'message'> & { cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = options.code;
+    this.details = options.details;
+    this.hint = options.hint;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Wrap any thrown value in an ApiError; ApiErrors pass through unchanged
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  const typedError = (typeof error === 'object' && error !== null ? error : {}) as Partial<ErrorWithMessage>;
+
+  return new ApiError(getErrorMessage(error), {
+    code: typedError.code,
+    details: typedError.details,
+    hint: typedError.hint,
+    cause: error
+  });
+}
+
 /**
  * Parse error message from various error types
  */
@@ -72,6 +110,14 @@ export function handleAuthError(error: unknown): string {
     return 'This email is already registered. Please log in instead.';
   }
   
+  if (errorMessage.includes('should be different from the old password')) {
+    return 'Your new password must be different from your current password.';
+  }
+  
+  if (errorMessage.includes('Auth session missing')) {
+    return 'Your reset link has expired. Please request a new one.';
+  }
+  
   if (errorMessage.includes('rate limit')) {
     return 'Too many attempts. Please try again later.';
   }
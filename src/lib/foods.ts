@@ -0,0 +1,54 @@
+// src/lib/foods.ts - Food catalog helpers and the bundled starter dataset
+import { CreateFoodData, Food, FoodCategory } from '@/lib/api';
+import { roundMacros, sumIngredientMacros, MacroTotals } from '@/lib/macros';
+
+export const FOOD_CATEGORY_LABELS: Record<FoodCategory, string> = {
+  protein: 'Meat, Fish & Tofu',
+  dairy_eggs: 'Dairy & Eggs',
+  grains: 'Grains & Starches',
+  legumes: 'Legumes',
+  vegetables: 'Vegetables',
+  fruit: 'Fruit',
+  fats: 'Nuts, Oils & Fats',
+  other: 'Other'
+};
+
+export interface DatasetFood extends CreateFoodData {
+  source_id: string;
+}
+
+export interface FoodDataset {
+  name: string;
+  source: string;
+  version: number;
+  foods: DatasetFood[];
+}
+
+// Loaded on demand so the dataset stays out of the main bundle
+export async function loadFoodDataset(): Promise<FoodDataset> {
+  const dataset = await import('@/lib/data/open-food-catalog.json');
+  return dataset.default as FoodDataset;
+}
+
+// Case-insensitive match on every word, so "chicken roast" finds "Chicken breast, skinless, roasted"
+export function searchFoods(foods: Food[], query: string): Food[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return foods;
+  return foods.filter(food => {
+    const name = food.name.toLowerCase();
+    return terms.every(term => name.includes(term));
+  });
+}
+
+export function formatFoodNutrients(food: Pick<Food, 'calories' | 'protein' | 'carbohydrates' | 'fat'>): string {
+  return `${food.calories}kcal | P: ${food.protein}g | C: ${food.carbohydrates}g | F: ${food.fat}g per 100g`;
+}
+
+// Totals for ingredients that point at a known food, rounded the way meals are stored
+export function getIngredientTotals(foods: Food[], ingredients: { food_id: string; grams: number | string }[]): MacroTotals {
+  const resolved = ingredients.flatMap(ingredient => {
+    const food = foods.find(item => item.id === ingredient.food_id);
+    return food ? [{ food, grams: Number(ingredient.grams) || 0 }] : [];
+  });
+  return roundMacros(sumIngredientMacros(resolved));
+}
@@ -0,0 +1,72 @@
+// src/lib/invites.ts - Invite links trainers share with new clients, and the code carried through sign-up
+import { InviteStatus, RedeemedInvite } from '@/lib/api';
+import { AUTH_ROUTES, DASHBOARD_ROUTES, PENDING_INVITE_KEY } from '@/lib/constants';
+import { addDays, getTodayDate } from '@/lib/utils';
+
+export type InviteMode = 'single' | 'multi';
+
+export const INVITE_MODE_LABELS: Record<InviteMode, string> = {
+  single: 'One client',
+  multi: 'Any number of clients'
+};
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  used_up: 'Used',
+  revoked: 'Revoked'
+};
+
+export const INVITE_STATUS_STYLES: Record<InviteStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  expired: 'bg-gray-100 text-gray-700',
+  used_up: 'bg-blue-100 text-blue-800',
+  revoked: 'bg-red-100 text-red-800'
+};
+
+// Days until the invite expires; null never expires
+export const INVITE_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Never' }
+];
+
+export function toMaxUses(mode: InviteMode): number | null {
+  return mode === 'single' ? 1 : null;
+}
+
+// End of the last day, so "7 days" covers the whole seventh day
+export function getInviteExpiry(days: number | null): string | null {
+  if (days === null) return null;
+  return new Date(`${addDays(getTodayDate(), days)}T23:59:59`).toISOString();
+}
+
+export function buildInviteUrl(code: string): string {
+  return `${window.location.origin}${AUTH_ROUTES.INVITE}/${code}`;
+}
+
+// A paid plan starts once the client pays for it on the trainer's profile
+export function getRedeemedInviteRoute(redeemed: RedeemedInvite): string {
+  return redeemed.status === 'pending'
+    ? `${DASHBOARD_ROUTES.CLIENT.TRAINERS}/${redeemed.trainer_id}`
+    : DASHBOARD_ROUTES.CLIENT.DASHBOARD;
+}
+
+export function describeRedeemedInvite(redeemed: RedeemedInvite): string {
+  return redeemed.status === 'pending'
+    ? `Pay for the ${redeemed.tier_name} plan to start training with ${redeemed.trainer_name}`
+    : `You're now training with ${redeemed.trainer_name}`;
+}
+
+export function savePendingInvite(code: string): void {
+  localStorage.setItem(PENDING_INVITE_KEY, code);
+}
+
+export function getPendingInvite(): string | null {
+  return localStorage.getItem(PENDING_INVITE_KEY);
+}
+
+export function clearPendingInvite(): void {
+  localStorage.removeItem(PENDING_INVITE_KEY);
+}
@@ -0,0 +1,111 @@
+// src/lib/macros.ts - Macro totals, calorie shares and macro split ratios for menus and menu plans
+import { Food, Menu } from '@/lib/api';
+
+export type MacroKey = 'protein' | 'carbohydrates' | 'fat';
+
+export interface MacroTotals {
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+}
+
+export interface MealCalorieShare {
+  menu_id: string;
+  calories: number;
+  percent: number;
+}
+
+export interface MacroBreakdown {
+  totals: MacroTotals;
+  split: Record<MacroKey, number>; // percent of macro calories, sums to 100 when any macros are set
+  meals: MealCalorieShare[];
+}
+
+// Atwater factors
+export const CALORIES_PER_GRAM: Record<MacroKey, number> = {
+  protein: 4,
+  carbohydrates: 4,
+  fat: 9
+};
+
+export const MACRO_LABELS: Record<MacroKey, string> = {
+  protein: 'Protein',
+  carbohydrates: 'Carbs',
+  fat: 'Fat'
+};
+
+export const MACRO_STYLES: Record<MacroKey, string> = {
+  protein: 'bg-red-400',
+  carbohydrates: 'bg-yellow-400',
+  fat: 'bg-blue-400'
+};
+
+export const EMPTY_MACRO_TOTALS: MacroTotals = { calories: 0, protein: 0, carbohydrates: 0, fat: 0 };
+
+const MACRO_KEYS: MacroKey[] = ['protein', 'carbohydrates', 'fat'];
+
+const toPercent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+export function sumMacros(meals: Pick<Menu, MacroKey | 'calories'>[]): MacroTotals {
+  return meals.reduce((totals, meal) => ({
+    calories: totals.calories + (Number(meal.calories) || 0),
+    protein: totals.protein + (Number(meal.protein) || 0),
+    carbohydrates: totals.carbohydrates + (Number(meal.carbohydrates) || 0),
+    fat: totals.fat + (Number(meal.fat) || 0)
+  }), { ...EMPTY_MACRO_TOTALS });
+}
+
+// Catalog foods hold nutrients per 100 g
+export function getIngredientMacros(food: Pick<Food, MacroKey | 'calories'>, grams: number): MacroTotals {
+  const factor = (Number(grams) || 0) / 100;
+  return {
+    calories: food.calories * factor,
+    protein: food.protein * factor,
+    carbohydrates: food.carbohydrates * factor,
+    fat: food.fat * factor
+  };
+}
+
+export function sumIngredientMacros(ingredients: { food: Pick<Food, MacroKey | 'calories'>; grams: number }[]): MacroTotals {
+  return sumMacros(ingredients.map(({ food, grams }) => getIngredientMacros(food, grams)));
+}
+
+// Meals store whole numbers, the same as hand-entered values
+export function roundMacros(totals: MacroTotals): MacroTotals {
+  return {
+    calories: Math.round(totals.calories),
+    protein: Math.round(totals.protein),
+    carbohydrates: Math.round(totals.carbohydrates),
+    fat: Math.round(totals.fat)
+  };
+}
+
+// Shares are based on calories from each macro, not grams, so fat counts for more per gram
+export function getMacroSplit(totals: Omit<MacroTotals, 'calories'>): Record<MacroKey, number> {
+  const macroCalories = MACRO_KEYS.reduce((sum, key) => sum + totals[key] * CALORIES_PER_GRAM[key], 0);
+
+  return MACRO_KEYS.reduce((split, key) => ({
+    ...split,
+    [key]: toPercent(totals[key] * CALORIES_PER_GRAM[key], macroCalories)
+  }), {} as Record<MacroKey, number>);
+}
+
+export function getMacroBreakdown(meals: Menu[]): MacroBreakdown {
+  const totals = sumMacros(meals);
+
+  return {
+    totals,
+    split: getMacroSplit(totals),
+    meals: meals.map(meal => ({
+      menu_id: meal.id,
+      calories: meal.calories,
+      percent: toPercent(meal.calories, totals.calories)
+    }))
+  };
+}
+
+// e.g. "30 / 45 / 25" for protein / carbs / fat
+export function formatMacroSplit(split: Record<MacroKey, number>): string {
+  return MACRO_KEYS.map(key => Math.round(split[key])).join(' / ');
+}
@@ -0,0 +1,94 @@
+// src/lib/marketplace.ts - Search and filters for the client-facing trainer directory
+import { TrainerListing, TrainerSubscriptionTier } from '@/lib/api';
+
+export type TrainingMode = 'any' | 'online' | 'in_person';
+
+export interface TrainerFilters {
+  search: string;
+  specialty: string;
+  mode: TrainingMode;
+  // Cheapest published plan must be at or below this; null means no limit
+  maxPrice: number | null;
+}
+
+export const DEFAULT_TRAINER_FILTERS: TrainerFilters = {
+  search: '',
+  specialty: '',
+  mode: 'any',
+  maxPrice: null
+};
+
+export const TRAINING_MODE_LABELS: Record<TrainingMode, string> = {
+  any: 'Online or in person',
+  online: 'Online',
+  in_person: 'In person'
+};
+
+// Suggestions for the trainer profile form; trainers may add their own
+export const SUGGESTED_SPECIALTIES = [
+  'Weight loss',
+  'Strength',
+  'Bodybuilding',
+  'Mobility',
+  'Running',
+  'Nutrition',
+  'Rehabilitation',
+  'Pre- and postnatal'
+];
+
+export function parseSpecialties(value: string): string[] {
+  const seen = new Set<string>();
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Listing tiers arrive sorted by price, so the first is the cheapest
+export function getStartingTier(listing: TrainerListing): TrainerSubscriptionTier | null {
+  return listing.tiers[0] ?? null;
+}
+
+export function formatTrainingModes(listing: Pick<TrainerListing, 'offers_online' | 'offers_in_person'>): string {
+  if (listing.offers_online && listing.offers_in_person) return 'Online & in person';
+  if (listing.offers_online) return 'Online';
+  if (listing.offers_in_person) return 'In person';
+  return '';
+}
+
+// Every specialty across the listings, for the filter dropdown
+export function collectSpecialties(listings: TrainerListing[]): string[] {
+  const byKey = new Map<string, string>();
+  listings.forEach(listing => {
+    listing.specialties.forEach(specialty => {
+      const key = specialty.toLowerCase();
+      if (!byKey.has(key)) byKey.set(key, specialty);
+    });
+  });
+  return [...byKey.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export function filterTrainers(listings: TrainerListing[], filters: TrainerFilters): TrainerListing[] {
+  const query = filters.search.trim().toLowerCase();
+  const specialty = filters.specialty.toLowerCase();
+
+  return listings.filter(listing => {
+    if (filters.mode === 'online' && !listing.offers_online) return false;
+    if (filters.mode === 'in_person' && !listing.offers_in_person) return false;
+    if (specialty && !listing.specialties.some(item => item.toLowerCase() === specialty)) return false;
+
+    if (filters.maxPrice !== null) {
+      const startingTier = getStartingTier(listing);
+      if (!startingTier || startingTier.price > filters.maxPrice) return false;
+    }
+
+    if (!query) return true;
+    return [listing.full_name, listing.bio, listing.location, ...listing.specialties]
+      .some(value => value?.toLowerCase().includes(query));
+  });
+}
@@ -0,0 +1,49 @@
+// src/lib/messaging.ts - Rich attachment cards and limits for trainer-client messaging
+import { ClientProgress, MenuPlan, MessageAttachment, MessageAttachmentType, Workout } from '@/lib/api';
+
+export const MESSAGE_ATTACHMENT_LABELS: Record<MessageAttachmentType, string> = {
+  workout: 'Workout',
+  menu_plan: 'Menu Plan',
+  measurement: 'Measurement'
+};
+
+// How long a typing indicator stays up without a fresh keystroke
+export const TYPING_INDICATOR_MS = 4000;
+
+export const MESSAGE_MAX_LENGTH = 2000;
+
+export function toWorkoutAttachment(workout: Workout): MessageAttachment {
+  const exerciseCount = workout.exercise_count ?? workout.exercises?.length ?? 0;
+  return {
+    type: 'workout',
+    id: workout.id,
+    title: workout.workout_name,
+    summary: `${workout.workout_day} • ${exerciseCount} exercise${exerciseCount === 1 ? '' : 's'}`
+  };
+}
+
+export function toMenuPlanAttachment(plan: MenuPlan): MessageAttachment {
+  return {
+    type: 'menu_plan',
+    id: plan.id,
+    title: plan.plan_name,
+    summary: `${Math.round(plan.total_calories)} kcal • P ${Math.round(plan.total_protein)} g • C ${Math.round(plan.total_carbohydrates)} g • F ${Math.round(plan.total_fat)} g`
+  };
+}
+
+export function toMeasurementAttachment(measurement: ClientProgress): MessageAttachment {
+  const parts = [
+    measurement.body_weight !== null ? `${measurement.body_weight} kg` : null,
+    measurement.waist_size !== null ? `waist ${measurement.waist_size} cm` : null,
+    measurement.chest_size !== null ? `chest ${measurement.chest_size} cm` : null,
+    measurement.biceps_size !== null ? `arms ${measurement.biceps_size} cm` : null,
+    measurement.thigh_size !== null ? `legs ${measurement.thigh_size} cm` : null
+  ].filter(Boolean);
+
+  return {
+    type: 'measurement',
+    id: measurement.id,
+    title: `Measurement from ${new Date(measurement.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+    summary: parts.length > 0 ? parts.join(' • ') : 'No values recorded'
+  };
+}
@@ -0,0 +1,58 @@
+// src/lib/notifications/delivery/handler.ts - Turns one notification event from a signed-in user into emails, if they may cause it
+import { parseNotificationEvent } from '../events';
+import { Notifier } from './notifier';
+import { NotificationStore } from './stores';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface NotificationRequest {
+  body: unknown;
+  // The caller, from their verified JWT
+  userId: string;
+}
+
+export interface NotificationResponse {
+  status: 200 | 400 | 403;
+  body: { sent?: number; error?: string };
+}
+
+export interface NotificationHandlerOptions {
+  store: NotificationStore;
+  notifier: Notifier;
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+/**
+ * Framework-free so the send-email edge function (supabase/functions/send-email) only adapts its
+ * Request and Response. Clients may announce their own requests to a trainer; trainers their own
+ * assignments. Everything in the email comes from the database, so the request can't address or
+ * word anything itself.
+ */
+export async function handleNotificationRequest(
+  request: NotificationRequest,
+  { store, notifier }: NotificationHandlerOptions
+): Promise<NotificationResponse> {
+  const event = parseNotificationEvent(request.body);
+  if (!event) return { status: 400, body: { error: 'Unknown notification event' } };
+
+  if (event.type === 'new_client') {
+    const relation = await store.getClientRelation(event.client_trainer_id);
+    if (!relation || relation.client_user_id !== request.userId) {
+      return { status: 403, body: { error: 'Not your trainer request' } };
+    }
+    return { status: 200, body: { sent: await notifier.newClient(relation.relation_id) } };
+  }
+
+  const trainer = await store.getTrainerByUserId(request.userId);
+  if (!trainer) return { status: 403, body: { error: 'Only trainers can announce assignments' } };
+
+  const sent = event.type === 'workout_assigned'
+    ? await notifier.workoutAssigned(trainer, event.client_workout_ids)
+    : await notifier.menuPlanAssigned(trainer, event.client_menu_plan_ids);
+  return { status: 200, body: { sent } };
+}
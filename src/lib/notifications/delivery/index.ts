@@ -0,0 +1,6 @@
+// src/lib/notifications/delivery/index.ts - Server-side email delivery for the edge functions; kept apart from @/lib/notifications so they don't load the browser client
+export * from './mailers';
+export * from './stores';
+export * from './notifier';
+export * from './reminders';
+export * from './handler';
@@ -0,0 +1,90 @@
+// src/lib/notifications/delivery/mailers.ts - Where the server sends rendered emails: Resend, a local catcher, memory or the console
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface Mailer {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+export interface MemoryMailer extends Mailer {
+  sent: EmailMessage[];
+  clear: () => void;
+}
+
+// ============================================================================
+// MAILERS
+// ============================================================================
+
+// Production: `from` must be on a domain verified with Resend
+export function createResendMailer(apiKey: string, from: string): Mailer {
+  return {
+    name: 'resend',
+    send: async (message) => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, ...message })
+      });
+      if (!response.ok) throw new Error(`Resend responded with ${response.status}: ${await response.text()}`);
+    }
+  };
+}
+
+// Posts each message as JSON, e.g. to a local SMTP catcher's HTTP bridge or a file-sink server
+export function createHttpMailer(endpoint: string): Mailer {
+  return {
+    name: 'http',
+    send: async (message) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(message)
+      });
+      if (!response.ok) throw new Error(`Email catcher responded with ${response.status}`);
+    }
+  };
+}
+
+// Keeps messages in memory so replays can assert on what would have been sent
+export function createMemoryMailer(): MemoryMailer {
+  const sent: EmailMessage[] = [];
+  return {
+    name: 'memory',
+    sent,
+    send: async (message) => {
+      sent.push(message);
+    },
+    clear: () => {
+      sent.length = 0;
+    }
+  };
+}
+
+export const consoleMailer: Mailer = {
+  name: 'console',
+  send: async (message) => {
+    console.info(`[email] to ${message.to}: ${message.subject}\n\n${message.text}`);
+  }
+};
+
+// Picks the mailer from the edge functions' secrets: EMAIL_CATCHER_URL wins locally, then RESEND_API_KEY
+export function resolveMailer(env: { get: (name: string) => string | undefined }): Mailer {
+  const catcherUrl = env.get('EMAIL_CATCHER_URL');
+  if (catcherUrl) return createHttpMailer(catcherUrl);
+
+  const apiKey = env.get('RESEND_API_KEY');
+  const from = env.get('EMAIL_FROM');
+  if (apiKey && from) return createResendMailer(apiKey, from);
+
+  return consoleMailer;
+}
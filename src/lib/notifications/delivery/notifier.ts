@@ -0,0 +1,178 @@
+// src/lib/notifications/delivery/notifier.ts - Renders and sends notification emails on the server, honouring preferences, tier access and the sent log
+import { NotificationRecipient, NotificationType } from '@/lib/api/types';
+import { APP_NAME } from '@/lib/constants';
+import { hasEntitlement } from '@/lib/entitlements';
+import { NotificationPayloads, renderNotification } from '../templates';
+import { Mailer } from './mailers';
+import { NotificationStore, TrainerRecipient } from './stores';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface NotifierOptions {
+  store: NotificationStore;
+  mailer: Mailer;
+  // Where links in the emails point, e.g. https://app.pumpee.cz
+  appUrl: string;
+}
+
+export interface Notifier {
+  send: <T extends NotificationType>(
+    type: T,
+    recipients: NotificationRecipient[],
+    payload: NotificationPayloads[T],
+    referenceId?: string
+  ) => Promise<number>;
+  paymentFailed: (trainerId: string, referenceId: string) => Promise<number>;
+  newClient: (relationId: string) => Promise<number>;
+  workoutAssigned: (trainer: TrainerRecipient, clientWorkoutIds: string[]) => Promise<number>;
+  menuPlanAssigned: (trainer: TrainerRecipient, clientMenuPlanIds: string[]) => Promise<number>;
+}
+
+// ============================================================================
+// NOTIFIER
+// ============================================================================
+
+/**
+ * Notifications are a side effect of something that already succeeded, so nothing here
+ * throws: failures are logged and each method resolves to the number of emails sent.
+ */
+export function createNotifier({ store, mailer, appUrl }: NotifierOptions): Notifier {
+  // Assignments are only announced for the trainer's own workouts and plans, to clients they actively coach
+  const keepTrainerClients = async <T extends { client_id: string; trainer_id: string | null }>(trainer: TrainerRecipient, rows: T[]) => {
+    const own = rows.filter(row => row.trainer_id === trainer.trainer_id);
+    const activeClientIds = await store.getActiveClientIds(trainer.trainer_id, [...new Set(own.map(row => row.client_id))]);
+    return own.filter(row => activeClientIds.includes(row.client_id));
+  };
+
+  const notifier: Notifier = {
+    // With a `referenceId`, recipients already logged for that type and reference are skipped
+    send: async (type, recipients, payload, referenceId) => {
+      try {
+        if (recipients.length === 0) return 0;
+
+        const preferences = await store.getPreferencesFor(recipients.map(recipient => recipient.user_id));
+        const alreadyNotified = referenceId ? await store.getNotifiedUserIds(type, referenceId) : [];
+        const pending = recipients.filter((recipient, index) =>
+          preferences[index].email_enabled && preferences[index][type] && !alreadyNotified.includes(recipient.user_id)
+        );
+        if (pending.length === 0) return 0;
+
+        const results = await Promise.allSettled(pending.map(recipient => {
+          const email = renderNotification(type, recipient, payload, appUrl);
+          return mailer.send({ to: recipient.email, ...email });
+        }));
+
+        const sent = pending.filter((_, index) => results[index].status === 'fulfilled');
+        results.forEach(result => {
+          if (result.status === 'rejected') console.error(`Error sending ${type} email:`, result.reason);
+        });
+
+        if (referenceId) await store.logNotifications(type, referenceId, sent.map(recipient => recipient.user_id));
+        return sent.length;
+      } catch (error) {
+        console.error(`Error sending ${type} notifications:`, error);
+        return 0;
+      }
+    },
+
+    // Not tier-gated: a trainer whose payment failed may be the one losing their tier
+    paymentFailed: async (trainerId, referenceId) => {
+      try {
+        const trainer = await store.getTrainerRecipient(trainerId);
+        if (!trainer) return 0;
+
+        return await notifier.send('payment_failed', [trainer], {
+          plan_name: trainer.tier_name || APP_NAME,
+          reason: null
+        }, referenceId);
+      } catch (error) {
+        console.error('Error sending payment failed notification:', error);
+        return 0;
+      }
+    },
+
+    // Once when the client asks to join and once when they are subscribed, however often it is triggered
+    newClient: async (relationId) => {
+      try {
+        const relation = await store.getClientRelation(relationId);
+        if (!relation) return 0;
+
+        const trainer = await store.getTrainerRecipient(relation.trainer_id);
+        if (!trainer || !hasEntitlement(trainer.tier_name, 'email_notifications')) return 0;
+
+        const subscribed = relation.status === 'active';
+        return await notifier.send('new_client', [trainer], {
+          client_name: relation.client_name,
+          plan_name: relation.plan_name,
+          subscribed
+        }, `${relationId}:${subscribed ? 'active' : 'pending'}`);
+      } catch (error) {
+        console.error('Error sending new client notification:', error);
+        return 0;
+      }
+    },
+
+    // One email per client and workout or program, keyed on its first session so a repeat sends nothing
+    workoutAssigned: async (trainer, clientWorkoutIds) => {
+      try {
+        if (!hasEntitlement(trainer.tier_name, 'email_notifications')) return 0;
+
+        const workouts = await keepTrainerClients(trainer, await store.getAssignedWorkouts(clientWorkoutIds));
+        const recipients = await store.getClientRecipients([...new Set(workouts.map(workout => workout.client_id))]);
+
+        const assignments = new Map<string, typeof workouts>();
+        workouts.forEach(workout => {
+          const key = `${workout.client_id}:${workout.assignment_id}`;
+          assignments.set(key, [...(assignments.get(key) ?? []), workout]);
+        });
+
+        let sent = 0;
+        for (const sessions of assignments.values()) {
+          const [first] = [...sessions].sort((a, b) => a.assigned_date.localeCompare(b.assigned_date) || a.id.localeCompare(b.id));
+          const recipient = recipients.find(item => item.client_id === first.client_id);
+          if (!recipient) continue;
+
+          sent += await notifier.send('workout_assigned', [recipient], {
+            trainer_name: trainer.full_name || 'Your trainer',
+            workout_name: first.name,
+            first_date: first.assigned_date,
+            session_count: sessions.length
+          }, first.id);
+        }
+        return sent;
+      } catch (error) {
+        console.error('Error sending workout notifications:', error);
+        return 0;
+      }
+    },
+
+    menuPlanAssigned: async (trainer, clientMenuPlanIds) => {
+      try {
+        if (!hasEntitlement(trainer.tier_name, 'email_notifications')) return 0;
+
+        const plans = await keepTrainerClients(trainer, await store.getAssignedMenuPlans(clientMenuPlanIds));
+        const recipients = await store.getClientRecipients([...new Set(plans.map(plan => plan.client_id))]);
+
+        let sent = 0;
+        for (const plan of plans) {
+          const recipient = recipients.find(item => item.client_id === plan.client_id);
+          if (!recipient) continue;
+
+          sent += await notifier.send('menu_plan_assigned', [recipient], {
+            trainer_name: trainer.full_name || 'Your trainer',
+            plan_name: plan.plan_name,
+            start_date: plan.start_date
+          }, plan.id);
+        }
+        return sent;
+      } catch (error) {
+        console.error('Error sending menu plan notifications:', error);
+        return 0;
+      }
+    }
+  };
+
+  return notifier;
+}
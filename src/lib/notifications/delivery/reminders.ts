@@ -0,0 +1,76 @@
+// src/lib/notifications/delivery/reminders.ts - The daily missed-workout and measurement reminders, run by the send-reminders function
+import { hasEntitlement } from '@/lib/entitlements';
+import { Notifier } from './notifier';
+import { NotificationStore } from './stores';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+// Emails sent by one run, per notification type
+export interface ReminderResult {
+  missed_workout: number;
+  measurement_reminder: number;
+}
+
+// How far back missed workouts are still worth a reminder
+export const MISSED_WORKOUT_LOOKBACK_DAYS = 3;
+
+// A client is reminded once this many days have passed since their last measurement
+export const MEASUREMENT_REMINDER_DAYS = 7;
+
+// Same arithmetic as addDays in @/lib/utils, which the edge functions can't load
+const shiftDate = (isoDate: string, days: number) => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+/**
+ * Reminds the clients of every trainer whose tier includes email notifications. Each email is
+ * logged against what it is about (the missed client_workouts row, or the client's last
+ * measurement), so running it again the same day, or after a failure, only sends what's new.
+ */
+export async function sendReminders(store: NotificationStore, notifier: Notifier, today: string): Promise<ReminderResult> {
+  const links = await store.getActiveClientLinks();
+  const clientIds = [...new Set(links
+    .filter(link => hasEntitlement(link.tier_name, 'email_notifications'))
+    .map(link => link.client_id))];
+  if (clientIds.length === 0) return { missed_workout: 0, measurement_reminder: 0 };
+
+  const [recipients, missed, lastMeasurements] = await Promise.all([
+    store.getClientRecipients(clientIds),
+    store.getMissedWorkouts(clientIds, shiftDate(today, -MISSED_WORKOUT_LOOKBACK_DAYS), today),
+    store.getLastMeasurementDates(clientIds)
+  ]);
+  const recipientFor = (clientId: string) => recipients.find(recipient => recipient.client_id === clientId);
+
+  const result: ReminderResult = { missed_workout: 0, measurement_reminder: 0 };
+  for (const workout of missed) {
+    const recipient = recipientFor(workout.client_id);
+    if (!recipient) continue;
+
+    result.missed_workout += await notifier.send('missed_workout', [recipient], {
+      workout_name: workout.workout_name,
+      assigned_date: workout.assigned_date
+    }, workout.id);
+  }
+
+  // Keyed on the last measurement, so each client is reminded once per gap rather than daily
+  const cutoff = shiftDate(today, -MEASUREMENT_REMINDER_DAYS);
+  for (const clientId of clientIds) {
+    const lastDate = lastMeasurements.get(clientId) ?? null;
+    const recipient = recipientFor(clientId);
+    if (!recipient || (lastDate && lastDate > cutoff)) continue;
+
+    result.measurement_reminder += await notifier.send('measurement_reminder', [recipient], {
+      last_measurement_date: lastDate
+    }, `${clientId}:${lastDate ?? 'none'}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,351 @@
+// src/lib/notifications/delivery/stores.ts - What the server reads and records to deliver notifications, through a service-role client
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { MissedWorkout, NotificationPreferences, NotificationRecipient, NotificationType } from '@/lib/api/types';
+import { withDefaultPreferences } from '../templates';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// Includes the trainer's platform tier, since email notifications depend on it
+export interface TrainerRecipient extends NotificationRecipient {
+  trainer_id: string;
+  tier_name: string | null;
+}
+
+// A client_trainers row as the new_client email describes it
+export interface ClientRelationNotice {
+  relation_id: string;
+  trainer_id: string;
+  client_user_id: string | null;
+  status: string;
+  client_name: string;
+  plan_name: string | null;
+}
+
+export interface ClientRecipient extends NotificationRecipient {
+  client_id: string;
+}
+
+// A client_workouts row; assignment_id is the program it came from, or the workout itself
+export interface AssignedWorkoutNotice {
+  id: string;
+  client_id: string;
+  trainer_id: string | null;
+  assignment_id: string;
+  name: string;
+  assigned_date: string;
+}
+
+export interface AssignedMenuPlanNotice {
+  id: string;
+  client_id: string;
+  trainer_id: string | null;
+  plan_name: string;
+  start_date: string;
+}
+
+// One active client_trainers row, with the platform tier that decides whether its trainer sends emails
+export interface ActiveClientLink {
+  client_id: string;
+  tier_name: string | null;
+}
+
+export interface NotificationStore {
+  // In the same order as `userIds`, with defaults for users who never saved preferences
+  getPreferencesFor: (userIds: string[]) => Promise<NotificationPreferences[]>;
+  // Users who were already sent this notification about `referenceId`
+  getNotifiedUserIds: (type: NotificationType, referenceId: string) => Promise<string[]>;
+  logNotifications: (type: NotificationType, referenceId: string, userIds: string[]) => Promise<void>;
+  getTrainerRecipient: (trainerId: string) => Promise<TrainerRecipient | null>;
+  // The trainer signed in as `userId`, null for clients
+  getTrainerByUserId: (userId: string) => Promise<TrainerRecipient | null>;
+  getClientRelation: (relationId: string) => Promise<ClientRelationNotice | null>;
+  // Clients without a users row are skipped, since there is no address to send to
+  getClientRecipients: (clientIds: string[]) => Promise<ClientRecipient[]>;
+  getActiveClientLinks: () => Promise<ActiveClientLink[]>;
+  // The subset of clientIds actively coached by the trainer
+  getActiveClientIds: (trainerId: string, clientIds: string[]) => Promise<string[]>;
+  getAssignedWorkouts: (clientWorkoutIds: string[]) => Promise<AssignedWorkoutNotice[]>;
+  getAssignedMenuPlans: (clientMenuPlanIds: string[]) => Promise<AssignedMenuPlanNotice[]>;
+  // Scheduled on or after `from` and before `until`, and never completed
+  getMissedWorkouts: (clientIds: string[], from: string, until: string) => Promise<MissedWorkout[]>;
+  // Date of each client's latest measurement; clients who never measured are left out
+  getLastMeasurementDates: (clientIds: string[]) => Promise<Map<string, string>>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Ids per `in` filter, so the request URL stays well under PostgREST's limits
+const IN_FILTER_CHUNK_SIZE = 100;
+
+// Rows per page when reading a whole table; PostgREST caps responses at 1000 by default
+const PAGE_SIZE = 1000;
+
+const toChunks = <T>(items: T[]): T[][] =>
+  Array.from({ length: Math.ceil(items.length / IN_FILTER_CHUNK_SIZE) }, (_, index) =>
+    items.slice(index * IN_FILTER_CHUNK_SIZE, (index + 1) * IN_FILTER_CHUNK_SIZE));
+
+// ============================================================================
+// SUPABASE
+// ============================================================================
+
+async function fetchTrainerRecipient(
+  client: SupabaseClient<Database>,
+  column: 'id' | 'user_id',
+  value: string
+): Promise<TrainerRecipient | null> {
+  const { data, error } = await client
+    .from('trainers')
+    .select('id, user:users(id, email, full_name), subscription_tier:subscription_tiers(name)')
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const row = data as unknown as {
+    id: string;
+    user: { id: string; email: string; full_name: string } | null;
+    subscription_tier: { name: string } | null;
+  } | null;
+  if (!row?.user) return null;
+
+  return {
+    trainer_id: row.id,
+    user_id: row.user.id,
+    email: row.user.email,
+    full_name: row.user.full_name,
+    tier_name: row.subscription_tier?.name ?? null
+  };
+}
+
+/**
+ * Needs a service-role client: recipients' addresses and preferences are not readable by
+ * whoever caused the notification.
+ */
+export function createSupabaseNotificationStore(client: SupabaseClient<Database>): NotificationStore {
+  return {
+    getPreferencesFor: async (userIds) => {
+      if (userIds.length === 0) return [];
+
+      const { data, error } = await client
+        .from('notification_preferences')
+        .select('*')
+        .in('user_id', userIds);
+
+      if (error) throw error;
+      return userIds.map(userId => withDefaultPreferences(userId, data.find(row => row.user_id === userId)));
+    },
+
+    getNotifiedUserIds: async (type, referenceId) => {
+      const { data, error } = await client
+        .from('notification_log')
+        .select('user_id')
+        .eq('type', type)
+        .eq('reference_id', referenceId);
+
+      if (error) throw error;
+      return data.map(row => row.user_id);
+    },
+
+    logNotifications: async (type, referenceId, userIds) => {
+      if (userIds.length === 0) return;
+
+      // An overlapping run may have logged the same recipient first
+      const { error } = await client
+        .from('notification_log')
+        .upsert(
+          userIds.map(userId => ({ type, reference_id: referenceId, user_id: userId })),
+          { onConflict: 'type,reference_id,user_id', ignoreDuplicates: true }
+        );
+
+      if (error) throw error;
+    },
+
+    getTrainerRecipient: (trainerId) => fetchTrainerRecipient(client, 'id', trainerId),
+
+    getTrainerByUserId: (userId) => fetchTrainerRecipient(client, 'user_id', userId),
+
+    getClientRelation: async (relationId) => {
+      const { data, error } = await client
+        .from('client_trainers')
+        .select('id, trainer_id, status, tier:trainer_subscription_tiers(name), client:clients(user_id, user:users(full_name))')
+        .eq('id', relationId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const row = data as unknown as {
+        id: string;
+        trainer_id: string;
+        status: string;
+        tier: { name: string } | null;
+        client: { user_id: string; user: { full_name: string } | null } | null;
+      } | null;
+      if (!row) return null;
+
+      return {
+        relation_id: row.id,
+        trainer_id: row.trainer_id,
+        client_user_id: row.client?.user_id ?? null,
+        status: row.status,
+        client_name: row.client?.user?.full_name || 'A client',
+        plan_name: row.tier?.name ?? null
+      };
+    },
+
+    getClientRecipients: async (clientIds) => {
+      const pages = await Promise.all(toChunks(clientIds).map(async chunk => {
+        const { data, error } = await client
+          .from('clients')
+          .select('id, user:users(id, email, full_name)')
+          .in('id', chunk);
+
+        if (error) throw error;
+        return data as unknown as { id: string; user: { id: string; email: string; full_name: string } | null }[];
+      }));
+
+      return pages.flat().flatMap(row => row.user
+        ? [{ client_id: row.id, user_id: row.user.id, email: row.user.email, full_name: row.user.full_name }]
+        : []);
+    },
+
+    getActiveClientLinks: async () => {
+      const links: ActiveClientLink[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await client
+          .from('client_trainers')
+          .select('client_id, trainer:trainers(subscription_tier:subscription_tiers(name))')
+          .eq('status', 'active')
+          .order('id')
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+
+        const rows = data as unknown as {
+          client_id: string;
+          trainer: { subscription_tier: { name: string } | null } | null;
+        }[];
+        links.push(...rows.map(row => ({
+          client_id: row.client_id,
+          tier_name: row.trainer?.subscription_tier?.name ?? null
+        })));
+        if (rows.length < PAGE_SIZE) return links;
+      }
+    },
+
+    getActiveClientIds: async (trainerId, clientIds) => {
+      const pages = await Promise.all(toChunks(clientIds).map(async chunk => {
+        const { data, error } = await client
+          .from('client_trainers')
+          .select('client_id')
+          .eq('trainer_id', trainerId)
+          .eq('status', 'active')
+          .in('client_id', chunk);
+
+        if (error) throw error;
+        return data.map(row => row.client_id);
+      }));
+
+      return pages.flat();
+    },
+
+    getAssignedWorkouts: async (clientWorkoutIds) => {
+      const pages = await Promise.all(toChunks(clientWorkoutIds).map(async chunk => {
+        const { data, error } = await client
+          .from('client_workouts')
+          .select('id, client_id, assigned_date, workout_id, program_id, workout:workouts(workout_name, trainer_id), program:programs(program_name)')
+          .in('id', chunk);
+
+        if (error) throw error;
+        return data as unknown as {
+          id: string;
+          client_id: string;
+          assigned_date: string;
+          workout_id: string;
+          program_id: string | null;
+          workout: { workout_name: string; trainer_id: string } | null;
+          program: { program_name: string } | null;
+        }[];
+      }));
+
+      return pages.flat().map(row => ({
+        id: row.id,
+        client_id: row.client_id,
+        trainer_id: row.workout?.trainer_id ?? null,
+        assignment_id: row.program_id ?? row.workout_id,
+        name: row.program?.program_name || row.workout?.workout_name || 'Workout',
+        assigned_date: row.assigned_date
+      }));
+    },
+
+    getAssignedMenuPlans: async (clientMenuPlanIds) => {
+      const pages = await Promise.all(toChunks(clientMenuPlanIds).map(async chunk => {
+        const { data, error } = await client
+          .from('client_menu_plans')
+          .select('id, client_id, start_date, created_at, menu_plan:menu_plans(plan_name, trainer_id)')
+          .in('id', chunk);
+
+        if (error) throw error;
+        return data as unknown as {
+          id: string;
+          client_id: string;
+          start_date: string | null;
+          created_at: string;
+          menu_plan: { plan_name: string; trainer_id: string } | null;
+        }[];
+      }));
+
+      return pages.flat().map(row => ({
+        id: row.id,
+        client_id: row.client_id,
+        trainer_id: row.menu_plan?.trainer_id ?? null,
+        plan_name: row.menu_plan?.plan_name || 'Menu plan',
+        start_date: row.start_date || row.created_at.slice(0, 10)
+      }));
+    },
+
+    getMissedWorkouts: async (clientIds, from, until) => {
+      const pages = await Promise.all(toChunks(clientIds).map(async chunk => {
+        const { data, error } = await client
+          .from('client_workouts')
+          .select('id, client_id, assigned_date, workout:workouts(workout_name)')
+          .in('client_id', chunk)
+          .neq('status', 'completed')
+          .gte('assigned_date', from)
+          .lt('assigned_date', until);
+
+        if (error) throw error;
+        return data as unknown as (Omit<MissedWorkout, 'workout_name'> & { workout: { workout_name: string } | null })[];
+      }));
+
+      return pages.flat().map(({ workout, ...row }) => ({ ...row, workout_name: workout?.workout_name || 'Workout' }));
+    },
+
+    getLastMeasurementDates: async (clientIds) => {
+      const dates = new Map<string, string>();
+      for (const chunk of toChunks(clientIds)) {
+        const latest = await Promise.all(chunk.map(async clientId => {
+          const { data, error } = await client
+            .from('client_progress')
+            .select('date')
+            .eq('client_id', clientId)
+            .order('date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          if (error) throw error;
+          return [clientId, data?.date] as const;
+        }));
+
+        latest.forEach(([clientId, date]) => {
+          if (date) dates.set(clientId, date);
+        });
+      }
+      return dates;
+    }
+  };
+}
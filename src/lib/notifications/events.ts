@@ -0,0 +1,42 @@
+// src/lib/notifications/events.ts - What the browser asks the send-email function to announce: what happened, and the ids of the rows it touched
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// Recipients, names and dates are looked up on the server from these ids, never taken from the request
+export type NotificationEvent =
+  | { type: 'workout_assigned'; client_workout_ids: string[] }
+  | { type: 'menu_plan_assigned'; client_menu_plan_ids: string[] }
+  | { type: 'new_client'; client_trainer_id: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// A long program assigned to a whole roster stays well under this
+const MAX_EVENT_IDS = 2000;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.length <= MAX_EVENT_IDS && value.every(id => typeof id === 'string');
+
+// Null for anything that isn't exactly one of the events above
+export function parseNotificationEvent(body: unknown): NotificationEvent | null {
+  if (typeof body !== 'object' || body === null) return null;
+
+  const event = body as Record<string, unknown>;
+  switch (event.type) {
+    case 'workout_assigned':
+      return isIdList(event.client_workout_ids) ? { type: event.type, client_workout_ids: event.client_workout_ids } : null;
+    case 'menu_plan_assigned':
+      return isIdList(event.client_menu_plan_ids) ? { type: event.type, client_menu_plan_ids: event.client_menu_plan_ids } : null;
+    case 'new_client':
+      return typeof event.client_trainer_id === 'string' ? { type: event.type, client_trainer_id: event.client_trainer_id } : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,5 @@
+// src/lib/notifications/index.ts - Email notifications: templates, events, transports and the sending service
+export * from './templates';
+export * from './events';
+export * from './transports';
+export * from './service';
@@ -0,0 +1,39 @@
+// src/lib/notifications/service.ts - Announces what the signed-in user did; the send-email function decides who is emailed
+import { NotificationEvent } from './events';
+import { getNotificationTransport } from './transports';
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+/**
+ * Notifications are a side effect of something that already succeeded, so nothing here
+ * throws: failures are logged and each method resolves to the number of emails sent.
+ * Preferences, tier access and the sent log are all checked on the server.
+ */
+export class NotificationService {
+  static async send(event: NotificationEvent): Promise<number> {
+    try {
+      return await getNotificationTransport().send(event);
+    } catch (error) {
+      console.error(`Error sending ${event.type} notifications:`, error);
+      return 0;
+    }
+  }
+
+  // The client_workouts rows just created, by a single workout or a whole program
+  static async workoutAssigned(clientWorkoutIds: string[]): Promise<number> {
+    if (clientWorkoutIds.length === 0) return 0;
+    return NotificationService.send({ type: 'workout_assigned', client_workout_ids: clientWorkoutIds });
+  }
+
+  static async menuPlanAssigned(clientMenuPlanIds: string[]): Promise<number> {
+    if (clientMenuPlanIds.length === 0) return 0;
+    return NotificationService.send({ type: 'menu_plan_assigned', client_menu_plan_ids: clientMenuPlanIds });
+  }
+
+  // A client's request, invite or subscription; the trainer hears once per request and once when subscribed
+  static async newClient(relationId: string): Promise<number> {
+    return NotificationService.send({ type: 'new_client', client_trainer_id: relationId });
+  }
+}
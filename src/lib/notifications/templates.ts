@@ -0,0 +1,184 @@
+// src/lib/notifications/templates.ts - Subject, plain-text and HTML bodies for every notification email
+import { NotificationPreferences, NotificationRecipient, NotificationType, UserType } from '@/lib/api/types';
+import { DASHBOARD_ROUTES } from '@/lib/constants';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// What each template needs besides the recipient
+export interface NotificationPayloads {
+  workout_assigned: { trainer_name: string; workout_name: string; first_date: string; session_count: number };
+  menu_plan_assigned: { trainer_name: string; plan_name: string; start_date: string };
+  missed_workout: { workout_name: string; assigned_date: string };
+  measurement_reminder: { last_measurement_date: string | null };
+  payment_failed: { plan_name: string; reason: string | null };
+  // Subscribed clients are already active; the others wait for the trainer to accept them
+  new_client: { client_name: string; plan_name: string | null; subscribed: boolean };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailContent {
+  subject: string;
+  paragraphs: string[];
+  action: { label: string; path: string };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Shown on the preferences screen; each user only sees the types meant for their role
+export const NOTIFICATION_CATALOG: Record<NotificationType, { label: string; description: string; audience: UserType }> = {
+  workout_assigned: {
+    label: 'Workout assigned',
+    description: 'When your trainer schedules a workout or program for you',
+    audience: 'client'
+  },
+  menu_plan_assigned: {
+    label: 'Menu plan assigned',
+    description: 'When your trainer gives you a new menu plan',
+    audience: 'client'
+  },
+  missed_workout: {
+    label: 'Missed workout',
+    description: 'The day after a scheduled workout was not completed',
+    audience: 'client'
+  },
+  measurement_reminder: {
+    label: 'Measurement reminder',
+    description: 'When you have not logged a measurement for a week',
+    audience: 'client'
+  },
+  payment_failed: {
+    label: 'Payment failed',
+    description: 'When a subscription payment does not go through',
+    audience: 'trainer'
+  },
+  new_client: {
+    label: 'New client',
+    description: 'When a client requests or subscribes to one of your plans',
+    audience: 'trainer'
+  }
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+// Users who never saved preferences get every email
+export function withDefaultPreferences(userId: string, row: NotificationPreferences | null | undefined): NotificationPreferences {
+  return row ?? {
+    user_id: userId,
+    email_enabled: true,
+    workout_assigned: true,
+    menu_plan_assigned: true,
+    missed_workout: true,
+    measurement_reminder: true,
+    payment_failed: true,
+    new_client: true,
+    created_at: '',
+    updated_at: ''
+  };
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const TEMPLATES: { [T in NotificationType]: (payload: NotificationPayloads[T]) => EmailContent } = {
+  workout_assigned: payload => ({
+    subject: `New workout: ${payload.workout_name}`,
+    paragraphs: [
+      `${payload.trainer_name} assigned you ${payload.workout_name}.`,
+      payload.session_count > 1
+        ? `It has ${payload.session_count} sessions, starting ${formatDate(payload.first_date)}.`
+        : `It is scheduled for ${formatDate(payload.first_date)}.`
+    ],
+    action: { label: 'View your workouts', path: DASHBOARD_ROUTES.CLIENT.DASHBOARD }
+  }),
+  menu_plan_assigned: payload => ({
+    subject: `New menu plan: ${payload.plan_name}`,
+    paragraphs: [
+      `${payload.trainer_name} assigned you the menu plan ${payload.plan_name}.`,
+      `It starts ${formatDate(payload.start_date)}.`
+    ],
+    action: { label: 'Open your nutrition plan', path: DASHBOARD_ROUTES.CLIENT.NUTRITION }
+  }),
+  missed_workout: payload => ({
+    subject: `You missed ${payload.workout_name}`,
+    paragraphs: [
+      `${payload.workout_name} was scheduled for ${formatDate(payload.assigned_date)} but has not been completed.`,
+      'You can still do it today, or message your trainer if you need the plan adjusted.'
+    ],
+    action: { label: 'Open your dashboard', path: DASHBOARD_ROUTES.CLIENT.DASHBOARD }
+  }),
+  measurement_reminder: payload => ({
+    subject: 'Time to log your measurements',
+    paragraphs: [
+      payload.last_measurement_date
+        ? `Your last measurement was on ${formatDate(payload.last_measurement_date)}.`
+        : 'You have not logged any measurements yet.',
+      'Regular measurements help your trainer see how the plan is working.'
+    ],
+    action: { label: 'Log a measurement', path: DASHBOARD_ROUTES.CLIENT.DASHBOARD }
+  }),
+  payment_failed: payload => ({
+    subject: `Payment for ${payload.plan_name} failed`,
+    paragraphs: [
+      `We could not collect the payment for your ${payload.plan_name} subscription.`,
+      payload.reason ? `Reason: ${payload.reason}` : 'Please check your payment details.',
+      'Update your payment method to keep your plan and its features.'
+    ],
+    action: { label: 'Manage your subscription', path: DASHBOARD_ROUTES.TRAINER.SUBSCRIPTIONS }
+  }),
+  new_client: payload => payload.subscribed ? {
+    subject: `${payload.client_name} is now your client`,
+    paragraphs: [
+      payload.plan_name
+        ? `${payload.client_name} subscribed to your ${payload.plan_name} plan.`
+        : `${payload.client_name} joined you as a client.`,
+      'You can assign them workouts and menu plans from your client list.'
+    ],
+    action: { label: 'View your clients', path: DASHBOARD_ROUTES.TRAINER.CLIENTS }
+  } : {
+    subject: `${payload.client_name} wants to train with you`,
+    paragraphs: [
+      payload.plan_name
+        ? `${payload.client_name} requested your ${payload.plan_name} plan.`
+        : `${payload.client_name} asked to become one of your clients.`,
+      'Accept or decline the request from your client list.'
+    ],
+    action: { label: 'View your clients', path: DASHBOARD_ROUTES.TRAINER.CLIENTS }
+  }
+};
+
+export function renderNotification<T extends NotificationType>(
+  type: T,
+  recipient: NotificationRecipient,
+  payload: NotificationPayloads[T],
+  appUrl: string
+): RenderedEmail {
+  const { subject, paragraphs, action } = TEMPLATES[type](payload);
+  const greeting = `Hi ${recipient.full_name || 'there'},`;
+  const actionUrl = `${appUrl}${action.path}`;
+
+  const text = [greeting, ...paragraphs, `${action.label}: ${actionUrl}`, '— Pumpee'].join('\n\n');
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #040b07; max-width: 560px;">
+      <p>${escapeHtml(greeting)}</p>
+      ${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      <p><a href="${escapeHtml(actionUrl)}" style="display: inline-block; background: #007bff; color: #ffffff; padding: 10px 16px; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a></p>
+      <p style="color: #6b7280; font-size: 12px;">You can turn these emails off in your Pumpee settings.</p>
+    </div>
+  `.trim();
+
+  return { subject, text, html };
+}
@@ -0,0 +1,84 @@
+// src/lib/notifications/transports.ts - Where notification events go: the send-email edge function, memory or the console
+import { supabase } from '@/lib/supabaseClient';
+import { NotificationEvent } from './events';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface NotificationTransport {
+  name: string;
+  // Resolves to the number of emails sent
+  send: (event: NotificationEvent) => Promise<number>;
+}
+
+export interface MemoryTransport extends NotificationTransport {
+  sent: NotificationEvent[];
+  clear: () => void;
+}
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+// Production: the edge function looks up the recipients, renders the emails and delivers them
+export const edgeFunctionTransport: NotificationTransport = {
+  name: 'edge-function',
+  send: async (event) => {
+    const { data, error } = await supabase.functions.invoke<{ sent: number }>('send-email', { body: event });
+    if (error) throw error;
+    return data?.sent ?? 0;
+  }
+};
+
+// Keeps events in memory so tests can assert on what would have been announced
+export function createMemoryTransport(): MemoryTransport {
+  const sent: NotificationEvent[] = [];
+  return {
+    name: 'memory',
+    sent,
+    send: async (event) => {
+      sent.push(event);
+      return 0;
+    },
+    clear: () => {
+      sent.length = 0;
+    }
+  };
+}
+
+export const consoleTransport: NotificationTransport = {
+  name: 'console',
+  send: async (event) => {
+    console.info(`[notification] ${event.type}`, event);
+    return 0;
+  }
+};
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+let activeTransport: NotificationTransport | null = null;
+
+// VITE_EMAIL_TRANSPORT picks the transport; unset means the edge function
+function resolveTransport(): NotificationTransport {
+  switch (import.meta.env.VITE_EMAIL_TRANSPORT) {
+    case 'memory':
+      return createMemoryTransport();
+    case 'console':
+      return consoleTransport;
+    default:
+      return edgeFunctionTransport;
+  }
+}
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!activeTransport) activeTransport = resolveTransport();
+  return activeTransport;
+}
+
+// Replaces the transport for the rest of the session; pass null to go back to the configured one
+export function setNotificationTransport(transport: NotificationTransport | null): void {
+  activeTransport = transport;
+}
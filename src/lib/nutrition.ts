@@ -0,0 +1,41 @@
+// src/lib/nutrition.ts - Daily meal check-offs and the adherence score built from them
+import { MealCheckin, MealCheckinStatus } from '@/lib/api';
+
+export const MEAL_CHECKIN_LABELS: Record<MealCheckinStatus, string> = {
+  eaten: 'Eaten',
+  substituted: 'Substituted',
+  skipped: 'Skipped'
+};
+
+export const MEAL_CHECKIN_STYLES: Record<MealCheckinStatus, string> = {
+  eaten: 'bg-green-100 text-green-800 border-green-200',
+  substituted: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  skipped: 'bg-red-100 text-red-800 border-red-200'
+};
+
+// A substitution still counts for half: the client ate, just not what was planned
+export const MEAL_CHECKIN_WEIGHTS: Record<MealCheckinStatus, number> = {
+  eaten: 1,
+  substituted: 0.5,
+  skipped: 0
+};
+
+export const ADHERENCE_HISTORY_DAYS = 14;
+
+// 0-100; meals not checked off count as missed
+export function calculateAdherenceScore(mealsPlanned: number, checkins: Pick<MealCheckin, 'status'>[]): number {
+  if (mealsPlanned <= 0) return 0;
+  const points = checkins.reduce((total, checkin) => total + MEAL_CHECKIN_WEIGHTS[checkin.status], 0);
+  return Math.round((Math.min(points, mealsPlanned) / mealsPlanned) * 100);
+}
+
+export function getAdherenceColor(score: number): string {
+  if (score >= 80) return 'bg-green-500';
+  if (score >= 50) return 'bg-yellow-400';
+  return 'bg-red-400';
+}
+
+export function getAverageAdherence(scores: { score: number }[]): number | null {
+  if (scores.length === 0) return null;
+  return Math.round(scores.reduce((total, item) => total + item.score, 0) / scores.length);
+}
@@ -0,0 +1,147 @@
+// src/lib/payments/gateways.ts - Who takes the payment: Stripe through edge functions, or a local mock for tests
+import { StripeElements } from '@stripe/stripe-js';
+import { supabase } from '@/lib/supabaseClient';
+import { getStripe } from '@/lib/stripe';
+import { BillingCycle } from '@/lib/api';
+import { DASHBOARD_ROUTES } from '@/lib/constants';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ClientSubscriptionRequest {
+  relationId: string;
+  trainerSubscriptionTierId: string;
+  billingCycle: BillingCycle;
+}
+
+// A recurring subscription waiting for its first payment
+export interface PendingSubscription {
+  subscriptionId: string;
+  clientSecret: string;
+}
+
+export interface ConfirmPaymentRequest {
+  clientSecret: string;
+  // Stripe confirms the card the client entered in the mounted PaymentElement
+  elements?: StripeElements;
+  // The mock has no card form; its test card numbers decide the outcome
+  testCard?: string;
+}
+
+export type PaymentResult =
+  | { status: 'succeeded' }
+  | { status: 'failed'; message: string; declined: boolean };
+
+export interface PaymentGateway {
+  name: 'stripe' | 'mock';
+  usesStripeElements: boolean;
+  createClientSubscription: (request: ClientSubscriptionRequest) => Promise<PendingSubscription>;
+  confirmPayment: (request: ConfirmPaymentRequest) => Promise<PaymentResult>;
+}
+
+export interface MockSubscription extends ClientSubscriptionRequest, PendingSubscription {
+  status: 'incomplete' | 'active' | 'past_due';
+}
+
+export interface MockPaymentGateway extends PaymentGateway {
+  subscriptions: MockSubscription[];
+  reset: () => void;
+}
+
+// ============================================================================
+// GATEWAYS
+// ============================================================================
+
+// Production: the edge function prices the plan from the tier and creates the Stripe subscription
+export const stripeGateway: PaymentGateway = {
+  name: 'stripe',
+  usesStripeElements: true,
+  createClientSubscription: async (request) => {
+    const { data, error } = await supabase.functions.invoke('create-client-subscription', { body: request });
+    if (error) throw error;
+    if (!data?.success || !data.subscriptionId || !data.clientSecret) {
+      throw new Error(data?.error || 'Failed to create subscription');
+    }
+    return { subscriptionId: data.subscriptionId, clientSecret: data.clientSecret };
+  },
+  // Elements were created with the client secret, so only they are passed on
+  confirmPayment: async ({ elements }) => {
+    const stripe = await getStripe();
+    if (!stripe || !elements) throw new Error('Stripe not loaded');
+
+    const { error } = await stripe.confirmPayment({
+      elements,
+      confirmParams: {
+        return_url: `${window.location.origin}${DASHBOARD_ROUTES.CLIENT.TRAINERS}?checkout=success`
+      },
+      redirect: 'if_required'
+    });
+
+    if (!error) return { status: 'succeeded' };
+    return { status: 'failed', message: error.message || 'Payment failed', declined: error.type === 'card_error' };
+  }
+};
+
+// Stripe's own decline test cards, so the same numbers work against either gateway
+export const MOCK_DECLINED_CARDS = ['4000000000000002', '4000000000009995'];
+export const MOCK_SUCCESS_CARD = '4242424242424242';
+
+// Keeps subscriptions in memory so tests can drive checkouts and assert on what was created.
+// No webhook follows a mock payment, so the client_trainers row stays pending.
+export function createMockGateway(): MockPaymentGateway {
+  const subscriptions: MockSubscription[] = [];
+
+  return {
+    name: 'mock',
+    usesStripeElements: false,
+    subscriptions,
+    createClientSubscription: async (request) => {
+      const subscriptionId = `sub_mock_${subscriptions.length + 1}`;
+      const subscription: MockSubscription = {
+        ...request,
+        subscriptionId,
+        clientSecret: `${subscriptionId}_secret`,
+        status: 'incomplete'
+      };
+      subscriptions.push(subscription);
+      return { subscriptionId, clientSecret: subscription.clientSecret };
+    },
+    confirmPayment: async ({ clientSecret, testCard = MOCK_SUCCESS_CARD }) => {
+      const subscription = subscriptions.find(item => item.clientSecret === clientSecret);
+      if (!subscription) throw new Error('Unknown mock subscription');
+
+      if (MOCK_DECLINED_CARDS.includes(testCard.replace(/\s/g, ''))) {
+        subscription.status = 'past_due';
+        return { status: 'failed', message: 'Your card was declined.', declined: true };
+      }
+
+      subscription.status = 'active';
+      return { status: 'succeeded' };
+    },
+    reset: () => {
+      subscriptions.length = 0;
+    }
+  };
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+let activeGateway: PaymentGateway | null = null;
+
+// VITE_PAYMENT_GATEWAY=mock swaps Stripe out for local development and tests; unset means Stripe
+function resolveGateway(): PaymentGateway {
+  return import.meta.env.VITE_PAYMENT_GATEWAY === 'mock' ? createMockGateway() : stripeGateway;
+}
+
+export function getPaymentGateway(): PaymentGateway {
+  if (!activeGateway) activeGateway = resolveGateway();
+  return activeGateway;
+}
+
+// Replaces the gateway for the rest of the session; pass null to go back to the configured one
+export function setPaymentGateway(gateway: PaymentGateway | null): void {
+  activeGateway = gateway;
+}
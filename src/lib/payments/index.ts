@@ -0,0 +1,4 @@
+// src/lib/payments/index.ts - Client payments for trainer plans: pricing, gateways and the checkout service
+export * from './pricing';
+export * from './gateways';
+export * from './service';
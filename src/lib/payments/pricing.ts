@@ -0,0 +1,45 @@
+// src/lib/payments/pricing.ts - What a plan costs on each billing cycle it is sold on
+import { BillingCycle } from '@/lib/api/types';
+
+// Platform subscription_tiers and trainer_subscription_tiers share these columns
+export interface PricedPlan {
+  price: number;
+  yearly_price: number | null;
+  billing_cycle: string;
+}
+
+export interface BillingOption {
+  cycle: BillingCycle;
+  amount: number;
+}
+
+export const BILLING_CYCLE_LABELS: Record<BillingCycle, string> = {
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+/**
+ * A plan billed yearly is only sold yearly, at yearly_price when set and price otherwise.
+ * A monthly plan is sold monthly at price, plus yearly when it has a yearly_price.
+ */
+export function getBillingOptions(plan: PricedPlan): BillingOption[] {
+  if (plan.billing_cycle === 'yearly') {
+    return [{ cycle: 'yearly', amount: plan.yearly_price ?? plan.price }];
+  }
+
+  const options: BillingOption[] = [{ cycle: 'monthly', amount: plan.price }];
+  if (plan.yearly_price) options.push({ cycle: 'yearly', amount: plan.yearly_price });
+  return options;
+}
+
+export function getBillingOption(plan: PricedPlan, cycle: BillingCycle): BillingOption | null {
+  return getBillingOptions(plan).find(option => option.cycle === cycle) ?? null;
+}
+
+// Whole percent saved by paying yearly instead of twelve monthly payments; null when there is no yearly deal
+export function getYearlySavingsPercent(plan: PricedPlan): number | null {
+  if (plan.billing_cycle === 'yearly' || !plan.yearly_price || plan.price <= 0) return null;
+
+  const savings = 1 - plan.yearly_price / (plan.price * 12);
+  return savings > 0 ? Math.round(savings * 100) : null;
+}
@@ -0,0 +1,136 @@
+// src/lib/payments/server/clientSubscriptions.ts - Starts the Stripe subscription a client pays for a trainer's plan
+import { BillingCycle } from '@/lib/api/types';
+import { getBillingOption } from '../pricing';
+import { SUBSCRIPTION_METADATA } from '../webhooks/events';
+import { BillingRequest, BillingResponse, billingError, billingSuccess } from './http';
+import { BillingStore, ClientCheckoutRecord } from './stores';
+import { StripeApi, ensureStripeProduct, toPriceData } from './stripeApi';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// ClientSubscriptionRequest in src/lib/payments/gateways.ts
+interface CreateClientSubscriptionBody {
+  relationId: string;
+  trainerSubscriptionTierId: string;
+  billingCycle: BillingCycle;
+}
+
+// Only the fields we read
+interface StripeCreatedSubscription {
+  id: string;
+  latest_invoice: { payment_intent: { client_secret: string } | null } | null;
+}
+
+export interface ClientSubscriptionOptions {
+  store: BillingStore;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// A subscription that may still charge the client; anything else has already ended
+const LIVE_SUBSCRIPTION_STATUSES = ['incomplete', 'trialing', 'active', 'past_due', 'unpaid', 'paused'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseBody(body: unknown): CreateClientSubscriptionBody | null {
+  const { relationId, trainerSubscriptionTierId, billingCycle } = (body ?? {}) as Partial<CreateClientSubscriptionBody>;
+  if (typeof relationId !== 'string' || typeof trainerSubscriptionTierId !== 'string') return null;
+  if (billingCycle !== 'monthly' && billingCycle !== 'yearly') return null;
+  return { relationId, trainerSubscriptionTierId, billingCycle };
+}
+
+async function ensureCustomer(checkout: ClientCheckoutRecord, stripe: StripeApi, store: BillingStore): Promise<string> {
+  if (checkout.stripe_customer_id) return checkout.stripe_customer_id;
+
+  const customer = await stripe.post<{ id: string }>('/customers', {
+    email: checkout.client_email,
+    name: checkout.client_name,
+    metadata: { client_id: checkout.client_id }
+  });
+  await store.saveClientCustomerId(checkout.client_id, customer.id);
+  return customer.id;
+}
+
+// An abandoned checkout or a lapsed subscription must not keep charging once the new one is started
+async function cancelReplacedSubscription(subscriptionId: string, stripe: StripeApi): Promise<void> {
+  try {
+    const subscription = await stripe.get<{ status: string }>(`/subscriptions/${subscriptionId}`);
+    if (LIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+      await stripe.del(`/subscriptions/${subscriptionId}`);
+    }
+  } catch (error) {
+    console.error(`Error cancelling replaced subscription ${subscriptionId}:`, error);
+  }
+}
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+/**
+ * Creates an incomplete subscription for the client's pending or suspended relation and returns the
+ * client secret its first invoice is paid with. The plan is priced here from the tier, never from the
+ * request, and the subscription carries the client_trainer_id metadata the stripe-webhook function
+ * activates the relation by once the invoice is paid.
+ */
+export async function handleCreateClientSubscription(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: ClientSubscriptionOptions
+): Promise<BillingResponse> {
+  const body = parseBody(request.body);
+  if (!body) return billingError(400, 'Invalid checkout request');
+
+  const checkout = await store.getClientCheckout(body.relationId);
+  if (!checkout || checkout.client_user_id !== request.userId) {
+    return billingError(404, 'Trainer request not found');
+  }
+  if (checkout.status !== 'pending' && checkout.status !== 'suspended') {
+    return billingError(409, checkout.status === 'active'
+      ? 'You are already subscribed to this trainer'
+      : 'This trainer request is no longer open');
+  }
+
+  const tier = checkout.tier;
+  if (!tier || tier.id !== body.trainerSubscriptionTierId || !tier.is_published) {
+    return billingError(409, 'This plan is no longer offered');
+  }
+
+  const option = getBillingOption(tier, body.billingCycle);
+  if (!option) return billingError(400, `${tier.name} is not offered with ${body.billingCycle} billing`);
+  if (option.amount <= 0) return billingError(400, `${tier.name} is free and needs no payment`);
+
+  const customerId = await ensureCustomer(checkout, stripe, store);
+  const productId = await ensureStripeProduct(stripe, `trainer_tier_${tier.id}`, {
+    name: tier.name,
+    metadata: { trainer_subscription_tier_id: tier.id }
+  });
+
+  const subscription = await stripe.post<StripeCreatedSubscription>('/subscriptions', {
+    customer: customerId,
+    items: [{ price_data: toPriceData(productId, option) }],
+    payment_behavior: 'default_incomplete',
+    payment_settings: { save_default_payment_method: 'on_subscription' },
+    metadata: { [SUBSCRIPTION_METADATA.CLIENT_TRAINER_ID]: checkout.relation_id },
+    expand: ['latest_invoice.payment_intent']
+  });
+
+  const clientSecret = subscription.latest_invoice?.payment_intent?.client_secret;
+  if (!clientSecret) {
+    await stripe.del(`/subscriptions/${subscription.id}`);
+    return billingError(409, 'Stripe did not ask for a payment for this plan');
+  }
+
+  await store.saveClientSubscription(checkout.relation_id, subscription.id, body.billingCycle);
+  if (checkout.stripe_subscription_id && checkout.stripe_subscription_id !== subscription.id) {
+    await cancelReplacedSubscription(checkout.stripe_subscription_id, stripe);
+  }
+
+  return billingSuccess({ subscriptionId: subscription.id, clientSecret, customerId });
+}
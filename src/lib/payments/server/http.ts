@@ -0,0 +1,93 @@
+// src/lib/payments/server/http.ts - Adapts a billing edge function's Request to a framework-free handler and back
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { StripeApi, StripeApiError, createStripeApi } from './stripeApi';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface BillingRequest {
+  body: unknown;
+  // The caller, from their verified JWT
+  userId: string;
+}
+
+// StripeService and the payment gateway read `success`, `error` and the fields each function adds
+export interface BillingResponse {
+  status: 200 | 400 | 403 | 404 | 409;
+  body: { success: boolean; error?: string; [field: string]: unknown };
+}
+
+export type BillingHandler = (request: BillingRequest, stripe: StripeApi) => Promise<BillingResponse>;
+
+export interface BillingFunctionOptions {
+  // Service-role client, used to verify the caller's JWT
+  client: SupabaseClient<Database>;
+  secretKey: string | undefined;
+}
+
+// ============================================================================
+// RESPONSES
+// ============================================================================
+
+// Called from the browser through supabase.functions.invoke, which sends these headers
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+export const billingSuccess = (fields: Record<string, unknown> = {}): BillingResponse => ({
+  status: 200,
+  body: { success: true, ...fields }
+});
+
+export const billingError = (status: Exclude<BillingResponse['status'], 200>, error: string): BillingResponse => ({
+  status,
+  body: { success: false, error }
+});
+
+const toResponse = (body: BillingResponse['body'], status: number) => Response.json(body, { status, headers: CORS_HEADERS });
+
+/**
+ * Runs `handle` for the signed-in caller. Stripe's own error messages are passed on with a 502;
+ * anything else is logged and answered with a generic 500.
+ */
+export async function serveBillingRequest(
+  req: Request,
+  { client, secretKey }: BillingFunctionOptions,
+  handle: BillingHandler
+): Promise<Response> {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS_HEADERS });
+  if (req.method !== 'POST') return new Response('Method not allowed', { status: 405, headers: CORS_HEADERS });
+
+  if (!secretKey) {
+    console.error('STRIPE_SECRET_KEY is not set');
+    return toResponse({ success: false, error: 'Billing is not configured' }, 500);
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+  const { data: { user } } = await client.auth.getUser(token);
+  if (!user) return toResponse({ success: false, error: 'Unauthorized' }, 401);
+
+  let body: unknown = {};
+  const text = await req.text();
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return toResponse({ success: false, error: 'Payload is not valid JSON' }, 400);
+    }
+  }
+
+  try {
+    const result = await handle({ body, userId: user.id }, createStripeApi(secretKey));
+    return toResponse(result.body, result.status);
+  } catch (error) {
+    if (error instanceof StripeApiError) {
+      return toResponse({ success: false, error: error.message }, 502);
+    }
+    console.error('Error handling billing request:', error);
+    return toResponse({ success: false, error: 'Billing request failed' }, 500);
+  }
+}
@@ -0,0 +1,7 @@
+// src/lib/payments/server/index.ts - Stripe calls the billing edge functions make for a signed-in user; kept apart from @/lib/payments so they don't load the browser client
+export * from './stripeApi';
+export * from './http';
+export * from './stores';
+export * from './clientSubscriptions';
+export * from './trainerSubscriptions';
+export * from './trainerBilling';
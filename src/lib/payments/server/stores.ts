@@ -0,0 +1,137 @@
+// src/lib/payments/server/stores.ts - The billing state the billing edge functions read and record, through a service-role client
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { BillingCycle, ClientTrainerStatus, TrainerBilling } from '@/lib/api/types';
+import { TRAINER_BILLING_COLUMNS, toTrainerBilling } from '@/lib/billing';
+import { PricedPlan } from '../pricing';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// A client_trainers row about to be paid for, with its client and the plan it is on
+export interface ClientCheckoutRecord {
+  relation_id: string;
+  status: ClientTrainerStatus;
+  stripe_subscription_id: string | null;
+  client_id: string;
+  client_user_id: string;
+  client_email: string;
+  client_name: string;
+  stripe_customer_id: string | null;
+  tier: (PricedPlan & { id: string; name: string; is_published: boolean }) | null;
+}
+
+// A platform subscription_tiers row, as the trainer's subscription is priced from it
+export interface PlatformTierRecord {
+  id: string;
+  name: string;
+  price: number | null;
+  sale_price: number | null;
+  yearly_price: number | null;
+  billing_cycle: string;
+}
+
+export interface BillingStore {
+  // The signed-in trainer's platform billing, by their user id; null for anyone who isn't a trainer
+  getTrainerBilling: (userId: string) => Promise<TrainerBilling | null>;
+  getPlatformTier: (tierId: string) => Promise<PlatformTierRecord | null>;
+  getClientCheckout: (relationId: string) => Promise<ClientCheckoutRecord | null>;
+  saveClientCustomerId: (clientId: string, customerId: string) => Promise<void>;
+  // Recorded before payment, so the webhook knows which subscription now bills the relation
+  saveClientSubscription: (relationId: string, subscriptionId: string, billingCycle: BillingCycle) => Promise<void>;
+}
+
+// ============================================================================
+// SUPABASE
+// ============================================================================
+
+/**
+ * Needs a service-role client: Stripe ids are never writable from a user's session.
+ * Handlers check the caller owns what they ask for before using anything read here.
+ */
+export function createSupabaseBillingStore(client: SupabaseClient<Database>): BillingStore {
+  return {
+    getTrainerBilling: async (userId) => {
+      const { data, error } = await client
+        .from('trainers')
+        .select(TRAINER_BILLING_COLUMNS)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? toTrainerBilling(data) : null;
+    },
+
+    getPlatformTier: async (tierId) => {
+      const { data, error } = await client
+        .from('subscription_tiers')
+        .select('id, name, price, sale_price, yearly_price, billing_cycle')
+        .eq('id', tierId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    getClientCheckout: async (relationId) => {
+      const { data, error } = await client
+        .from('client_trainers')
+        .select(`
+          id,
+          status,
+          stripe_subscription_id,
+          client:clients(id, user_id, stripe_customer_id, user:users(email, full_name)),
+          tier:trainer_subscription_tiers(id, name, price, yearly_price, billing_cycle, is_published)
+        `)
+        .eq('id', relationId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const row = data as unknown as {
+        id: string;
+        status: ClientTrainerStatus;
+        stripe_subscription_id: string | null;
+        client: {
+          id: string;
+          user_id: string;
+          stripe_customer_id: string | null;
+          user: { email: string; full_name: string } | null;
+        } | null;
+        tier: ClientCheckoutRecord['tier'];
+      } | null;
+      if (!row?.client) return null;
+
+      return {
+        relation_id: row.id,
+        status: row.status,
+        stripe_subscription_id: row.stripe_subscription_id,
+        client_id: row.client.id,
+        client_user_id: row.client.user_id,
+        client_email: row.client.user?.email ?? '',
+        client_name: row.client.user?.full_name ?? '',
+        stripe_customer_id: row.client.stripe_customer_id,
+        tier: row.tier
+      };
+    },
+
+    saveClientCustomerId: async (clientId, customerId) => {
+      const { error } = await client
+        .from('clients')
+        .update({ stripe_customer_id: customerId, updated_at: new Date().toISOString() })
+        .eq('id', clientId);
+
+      if (error) throw error;
+    },
+
+    saveClientSubscription: async (relationId, subscriptionId, billingCycle) => {
+      const { error } = await client
+        .from('client_trainers')
+        .update({ stripe_subscription_id: subscriptionId, billing_cycle: billingCycle, updated_at: new Date().toISOString() })
+        .eq('id', relationId);
+
+      if (error) throw error;
+    }
+  };
+}
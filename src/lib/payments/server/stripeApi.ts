@@ -0,0 +1,129 @@
+// src/lib/payments/server/stripeApi.ts - A small Stripe REST client on fetch, so the billing edge functions need no SDK
+import { BillingCycle } from '@/lib/api/types';
+import { BillingOption } from '../pricing';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type StripeParamValue = string | number | boolean | null | undefined | StripeParams | StripeParamValue[];
+
+export interface StripeParams {
+  [key: string]: StripeParamValue;
+}
+
+export interface StripeApi {
+  get: <T>(path: string, params?: StripeParams) => Promise<T>;
+  post: <T>(path: string, params?: StripeParams) => Promise<T>;
+  del: <T>(path: string) => Promise<T>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STRIPE_API_URL = 'https://api.stripe.com/v1';
+
+// Pinned so responses keep the shape read here, e.g. latest_invoice.payment_intent
+export const STRIPE_API_VERSION = '2024-06-20';
+
+// Plan prices are stored in whole crowns; Stripe takes and reports minor units
+export const STRIPE_CURRENCY = 'czk';
+
+const BILLING_INTERVALS: Record<BillingCycle, string> = {
+  monthly: 'month',
+  yearly: 'year'
+};
+
+export class StripeApiError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'StripeApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export const toMinorUnits = (amount: number) => Math.round(amount * 100);
+
+// Stripe takes form fields with nested keys, e.g. items[0][price_data][currency]=czk
+function appendParams(form: URLSearchParams, value: StripeParamValue, key: string) {
+  if (value === null || value === undefined) return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => appendParams(form, item, `${key}[${index}]`));
+  } else if (typeof value === 'object') {
+    Object.entries(value).forEach(([name, item]) => appendParams(form, item, `${key}[${name}]`));
+  } else {
+    form.append(key, String(value));
+  }
+}
+
+function toForm(params: StripeParams): URLSearchParams {
+  const form = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => appendParams(form, value, key));
+  return form;
+}
+
+export function createStripeApi(secretKey: string): StripeApi {
+  const request = async <T>(method: 'GET' | 'POST' | 'DELETE', path: string, params: StripeParams = {}): Promise<T> => {
+    const form = toForm(params).toString();
+    const query = method !== 'POST' && form ? `?${form}` : '';
+
+    const response = await fetch(`${STRIPE_API_URL}${path}${query}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Stripe-Version': STRIPE_API_VERSION,
+        ...(method === 'POST' ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {})
+      },
+      body: method === 'POST' ? form : undefined
+    });
+
+    const body = await response.json();
+    if (!response.ok) {
+      throw new StripeApiError(body?.error?.message || `Stripe request failed (${response.status})`, response.status, body?.error?.code);
+    }
+    return body as T;
+  };
+
+  return {
+    get: (path, params) => request('GET', path, params),
+    post: (path, params) => request('POST', path, params),
+    del: (path) => request('DELETE', path)
+  };
+}
+
+// ============================================================================
+// PRODUCTS & PRICES
+// ============================================================================
+
+// One Stripe product per plan, under an id derived from the plan so it is found again without storing it
+export async function ensureStripeProduct(
+  stripe: StripeApi,
+  productId: string,
+  fields: { name: string; metadata: Record<string, string> }
+): Promise<string> {
+  try {
+    await stripe.get(`/products/${productId}`);
+  } catch (error) {
+    if (!(error instanceof StripeApiError) || error.status !== 404) throw error;
+    await stripe.post('/products', { id: productId, ...fields });
+  }
+  return productId;
+}
+
+// Prices are created inline from the plan, so a plan edited in the app needs no Stripe price kept in step
+export const toPriceData = (productId: string, option: BillingOption): StripeParams => ({
+  currency: STRIPE_CURRENCY,
+  product: productId,
+  unit_amount: toMinorUnits(option.amount),
+  recurring: { interval: BILLING_INTERVALS[option.cycle] }
+});
@@ -0,0 +1,221 @@
+// src/lib/payments/server/trainerBilling.ts - The trainer's invoices, saved card and scheduled cancellation, read and changed in Stripe
+import { hasPaidSubscription } from '@/lib/billing';
+import { BillingRequest, BillingResponse, billingError, billingSuccess } from './http';
+import { BillingStore } from './stores';
+import { StripeApi, StripeApiError } from './stripeApi';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// Only the fields we read; timestamps are Unix seconds
+interface StripeInvoiceObject {
+  id: string;
+  number: string | null;
+  status: string;
+  amount_due: number;
+  amount_paid: number;
+  currency: string;
+  created: number;
+  period_start: number;
+  period_end: number;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+}
+
+interface StripeUpcomingInvoiceObject {
+  amount_due: number;
+  currency: string;
+  next_payment_attempt: number | null;
+  lines: { data: Array<{ description: string | null; amount: number }> };
+}
+
+interface StripePaymentMethodObject {
+  id: string;
+  customer: string | null;
+  card?: { brand: string; last4: string; exp_month: number; exp_year: number };
+}
+
+export interface TrainerBillingOptions {
+  store: BillingStore;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Two years of monthly invoices; the billing page doesn't page through more
+const INVOICE_LIST_LIMIT = 24;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+// StripeInvoice in src/lib/stripe.ts
+const toInvoice = (invoice: StripeInvoiceObject) => ({
+  id: invoice.id,
+  number: invoice.number,
+  status: invoice.status,
+  amount_due: invoice.amount_due,
+  amount_paid: invoice.amount_paid,
+  currency: invoice.currency,
+  created: toIso(invoice.created),
+  period_start: toIso(invoice.period_start),
+  period_end: toIso(invoice.period_end),
+  hosted_invoice_url: invoice.hosted_invoice_url,
+  invoice_pdf: invoice.invoice_pdf
+});
+
+// SavedPaymentMethod in src/lib/stripe.ts; null for anything that isn't a card
+const toSavedCard = (paymentMethod: StripePaymentMethodObject | string | null | undefined) => {
+  if (!paymentMethod || typeof paymentMethod === 'string' || !paymentMethod.card) return null;
+  const { brand, last4, exp_month, exp_year } = paymentMethod.card;
+  return { id: paymentMethod.id, brand, last4, exp_month, exp_year };
+};
+
+// Every handler here acts on the caller's own Stripe customer, so anyone who isn't a trainer is turned away first
+const notTrainerError = () => billingError(403, 'Only trainers have a platform subscription');
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+// Newest first, as Stripe lists them; none until the trainer has paid for a plan
+export async function handleListInvoices(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: TrainerBillingOptions
+): Promise<BillingResponse> {
+  const billing = await store.getTrainerBilling(request.userId);
+  if (!billing) return notTrainerError();
+  if (!billing.stripe_customer_id) return billingSuccess({ invoices: [] });
+
+  const { data } = await stripe.get<{ data: StripeInvoiceObject[] }>('/invoices', {
+    customer: billing.stripe_customer_id,
+    limit: INVOICE_LIST_LIMIT
+  });
+  // Drafts are still being put together by Stripe and may change
+  return billingSuccess({ invoices: data.filter(invoice => invoice.status !== 'draft').map(toInvoice) });
+}
+
+// Null when nothing will be billed again: on the free plan, or once a scheduled cancellation takes effect
+export async function handleGetUpcomingInvoice(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: TrainerBillingOptions
+): Promise<BillingResponse> {
+  const billing = await store.getTrainerBilling(request.userId);
+  if (!billing) return notTrainerError();
+  if (!hasPaidSubscription(billing) || billing.cancel_at_period_end || !billing.stripe_customer_id) {
+    return billingSuccess({ invoice: null });
+  }
+
+  try {
+    const invoice = await stripe.get<StripeUpcomingInvoiceObject>('/invoices/upcoming', {
+      customer: billing.stripe_customer_id,
+      subscription: billing.stripe_subscription_id
+    });
+
+    // UpcomingInvoice in src/lib/stripe.ts
+    return billingSuccess({
+      invoice: {
+        amount_due: invoice.amount_due,
+        currency: invoice.currency,
+        next_payment_attempt: invoice.next_payment_attempt ? toIso(invoice.next_payment_attempt) : null,
+        lines: invoice.lines.data.map(line => ({ description: line.description ?? '', amount: line.amount }))
+      }
+    });
+  } catch (error) {
+    if (error instanceof StripeApiError && error.code === 'invoice_upcoming_none') {
+      return billingSuccess({ invoice: null });
+    }
+    throw error;
+  }
+}
+
+// The customer's default card, or else the one the subscription was first paid with
+export async function handleGetPaymentMethod(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: TrainerBillingOptions
+): Promise<BillingResponse> {
+  const billing = await store.getTrainerBilling(request.userId);
+  if (!billing) return notTrainerError();
+  if (!billing.stripe_customer_id) return billingSuccess({ paymentMethod: null });
+
+  const customer = await stripe.get<{ invoice_settings: { default_payment_method: StripePaymentMethodObject | null } }>(
+    `/customers/${billing.stripe_customer_id}`,
+    { expand: ['invoice_settings.default_payment_method'] }
+  );
+  const customerCard = toSavedCard(customer.invoice_settings.default_payment_method);
+  if (customerCard || !billing.stripe_subscription_id) return billingSuccess({ paymentMethod: customerCard });
+
+  const subscription = await stripe.get<{ default_payment_method: StripePaymentMethodObject | null }>(
+    `/subscriptions/${billing.stripe_subscription_id}`,
+    { expand: ['default_payment_method'] }
+  );
+  return billingSuccess({ paymentMethod: toSavedCard(subscription.default_payment_method) });
+}
+
+// Saves a card for later charges without charging it; update-payment-method then makes it the default
+export async function handleCreateSetupIntent(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: TrainerBillingOptions
+): Promise<BillingResponse> {
+  const billing = await store.getTrainerBilling(request.userId);
+  if (!billing) return notTrainerError();
+  if (!billing.stripe_customer_id) return billingError(409, 'Subscribe to a paid plan before adding a card');
+
+  const setupIntent = await stripe.post<{ client_secret: string }>('/setup_intents', {
+    customer: billing.stripe_customer_id,
+    payment_method_types: ['card'],
+    usage: 'off_session'
+  });
+  return billingSuccess({ clientSecret: setupIntent.client_secret });
+}
+
+export async function handleUpdatePaymentMethod(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: TrainerBillingOptions
+): Promise<BillingResponse> {
+  const { paymentMethodId } = (request.body ?? {}) as { paymentMethodId?: unknown };
+  if (typeof paymentMethodId !== 'string' || !paymentMethodId) return billingError(400, 'Invalid payment method');
+
+  const billing = await store.getTrainerBilling(request.userId);
+  if (!billing) return notTrainerError();
+  if (!billing.stripe_customer_id) return billingError(409, 'Subscribe to a paid plan before adding a card');
+
+  // The setup intent attached the card to the trainer's customer; any other card isn't theirs to use
+  const paymentMethod = await stripe.get<StripePaymentMethodObject>(`/payment_methods/${paymentMethodId}`);
+  if (paymentMethod.customer !== billing.stripe_customer_id) return billingError(404, 'Payment method not found');
+
+  await stripe.post(`/customers/${billing.stripe_customer_id}`, {
+    invoice_settings: { default_payment_method: paymentMethodId }
+  });
+  // A subscription's own default outranks the customer's, so it is moved too
+  if (billing.stripe_subscription_id && hasPaidSubscription(billing)) {
+    await stripe.post(`/subscriptions/${billing.stripe_subscription_id}`, { default_payment_method: paymentMethodId });
+  }
+  return billingSuccess();
+}
+
+// Undoes a cancellation scheduled for the period end; the stripe-webhook function records it from the update
+export async function handleResumeSubscription(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: TrainerBillingOptions
+): Promise<BillingResponse> {
+  const billing = await store.getTrainerBilling(request.userId);
+  if (!billing) return notTrainerError();
+  if (!hasPaidSubscription(billing) || !billing.stripe_subscription_id) {
+    return billingError(409, 'You have no subscription to resume');
+  }
+  if (!billing.cancel_at_period_end) return billingError(409, 'Your subscription is not set to cancel');
+
+  await stripe.post(`/subscriptions/${billing.stripe_subscription_id}`, { cancel_at_period_end: false });
+  return billingSuccess();
+}
@@ -0,0 +1,127 @@
+// src/lib/payments/server/trainerSubscriptions.ts - Switches a trainer's running platform subscription to another plan or cycle
+import { BillingCycle } from '@/lib/api/types';
+import { hasPaidSubscription } from '@/lib/billing';
+import { PricedPlan, getBillingOption } from '../pricing';
+import { SUBSCRIPTION_METADATA } from '../webhooks/events';
+import { BillingRequest, BillingResponse, billingError, billingSuccess } from './http';
+import { BillingStore, PlatformTierRecord } from './stores';
+import { StripeApi, ensureStripeProduct, toPriceData } from './stripeApi';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// ChangeSubscriptionRequest in src/lib/stripe.ts
+interface UpdateSubscriptionBody {
+  subscriptionTierId: string;
+  billingCycle: BillingCycle;
+}
+
+// Only the fields we read
+interface StripeSubscriptionItems {
+  items: { data: Array<{ id: string }> };
+}
+
+interface StripeUpdatedSubscription {
+  latest_invoice: {
+    amount_due: number;
+    payment_intent: { status: string; client_secret: string } | null;
+  } | null;
+}
+
+export interface TrainerSubscriptionOptions {
+  store: BillingStore;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// The prorated invoice is charged to the saved card straight away; these need the trainer to confirm it
+const PAYMENT_INTENT_ACTION_STATUSES = ['requires_action', 'requires_confirmation', 'requires_payment_method'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseBody(body: unknown): UpdateSubscriptionBody | null {
+  const { subscriptionTierId, billingCycle } = (body ?? {}) as Partial<UpdateSubscriptionBody>;
+  if (typeof subscriptionTierId !== 'string') return null;
+  if (billingCycle !== 'monthly' && billingCycle !== 'yearly') return null;
+  return { subscriptionTierId, billingCycle };
+}
+
+// A sale price replaces the monthly price, as the plans page shows it
+export function toPlatformPlan(tier: PlatformTierRecord): PricedPlan {
+  const price = tier.price ?? 0;
+  return {
+    price: tier.sale_price && tier.sale_price < price ? tier.sale_price : price,
+    yearly_price: tier.yearly_price,
+    billing_cycle: tier.billing_cycle
+  };
+}
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+/**
+ * Moves the trainer's paid subscription onto another plan or billing cycle in place. Stripe prorates
+ * the unused time and invoices the difference at once, charging the saved card; a client secret is
+ * returned only when that payment needs the trainer, e.g. for 3D Secure. The new plan is recorded by
+ * the stripe-webhook function once the invoice is paid, from the subscription_tier_id metadata.
+ */
+export async function handleUpdateSubscription(
+  request: BillingRequest,
+  stripe: StripeApi,
+  { store }: TrainerSubscriptionOptions
+): Promise<BillingResponse> {
+  const body = parseBody(request.body);
+  if (!body) return billingError(400, 'Invalid plan change');
+
+  const billing = await store.getTrainerBilling(request.userId);
+  if (!billing) return billingError(403, 'Only trainers have a platform subscription');
+  if (!hasPaidSubscription(billing) || !billing.stripe_subscription_id) {
+    return billingError(409, 'You have no paid subscription to change');
+  }
+  if (billing.subscription_tier_id === body.subscriptionTierId && billing.billing_cycle === body.billingCycle) {
+    return billingError(409, 'You are already on this plan');
+  }
+
+  const tier = await store.getPlatformTier(body.subscriptionTierId);
+  if (!tier) return billingError(404, 'Plan not found');
+
+  const option = getBillingOption(toPlatformPlan(tier), body.billingCycle);
+  if (!option) return billingError(400, `${tier.name} is not offered with ${body.billingCycle} billing`);
+  if (option.amount <= 0) return billingError(400, `${tier.name} is free; cancel your subscription to move to it`);
+
+  const subscriptionPath = `/subscriptions/${billing.stripe_subscription_id}`;
+  const { items } = await stripe.get<StripeSubscriptionItems>(subscriptionPath);
+  const productId = await ensureStripeProduct(stripe, `platform_tier_${tier.id}`, {
+    name: tier.name,
+    metadata: { [SUBSCRIPTION_METADATA.TIER_ID]: tier.id }
+  });
+
+  const updated = await stripe.post<StripeUpdatedSubscription>(subscriptionPath, {
+    // The price is swapped on the existing item, so the subscription keeps a single plan
+    items: [{ id: items.data[0]?.id, price_data: toPriceData(productId, option) }],
+    proration_behavior: 'always_invoice',
+    payment_behavior: 'allow_incomplete',
+    // A plan change keeps the subscription going, whatever cancellation was scheduled
+    cancel_at_period_end: false,
+    metadata: {
+      [SUBSCRIPTION_METADATA.TRAINER_ID]: billing.trainer_id,
+      [SUBSCRIPTION_METADATA.TIER_ID]: tier.id
+    },
+    expand: ['latest_invoice.payment_intent']
+  });
+
+  const invoice = updated.latest_invoice;
+  const paymentIntent = invoice?.payment_intent;
+  const needsConfirmation = paymentIntent && PAYMENT_INTENT_ACTION_STATUSES.includes(paymentIntent.status);
+
+  return billingSuccess({
+    amountDue: invoice?.amount_due ?? 0,
+    ...(needsConfirmation ? { clientSecret: paymentIntent.client_secret } : {})
+  });
+}
@@ -0,0 +1,53 @@
+// src/lib/payments/service.ts - Client checkout for a trainer's plan: the relation, then the subscription to pay
+import { BillingCycle, ClientAPI, TrainerSubscriptionTier } from '@/lib/api';
+import { ApiError } from '@/lib/errors';
+import { getPaymentGateway } from './gateways';
+import { getBillingOption } from './pricing';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface CheckoutSession {
+  relationId: string;
+  trainerId: string;
+  tierName: string;
+  billingCycle: BillingCycle;
+  amount: number;
+  subscriptionId: string;
+  clientSecret: string;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+/**
+ * The client_trainers row stays pending after checkout. The stripe-webhook function turns it
+ * active once Stripe reports the invoice paid, and suspended when a payment fails, so nothing
+ * the browser sends can activate a plan. Unlike notifications, failures here throw.
+ */
+export class CheckoutService {
+  static async startClientCheckout(trainerId: string, tier: TrainerSubscriptionTier, billingCycle: BillingCycle): Promise<CheckoutSession> {
+    const option = getBillingOption(tier, billingCycle);
+    if (!option) {
+      throw new ApiError(`${tier.name} is not offered with ${billingCycle} billing`, { code: 'invalid_billing_cycle' });
+    }
+
+    const checkout = await ClientAPI.prepareCheckout(trainerId, tier.id);
+    const subscription = await getPaymentGateway().createClientSubscription({
+      relationId: checkout.relation_id,
+      trainerSubscriptionTierId: tier.id,
+      billingCycle
+    });
+
+    return {
+      relationId: checkout.relation_id,
+      trainerId,
+      tierName: checkout.tier.name,
+      billingCycle,
+      amount: option.amount,
+      ...subscription
+    };
+  }
+}
@@ -0,0 +1,162 @@
+// src/lib/payments/webhooks/events.ts - The parts of Stripe's webhook events that reconciliation reads
+import { BillingCycle } from '@/lib/api/types';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// Only the fields we read; recorded events carry many more and are stored whole
+export interface StripeSubscriptionObject {
+  object: 'subscription';
+  id: string;
+  customer: string;
+  status: string;
+  cancel_at_period_end: boolean;
+  // Older API versions keep the period on the subscription, newer ones on each item
+  current_period_start?: number;
+  current_period_end?: number;
+  metadata: Record<string, string>;
+  items: {
+    data: Array<{
+      current_period_start?: number;
+      current_period_end?: number;
+      price: { id: string; recurring: { interval: string } | null };
+    }>;
+  };
+}
+
+export interface StripeInvoiceObject {
+  object: 'invoice';
+  id: string;
+  customer: string;
+  // Older API versions link the subscription directly, newer ones through parent
+  subscription?: string | null;
+  subscription_details?: { metadata: Record<string, string> | null } | null;
+  parent?: {
+    subscription_details?: { subscription: string; metadata: Record<string, string> | null } | null;
+  } | null;
+  lines: {
+    data: Array<{ period: { start: number; end: number } }>;
+  };
+}
+
+export type StripeSubscriptionEventType = 'customer.subscription.updated' | 'customer.subscription.deleted';
+export type StripeInvoiceEventType = 'invoice.paid' | 'invoice.payment_failed';
+
+interface StripeEventBase {
+  id: string;
+  // Unix seconds; orders events that Stripe may deliver out of order
+  created: number;
+}
+
+export interface StripeSubscriptionEvent extends StripeEventBase {
+  type: StripeSubscriptionEventType;
+  data: { object: StripeSubscriptionObject };
+}
+
+export interface StripeInvoiceEvent extends StripeEventBase {
+  type: StripeInvoiceEventType;
+  data: { object: StripeInvoiceObject };
+}
+
+export type StripeEvent = StripeSubscriptionEvent | StripeInvoiceEvent;
+
+// Everything reconciliation needs, whichever object the event carried
+export interface SubscriptionChange {
+  eventId: string;
+  type: StripeEvent['type'];
+  occurredAt: string;
+  customerId: string;
+  subscriptionId: string;
+  metadata: Record<string, string>;
+  // Only subscription events report Stripe's status, billing cycle and cancellation
+  stripeStatus: string | null;
+  billingCycle: BillingCycle | null;
+  cancelAtPeriodEnd: boolean | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const HANDLED_EVENT_TYPES: StripeEvent['type'][] = [
+  'invoice.paid',
+  'invoice.payment_failed',
+  'customer.subscription.updated',
+  'customer.subscription.deleted'
+];
+
+// Set on the subscription by the create-subscription and create-client-subscription edge functions
+export const SUBSCRIPTION_METADATA = {
+  TRAINER_ID: 'trainer_id',
+  TIER_ID: 'subscription_tier_id',
+  CLIENT_TRAINER_ID: 'client_trainer_id'
+} as const;
+
+const INTERVAL_TO_CYCLE: Record<string, BillingCycle> = {
+  month: 'monthly',
+  year: 'yearly'
+};
+
+// ============================================================================
+// READERS
+// ============================================================================
+
+export function isHandledEvent(event: { type: string }): event is StripeEvent {
+  return (HANDLED_EVENT_TYPES as string[]).includes(event.type);
+}
+
+const toIso = (seconds: number | undefined) => (seconds ? new Date(seconds * 1000).toISOString() : null);
+
+function readSubscription(event: StripeSubscriptionEvent): SubscriptionChange {
+  const subscription = event.data.object;
+  const item = subscription.items.data[0];
+  const interval = item?.price.recurring?.interval;
+
+  return {
+    eventId: event.id,
+    type: event.type,
+    occurredAt: new Date(event.created * 1000).toISOString(),
+    customerId: subscription.customer,
+    subscriptionId: subscription.id,
+    metadata: subscription.metadata || {},
+    stripeStatus: subscription.status,
+    billingCycle: interval ? INTERVAL_TO_CYCLE[interval] ?? null : null,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    periodStart: toIso(item?.current_period_start ?? subscription.current_period_start),
+    periodEnd: toIso(item?.current_period_end ?? subscription.current_period_end)
+  };
+}
+
+// Null for one-off invoices, which have no subscription to reconcile
+function readInvoice(event: StripeInvoiceEvent): SubscriptionChange | null {
+  const invoice = event.data.object;
+  const parentDetails = invoice.parent?.subscription_details;
+  const subscriptionId = parentDetails?.subscription ?? invoice.subscription;
+  if (!subscriptionId) return null;
+
+  // The invoice's own period is the one just billed in arrears; the line carries the period paid for
+  const period = invoice.lines.data[0]?.period;
+
+  return {
+    eventId: event.id,
+    type: event.type,
+    occurredAt: new Date(event.created * 1000).toISOString(),
+    customerId: invoice.customer,
+    subscriptionId,
+    metadata: parentDetails?.metadata ?? invoice.subscription_details?.metadata ?? {},
+    stripeStatus: null,
+    billingCycle: null,
+    cancelAtPeriodEnd: null,
+    periodStart: toIso(period?.start),
+    periodEnd: toIso(period?.end)
+  };
+}
+
+const isInvoiceEvent = (event: StripeEvent): event is StripeInvoiceEvent => event.data.object.object === 'invoice';
+
+export function toSubscriptionChange(event: StripeEvent): SubscriptionChange | null {
+  return isInvoiceEvent(event) ? readInvoice(event) : readSubscription(event);
+}
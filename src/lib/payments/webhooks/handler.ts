@@ -0,0 +1,109 @@
+// src/lib/payments/webhooks/handler.ts - Turns one Stripe webhook delivery into a stored event and a billing update
+import { StripeEvent, SUBSCRIPTION_METADATA, isHandledEvent, toSubscriptionChange } from './events';
+import { reconcileTrainerBilling, toClientTrainerStatus } from './reconcile';
+import { VerifySignatureOptions, WebhookSignatureError, verifyStripeSignature } from './signature';
+import { WebhookStore } from './stores';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface StripeWebhookRequest {
+  // The raw body exactly as received; re-serialised JSON no longer matches the signature
+  payload: string;
+  signature: string | null;
+}
+
+export type WebhookOutcome = 'processed' | 'ignored' | 'duplicate' | 'unhandled';
+
+export interface StripeWebhookResponse {
+  // 400 and 500 make Stripe redeliver the event with backoff; 200 stops it
+  status: 200 | 400 | 500;
+  body: { received: boolean; outcome?: WebhookOutcome; reason?: string; error?: string };
+}
+
+// Who hears about a change: the edge function passes the server-side notifier, fixture replays can leave it out
+export interface WebhookNotifier {
+  paymentFailed: (trainerId: string, referenceId: string) => Promise<unknown>;
+  newClient: (relationId: string) => Promise<unknown>;
+}
+
+export interface StripeWebhookOptions extends VerifySignatureOptions {
+  secret: string;
+  store: WebhookStore;
+  notifier?: WebhookNotifier;
+}
+
+// ============================================================================
+// PROCESSING
+// ============================================================================
+
+// Emails go out once the change is stored; they are logged per reference, so a redelivery doesn't repeat them
+async function applyEvent(
+  event: StripeEvent,
+  store: WebhookStore,
+  notifier?: WebhookNotifier
+): Promise<{ outcome: 'processed' | 'ignored'; reason?: string }> {
+  const change = toSubscriptionChange(event);
+  if (!change) return { outcome: 'ignored', reason: 'Invoice is not for a subscription' };
+
+  if (!change.metadata[SUBSCRIPTION_METADATA.CLIENT_TRAINER_ID]) {
+    const billing = await store.findTrainerBilling(change);
+    if (billing) {
+      const result = reconcileTrainerBilling(billing, change);
+      if (result.outcome === 'ignored') return result;
+
+      await store.saveTrainerBilling(result.billing);
+      if (change.type === 'invoice.payment_failed') await notifier?.paymentFailed(billing.trainer_id, change.eventId);
+      return { outcome: 'processed' };
+    }
+  }
+
+  const status = toClientTrainerStatus(change);
+  const relationIds = status ? await store.updateClientRelation(change, status) : [];
+  if (relationIds.length > 0) {
+    if (status === 'active') await Promise.all(relationIds.map(relationId => notifier?.newClient(relationId)));
+    return { outcome: 'processed' };
+  }
+
+  return { outcome: 'ignored', reason: 'No trainer or client subscription matches' };
+}
+
+/**
+ * Framework-free so the stripe-webhook edge function (supabase/functions/stripe-webhook) only adapts
+ * its Request and Response. The recorded events in ./fixtures replay the same way through
+ * replayStripeEvents, see supabase/functions/stripe-webhook/replay-fixtures.ts.
+ */
+export async function handleStripeWebhook(request: StripeWebhookRequest, options: StripeWebhookOptions): Promise<StripeWebhookResponse> {
+  const { secret, store, notifier, ...verifyOptions } = options;
+
+  let event: { id: string; type: string };
+  try {
+    await verifyStripeSignature(request.payload, request.signature, secret, verifyOptions);
+    event = JSON.parse(request.payload);
+  } catch (error) {
+    const message = error instanceof WebhookSignatureError ? error.message : 'Payload is not valid JSON';
+    return { status: 400, body: { received: false, error: message } };
+  }
+
+  if (!isHandledEvent(event)) {
+    return { status: 200, body: { received: true, outcome: 'unhandled' } };
+  }
+
+  try {
+    if (!await store.claimEvent(event)) {
+      return { status: 200, body: { received: true, outcome: 'duplicate' } };
+    }
+
+    const result = await applyEvent(event, store, notifier);
+    await store.completeEvent(event.id, result.outcome, result.reason);
+    return { status: 200, body: { received: true, ...result } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to process event';
+    console.error(`Error processing Stripe event ${event.id}:`, error);
+
+    // Stripe redelivers on 500 anyway, so a failure to record the failure is only logged
+    await store.completeEvent(event.id, 'failed', message).catch(() => undefined);
+    return { status: 500, body: { received: false, error: message } };
+  }
+}
@@ -0,0 +1,7 @@
+// src/lib/payments/webhooks/index.ts - Stripe webhook reconciliation; kept apart from @/lib/payments so the edge function doesn't load the browser client
+export * from './events';
+export * from './signature';
+export * from './reconcile';
+export * from './stores';
+export * from './handler';
+export * from './replay';
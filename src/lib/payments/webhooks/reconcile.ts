@@ -0,0 +1,102 @@
+// src/lib/payments/webhooks/reconcile.ts - State machine from Stripe subscription events to our billing columns
+import { ClientTrainerStatus, TrainerBilling, TrainerBillingStatus } from '@/lib/api/types';
+import { SUBSCRIPTION_METADATA, SubscriptionChange } from './events';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export type ReconcileResult =
+  | { outcome: 'applied'; billing: TrainerBilling }
+  | { outcome: 'ignored'; reason: string };
+
+// Trials count as paid; paused and unpaid subscriptions lose access like a failed payment
+const STRIPE_TO_TRAINER_STATUS: Record<string, TrainerBillingStatus> = {
+  incomplete: 'incomplete',
+  trialing: 'active',
+  active: 'active',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  paused: 'past_due',
+  canceled: 'canceled',
+  incomplete_expired: 'canceled'
+};
+
+const TRAINER_TO_CLIENT_STATUS: Record<TrainerBillingStatus, ClientTrainerStatus | null> = {
+  incomplete: null,
+  active: 'active',
+  past_due: 'suspended',
+  canceled: 'inactive'
+};
+
+// ============================================================================
+// STATE MACHINE
+// ============================================================================
+
+// Null when the event doesn't say, e.g. a subscription update with a status we don't track
+function getNextStatus(change: SubscriptionChange): TrainerBillingStatus | null {
+  switch (change.type) {
+    case 'invoice.paid':
+      return 'active';
+    case 'invoice.payment_failed':
+      return 'past_due';
+    case 'customer.subscription.deleted':
+      return 'canceled';
+    case 'customer.subscription.updated':
+      return STRIPE_TO_TRAINER_STATUS[change.stripeStatus ?? ''] ?? null;
+  }
+}
+
+function getNextTierId(current: TrainerBilling, change: SubscriptionChange, status: TrainerBillingStatus): string | null {
+  if (status === 'canceled') return null;
+  if (status !== 'active') return current.subscription_tier_id;
+  return change.metadata[SUBSCRIPTION_METADATA.TIER_ID] || current.subscription_tier_id;
+}
+
+/**
+ * Applies one event to the trainer's billing row. Events older than the last one applied are
+ * ignored, since Stripe doesn't guarantee delivery order. A different subscription only takes
+ * over once it is paid, so the old one being deleted after an upgrade leaves the new plan alone.
+ * The plan changes only on payment and drops back to the free plan (null) on cancellation;
+ * a failed payment keeps it while Stripe retries.
+ */
+export function reconcileTrainerBilling(current: TrainerBilling, change: SubscriptionChange): ReconcileResult {
+  if (current.billing_synced_at && change.occurredAt < current.billing_synced_at) {
+    return { outcome: 'ignored', reason: 'Older than the last applied event' };
+  }
+
+  const status = getNextStatus(change);
+  if (!status) {
+    return { outcome: 'ignored', reason: `Untracked subscription status ${change.stripeStatus}` };
+  }
+
+  const isCurrentSubscription = !current.stripe_subscription_id || current.stripe_subscription_id === change.subscriptionId;
+  if (!isCurrentSubscription && status !== 'active') {
+    return { outcome: 'ignored', reason: 'Event is for a replaced subscription' };
+  }
+
+  const isPaymentFailure = change.type === 'invoice.payment_failed';
+
+  return {
+    outcome: 'applied',
+    billing: {
+      ...current,
+      stripe_customer_id: change.customerId,
+      stripe_subscription_id: change.subscriptionId,
+      subscription_status: status,
+      subscription_tier_id: getNextTierId(current, change, status),
+      billing_cycle: change.billingCycle ?? current.billing_cycle,
+      // A failed invoice's lines cover the period that wasn't paid for
+      current_period_start: isPaymentFailure ? current.current_period_start : change.periodStart ?? current.current_period_start,
+      current_period_end: isPaymentFailure ? current.current_period_end : change.periodEnd ?? current.current_period_end,
+      cancel_at_period_end: status === 'canceled' ? false : change.cancelAtPeriodEnd ?? current.cancel_at_period_end,
+      billing_synced_at: change.occurredAt
+    }
+  };
+}
+
+// Client subscriptions to a trainer's plan follow the same events onto the client_trainers status
+export function toClientTrainerStatus(change: SubscriptionChange): ClientTrainerStatus | null {
+  const status = getNextStatus(change);
+  return status ? TRAINER_TO_CLIENT_STATUS[status] : null;
+}
@@ -0,0 +1,55 @@
+// src/lib/payments/webhooks/replay.ts - Delivers recorded Stripe events to the webhook handler the way Stripe would
+import { StripeEvent, SUBSCRIPTION_METADATA } from './events';
+import { StripeWebhookResponse, handleStripeWebhook } from './handler';
+import { signStripePayload } from './signature';
+import { WebhookStore } from './stores';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export interface ReplayedEvent {
+  eventId: string;
+  type: string;
+  response: StripeWebhookResponse;
+}
+
+// Replays sign and verify with their own secret; it never reaches Stripe
+const REPLAY_SECRET = 'whsec_replay';
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/**
+ * Delivers the events one after another in the order given, each signed and verified at the time it
+ * was recorded. Passing them out of order or twice replays a late or repeated delivery.
+ */
+export async function replayStripeEvents(events: StripeEvent[], store: WebhookStore): Promise<ReplayedEvent[]> {
+  const replayed: ReplayedEvent[] = [];
+
+  for (const event of events) {
+    const payload = JSON.stringify(event);
+    const signature = await signStripePayload(payload, REPLAY_SECRET, event.created);
+    const response = await handleStripeWebhook({ payload, signature }, { secret: REPLAY_SECRET, store, now: event.created });
+    replayed.push({ eventId: event.id, type: event.type, response });
+  }
+
+  return replayed;
+}
+
+// The recorded events bill a trainer; this turns one into the same event for a client's plan subscription
+export function toClientRelationEvent(event: StripeEvent, relationId: string): StripeEvent {
+  const copy = structuredClone(event);
+  const metadata = { [SUBSCRIPTION_METADATA.CLIENT_TRAINER_ID]: relationId };
+  const object = copy.data.object;
+
+  if (object.object === 'subscription') {
+    object.metadata = metadata;
+  } else if (object.parent?.subscription_details) {
+    object.parent.subscription_details.metadata = metadata;
+  } else {
+    object.subscription_details = { metadata };
+  }
+  return copy;
+}
@@ -0,0 +1,205 @@
+// src/lib/payments/webhooks/stores.ts - Where the webhook records events and billing state: Supabase, or memory for fixtures
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database, Json } from '@/lib/database.types';
+import { ClientTrainerStatus, TrainerBilling } from '@/lib/api/types';
+import { TRAINER_BILLING_COLUMNS, toTrainerBilling } from '@/lib/billing';
+import { StripeEvent, SUBSCRIPTION_METADATA, SubscriptionChange } from './events';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type StoredEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// How long a delivery may stay 'processing' before a redelivery assumes it died and takes over;
+// well past the edge function's wall-clock limit, so a live delivery is never run twice
+export const EVENT_LEASE_SECONDS = 10 * 60;
+
+export interface WebhookStore {
+  // False when the event was already handled or another delivery is handling it, so it is acknowledged
+  // without being applied twice; only failed deliveries and expired leases are claimed again
+  claimEvent: (event: StripeEvent) => Promise<boolean>;
+  completeEvent: (eventId: string, status: Exclude<StoredEventStatus, 'processing'>, error?: string) => Promise<void>;
+  // Matched on the trainer_id metadata first, then on the Stripe customer
+  findTrainerBilling: (change: SubscriptionChange) => Promise<TrainerBilling | null>;
+  saveTrainerBilling: (billing: TrainerBilling) => Promise<void>;
+  // Ids of the client_trainers rows billed by the subscription; empty when there are none, or when the
+  // event is older than the last one applied to them
+  updateClientRelation: (change: SubscriptionChange, status: ClientTrainerStatus) => Promise<string[]>;
+}
+
+export interface MemoryClientRelation {
+  id: string;
+  stripe_subscription_id: string | null;
+  status: ClientTrainerStatus;
+  billing_synced_at: string | null;
+}
+
+export interface MemoryWebhookStore extends WebhookStore {
+  events: Map<string, { type: string; status: StoredEventStatus; error: string | null; claimedAt: number }>;
+  trainers: TrainerBilling[];
+  clientRelations: MemoryClientRelation[];
+}
+
+// ============================================================================
+// SUPABASE
+// ============================================================================
+
+/**
+ * Needs a service-role client: the webhook acts for whichever trainer or client Stripe reports on,
+ * outside any user's session.
+ */
+export function createSupabaseWebhookStore(client: SupabaseClient<Database>): WebhookStore {
+  return {
+    claimEvent: async (event) => {
+      const claimedAt = new Date();
+      const { error } = await client
+        .from('stripe_events')
+        .insert({
+          id: event.id,
+          type: event.type,
+          status: 'processing',
+          payload: event as unknown as Json,
+          claimed_at: claimedAt.toISOString()
+        });
+
+      if (!error) return true;
+      if (error.code !== '23505') throw error;
+
+      // Seen before. The filter is re-checked on the locked row, so of two concurrent redeliveries only one wins
+      const leaseExpiredAt = new Date(claimedAt.getTime() - EVENT_LEASE_SECONDS * 1000).toISOString();
+      const { data, error: retryError } = await client
+        .from('stripe_events')
+        .update({ status: 'processing', error: null, claimed_at: claimedAt.toISOString() })
+        .eq('id', event.id)
+        .or(`status.eq.failed,and(status.eq.processing,claimed_at.lt."${leaseExpiredAt}")`)
+        .select('id');
+
+      if (retryError) throw retryError;
+      return data.length > 0;
+    },
+
+    completeEvent: async (eventId, status, error) => {
+      const { error: updateError } = await client
+        .from('stripe_events')
+        .update({ status, error: error ?? null, processed_at: new Date().toISOString() })
+        .eq('id', eventId);
+
+      if (updateError) throw updateError;
+    },
+
+    findTrainerBilling: async (change) => {
+      const trainerId = change.metadata[SUBSCRIPTION_METADATA.TRAINER_ID];
+      const query = client.from('trainers').select(TRAINER_BILLING_COLUMNS);
+      const { data, error } = await (trainerId
+        ? query.eq('id', trainerId)
+        : query.eq('stripe_customer_id', change.customerId)
+      ).maybeSingle();
+
+      if (error) throw error;
+      return data ? toTrainerBilling(data) : null;
+    },
+
+    saveTrainerBilling: async ({ trainer_id, ...billing }) => {
+      const { error } = await client
+        .from('trainers')
+        .update({ ...billing, updated_at: new Date().toISOString() })
+        .eq('id', trainer_id);
+
+      if (error) throw error;
+    },
+
+    updateClientRelation: async (change, status) => {
+      const relationId = change.metadata[SUBSCRIPTION_METADATA.CLIENT_TRAINER_ID];
+      const query = client
+        .from('client_trainers')
+        .update({
+          status,
+          stripe_subscription_id: change.subscriptionId,
+          ...(change.billingCycle ? { billing_cycle: change.billingCycle } : {}),
+          billing_synced_at: change.occurredAt,
+          updated_at: new Date().toISOString()
+        });
+      // Stripe doesn't guarantee delivery order, so the filter skips rows a newer event has already set
+      let target = (relationId ? query.eq('id', relationId) : query.eq('stripe_subscription_id', change.subscriptionId))
+        .or(`billing_synced_at.is.null,billing_synced_at.lte."${change.occurredAt}"`);
+      // A subscription the relation has moved off, e.g. an abandoned checkout expiring, only takes over once paid
+      if (relationId && status !== 'active') {
+        target = target.or(`stripe_subscription_id.is.null,stripe_subscription_id.eq.${change.subscriptionId}`);
+      }
+      const { data, error } = await target.select('id');
+
+      if (error) throw error;
+      const relationIds = data.map(relation => relation.id);
+      if (relationIds.length === 0) return relationIds;
+
+      // The first paid invoice starts the plan; renewals keep the original start
+      if (status === 'active') {
+        const { error: startError } = await client
+          .from('client_trainers')
+          .update({ subscription_start: change.periodStart ?? change.occurredAt })
+          .in('id', relationIds)
+          .is('subscription_start', null);
+
+        if (startError) throw startError;
+      }
+      return relationIds;
+    }
+  };
+}
+
+// ============================================================================
+// MEMORY
+// ============================================================================
+
+// Seeded with trainers and client relations, so recorded event fixtures can be replayed and the result inspected
+export function createMemoryWebhookStore(
+  seed: { trainers?: TrainerBilling[]; clientRelations?: MemoryClientRelation[] } = {}
+): MemoryWebhookStore {
+  const events: MemoryWebhookStore['events'] = new Map();
+  const trainers = [...(seed.trainers ?? [])];
+  const clientRelations = [...(seed.clientRelations ?? [])];
+
+  return {
+    events,
+    trainers,
+    clientRelations,
+    claimEvent: async (event) => {
+      const now = Date.now();
+      const existing = events.get(event.id);
+      const isLeaseExpired = existing?.status === 'processing' && existing.claimedAt < now - EVENT_LEASE_SECONDS * 1000;
+      if (existing && existing.status !== 'failed' && !isLeaseExpired) return false;
+
+      events.set(event.id, { type: event.type, status: 'processing', error: null, claimedAt: now });
+      return true;
+    },
+    completeEvent: async (eventId, status, error) => {
+      const existing = events.get(eventId);
+      if (existing) events.set(eventId, { ...existing, status, error: error ?? null });
+    },
+    findTrainerBilling: async (change) => {
+      const trainerId = change.metadata[SUBSCRIPTION_METADATA.TRAINER_ID];
+      return trainers.find(trainer => (trainerId
+        ? trainer.trainer_id === trainerId
+        : trainer.stripe_customer_id === change.customerId)) ?? null;
+    },
+    saveTrainerBilling: async (billing) => {
+      const index = trainers.findIndex(trainer => trainer.trainer_id === billing.trainer_id);
+      if (index >= 0) trainers[index] = billing;
+    },
+    updateClientRelation: async (change, status) => {
+      const relationId = change.metadata[SUBSCRIPTION_METADATA.CLIENT_TRAINER_ID];
+      const relation = clientRelations.find(item => (relationId
+        ? item.id === relationId
+        : item.stripe_subscription_id === change.subscriptionId));
+      if (!relation) return [];
+      if (relation.billing_synced_at && change.occurredAt < relation.billing_synced_at) return [];
+      if (status !== 'active' && relation.stripe_subscription_id && relation.stripe_subscription_id !== change.subscriptionId) return [];
+
+      relation.status = status;
+      relation.stripe_subscription_id = change.subscriptionId;
+      relation.billing_synced_at = change.occurredAt;
+      return [relation.id];
+    }
+  };
+}
@@ -0,0 +1,143 @@
+// src/lib/prescription.ts - Structured exercise prescriptions and the legacy series parser
+import {
+  ExercisePrescription,
+  PrescriptionLoadType,
+  SetVariationType
+} from '@/lib/api';
+
+export const LOAD_TYPE_LABELS: Record<PrescriptionLoadType, string> = {
+  none: 'No load target',
+  percent_1rm: '% of 1RM',
+  rpe: 'RPE',
+  fixed_kg: 'Fixed weight (kg)'
+};
+
+export const SET_VARIATION_LABELS: Record<SetVariationType, string> = {
+  standard: 'Standard',
+  warmup: 'Warm-up',
+  drop_set: 'Drop set',
+  amrap: 'AMRAP'
+};
+
+export const MAX_PRESCRIBED_SETS = 10;
+
+export const DEFAULT_PRESCRIPTION: ExercisePrescription = {
+  sets: 3,
+  rep_min: null,
+  rep_max: null,
+  tempo: null,
+  rest_seconds: null,
+  load_type: 'none',
+  load_value: null,
+  set_variations: []
+};
+
+const toNumber = (value: string | undefined) => (value === undefined ? null : Number(value.replace(',', '.')));
+
+/**
+ * Best-effort conversion of a legacy free-text series ("3 sets x 12 reps", "4x8-10 @ RPE 8, rest 90s")
+ * into a prescription. Anything it cannot read falls back to the defaults.
+ */
+export function parseSeries(series: string | null | undefined): ExercisePrescription {
+  const text = (series || '').trim();
+  const prescription: ExercisePrescription = { ...DEFAULT_PRESCRIPTION, set_variations: [] };
+  if (!text) return prescription;
+
+  const setsMatch = text.match(/(\d+)\s*(?:sets?|series|rounds?|x|×)/i);
+  if (setsMatch) {
+    prescription.sets = Math.min(Math.max(Number(setsMatch[1]), 1), MAX_PRESCRIBED_SETS);
+  }
+
+  const repsMatch =
+    text.match(/(?:x|×)\s*(\d+)(?:\s*[-–]\s*(\d+))?\b(?!\s*(?:s\b|sec|min|%|kg))/i) ||
+    text.match(/(\d+)(?:\s*[-–]\s*(\d+))?\s*reps?/i);
+  if (repsMatch) {
+    prescription.rep_min = Number(repsMatch[1]);
+    prescription.rep_max = repsMatch[2] ? Number(repsMatch[2]) : Number(repsMatch[1]);
+  }
+
+  const rpeMatch = text.match(/rpe\s*(\d+(?:[.,]\d+)?)/i);
+  const percentMatch = text.match(/(\d+(?:[.,]\d+)?)\s*%/);
+  const kgMatch = text.match(/(\d+(?:[.,]\d+)?)\s*kg/i);
+  if (percentMatch) {
+    prescription.load_type = 'percent_1rm';
+    prescription.load_value = toNumber(percentMatch[1]);
+  } else if (rpeMatch) {
+    prescription.load_type = 'rpe';
+    prescription.load_value = toNumber(rpeMatch[1]);
+  } else if (kgMatch) {
+    prescription.load_type = 'fixed_kg';
+    prescription.load_value = toNumber(kgMatch[1]);
+  }
+
+  const tempoMatch = text.match(/tempo\s*([\dx](?:-[\dx]){2,3})/i) || text.match(/\b(\d-\d-\d(?:-\d)?)\b/);
+  if (tempoMatch) {
+    prescription.tempo = tempoMatch[1].toUpperCase();
+  }
+
+  const restMatch =
+    text.match(/rest\s*(\d+)\s*(s|sec|seconds?|m|min|minutes?)?/i) ||
+    text.match(/(\d+)\s*(s|sec|seconds?|m|min|minutes?)\s*rest/i);
+  if (restMatch) {
+    const isMinutes = /^m/i.test(restMatch[2] || '');
+    prescription.rest_seconds = Number(restMatch[1]) * (isMinutes ? 60 : 1);
+  }
+
+  // Variations in free text only ever describe the final set
+  if (/amrap|max(?:imum)?\s*reps|to failure/i.test(text)) {
+    prescription.set_variations.push({ set_number: prescription.sets, type: 'amrap' });
+  } else if (/drop\s*-?\s*sets?/i.test(text)) {
+    prescription.set_variations.push({ set_number: prescription.sets, type: 'drop_set' });
+  }
+
+  return prescription;
+}
+
+export function getSetVariation(prescription: ExercisePrescription, setNumber: number): SetVariationType {
+  return prescription.set_variations.find(variation => variation.set_number === setNumber)?.type || 'standard';
+}
+
+export function formatReps(prescription: ExercisePrescription): string | null {
+  const { rep_min: repMin, rep_max: repMax } = prescription;
+  if (repMin === null && repMax === null) return null;
+  if (repMin === null || repMax === null || repMin === repMax) return String(repMin ?? repMax);
+  return `${repMin}-${repMax}`;
+}
+
+export function formatLoad(prescription: ExercisePrescription): string | null {
+  if (prescription.load_value === null) return null;
+  switch (prescription.load_type) {
+    case 'percent_1rm':
+      return `${prescription.load_value}% 1RM`;
+    case 'rpe':
+      return `RPE ${prescription.load_value}`;
+    case 'fixed_kg':
+      return `${prescription.load_value} kg`;
+    default:
+      return null;
+  }
+}
+
+export function formatRest(seconds: number | null): string | null {
+  if (!seconds) return null;
+  return seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+}
+
+// Human-readable summary, e.g. "3 × 8-12 @ RPE 8, tempo 3-1-1-0, rest 90s, AMRAP on set 3"
+export function formatPrescription(prescription: ExercisePrescription): string {
+  const reps = formatReps(prescription);
+  const load = formatLoad(prescription);
+  const rest = formatRest(prescription.rest_seconds);
+
+  const parts = [
+    `${reps ? `${prescription.sets} × ${reps}` : `${prescription.sets} sets`}${load ? ` @ ${load}` : ''}`,
+    prescription.tempo ? `tempo ${prescription.tempo}` : null,
+    rest ? `rest ${rest}` : null,
+    ...prescription.set_variations
+      .filter(variation => variation.type !== 'standard')
+      .sort((a, b) => a.set_number - b.set_number)
+      .map(variation => `${SET_VARIATION_LABELS[variation.type]} on set ${variation.set_number}`)
+  ];
+
+  return parts.filter(Boolean).join(', ');
+}
@@ -0,0 +1,113 @@
+// src/lib/programs.ts - Program phases, progression and client schedule generation
+import {
+  Program,
+  ProgramPhase,
+  ProgramPhaseType,
+  ProgressionRule,
+  WorkoutProgression
+} from '@/lib/api';
+import { addDays } from '@/lib/utils';
+
+export const PROGRAM_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export const PHASE_TYPE_LABELS: Record<ProgramPhaseType, string> = {
+  accumulation: 'Accumulation',
+  intensification: 'Intensification',
+  realization: 'Realization',
+  deload: 'Deload'
+};
+
+export const PHASE_TYPE_STYLES: Record<ProgramPhaseType, string> = {
+  accumulation: 'bg-blue-500',
+  intensification: 'bg-orange-500',
+  realization: 'bg-purple-500',
+  deload: 'bg-green-500'
+};
+
+export const MAX_PROGRAM_WEEKS = 52;
+
+export interface ScheduledProgramWorkout {
+  workout_id: string;
+  assigned_date: string;
+  program_week: number;
+  progression: WorkoutProgression;
+}
+
+export function getProgramWeeks(phases: ProgramPhase[]): number {
+  return phases.reduce((total, phase) => total + phase.weeks, 0);
+}
+
+// Phase covering a 1-based program week; weeks past the last phase stay in it
+export function getPhaseForWeek(phases: ProgramPhase[], week: number): ProgramPhase | undefined {
+  let lastWeek = 0;
+  for (const phase of phases) {
+    lastWeek += phase.weeks;
+    if (week <= lastWeek) return phase;
+  }
+  return phases[phases.length - 1];
+}
+
+export function formatProgressionRule(rule: ProgressionRule): string {
+  if (rule.target === 'none' || !rule.amount) return 'No automatic progression';
+  const amount = rule.target === 'load_kg' ? `+${rule.amount} kg` : `+${rule.amount} ${rule.amount === 1 ? 'rep' : 'reps'}`;
+  return `${amount} per ${rule.per}`;
+}
+
+export function formatWorkoutProgression(progression: WorkoutProgression): string {
+  const parts = [PHASE_TYPE_LABELS[progression.phase_type]];
+  if (progression.load_percent !== 100) parts.push(`${progression.load_percent}% load`);
+  if (progression.load_kg_delta) parts.push(`+${progression.load_kg_delta} kg`);
+  if (progression.reps_delta) parts.push(`+${progression.reps_delta} reps`);
+  return parts.join(' • ');
+}
+
+/**
+ * Lays the program's weekly template out from `startDate`. Week 1 begins on the start date,
+ * so a Monday slot in a program started on Wednesday lands on the following Monday.
+ * Deload weeks hold the accumulated progression instead of adding to it.
+ */
+export function buildProgramSchedule(program: Program, startDate: string): ScheduledProgramWorkout[] {
+  const template = [...(program.program_workouts || [])].sort((a, b) => a.day_of_week - b.day_of_week);
+  if (template.length === 0 || !startDate) return [];
+
+  // getUTCDay: 0 = Sunday, so shift to 1 = Monday … 7 = Sunday
+  const startWeekday = new Date(`${startDate}T00:00:00Z`).getUTCDay() || 7;
+  const { target, amount, per } = program.progression;
+  const sessionCounts = new Map<string, number>();
+  const schedule: ScheduledProgramWorkout[] = [];
+  let progressedWeeks = 0;
+
+  for (let week = 1; week <= program.duration_weeks; week++) {
+    const phase = getPhaseForWeek(program.phases, week);
+    const isDeload = phase?.type === 'deload';
+
+    const weekSlots = template
+      .map(slot => ({ slot, offset: (slot.day_of_week - startWeekday + 7) % 7 }))
+      .sort((a, b) => a.offset - b.offset);
+
+    weekSlots.forEach(({ slot, offset }) => {
+      const sessions = sessionCounts.get(slot.workout_id) || 0;
+      const steps = per === 'week' ? progressedWeeks : sessions;
+      const increase = target === 'none' ? 0 : steps * amount;
+
+      schedule.push({
+        workout_id: slot.workout_id,
+        assigned_date: addDays(startDate, (week - 1) * 7 + offset),
+        program_week: week,
+        progression: {
+          phase_name: phase?.name || PHASE_TYPE_LABELS.accumulation,
+          phase_type: phase?.type || 'accumulation',
+          load_percent: phase?.load_percent ?? 100,
+          load_kg_delta: target === 'load_kg' ? increase : 0,
+          reps_delta: target === 'reps' ? increase : 0
+        }
+      });
+
+      if (!isDeload) sessionCounts.set(slot.workout_id, sessions + 1);
+    });
+
+    if (!isDeload) progressedWeeks += 1;
+  }
+
+  return schedule;
+}
@@ -0,0 +1,217 @@
+// src/lib/queryCache.ts - Client-side cache for keyed queries with in-flight deduplication and stale-while-revalidate
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type QueryKey = readonly (string | number | null)[];
+
+export interface QueryOptions {
+  // How long a result counts as fresh; stale results are still shown while they revalidate
+  staleTime?: number;
+  // Refetch even when a fresh result is cached
+  force?: boolean;
+}
+
+export interface UseQueryOptions {
+  staleTime?: number;
+  enabled?: boolean;
+  // Refetch on this interval (ms) while enabled, for state another process changes, such as a webhook
+  refetchInterval?: number;
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  // True until the first result arrives; background revalidation only sets isFetching
+  isLoading: boolean;
+  isFetching: boolean;
+  refetch: () => Promise<void>;
+}
+
+interface CacheEntry {
+  key: QueryKey;
+  data: unknown;
+  error: unknown;
+  // 0 when the query has never resolved or was invalidated
+  updatedAt: number;
+  promise: Promise<unknown> | null;
+  fetcher: (() => Promise<unknown>) | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const EMPTY_ENTRY: CacheEntry = {
+  key: [],
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  promise: null,
+  fetcher: null
+};
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+const entries = new Map<string, CacheEntry>();
+const listeners = new Map<string, Set<() => void>>();
+// Bumped by clearQueryCache so requests started before a sign-out never write back
+let generation = 0;
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey) =>
+  prefix.length <= key.length && prefix.every((part, index) => key[index] === part);
+
+// Entries are replaced rather than mutated so useSyncExternalStore sees each change
+function updateEntry(hash: string, key: QueryKey, updates: Partial<CacheEntry>) {
+  entries.set(hash, { ...(entries.get(hash) ?? EMPTY_ENTRY), key, ...updates });
+  listeners.get(hash)?.forEach(listener => listener());
+}
+
+function subscribeToKey(hash: string, listener: () => void) {
+  const keyListeners = listeners.get(hash) ?? new Set<() => void>();
+  keyListeners.add(listener);
+  listeners.set(hash, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) listeners.delete(hash);
+  };
+}
+
+/**
+ * Resolve a query through the cache. Concurrent calls for the same key share one request,
+ * and a result younger than `staleTime` is returned without a round trip.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>, options: QueryOptions = {}): Promise<T> {
+  const { staleTime = DEFAULT_STALE_TIME, force = false } = options;
+  const hash = hashKey(key);
+  const entry = entries.get(hash);
+
+  if (entry?.promise && !force) {
+    return entry.promise as Promise<T>;
+  }
+
+  if (entry?.updatedAt && !force && Date.now() - entry.updatedAt < staleTime) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  const startedIn = generation;
+  const promise: Promise<T> = fetcher().then(
+    data => {
+      if (startedIn === generation && entries.get(hash)?.promise === promise) {
+        updateEntry(hash, key, { data, error: null, updatedAt: Date.now(), promise: null });
+      }
+      return data;
+    },
+    error => {
+      if (startedIn === generation && entries.get(hash)?.promise === promise) {
+        updateEntry(hash, key, { error, promise: null });
+      }
+      throw error;
+    }
+  );
+
+  updateEntry(hash, key, { promise, fetcher });
+  return promise;
+}
+
+/**
+ * Mark every query whose key starts with `prefix` as stale. Queries on screen refetch
+ * right away; the rest refetch the next time they are used. A request already in flight
+ * may have been answered before the change, so it is detached and its result never cached.
+ */
+export function invalidateQueries(prefix: QueryKey): void {
+  entries.forEach((entry, hash) => {
+    if (!matchesPrefix(entry.key, prefix)) return;
+
+    updateEntry(hash, entry.key, { updatedAt: 0, promise: null });
+
+    if (entry.fetcher && listeners.has(hash)) {
+      fetchQuery(entry.key, entry.fetcher, { force: true }).catch(() => {
+        // The error is kept on the entry for the subscribed components
+      });
+    }
+  });
+}
+
+/**
+ * Update a cached result in place, e.g. to merge a realtime change. Queries that
+ * have not loaded yet are left alone, since their first fetch will include the change.
+ */
+export function setQueryData<T>(key: QueryKey, updater: (current: T) => T): void {
+  const hash = hashKey(key);
+  const entry = entries.get(hash);
+  if (!entry || entry.data === undefined) return;
+
+  updateEntry(hash, key, { data: updater(entry.data as T) });
+}
+
+/**
+ * Drop every cached result, e.g. when the signed-in user changes
+ */
+export function clearQueryCache(): void {
+  generation += 1;
+  entries.clear();
+  listeners.forEach(keyListeners => keyListeners.forEach(listener => listener()));
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Subscribe a component to a cached query. Cached data is returned immediately and
+ * revalidated in the background once it is older than `staleTime`.
+ */
+export function useQuery<T>(key: QueryKey, fetcher: () => Promise<T>, options: UseQueryOptions = {}): QueryResult<T> {
+  const { staleTime = DEFAULT_STALE_TIME, enabled = true, refetchInterval } = options;
+  const hash = hashKey(key);
+
+  // Keys and fetchers are often inline, so the latest ones are read through refs
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    keyRef.current = key;
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribe = useCallback((listener: () => void) => subscribeToKey(hash, listener), [hash]);
+  const getSnapshot = useCallback(() => entries.get(hash) ?? EMPTY_ENTRY, [hash]);
+  const entry = useSyncExternalStore(subscribe, getSnapshot);
+
+  const load = useCallback((force: boolean) => {
+    return fetchQuery(keyRef.current, () => fetcherRef.current(), { staleTime, force })
+      .then(() => undefined)
+      .catch(() => {
+        // Surfaced through `error`
+      });
+  }, [staleTime]);
+
+  useEffect(() => {
+    if (enabled) load(false);
+  }, [hash, enabled, load]);
+
+  useEffect(() => {
+    if (!enabled || !refetchInterval) return;
+    const interval = window.setInterval(() => load(true), refetchInterval);
+    return () => window.clearInterval(interval);
+  }, [hash, enabled, refetchInterval, load]);
+
+  const refetch = useCallback(() => load(true), [load]);
+
+  return {
+    data: entry.data as T | undefined,
+    error: entry.error,
+    isLoading: enabled && entry.data === undefined && (entry.promise !== null || !entry.error),
+    isFetching: entry.promise !== null,
+    refetch
+  };
+}
@@ -0,0 +1,162 @@
+// src/lib/realtime.ts - Supabase realtime subscriptions and helpers for merging changes into cached lists
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabaseClient';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type RealtimeTable =
+  | 'client_progress'
+  | 'client_workouts'
+  | 'client_menu_plans'
+  | 'client_trainers'
+  | 'messages'
+  | 'conversations'
+  | 'wellbeing_checkins';
+
+export interface RealtimeSubscription {
+  table: RealtimeTable;
+  // Postgrest-style filter, e.g. `client_id=eq.<id>`; rows are still limited by RLS
+  filter?: string;
+}
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  // Empty for deletes
+  new: Record<string, unknown>;
+  // Only the primary key, unless the table uses REPLICA IDENTITY FULL
+  old: Record<string, unknown>;
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Apply a row-level change to a cached list. Updates are merged into the existing item,
+ * so fields joined in by the original query are kept.
+ */
+export function mergeRealtimeRow<T extends { id: string }>(rows: T[], change: RealtimeChange): T[] {
+  const row = change.new as Partial<T> & { id?: string };
+
+  switch (change.eventType) {
+    case 'INSERT':
+      return rows.some(item => item.id === row.id) ? rows : [...rows, row as T];
+    case 'UPDATE':
+      return rows.map(item => (item.id === row.id ? { ...item, ...row } : item));
+    case 'DELETE':
+      return rows.filter(item => item.id !== change.old.id);
+    default:
+      return rows;
+  }
+}
+
+/**
+ * Filter matching any of the given ids, or undefined when there are none to watch
+ */
+export function inFilter(column: string, ids: string[]): string | undefined {
+  return ids.length > 0 ? `${column}=in.(${ids.join(',')})` : undefined;
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Listen for inserts, updates and deletes on the given tables for as long as the
+ * component is mounted. The channel is rebuilt only when the subscriptions change.
+ */
+export function useRealtimeChanges(
+  channelName: string,
+  subscriptions: RealtimeSubscription[],
+  onChange: (change: RealtimeChange) => void,
+  enabled: boolean = true
+): void {
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  const subscriptionsKey = JSON.stringify(subscriptions);
+
+  useEffect(() => {
+    const tables: RealtimeSubscription[] = JSON.parse(subscriptionsKey);
+    if (!enabled || tables.length === 0) return;
+
+    const channel = supabase.channel(channelName);
+
+    tables.forEach(({ table, filter }) => {
+      channel.on('postgres_changes', { event: '*', schema: 'public', table, filter }, payload => {
+        onChangeRef.current({
+          table,
+          eventType: payload.eventType,
+          new: payload.new,
+          old: payload.old
+        });
+      });
+    });
+
+    channel.subscribe((status, error) => {
+      if (status === 'CHANNEL_ERROR') {
+        console.error(`Realtime channel ${channelName} failed:`, error);
+      }
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [channelName, subscriptionsKey, enabled]);
+}
+
+/**
+ * Exchange ephemeral events, such as typing indicators, with everyone on the same channel.
+ * Nothing is stored; events sent while no one is listening are lost.
+ */
+export function useBroadcast<T extends Record<string, unknown>>(
+  channelName: string,
+  event: string,
+  onMessage: (payload: T) => void,
+  enabled: boolean = true
+): (payload: T) => void {
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const onMessageRef = useRef(onMessage);
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase.channel(channelName);
+    channel.on('broadcast', { event }, ({ payload }) => onMessageRef.current(payload as T));
+    channel.subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [channelName, event, enabled]);
+
+  return useCallback((payload: T) => {
+    channelRef.current?.send({ type: 'broadcast', event, payload });
+  }, [event]);
+}
+
+/**
+ * Short descriptions of what changed since the user last dismissed them
+ */
+export function useActivityFeed() {
+  const [activity, setActivity] = useState<string[]>([]);
+
+  const addActivity = useCallback((message: string) => {
+    setActivity(prev => (prev.includes(message) ? prev : [...prev, message]));
+  }, []);
+
+  const clearActivity = useCallback(() => setActivity([]), []);
+
+  return { activity, addActivity, clearActivity };
+}
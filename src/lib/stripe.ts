@@ -1,6 +1,7 @@
 // src/lib/stripe.ts
 import { loadStripe, Stripe } from '@stripe/stripe-js';
 import { supabase } from '@/lib/supabaseClient';
+import { ApiError } from '@/lib/errors';
 
 let stripePromise: Promise<Stripe | null>;
 
@@ -25,12 +26,59 @@ export interface CreateSubscriptionResponse {
   error?: string;
 }
 
+// Switching plan or cycle on a running subscription; the edge function prorates the unused time
+export interface ChangeSubscriptionRequest {
+  subscriptionTierId: string;
+  billingCycle: 'monthly' | 'yearly';
+}
+
+export interface ChangeSubscriptionResponse {
+  success: boolean;
+  // Set when the prorated invoice needs the card confirmed, e.g. for 3D Secure
+  clientSecret?: string;
+  // What the prorated invoice charges now, in minor units like the invoices below
+  amountDue?: number;
+  message?: string;
+  error?: string;
+}
+
 export interface CancelSubscriptionResponse {
   success: boolean;
   message?: string;
   error?: string;
 }
 
+// Amounts are in the currency's minor unit (haléře for CZK), as Stripe reports them
+export interface StripeInvoice {
+  id: string;
+  number: string | null;
+  status: 'draft' | 'open' | 'paid' | 'uncollectible' | 'void';
+  amount_due: number;
+  amount_paid: number;
+  currency: string;
+  created: string;
+  period_start: string;
+  period_end: string;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+}
+
+export interface UpcomingInvoice {
+  amount_due: number;
+  currency: string;
+  // When Stripe will charge the saved card; null if the subscription ends instead
+  next_payment_attempt: string | null;
+  lines: { description: string; amount: number }[];
+}
+
+export interface SavedPaymentMethod {
+  id: string;
+  brand: string;
+  last4: string;
+  exp_month: number;
+  exp_year: number;
+}
+
 export class StripeService {
   static async createSubscription(request: CreateSubscriptionRequest): Promise<CreateSubscriptionResponse> {
     try {
@@ -61,6 +109,35 @@ export class StripeService {
     }
   }
 
+  static async changeSubscription(request: ChangeSubscriptionRequest): Promise<ChangeSubscriptionResponse> {
+    try {
+      const { data: session } = await supabase.auth.getSession();
+      
+      if (!session?.session?.access_token) {
+        throw new Error('Not authenticated');
+      }
+
+      const { data, error } = await supabase.functions.invoke('update-subscription', {
+        body: request,
+        headers: {
+          Authorization: `Bearer ${session.session.access_token}`,
+        },
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error changing subscription:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to change subscription'
+      };
+    }
+  }
+
   static async cancelSubscription(cancelAtPeriodEnd = true): Promise<CancelSubscriptionResponse> {
     try {
       const { data: session } = await supabase.auth.getSession();
@@ -120,4 +197,61 @@ export class StripeService {
       };
     }
   }
-}
\ No newline at end of file
+
+  // ==========================================================================
+  // BILLING MANAGEMENT - unlike the calls above these throw, so they feed useQuery and showErrorToast
+  // ==========================================================================
+
+  private static async invokeBillingFunction<T>(functionName: string, fallbackMessage: string, body?: object): Promise<T> {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session?.session?.access_token) {
+      throw new ApiError('Not authenticated');
+    }
+
+    const { data, error } = await supabase.functions.invoke(functionName, {
+      body,
+      headers: {
+        Authorization: `Bearer ${session.session.access_token}`,
+      },
+    });
+
+    if (error || !data?.success) {
+      throw new ApiError(data?.error || fallbackMessage, { cause: error });
+    }
+
+    return data;
+  }
+
+  // Newest first
+  static async getInvoices(): Promise<StripeInvoice[]> {
+    const data = await StripeService.invokeBillingFunction<{ invoices: StripeInvoice[] }>('list-invoices', 'Failed to load invoices');
+    return data.invoices;
+  }
+
+  // Null when nothing will be billed again, e.g. on the free plan or once a cancellation takes effect
+  static async getUpcomingInvoice(): Promise<UpcomingInvoice | null> {
+    const data = await StripeService.invokeBillingFunction<{ invoice: UpcomingInvoice | null }>('get-upcoming-invoice', 'Failed to load upcoming invoice');
+    return data.invoice;
+  }
+
+  static async getPaymentMethod(): Promise<SavedPaymentMethod | null> {
+    const data = await StripeService.invokeBillingFunction<{ paymentMethod: SavedPaymentMethod | null }>('get-payment-method', 'Failed to load payment method');
+    return data.paymentMethod;
+  }
+
+  // The card form confirms this SetupIntent; nothing is charged
+  static async createSetupIntent(): Promise<string> {
+    const data = await StripeService.invokeBillingFunction<{ clientSecret: string }>('create-setup-intent', 'Failed to start card update');
+    return data.clientSecret;
+  }
+
+  // Makes the confirmed card the default for the customer and their subscription's future invoices
+  static async setDefaultPaymentMethod(paymentMethodId: string): Promise<void> {
+    await StripeService.invokeBillingFunction('update-payment-method', 'Failed to save card', { paymentMethodId });
+  }
+
+  // Undoes cancelSubscription(true) while the period is still running
+  static async resumeSubscription(): Promise<void> {
+    await StripeService.invokeBillingFunction('resume-subscription', 'Failed to resume subscription');
+  }
+}
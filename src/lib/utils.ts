@@ -1,7 +1,41 @@
 // lib/utils.ts
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { UserType } from '@/lib/api';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
-}
\ No newline at end of file
+}
+
+export function formatRelativeDate(dateString: string | null | undefined): string {
+  if (!dateString) return 'Never';
+
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+
+  const startOfDay = (value: Date) => new Date(value.getFullYear(), value.getMonth(), value.getDate()).getTime();
+  const diffDays = Math.round((startOfDay(new Date()) - startOfDay(date)) / (1000 * 60 * 60 * 24));
+
+  if (diffDays === 0) return 'Today';
+  if (diffDays === 1) return 'Yesterday';
+  if (diffDays > 1 && diffDays < 30) return `${diffDays} days ago`;
+
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Date-only arithmetic on YYYY-MM-DD strings, done in UTC so DST never shifts the day
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Today's date in the user's timezone as YYYY-MM-DD
+export function getTodayDate(): string {
+  return new Date().toLocaleDateString('en-CA');
+}
+
+export function getDashboardRoute(userType: UserType): string {
+  return userType === USER_TYPES.CLIENT ? DASHBOARD_ROUTES.CLIENT.DASHBOARD : DASHBOARD_ROUTES.TRAINER.DASHBOARD;
+}
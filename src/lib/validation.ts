@@ -0,0 +1,9 @@
+// src/lib/validation.ts - Shared form validation rules
+import { z } from 'zod';
+
+// Used wherever a user chooses a password, so sign-up and reset enforce the same rules
+export const passwordSchema = z.string()
+  .min(8, { message: "Password must be at least 8 characters." })
+  .regex(/[A-Z]/, { message: "Password must contain at least one uppercase letter." })
+  .regex(/[a-z]/, { message: "Password must contain at least one lowercase letter." })
+  .regex(/[0-9]/, { message: "Password must contain at least one number." });
@@ -0,0 +1,151 @@
+// src/lib/wellbeing.ts - "Table of Feelings" scales, heatmap colours and the trends trainers are warned about
+import { ClientWorkout, SorenessRegion, WellbeingCheckin } from '@/lib/api';
+import { addDays } from '@/lib/utils';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type WellbeingMetric = 'mood' | 'energy' | 'sleep_hours' | 'stress' | 'soreness';
+
+export interface WellbeingFlag {
+  metric: WellbeingMetric;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const WELLBEING_HISTORY_DAYS = 14;
+
+export const WELLBEING_METRICS: WellbeingMetric[] = ['mood', 'energy', 'sleep_hours', 'stress', 'soreness'];
+
+export const WELLBEING_METRIC_LABELS: Record<WellbeingMetric, string> = {
+  mood: 'Mood',
+  energy: 'Energy',
+  sleep_hours: 'Sleep',
+  stress: 'Stress',
+  soreness: 'Soreness'
+};
+
+export const SCALE_VALUES = [1, 2, 3, 4, 5];
+
+export const SCALE_LABELS: Record<'mood' | 'energy' | 'stress', string[]> = {
+  mood: ['Awful', 'Low', 'Okay', 'Good', 'Great'],
+  energy: ['Drained', 'Tired', 'Okay', 'Energetic', 'Full'],
+  stress: ['Calm', 'Relaxed', 'Moderate', 'High', 'Overwhelmed']
+};
+
+export const SORENESS_REGIONS: SorenessRegion[] = ['shoulders', 'arms', 'chest', 'back', 'core', 'legs'];
+
+export const SORENESS_REGION_LABELS: Record<SorenessRegion, string> = {
+  shoulders: 'Shoulders',
+  arms: 'Arms',
+  chest: 'Chest',
+  back: 'Back',
+  core: 'Core',
+  legs: 'Legs'
+};
+
+export const SORENESS_LEVEL_LABELS = ['None', 'Mild', 'Moderate', 'Severe'];
+
+export const MAX_SLEEP_HOURS = 24;
+
+// A metric has to be poor this many days running before the trainer is warned
+const TREND_DAYS = 3;
+// …and the run counts as critical once it reaches this long
+const CRITICAL_TREND_DAYS = 5;
+
+// Poor-day thresholds per metric
+const POOR_DAY: Record<WellbeingMetric, (checkin: WellbeingCheckin) => boolean> = {
+  mood: checkin => checkin.mood <= 2,
+  energy: checkin => checkin.energy <= 2,
+  sleep_hours: checkin => checkin.sleep_hours < 6,
+  stress: checkin => checkin.stress >= 4,
+  soreness: checkin => getMaxSoreness(checkin) >= 2
+};
+
+const TREND_MESSAGES: Record<WellbeingMetric, (days: number) => string> = {
+  mood: days => `Low mood for ${days} days in a row`,
+  energy: days => `Low energy for ${days} days in a row`,
+  sleep_hours: days => `Under 6 hours of sleep for ${days} nights in a row`,
+  stress: days => `High stress for ${days} days in a row`,
+  soreness: days => `Moderate or worse soreness for ${days} days in a row`
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+export function getMaxSoreness(checkin: Pick<WellbeingCheckin, 'soreness'>): number {
+  return Math.max(0, ...Object.values(checkin.soreness).map(level => level ?? 0));
+}
+
+// How good the day was for this metric, from 0 (worst) to 1 (best)
+export function getWellbeingScore(metric: WellbeingMetric, checkin: WellbeingCheckin): number {
+  switch (metric) {
+    case 'mood':
+      return (checkin.mood - 1) / 4;
+    case 'energy':
+      return (checkin.energy - 1) / 4;
+    case 'stress':
+      return (5 - checkin.stress) / 4;
+    case 'sleep_hours':
+      return Math.min(Math.max((checkin.sleep_hours - 4) / 4, 0), 1);
+    case 'soreness':
+      return (3 - getMaxSoreness(checkin)) / 3;
+  }
+}
+
+export function getWellbeingColor(score: number): string {
+  if (score >= 0.75) return 'bg-green-500 text-white';
+  if (score >= 0.5) return 'bg-green-200 text-green-900';
+  if (score >= 0.25) return 'bg-yellow-300 text-yellow-900';
+  return 'bg-red-400 text-white';
+}
+
+export function formatWellbeingValue(metric: WellbeingMetric, checkin: WellbeingCheckin): string {
+  switch (metric) {
+    case 'sleep_hours':
+      return `${checkin.sleep_hours}h`;
+    case 'soreness':
+      return String(getMaxSoreness(checkin));
+    default:
+      return String(checkin[metric]);
+  }
+}
+
+/**
+ * Runs of poor days that reach up to the latest check-in, so trainers are only warned
+ * about what is still going on. A missing check-in breaks the run.
+ */
+export function detectWellbeingFlags(checkins: WellbeingCheckin[]): WellbeingFlag[] {
+  const byDate = new Map(checkins.map(checkin => [checkin.date, checkin]));
+  const latest = [...byDate.keys()].sort().pop();
+  if (!latest) return [];
+
+  return WELLBEING_METRICS.flatMap(metric => {
+    let days = 0;
+    let date = latest;
+    while (byDate.has(date) && POOR_DAY[metric](byDate.get(date)!)) {
+      days += 1;
+      date = addDays(date, -1);
+    }
+
+    if (days < TREND_DAYS) return [];
+    return [{
+      metric,
+      severity: days >= CRITICAL_TREND_DAYS ? 'critical' as const : 'warning' as const,
+      message: TREND_MESSAGES[metric](days)
+    }];
+  });
+}
+
+// Workouts scheduled before `today` in the window that were never completed
+export function countMissedWorkouts(workouts: Pick<ClientWorkout, 'assigned_date' | 'status'>[], fromDate: string, today: string): number {
+  return workouts.filter(workout =>
+    workout.assigned_date >= fromDate && workout.assigned_date < today && workout.status !== 'completed'
+  ).length;
+}
@@ -3,50 +3,30 @@ import React, { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/pages/features/auth/hooks/useAuth';
 import { supabase } from '@/lib/supabaseClient';
+import { AUTH_ROUTES } from '@/lib/constants';
+import { getDashboardRoute } from '@/lib/utils';
 
 function App() {
-  const { user, isLoading } = useAuth();
+  const { user, profile, isLoading, isProfileLoading } = useAuth();
   const navigate = useNavigate();
 
-  // Check authentication status on component mount
+  // Route from the cached profile once auth has settled
   useEffect(() => {
-    const checkAuth = async () => {
-      if (isLoading) return;
-
-      // Get the session from supabase
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        // If no session, redirect to login
-        navigate('/login');
-        return;
-      }
-
-      // Get user type to determine where to redirect
-      const { data: userData, error } = await supabase
-        .from('users')
-        .select('user_type')
-        .eq('id', session.user.id)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        console.error('Error fetching user type:', error);
-        navigate('/login');
-        return;
-      }
-
-      // Redirect based on user type
-      if (userData?.user_type === 'client') {
-        navigate('/client/dashboard');
-      } else if (userData?.user_type === 'trainer') {
-        navigate('/trainer/dashboard');
-      } else {
-        navigate('/user-type-selection');
-      }
-    };
-
-    checkAuth();
-  }, [isLoading, navigate, user]);
+    if (isLoading || isProfileLoading) return;
+
+    if (!user) {
+      // If no session, redirect to login
+      navigate(AUTH_ROUTES.LOGIN);
+      return;
+    }
+
+    // Redirect based on user type
+    if (profile?.user_type) {
+      navigate(getDashboardRoute(profile.user_type));
+    } else {
+      navigate(AUTH_ROUTES.USER_TYPE_SELECTION);
+    }
+  }, [isLoading, isProfileLoading, navigate, user, profile]);
 
   // Add auth state change listener to prevent unwanted logouts
   useEffect(() => {
@@ -63,7 +43,7 @@ function App() {
   }, [navigate]);
 
   // Show loading while checking auth
-  if (isLoading) {
+  if (isLoading || isProfileLoading) {
     return (
       <div className="flex justify-center items-center min-h-screen bg-gray-50">
         <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-b-4 border-[#007bff]"></div>
@@ -1,43 +1,30 @@
 // src/pages/client/pages/ClientDashboard.tsx - Cleaned and refactored
 import React, { useState, useEffect, useCallback } from 'react';
 import DashboardLayout from '@/components/organisms/DashboardLayout';
-import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import { Card, CardContent } from '@/components/organisms/Card';
 import StatsOverview from '@/components/features/client/StatsOverview';
-import { ClientAPI, AuthAPI } from '@/lib/api';
+import NewActivityIndicator from '@/components/molecules/NewActivityIndicator';
+import { ClientAPI, ClientProgress, ClientStats } from '@/lib/api';
 import { showSuccessToast, showErrorToast } from '@/lib/errors';
 import { USER_TYPES } from '@/lib/constants';
-import { UserProfile, ClientProgress } from '@/lib/types';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import { useClientLiveUpdates } from '@/pages/features/client/hooks/useLiveUpdates';
 
 // Import components
 import ClientSubscriptionBox from '@/components/features/client/ClientSubscriptionBox';
 import MeasurementTracker, { MeasurementFormValues } from '@/components/features/client/MeasurementTracker';
 import ProgressGraph from '@/components/features/client/ProgressGraph';
 import RecentWorkoutsList from '@/components/features/client/RecentWorkoutsList';
+import WellbeingCheckinCard from '@/components/features/client/WellbeingCheckinCard';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-interface ClientStat {
-  value: number;
-  change: number;
-  unit: string;
-}
-
-interface ClientStats {
-  currentWeight: ClientStat;
-  bodyFat: ClientStat;
-  muscleGain: ClientStat;
-}
-
 interface DashboardState {
-  profile: UserProfile | null;
   measurements: ClientProgress[];
   clientStats: ClientStats;
-  refreshTrigger: number;
   loading: {
-    profile: boolean;
     measurements: boolean;
     stats: boolean;
   };
@@ -54,12 +41,9 @@ const INITIAL_STATS: ClientStats = {
 };
 
 const INITIAL_STATE: DashboardState = {
-  profile: null,
   measurements: [],
   clientStats: INITIAL_STATS,
-  refreshTrigger: 0,
   loading: {
-    profile: true,
     measurements: true,
     stats: true
   }
@@ -71,6 +55,9 @@ const INITIAL_STATE: DashboardState = {
 
 const ClientDashboard: React.FC = () => {
   const [state, setState] = useState<DashboardState>(INITIAL_STATE);
+  // Loaded by the route guard before this page renders
+  const { profile } = useAuth();
+  const { activity, clearActivity } = useClientLiveUpdates();
 
   // Update state helper
   const updateState = useCallback((updates: Partial<DashboardState>) => {
@@ -85,31 +72,17 @@ const ClientDashboard: React.FC = () => {
     }));
   }, []);
 
-  // Fetch user profile
-  const fetchProfile = useCallback(async () => {
-    try {
-      updateLoading({ profile: true });
-      const profileData = await AuthAPI.getUserProfile();
-      updateState({ profile: profileData });
-    } catch (error: any) {
-      console.error('Failed to load profile:', error);
-      showErrorToast(error, 'Failed to load profile data');
-    } finally {
-      updateLoading({ profile: false });
-    }
-  }, [updateState, updateLoading]);
-
   // Fetch measurements and calculate stats
   const fetchMeasurementsAndStats = useCallback(async () => {
     try {
       updateLoading({ measurements: true, stats: true });
 
       const clientMeasurements = await ClientAPI.getClientMeasurements(30);
-      updateState({ measurements: clientMeasurements || [] });
+      updateState({ measurements: clientMeasurements });
       
-      if (clientMeasurements && clientMeasurements.length > 0) {
+      if (clientMeasurements.length > 0) {
         const stats = await ClientAPI.getClientStats();
-        updateState({ clientStats: stats || INITIAL_STATS });
+        updateState({ clientStats: stats });
       } else {
         updateState({ clientStats: INITIAL_STATS });
       }
@@ -139,33 +112,20 @@ const ClientDashboard: React.FC = () => {
         notes: measurementData.notes || null
       };
 
-      const success = await ClientAPI.addMeasurement(apiData);
-      
-      if (success) {
-        await fetchMeasurementsAndStats();
-        updateState({ refreshTrigger: prev => prev.refreshTrigger + 1 });
-        showSuccessToast('Measurement added successfully');
-      } else {
-        throw new Error('Failed to add measurement');
-      }
+      await ClientAPI.addMeasurement(apiData);
+      await fetchMeasurementsAndStats();
+      showSuccessToast('Measurement added successfully');
     } catch (error: any) {
       console.error('Error adding measurement:', error);
       showErrorToast(error, 'Failed to add measurement');
       throw error;
     }
-  }, [fetchMeasurementsAndStats, updateState]);
+  }, [fetchMeasurementsAndStats]);
 
   // Initialize data on mount
   useEffect(() => {
-    const initializeData = async () => {
-      await Promise.all([
-        fetchProfile(),
-        fetchMeasurementsAndStats()
-      ]);
-    };
-    
-    initializeData();
-  }, [fetchProfile, fetchMeasurementsAndStats]);
+    fetchMeasurementsAndStats();
+  }, [fetchMeasurementsAndStats]);
 
   // ============================================================================
   // RENDER HELPERS
@@ -174,22 +134,13 @@ const ClientDashboard: React.FC = () => {
   const renderWelcomeSection = () => (
     <Card>
       <CardContent className="p-6">
-        {state.loading.profile ? (
-          <div className="flex items-center space-x-4">
-            <LoadingSpinner size="sm" />
-            <p>Loading profile...</p>
-          </div>
-        ) : (
-          <>
-            <h2 className="text-xl font-semibold text-gray-800">
-              Welcome back, {state.profile?.full_name || 'Client'}
-            </h2>
-            <p className="mt-2 text-gray-600">
-              Track your fitness journey and achieve your goals. 
-              Here's an overview of your progress.
-            </p>
-          </>
-        )}
+        <h2 className="text-xl font-semibold text-gray-800">
+          Welcome back, {profile?.full_name || 'Client'}
+        </h2>
+        <p className="mt-2 text-gray-600">
+          Track your fitness journey and achieve your goals. 
+          Here's an overview of your progress.
+        </p>
       </CardContent>
     </Card>
   );
@@ -199,6 +150,7 @@ const ClientDashboard: React.FC = () => {
       {/* Left Column - Subscription Box & Measurements */}
       <div className="lg:col-span-1 space-y-6">
         <ClientSubscriptionBox />
+        <WellbeingCheckinCard />
         <MeasurementTracker 
           measurements={state.measurements}
           onAddMeasurement={handleAddMeasurement}
@@ -208,7 +160,7 @@ const ClientDashboard: React.FC = () => {
       
       {/* Right Column - Progress Graph & Recent Workouts */}
       <div className="lg:col-span-2 space-y-6">
-        <ProgressGraph refreshTrigger={state.refreshTrigger} />
+        <ProgressGraph />
         <RecentWorkoutsList />
       </div>
     </div>
@@ -223,6 +175,8 @@ const ClientDashboard: React.FC = () => {
       <div className="space-y-6">
         {renderWelcomeSection()}
 
+        <NewActivityIndicator activity={activity} onDismiss={clearActivity} />
+
         <StatsOverview 
           currentWeight={state.clientStats.currentWeight}
           bodyFat={state.clientStats.bodyFat}
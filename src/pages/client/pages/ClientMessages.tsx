@@ -0,0 +1,19 @@
+// src/pages/client/pages/ClientMessages.tsx - Conversations with the client's trainers
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import MessagingInbox from '@/components/features/messaging/MessagingInbox';
+import { USER_TYPES } from '@/lib/constants';
+
+export default function ClientMessages() {
+  return (
+    <DashboardLayout userType={USER_TYPES.CLIENT}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Messages</h1>
+          <p className="text-gray-600">Ask your trainer questions and share your progress</p>
+        </div>
+
+        <MessagingInbox userType={USER_TYPES.CLIENT} />
+      </div>
+    </DashboardLayout>
+  );
+}
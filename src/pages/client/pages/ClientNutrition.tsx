@@ -0,0 +1,338 @@
+// src/pages/client/pages/ClientNutrition.tsx - Today's meals from the active menu plan with daily check-off
+import { useState, useEffect, useCallback } from 'react';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import {
+  ClientAPI,
+  ClientMenuPlan,
+  MealCheckin,
+  MealCheckinStatus,
+  MenuPlanItem,
+  NutritionAdherence
+} from '@/lib/api';
+import { showErrorToast } from '@/lib/errors';
+import { USER_TYPES } from '@/lib/constants';
+import { getMacroBreakdown, MACRO_LABELS, MACRO_STYLES, MacroKey } from '@/lib/macros';
+import {
+  MEAL_CHECKIN_LABELS,
+  MEAL_CHECKIN_STYLES,
+  calculateAdherenceScore,
+  getAdherenceColor,
+  getAverageAdherence
+} from '@/lib/nutrition';
+import { addDays, getTodayDate } from '@/lib/utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CHECKIN_STATUSES: MealCheckinStatus[] = ['eaten', 'substituted', 'skipped'];
+const HISTORY_DAYS = 7;
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short' });
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function ClientNutrition() {
+  const today = getTodayDate();
+
+  const [loading, setLoading] = useState(true);
+  const [clientPlan, setClientPlan] = useState<ClientMenuPlan | null>(null);
+  const [checkins, setCheckins] = useState<MealCheckin[]>([]);
+  const [history, setHistory] = useState<NutritionAdherence[]>([]);
+  const [savingMenuId, setSavingMenuId] = useState<string | null>(null);
+  const [substitutingMenuId, setSubstitutingMenuId] = useState<string | null>(null);
+  const [substituteNote, setSubstituteNote] = useState('');
+
+  const fetchNutrition = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [plan, todayCheckins, adherence] = await Promise.all([
+        ClientAPI.getActiveMenuPlan(today),
+        ClientAPI.getMealCheckins(today),
+        ClientAPI.getAdherenceHistory(HISTORY_DAYS)
+      ]);
+      setClientPlan(plan);
+      setCheckins(todayCheckins);
+      setHistory(adherence);
+    } catch (error) {
+      showErrorToast(error, 'Failed to load your nutrition plan');
+    } finally {
+      setLoading(false);
+    }
+  }, [today]);
+
+  useEffect(() => {
+    fetchNutrition();
+  }, [fetchNutrition]);
+
+  const getCheckin = (menuId: string) => checkins.find(checkin => checkin.menu_id === menuId);
+
+  // Keeps today's bar in the history in step with the latest saved score
+  const applyAdherence = (adherence: NutritionAdherence) => {
+    setHistory(prev => [...prev.filter(item => item.date !== adherence.date), adherence]
+      .sort((a, b) => a.date.localeCompare(b.date)));
+  };
+
+  const handleCheckin = async (item: MenuPlanItem, status: MealCheckinStatus, note?: string) => {
+    if (!clientPlan) return;
+
+    try {
+      setSavingMenuId(item.menu_id);
+      const existing = getCheckin(item.menu_id);
+      const isUndo = existing?.status === status && status !== 'substituted';
+
+      const adherence = isUndo
+        ? await ClientAPI.clearMealCheckin(item.menu_id, today)
+        : await ClientAPI.saveMealCheckin({
+          client_menu_plan_id: clientPlan.id,
+          menu_id: item.menu_id,
+          date: today,
+          status,
+          substitute_note: note
+        });
+
+      setCheckins(await ClientAPI.getMealCheckins(today));
+      applyAdherence(adherence);
+      setSubstitutingMenuId(null);
+      setSubstituteNote('');
+    } catch (error) {
+      showErrorToast(error, 'Failed to save meal check-in');
+    } finally {
+      setSavingMenuId(null);
+    }
+  };
+
+  const handleStatusClick = (item: MenuPlanItem, status: MealCheckinStatus) => {
+    if (status === 'substituted') {
+      setSubstitutingMenuId(item.menu_id);
+      setSubstituteNote(getCheckin(item.menu_id)?.substitute_note || '');
+      return;
+    }
+    handleCheckin(item, status);
+  };
+
+  const renderMealCard = (item: MenuPlanItem, index: number, percent: number) => {
+    const meal = item.menu;
+    if (!meal) return null;
+
+    const checkin = getCheckin(item.menu_id);
+    const isSaving = savingMenuId === item.menu_id;
+
+    return (
+      <Card key={item.id}>
+        <CardContent className="pt-6">
+          <div className="flex items-start justify-between mb-2">
+            <div>
+              <p className="text-xs text-gray-500">Meal {index + 1}</p>
+              <h3 className="font-medium capitalize">{meal.meal_type}</h3>
+            </div>
+            {checkin && (
+              <span className={`px-2 py-1 rounded text-xs border ${MEAL_CHECKIN_STYLES[checkin.status]}`}>
+                {MEAL_CHECKIN_LABELS[checkin.status]}
+              </span>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-700 mb-2">{meal.food_details}</p>
+          {meal.ingredients && meal.ingredients.length > 0 && (
+            <ul className="text-xs text-gray-500 mb-2 space-y-0.5">
+              {meal.ingredients.map(ingredient => (
+                <li key={ingredient.id}>{ingredient.grams}g {ingredient.food?.name}</li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-600 mb-4">
+            {meal.calories}kcal • {percent}% | P: {meal.protein}g | C: {meal.carbohydrates}g | F: {meal.fat}g
+          </p>
+          {meal.note && <p className="text-xs text-gray-500 italic mb-4">{meal.note}</p>}
+
+          {checkin?.status === 'substituted' && checkin.substitute_note && substitutingMenuId !== item.menu_id && (
+            <p className="text-xs text-yellow-800 bg-yellow-50 rounded p-2 mb-4">Instead: {checkin.substitute_note}</p>
+          )}
+
+          {substitutingMenuId === item.menu_id ? (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                value={substituteNote}
+                onChange={(event) => setSubstituteNote(event.target.value)}
+                placeholder="What did you eat instead?"
+                className="flex-1"
+              />
+              <Button
+                size="sm"
+                variant="orange"
+                isLoading={isSaving}
+                onClick={() => handleCheckin(item, 'substituted', substituteNote.trim())}
+              >
+                Save
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setSubstitutingMenuId(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {CHECKIN_STATUSES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => handleStatusClick(item, status)}
+                  disabled={isSaving}
+                  className={`px-3 py-1.5 rounded-md text-sm border transition-colors disabled:opacity-50 ${
+                    checkin?.status === status ? MEAL_CHECKIN_STYLES[status] : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {status === 'eaten' && <Icon name="check" size={14} className="inline mr-1" />}
+                  {MEAL_CHECKIN_LABELS[status]}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderDailySummary = () => {
+    const meals = clientPlan?.menu_plan?.meals || [];
+    const breakdown = getMacroBreakdown(meals);
+    const score = calculateAdherenceScore(meals.length, checkins);
+    const macros = Object.keys(MACRO_LABELS) as MacroKey[];
+
+    return (
+      <Card>
+        <CardHeader><CardTitle>Today's Totals</CardTitle></CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            <div className="text-center p-3 bg-blue-50 rounded-lg">
+              <p className="text-2xl font-bold text-blue-600">{breakdown.totals.calories}</p>
+              <p className="text-xs text-gray-600">Calories</p>
+            </div>
+            {macros.map(macro => (
+              <div key={macro} className="text-center p-3 bg-gray-50 rounded-lg">
+                <p className="text-2xl font-bold">{breakdown.totals[macro]}g</p>
+                <p className="text-xs text-gray-600">{MACRO_LABELS[macro]} • {Math.round(breakdown.split[macro])}%</p>
+              </div>
+            ))}
+          </div>
+          <div className="flex h-2 rounded-full overflow-hidden bg-gray-100 mb-6">
+            {macros.map(macro => (
+              <div key={macro} className={MACRO_STYLES[macro]} style={{ width: `${breakdown.split[macro]}%` }} />
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium">Today's adherence</span>
+            <span className="text-sm font-bold">{score}%</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+            <div className={`h-full ${getAdherenceColor(score)}`} style={{ width: `${score}%` }} />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {checkins.length} of {meals.length} meals checked off. Substituted meals count for half.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderHistory = () => {
+    const days = Array.from({ length: HISTORY_DAYS }, (_, index) => addDays(today, index - (HISTORY_DAYS - 1)));
+    const average = getAverageAdherence(history);
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Last {HISTORY_DAYS} Days</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end justify-between h-24 gap-2">
+            {days.map(date => {
+              const entry = history.find(item => item.date === date);
+              return (
+                <div key={date} className="flex-1 flex flex-col items-center h-full justify-end">
+                  <div
+                    className={`w-full rounded-t ${entry ? getAdherenceColor(entry.score) : 'bg-gray-100'}`}
+                    style={{ height: `${Math.max(entry?.score ?? 0, 4)}%` }}
+                    title={entry ? `${entry.score}%` : 'No check-ins'}
+                  />
+                  <span className={`text-xs mt-1 ${date === today ? 'font-bold' : 'text-gray-500'}`}>{formatDay(date)}</span>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-sm text-gray-600 mt-4">
+            {average === null ? 'No check-ins yet this week.' : `Average adherence: ${average}%`}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <Card>
+      <CardContent className="text-center py-12">
+        <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 mb-4">
+          <Icon name="menu" size={24} className="text-gray-400" />
+        </div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Active Menu Plan</h3>
+        <p className="text-gray-600">
+          Your trainer hasn't assigned a menu plan for today yet. Once they do, your meals will show up here.
+        </p>
+      </CardContent>
+    </Card>
+  );
+
+  if (loading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.CLIENT}>
+        <div className="flex justify-center items-center h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const items = clientPlan?.menu_plan?.menu_plan_items || [];
+  const breakdown = getMacroBreakdown(clientPlan?.menu_plan?.meals || []);
+
+  return (
+    <DashboardLayout userType={USER_TYPES.CLIENT}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Nutrition</h1>
+          <p className="text-gray-600">
+            {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            {clientPlan?.menu_plan && ` • ${clientPlan.menu_plan.plan_name}`}
+          </p>
+        </div>
+
+        {!clientPlan || items.length === 0 ? renderEmptyState() : (
+          <>
+            {renderDailySummary()}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {items.map((item, index) => renderMealCard(
+                item,
+                index,
+                breakdown.meals.find(meal => meal.menu_id === item.menu_id)?.percent ?? 0
+              ))}
+            </div>
+          </>
+        )}
+
+        {renderHistory()}
+      </div>
+    </DashboardLayout>
+  );
+}
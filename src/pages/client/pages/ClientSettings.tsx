@@ -0,0 +1,19 @@
+// src/pages/client/pages/ClientSettings.tsx - Account settings for clients: email notification preferences
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import NotificationPreferencesCard from '@/components/features/notifications/NotificationPreferencesCard';
+import { USER_TYPES } from '@/lib/constants';
+
+export default function ClientSettings() {
+  return (
+    <DashboardLayout userType={USER_TYPES.CLIENT}>
+      <div className="space-y-6 max-w-2xl">
+        <div>
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <p className="text-gray-600">Choose which emails you get from Pumpee</p>
+        </div>
+
+        <NotificationPreferencesCard userType={USER_TYPES.CLIENT} />
+      </div>
+    </DashboardLayout>
+  );
+}
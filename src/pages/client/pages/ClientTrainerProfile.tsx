@@ -0,0 +1,276 @@
+// src/pages/client/pages/ClientTrainerProfile.tsx - A trainer's public profile and published plans, with checkout or a request per plan
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { TrainerPhoto } from '@/components/features/client/TrainerListingCard';
+import ClientCheckoutModal from '@/components/features/client/ClientCheckoutModal';
+import { BillingCycle, ClientAPI, TrainerSubscriptionTier, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { formatTrainingModes } from '@/lib/marketplace';
+import { NotificationService } from '@/lib/notifications';
+import { CheckoutService, CheckoutSession, getBillingOptions, getYearlySavingsPercent } from '@/lib/payments';
+import { formatPrice } from '@/pages/features/trainer/hooks/useSubscription';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Stripe usually reports the first payment within seconds; after the timeout the page stops asking
+const CONFIRMATION_POLL_MS = 3000;
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function ClientTrainerProfile() {
+  const { trainerId = '' } = useParams<{ trainerId: string }>();
+  const [requestingTierId, setRequestingTierId] = useState<string | null>(null);
+  const [checkout, setCheckout] = useState<CheckoutSession | null>(null);
+  // Set after payment until the stripe-webhook function has activated the relation
+  const [confirmingRelationId, setConfirmingRelationId] = useState<string | null>(null);
+
+  const listingQuery = useQuery(queryKeys.trainerListing(trainerId), () => ClientAPI.getTrainerListing(trainerId), {
+    enabled: Boolean(trainerId)
+  });
+  const requestsQuery = useQuery(queryKeys.trainerRequests, ClientAPI.getTrainerRequests, {
+    refetchInterval: confirmingRelationId ? CONFIRMATION_POLL_MS : undefined
+  });
+  const listing = listingQuery.data;
+  const request = requestsQuery.data?.find(item => item.trainer_id === trainerId);
+  const isConfirming = confirmingRelationId !== null && request?.status !== 'active';
+
+  useEffect(() => {
+    if (listingQuery.error) showErrorToast(listingQuery.error, 'Failed to load trainer');
+  }, [listingQuery.error]);
+
+  useEffect(() => {
+    if (!confirmingRelationId || request?.relation_id !== confirmingRelationId || request.status !== 'active') return;
+    setConfirmingRelationId(null);
+    showSuccessToast(`You're subscribed to ${listing?.full_name || 'your trainer'}`);
+  }, [confirmingRelationId, request, listing?.full_name]);
+
+  useEffect(() => {
+    if (!confirmingRelationId) return;
+    const timeout = window.setTimeout(() => setConfirmingRelationId(null), CONFIRMATION_TIMEOUT_MS);
+    return () => window.clearTimeout(timeout);
+  }, [confirmingRelationId]);
+
+  const handleRequest = async (tier: TrainerSubscriptionTier) => {
+    if (!listing) return;
+
+    try {
+      setRequestingTierId(tier.id);
+      const created = await ClientAPI.requestTrainer(listing.trainer_id, tier.id);
+      NotificationService.newClient(created.relation_id);
+      showSuccessToast(`Request sent to ${listing.full_name}`);
+    } catch (error) {
+      showErrorToast(error, 'Failed to send request');
+    } finally {
+      setRequestingTierId(null);
+    }
+  };
+
+  const handleCheckout = async (tier: TrainerSubscriptionTier, billingCycle: BillingCycle) => {
+    if (!listing) return;
+
+    try {
+      setRequestingTierId(tier.id);
+      setCheckout(await CheckoutService.startClientCheckout(listing.trainer_id, tier, billingCycle));
+    } catch (error) {
+      showErrorToast(error, 'Failed to start checkout');
+    } finally {
+      setRequestingTierId(null);
+    }
+  };
+
+  // Render functions
+  const renderSubscribeButtons = (tier: TrainerSubscriptionTier, label: string) =>
+    getBillingOptions(tier).map(option => (
+      <Button
+        key={option.cycle}
+        variant="blue"
+        size="sm"
+        onClick={() => handleCheckout(tier, option.cycle)}
+        isLoading={requestingTierId === tier.id}
+        disabled={requestingTierId !== null}
+      >
+        {label} {formatPrice(option.amount, option.cycle)}
+      </Button>
+    ));
+
+  const renderTierAction = (tier: TrainerSubscriptionTier) => {
+    if (isConfirming) {
+      if (request?.trainer_subscription_tier_id !== tier.id) return null;
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+          Confirming payment
+        </span>
+      );
+    }
+
+    if (request?.status === 'active') {
+      if (request.trainer_subscription_tier_id !== tier.id) return null;
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+          Your plan
+        </span>
+      );
+    }
+
+    // A pending request or failed payment can still be paid, on this plan or a different one
+    if (request && request.trainer_subscription_tier_id === tier.id) {
+      const isSuspended = request.status === 'suspended';
+      return (
+        <>
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+            isSuspended ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+          }`}>
+            {isSuspended ? 'Payment failed' : 'Requested'}
+          </span>
+          {renderSubscribeButtons(tier, 'Pay')}
+        </>
+      );
+    }
+
+    return (
+      <>
+        {renderSubscribeButtons(tier, 'Subscribe')}
+        {!request && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleRequest(tier)}
+            disabled={requestingTierId !== null}
+          >
+            Request
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  const renderTier = (tier: TrainerSubscriptionTier) => {
+    const yearlySavings = getYearlySavingsPercent(tier);
+
+    return (
+      <div key={tier.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-gray-200 p-4">
+        <div>
+          <h3 className="font-medium text-[#040b07]">{tier.name}</h3>
+          <p className="text-sm text-gray-600">{tier.description}</p>
+          {yearlySavings && <p className="text-xs text-green-700">Save {yearlySavings}% with yearly billing</p>}
+        </div>
+        <div className="flex flex-wrap items-center gap-2 sm:flex-shrink-0">
+          {renderTierAction(tier)}
+        </div>
+      </div>
+    );
+  };
+
+  if (listingQuery.isLoading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.CLIENT}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!listing) {
+    return (
+      <DashboardLayout userType={USER_TYPES.CLIENT}>
+        <Card>
+          <CardContent className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Trainer Not Found</h3>
+            <p className="text-gray-600 mb-4">This trainer isn't listed in the directory right now.</p>
+            <Link to={DASHBOARD_ROUTES.CLIENT.TRAINERS}>
+              <Button variant="outline">Back to trainers</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  const modes = formatTrainingModes(listing);
+
+  return (
+    <DashboardLayout userType={USER_TYPES.CLIENT}>
+      <div className="space-y-6 max-w-3xl">
+        <Link to={DASHBOARD_ROUTES.CLIENT.TRAINERS} className="text-sm text-[#007bff] hover:underline">
+          ← All trainers
+        </Link>
+
+        {/* Profile */}
+        <Card>
+          <CardContent className="flex flex-col sm:flex-row gap-6 p-6">
+            <TrainerPhoto listing={listing} size="lg" />
+            <div className="space-y-3">
+              <div>
+                <h1 className="text-2xl font-bold text-[#040b07]">{listing.full_name}</h1>
+                <p className="text-sm text-gray-500">{[listing.location, modes].filter(Boolean).join(' · ')}</p>
+              </div>
+              {listing.bio && <p className="text-gray-700 whitespace-pre-line">{listing.bio}</p>}
+              {listing.specialties.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {listing.specialties.map(specialty => (
+                    <span key={specialty} className="rounded-full bg-blue-50 px-2 py-0.5 text-xs text-[#007bff]">
+                      {specialty}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Plans */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Plans</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isConfirming && (
+              <p className="rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+                Payment received. Your plan starts as soon as the payment is confirmed, which usually takes a few seconds.
+              </p>
+            )}
+            {!isConfirming && request?.status === 'pending' && (
+              <p className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                Your request is waiting for {listing.full_name} to accept it. Pay for the plan to start right away.
+              </p>
+            )}
+            {request?.status === 'suspended' && (
+              <p className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                Your last payment didn't go through, so your plan with {listing.full_name} is paused until you pay.
+              </p>
+            )}
+            {listing.tiers.length === 0 ? (
+              <p className="text-gray-500">This trainer hasn't published any plans yet.</p>
+            ) : (
+              listing.tiers.map(renderTier)
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {checkout && (
+        <ClientCheckoutModal
+          session={checkout}
+          trainerName={listing.full_name}
+          onClose={() => setCheckout(null)}
+          onPaid={() => {
+            setConfirmingRelationId(checkout.relationId);
+            setCheckout(null);
+          }}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
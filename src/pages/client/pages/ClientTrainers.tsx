@@ -0,0 +1,150 @@
+// src/pages/client/pages/ClientTrainers.tsx - Trainer directory with search and filters
+import { useEffect, useMemo, useState } from 'react';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardContent } from '@/components/organisms/Card';
+import TrainerListingCard from '@/components/features/client/TrainerListingCard';
+import { ClientAPI, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { showErrorToast } from '@/lib/errors';
+import { USER_TYPES } from '@/lib/constants';
+import {
+  DEFAULT_TRAINER_FILTERS,
+  TRAINING_MODE_LABELS,
+  TrainerFilters,
+  TrainingMode,
+  collectSpecialties,
+  filterTrainers
+} from '@/lib/marketplace';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SELECT_CLASS_NAME = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const TRAINING_MODES = Object.keys(TRAINING_MODE_LABELS) as TrainingMode[];
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function ClientTrainers() {
+  const [filters, setFilters] = useState<TrainerFilters>(DEFAULT_TRAINER_FILTERS);
+
+  const directoryQuery = useQuery(queryKeys.trainerDirectory, ClientAPI.getTrainerDirectory);
+  const requestsQuery = useQuery(queryKeys.trainerRequests, ClientAPI.getTrainerRequests);
+  const listings = useMemo(() => directoryQuery.data || [], [directoryQuery.data]);
+  const queryError = directoryQuery.error || requestsQuery.error;
+
+  useEffect(() => {
+    if (queryError) showErrorToast(queryError, 'Failed to load trainers');
+  }, [queryError]);
+
+  const specialties = useMemo(() => collectSpecialties(listings), [listings]);
+  const visibleListings = useMemo(() => filterTrainers(listings, filters), [listings, filters]);
+
+  const updateFilter = <K extends keyof TrainerFilters>(key: K, value: TrainerFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleMaxPriceChange = (value: string) => {
+    const price = Number(value);
+    updateFilter('maxPrice', value.trim() === '' || Number.isNaN(price) ? null : price);
+  };
+
+  const getRequest = (trainerId: string) =>
+    requestsQuery.data?.find(request => request.trainer_id === trainerId);
+
+  if (directoryQuery.isLoading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.CLIENT}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout userType={USER_TYPES.CLIENT}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-[#040b07]">Find a Trainer</h1>
+          <p className="text-gray-600">Browse trainers, compare their plans and send a request</p>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="grid gap-3 p-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Input
+              value={filters.search}
+              onChange={(event) => updateFilter('search', event.target.value)}
+              placeholder="Search by name, location or goal"
+            />
+            <select
+              value={filters.specialty}
+              onChange={(event) => updateFilter('specialty', event.target.value)}
+              className={SELECT_CLASS_NAME}
+              aria-label="Specialty"
+            >
+              <option value="">All specialties</option>
+              {specialties.map(specialty => (
+                <option key={specialty} value={specialty}>{specialty}</option>
+              ))}
+            </select>
+            <select
+              value={filters.mode}
+              onChange={(event) => updateFilter('mode', event.target.value as TrainingMode)}
+              className={SELECT_CLASS_NAME}
+              aria-label="Training mode"
+            >
+              {TRAINING_MODES.map(mode => (
+                <option key={mode} value={mode}>{TRAINING_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              min="0"
+              value={filters.maxPrice ?? ''}
+              onChange={(event) => handleMaxPriceChange(event.target.value)}
+              placeholder="Max price (CZK)"
+            />
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        {visibleListings.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 mb-4">
+                <Icon name="users" size={24} className="text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {listings.length === 0 ? 'No Trainers Listed Yet' : 'No Matching Trainers'}
+              </h3>
+              <p className="text-gray-600 mb-4">
+                {listings.length === 0
+                  ? 'Check back soon as trainers publish their profiles.'
+                  : 'Try a broader search or clear some filters.'}
+              </p>
+              {listings.length > 0 && (
+                <Button variant="outline" onClick={() => setFilters(DEFAULT_TRAINER_FILTERS)}>Clear filters</Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-3">
+            {visibleListings.map(listing => (
+              <TrainerListingCard key={listing.trainer_id} listing={listing} request={getRequest(listing.trainer_id)} />
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
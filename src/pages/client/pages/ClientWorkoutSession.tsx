@@ -0,0 +1,523 @@
+// src/pages/client/pages/ClientWorkoutSession.tsx - Guided workout with set-by-set logging
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { ClientAPI, ClientWorkout, WorkoutExercise, WorkoutSetLog } from '@/lib/api';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import {
+  formatPrescription,
+  getSetVariation,
+  SET_VARIATION_LABELS,
+  MAX_PRESCRIBED_SETS
+} from '@/lib/prescription';
+import { formatWorkoutProgression } from '@/lib/programs';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+type SessionStage = 'overview' | 'active' | 'finish';
+
+interface SetEntry {
+  reps: string;
+  load: string;
+  rpe: string;
+  completed: boolean;
+}
+
+// Keyed by workout_exercises.id so the same exercise can appear twice in a workout
+type SessionSets = Record<string, SetEntry[]>;
+
+const DEFAULT_REST_SECONDS = 90;
+const REST_STEP_SECONDS = 15;
+
+const EMPTY_SET: SetEntry = { reps: '', load: '', rpe: '', completed: false };
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+// Pre-fills one row per prescribed set with the top of the rep range, plus any program rep progression
+const buildInitialSets = (workoutExercises: WorkoutExercise[], repsDelta = 0): SessionSets =>
+  workoutExercises.reduce<SessionSets>((sets, item) => {
+    const prescription = item.exercise?.prescription;
+    const baseReps = prescription?.rep_max ?? prescription?.rep_min;
+    const targetReps = baseReps ? baseReps + repsDelta : baseReps;
+    sets[item.id] = Array.from({ length: prescription?.sets || 1 }, (_, index) => ({
+      ...EMPTY_SET,
+      reps: targetReps && prescription && getSetVariation(prescription, index + 1) !== 'amrap' ? String(targetReps) : ''
+    }));
+    return sets;
+  }, {});
+
+const toNumberOrNull = (value: string) => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const formatDate = (dateString: string | null | undefined) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric'
+  });
+};
+
+// ============================================================================
+// CUSTOM HOOK
+// ============================================================================
+
+const useRestTimer = () => {
+  const [remaining, setRemaining] = useState(0);
+  const [duration, setDuration] = useState(DEFAULT_REST_SECONDS);
+
+  useEffect(() => {
+    if (remaining <= 0) return;
+    const timeout = setTimeout(() => setRemaining(prev => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [remaining]);
+
+  return {
+    remaining,
+    duration,
+    // Prescribed rest wins over the default for that exercise
+    start: (seconds?: number | null) => setRemaining(seconds || duration),
+    skip: () => setRemaining(0),
+    adjust: (seconds: number) => {
+      setDuration(prev => Math.max(REST_STEP_SECONDS, prev + seconds));
+      setRemaining(prev => (prev > 0 ? Math.max(0, prev + seconds) : prev));
+    }
+  };
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function ClientWorkoutSession() {
+  const { clientWorkoutId = '' } = useParams<{ clientWorkoutId: string }>();
+  const navigate = useNavigate();
+  const [clientWorkout, setClientWorkout] = useState<ClientWorkout | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [stage, setStage] = useState<SessionStage>('overview');
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [exerciseIndex, setExerciseIndex] = useState(0);
+  const [sets, setSets] = useState<SessionSets>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const restTimer = useRestTimer();
+
+  const workoutExercises = useMemo(
+    () => clientWorkout?.workout?.workout_exercises || [],
+    [clientWorkout]
+  );
+  const currentExercise = workoutExercises[exerciseIndex];
+  const currentSets = currentExercise ? sets[currentExercise.id] || [] : [];
+
+  const completedSetCount = useMemo(
+    () => Object.values(sets).reduce((total, entries) => total + entries.filter(entry => entry.completed).length, 0),
+    [sets]
+  );
+
+  const fetchWorkout = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await ClientAPI.getClientWorkout(clientWorkoutId);
+      setClientWorkout(data);
+      setSets(buildInitialSets(data?.workout?.workout_exercises || [], data?.progression?.reps_delta));
+    } catch (error) {
+      showErrorToast(error, 'Failed to load workout');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientWorkoutId]);
+
+  useEffect(() => {
+    fetchWorkout();
+  }, [fetchWorkout]);
+
+  // Handlers
+  const handleStart = async () => {
+    if (!clientWorkout) return;
+    try {
+      await ClientAPI.startWorkout(clientWorkout.id);
+    } catch (error) {
+      showErrorToast(error, 'Failed to start workout');
+      return;
+    }
+    setClientWorkout({ ...clientWorkout, status: 'in_progress' });
+    setStartedAt(new Date().toISOString());
+    setExerciseIndex(0);
+    setStage('active');
+  };
+
+  const updateSet = (setIndex: number, updates: Partial<SetEntry>) => {
+    if (!currentExercise) return;
+    setSets(prev => ({
+      ...prev,
+      [currentExercise.id]: prev[currentExercise.id].map((entry, index) =>
+        index === setIndex ? { ...entry, ...updates } : entry
+      )
+    }));
+  };
+
+  const handleCompleteSet = (setIndex: number) => {
+    if (!currentExercise) return;
+    const entry = currentSets[setIndex];
+    setSets(prev => ({
+      ...prev,
+      [currentExercise.id]: prev[currentExercise.id].map((item, index) => {
+        if (index === setIndex) return { ...item, completed: true };
+        // Carry the load forward so the next set only needs adjusting
+        if (index === setIndex + 1 && !item.completed && item.load === '') return { ...item, load: entry.load };
+        return item;
+      })
+    }));
+
+    const isLastSet = setIndex === currentSets.length - 1;
+    const isLastExercise = exerciseIndex === workoutExercises.length - 1;
+    if (!(isLastSet && isLastExercise)) restTimer.start(currentExercise.exercise?.prescription.rest_seconds);
+  };
+
+  const handleAddSet = () => {
+    if (!currentExercise || currentSets.length >= MAX_PRESCRIBED_SETS) return;
+    const lastSet = currentSets[currentSets.length - 1];
+    setSets(prev => ({
+      ...prev,
+      [currentExercise.id]: [...prev[currentExercise.id], { ...EMPTY_SET, reps: lastSet?.reps || '', load: lastSet?.load || '' }]
+    }));
+  };
+
+  const handleRemoveSet = () => {
+    if (!currentExercise || currentSets.length <= 1) return;
+    setSets(prev => ({
+      ...prev,
+      [currentExercise.id]: prev[currentExercise.id].slice(0, -1)
+    }));
+  };
+
+  const handleNextExercise = () => {
+    restTimer.skip();
+    if (exerciseIndex < workoutExercises.length - 1) {
+      setExerciseIndex(prev => prev + 1);
+    } else {
+      setStage('finish');
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!clientWorkout || !startedAt || saving) return;
+
+    const loggedSets: WorkoutSetLog[] = workoutExercises.flatMap(item =>
+      (sets[item.id] || [])
+        .filter(entry => entry.completed)
+        .map((entry, index) => ({
+          exercise_id: item.exercise_id,
+          set_number: index + 1,
+          reps: toNumberOrNull(entry.reps),
+          load_kg: toNumberOrNull(entry.load),
+          rpe: toNumberOrNull(entry.rpe)
+        }))
+    );
+
+    try {
+      setSaving(true);
+      await ClientAPI.completeWorkout({
+        client_workout_id: clientWorkout.id,
+        started_at: startedAt,
+        notes,
+        sets: loggedSets
+      });
+      showSuccessToast('Workout completed!');
+      navigate(DASHBOARD_ROUTES.CLIENT.DASHBOARD);
+    } catch (error) {
+      showErrorToast(error, 'Failed to save workout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Render functions
+  const renderBackLink = () => (
+    <Link
+      to={DASHBOARD_ROUTES.CLIENT.DASHBOARD}
+      className="inline-flex items-center text-sm text-gray-600 hover:text-[#007bff]"
+    >
+      ← Back to dashboard
+    </Link>
+  );
+
+  const renderOverview = (current: ClientWorkout) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{current.workout?.workout_name}</CardTitle>
+        <p className="text-sm text-gray-500">
+          {current.workout?.workout_day} • Assigned {formatDate(current.assigned_date)}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {current.workout?.description && (
+          <p className="text-sm text-gray-600">{current.workout.description}</p>
+        )}
+        {current.progression && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-3">
+            <p className="text-sm text-orange-800">
+              <span className="font-medium">Program week {current.program_week}:</span> {formatWorkoutProgression(current.progression)}
+            </p>
+          </div>
+        )}
+        {current.trainer_notes && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <p className="text-sm text-blue-800">
+              <span className="font-medium">Trainer Note:</span> {current.trainer_notes}
+            </p>
+          </div>
+        )}
+        <div className="space-y-2">
+          {workoutExercises.map((item, index) => (
+            <div key={item.id} className="flex items-start text-sm p-2 bg-gray-50 rounded border">
+              <span className="text-xs text-gray-500 font-mono w-6 mt-0.5">#{index + 1}</span>
+              <div>
+                <p className="font-medium">{item.exercise?.exercise_name}</p>
+                <p className="text-xs text-gray-600">
+                  {item.exercise && formatPrescription(item.exercise.prescription)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+        {current.status === 'completed' ? (
+          <p className="text-sm text-green-700 font-medium">
+            Completed {formatDate(current.completion_date)}
+          </p>
+        ) : (
+          <Button variant="blue" size="full" onClick={handleStart} disabled={workoutExercises.length === 0}>
+            {current.status === 'in_progress' ? 'Continue Workout' : 'Start Workout'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderRestTimer = () => (
+    <div className="flex items-center justify-between bg-orange-50 border border-orange-200 rounded-lg p-3">
+      <div>
+        <p className="text-xs text-orange-700 font-medium">Rest</p>
+        <p className="text-2xl font-bold text-orange-600 font-mono">{formatSeconds(restTimer.remaining)}</p>
+      </div>
+      <div className="flex space-x-2">
+        <Button variant="outline" size="sm" onClick={() => restTimer.adjust(-REST_STEP_SECONDS)}>-{REST_STEP_SECONDS}s</Button>
+        <Button variant="outline" size="sm" onClick={() => restTimer.adjust(REST_STEP_SECONDS)}>+{REST_STEP_SECONDS}s</Button>
+        <Button variant="orange" size="sm" onClick={restTimer.skip}>Skip</Button>
+      </div>
+    </div>
+  );
+
+  const renderSetRow = (entry: SetEntry, setIndex: number) => {
+    const prescription = currentExercise?.exercise?.prescription;
+    const variation = prescription ? getSetVariation(prescription, setIndex + 1) : 'standard';
+
+    return (
+      <div
+        key={setIndex}
+        className={`grid grid-cols-12 gap-2 items-center p-2 rounded ${entry.completed ? 'bg-green-50' : ''}`}
+      >
+        <span className="col-span-1 text-sm font-medium text-gray-600" title={SET_VARIATION_LABELS[variation]}>
+          {setIndex + 1}
+          {variation !== 'standard' && (
+            <span className="block text-[10px] font-semibold uppercase text-orange-600">{SET_VARIATION_LABELS[variation]}</span>
+          )}
+        </span>
+        <Input
+          className="col-span-3"
+          type="number"
+          inputMode="numeric"
+          min="0"
+          placeholder="Reps"
+          value={entry.reps}
+          disabled={entry.completed}
+          onChange={(event) => updateSet(setIndex, { reps: event.target.value })}
+        />
+        <Input
+          className="col-span-3"
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.5"
+          placeholder="kg"
+          value={entry.load}
+          disabled={entry.completed}
+          onChange={(event) => updateSet(setIndex, { load: event.target.value })}
+        />
+        <Input
+          className="col-span-2"
+          type="number"
+          inputMode="decimal"
+          min="1"
+          max="10"
+          step="0.5"
+          placeholder="RPE"
+          value={entry.rpe}
+          disabled={entry.completed}
+          onChange={(event) => updateSet(setIndex, { rpe: event.target.value })}
+        />
+        <div className="col-span-3 flex justify-end">
+          {entry.completed ? (
+            <button
+              type="button"
+              onClick={() => updateSet(setIndex, { completed: false })}
+              className="inline-flex items-center text-sm text-green-700 hover:text-green-900"
+            >
+              <Icon name="check" size={16} className="mr-1" />Done
+            </button>
+          ) : (
+            <Button variant="blue" size="sm" onClick={() => handleCompleteSet(setIndex)}>
+              Log Set
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderActiveExercise = (item: WorkoutExercise) => (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <p className="text-xs text-gray-500">
+              Exercise {exerciseIndex + 1} of {workoutExercises.length}
+            </p>
+            <CardTitle>{item.exercise?.exercise_name}</CardTitle>
+            <p className="text-sm text-[#007bff] font-medium">
+              {item.exercise && formatPrescription(item.exercise.prescription)}
+            </p>
+          </div>
+          <span className="text-xs text-gray-500">{completedSetCount} sets logged</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5 mt-3">
+          <div
+            className="bg-[#007bff] h-1.5 rounded-full transition-all"
+            style={{ width: `${((exerciseIndex + 1) / workoutExercises.length) * 100}%` }}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {item.exercise?.series_description && (
+          <p className="text-sm text-gray-600">{item.exercise.series_description}</p>
+        )}
+        {item.notes && (
+          <p className="text-sm text-blue-800 bg-blue-50 rounded p-2">{item.notes}</p>
+        )}
+
+        {restTimer.remaining > 0 && renderRestTimer()}
+
+        <div>
+          <div className="grid grid-cols-12 gap-2 px-2 text-xs font-medium text-gray-500 mb-1">
+            <span className="col-span-1">Set</span>
+            <span className="col-span-3">Reps</span>
+            <span className="col-span-3">Load (kg)</span>
+            <span className="col-span-2">RPE</span>
+          </div>
+          {currentSets.map(renderSetRow)}
+          <div className="flex space-x-2 mt-2">
+            <Button variant="outline" size="sm" onClick={handleAddSet} disabled={currentSets.length >= MAX_PRESCRIBED_SETS}>
+              Add Set
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleRemoveSet} disabled={currentSets.length <= 1}>
+              Remove Set
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex justify-between pt-4 border-t border-gray-200">
+          <Button
+            variant="outline"
+            onClick={() => setExerciseIndex(prev => prev - 1)}
+            disabled={exerciseIndex === 0}
+          >
+            Previous
+          </Button>
+          <Button variant="blue" onClick={handleNextExercise}>
+            {exerciseIndex < workoutExercises.length - 1 ? 'Next Exercise' : 'Finish Workout'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderFinish = () => (
+    <Card>
+      <CardHeader>
+        <CardTitle>Nice work!</CardTitle>
+        <p className="text-sm text-gray-500">
+          {completedSetCount} sets logged across {workoutExercises.length} exercises
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="text-sm font-medium">How did it go? (optional)</label>
+          <textarea
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            className="mt-2 flex h-24 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            placeholder="Energy, pain, anything your trainer should know..."
+          />
+        </div>
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStage('active')} disabled={saving}>
+            Back to Exercises
+          </Button>
+          <Button variant="blue" onClick={handleFinish} isLoading={saving} disabled={saving}>
+            Save Workout
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  if (loading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.CLIENT}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout userType={USER_TYPES.CLIENT}>
+      <div className="max-w-2xl mx-auto space-y-6">
+        {renderBackLink()}
+
+        {!clientWorkout ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 mb-4">
+                <Icon name="dumbbell" size={24} className="text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Workout Not Found</h3>
+              <p className="text-gray-600">This workout does not exist or was not assigned to you.</p>
+            </CardContent>
+          </Card>
+        ) : stage === 'overview' ? (
+          renderOverview(clientWorkout)
+        ) : stage === 'active' && currentExercise ? (
+          renderActiveExercise(currentExercise)
+        ) : (
+          renderFinish()
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
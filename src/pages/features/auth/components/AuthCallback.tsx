@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import { toast } from 'sonner';
+import { AUTH_ROUTES, POST_LOGIN_REDIRECT_KEY } from '@/lib/constants';
 
 export default function AuthCallback() {
   const navigate = useNavigate();
@@ -13,8 +14,20 @@ export default function AuthCallback() {
       try {
         // Check the URL for the type of action
         const url = new URL(window.location.href);
-        const errorParam = url.searchParams.get('error');
-        const errorDescription = url.searchParams.get('error_description');
+        // Supabase reports link errors in the hash for some flows and in the query for others
+        const hashParams = new URLSearchParams(url.hash.replace(/^#/, ''));
+        const errorParam = url.searchParams.get('error') || hashParams.get('error');
+        const errorCode = url.searchParams.get('error_code') || hashParams.get('error_code');
+        const errorDescription = url.searchParams.get('error_description') || hashParams.get('error_description');
+        const type = url.searchParams.get('type');
+        
+        // Expired or already used reset links go back to the request form to send a fresh one
+        if (errorParam && type === 'recovery') {
+          const reason = errorCode === 'otp_expired' ? 'expired' : 'invalid';
+          setStatusMessage('This reset link can no longer be used. Redirecting...');
+          navigate(`${AUTH_ROUTES.PASSWORD_RESET}?error=${reason}`, { replace: true });
+          return;
+        }
         
         // If there are errors in the URL, handle them
         if (errorParam) {
@@ -26,8 +39,6 @@ export default function AuthCallback() {
 
         // Check if this is an email confirmation callback (which has a different URL structure)
         // Supabase typically includes a 'type' parameter set to 'signup' or 'recovery'
-        const type = url.searchParams.get('type');
-        
         if (type === 'signup') {
           // Handle email confirmation success
           setStatusMessage('Email verified successfully! Setting up your account...');
@@ -51,11 +62,18 @@ export default function AuthCallback() {
         }
         
         if (type === 'recovery') {
-          // Handle password reset flow
-          setStatusMessage('Password reset link verified. Redirecting...');
+          // Handle password reset flow - the link code has been exchanged for a session by now
+          const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+          
+          // A code that was already exchanged (or opened in another browser) leaves no session
+          if (sessionError || !session) {
+            setStatusMessage('This reset link can no longer be used. Redirecting...');
+            navigate(`${AUTH_ROUTES.PASSWORD_RESET}?error=invalid`, { replace: true });
+            return;
+          }
           
-          // Could redirect to a password reset form page
-          setTimeout(() => navigate('/reset-password'), 1500);
+          setStatusMessage('Password reset link verified. Redirecting...');
+          setTimeout(() => navigate(AUTH_ROUTES.UPDATE_PASSWORD, { replace: true }), 1000);
           return;
         }
 
@@ -84,9 +102,16 @@ export default function AuthCallback() {
           throw userError;
         }
 
-        // If user type exists, redirect to appropriate dashboard
+        // Page the route guard sent the user to login from, before the OAuth round trip
+        const redirectTo = sessionStorage.getItem(POST_LOGIN_REDIRECT_KEY);
+        sessionStorage.removeItem(POST_LOGIN_REDIRECT_KEY);
+
+        // If user type exists, redirect to the requested page or the appropriate dashboard
         if (userData && userData.user_type) {
-          if (userData.user_type === 'client') {
+          if (redirectTo) {
+            setStatusMessage('Authentication successful! Redirecting...');
+            setTimeout(() => navigate(redirectTo), 1000);
+          } else if (userData.user_type === 'client') {
             setStatusMessage('Authentication successful! Redirecting to client dashboard...');
             setTimeout(() => navigate('/client/dashboard'), 1000);
           } else if (userData.user_type === 'trainer') {
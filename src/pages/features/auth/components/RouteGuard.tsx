@@ -0,0 +1,40 @@
+// src/pages/features/auth/components/RouteGuard.tsx - Protects a group of routes for one user type
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { AUTH_ROUTES } from '@/lib/constants';
+import { UserType } from '@/lib/api';
+import { getDashboardRoute } from '@/lib/utils';
+
+interface RouteGuardProps {
+  userType: UserType;
+}
+
+// Layout route: renders the nested routes only for signed-in users of the given type
+export default function RouteGuard({ userType }: RouteGuardProps) {
+  const { user, profile, isLoading, isProfileLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading || isProfileLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen bg-gray-50">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  // Login sends the user back here once signed in
+  if (!user) {
+    return <Navigate to={AUTH_ROUTES.LOGIN} replace state={{ from: location }} />;
+  }
+
+  if (!profile?.user_type) {
+    return <Navigate to={AUTH_ROUTES.USER_TYPE_SELECTION} replace />;
+  }
+
+  if (profile.user_type !== userType) {
+    return <Navigate to={getDashboardRoute(profile.user_type)} replace />;
+  }
+
+  return <Outlet />;
+}
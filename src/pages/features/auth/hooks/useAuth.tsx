@@ -1,7 +1,9 @@
 // src/pages/features/auth/hooks/useAuth.tsx
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import { supabase } from '@/lib/supabaseClient';
-import { AuthData, UserProfile, UserType } from '@/lib/types';
+import { AuthData } from '@/lib/types';
+import { UserProfile, UserType } from '@/lib/api';
+import { clearQueryCache } from '@/lib/queryCache';
 import { Session, User } from '@supabase/supabase-js';
 
 // Create context with undefined as default value
@@ -18,6 +20,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  // Cached users row for the signed-in user, shared by the route guards and pages
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+
+  const userId = user?.id ?? null;
+  const isProfileLoading = isLoading || (userId !== null && profileUserId !== userId);
 
   useEffect(() => {
     // Get initial session
@@ -57,6 +65,62 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Fetch the users row; null when the user has not picked a user type yet
+  const fetchProfile = useCallback(async (id: string): Promise<UserProfile | null> => {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching user profile:', error);
+        return null;
+      }
+
+      return (data as UserProfile) || null;
+    } catch (error) {
+      console.error('Error in fetchProfile:', error);
+      return null;
+    }
+  }, []);
+
+  // Load the profile once per signed-in user rather than on every token refresh.
+  // Cached queries belong to the previous user, so they are dropped too.
+  useEffect(() => {
+    clearQueryCache();
+
+    if (!userId) {
+      setProfile(null);
+      setProfileUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchProfile(userId).then(data => {
+      if (cancelled) return;
+      setProfile(data);
+      setProfileUserId(userId);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, fetchProfile]);
+
+  // Reload after the profile changes, e.g. once a user type has been chosen
+  const refreshProfile = async (): Promise<UserProfile | null> => {
+    const { data: { session: currentSession } } = await supabase.auth.getSession();
+    const currentUserId = currentSession?.user.id;
+    if (!currentUserId) return null;
+
+    const data = await fetchProfile(currentUserId);
+    setProfile(data);
+    setProfileUserId(currentUserId);
+    return data;
+  };
+
   // Sign in with email and password
   const signIn = async (email: string, password: string) => {
     setIsLoading(true);
@@ -130,64 +194,70 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  // Get user type (client or trainer)
-  const getUserType = async (): Promise<UserType | null> => {
-    if (!user) return null;
-  
+  // Send a password reset email; the link comes back through the auth callback
+  const requestPasswordReset = async (email: string) => {
+    setIsLoading(true);
+    setError(null);
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('user_type')
-        .eq('id', user.id)
-        .single();
-    
-      if (error) {
-        console.error('Error fetching user type:', error);
-        return null;
-      }
-    
-      return (data?.user_type as UserType) || null;
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/auth/callback?type=recovery`
+      });
+
+      return { error };
     } catch (error) {
-      console.error('Error in getUserType:', error);
-      return null;
+      setError(error as Error);
+      return { error: error as Error };
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  // Get user profile data
-  const getUserProfile = async (): Promise<UserProfile | null> => {
-    if (!user) return null;
-    
+  // Set a new password for the user signed in by the recovery link
+  const updatePassword = async (password: string) => {
+    setIsLoading(true);
+    setError(null);
     try {
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', user.id)
-        .single();
-        
-      if (error) {
-        console.error('Error fetching user profile:', error);
-        return null;
-      }
-      
-      return data as UserProfile;
+      const { error } = await supabase.auth.updateUser({ password });
+      return { error };
     } catch (error) {
-      console.error('Error in getUserProfile:', error);
-      return null;
+      setError(error as Error);
+      return { error: error as Error };
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  // Get user type (client or trainer), from the cache when it is loaded
+  const getUserType = async (): Promise<UserType | null> => {
+    const currentProfile = await getUserProfile();
+    return currentProfile?.user_type || null;
+  };
+
+  // Get user profile data, from the cache when it is loaded
+  const getUserProfile = async (): Promise<UserProfile | null> => {
+    if (userId && profileUserId === userId) return profile;
+
+    // Right after sign-in the session may be newer than this render's user
+    return refreshProfile();
+  };
+
   // Create the context value object with all our auth functions and state
   const contextValue: AuthData = {
     session,
     user,
     isLoading,
     error,
+    profile,
+    isProfileLoading,
     signIn,
     signInWithGoogle,
     signUp,
     signOut,
+    requestPasswordReset,
+    updatePassword,
     getUserType,
-    getUserProfile
+    getUserProfile,
+    refreshProfile
   };
 
   return (
@@ -0,0 +1,140 @@
+// src/pages/features/auth/pages/Invite.tsx - Landing page for a trainer's invite link; carries the code through sign-up
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/atoms/Button';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { ClientAPI, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { APP_NAME, AUTH_ROUTES, USER_TYPES } from '@/lib/constants';
+import { clearPendingInvite, describeRedeemedInvite, getRedeemedInviteRoute, savePendingInvite } from '@/lib/invites';
+import { NotificationService } from '@/lib/notifications';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import { formatPrice } from '@/pages/features/trainer/hooks/useSubscription';
+
+const UNAVAILABLE_MESSAGES = {
+  expired: 'This invite has expired. Ask your trainer for a new link.',
+  used_up: 'This invite has already been used. Ask your trainer for a new link.',
+  revoked: 'This invite is no longer active. Ask your trainer for a new link.'
+};
+
+export default function Invite() {
+  const { code = '' } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, profile, isProfileLoading } = useAuth();
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const { data: invite, isLoading, error } = useQuery(queryKeys.invitePreview(code), () => ClientAPI.getInvite(code), {
+    enabled: Boolean(code)
+  });
+  const isUsable = invite?.status === 'active';
+
+  // Remembered until the new account has picked its role, see UserTypeSelection
+  useEffect(() => {
+    if (isUsable) savePendingInvite(code);
+  }, [isUsable, code]);
+
+  const handleAccept = async () => {
+    try {
+      setIsAccepting(true);
+      const redeemed = await ClientAPI.redeemInvite(code);
+      clearPendingInvite();
+      if (redeemed.linked) NotificationService.newClient(redeemed.relation_id);
+      showSuccessToast(describeRedeemedInvite(redeemed));
+      navigate(getRedeemedInviteRoute(redeemed), { replace: true });
+    } catch (error) {
+      showErrorToast(error, 'Failed to accept invite');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  const renderActions = () => {
+    if (!user) {
+      return (
+        <div className="space-y-3">
+          <Link to={AUTH_ROUTES.REGISTER} className="block">
+            <Button variant="blue" size="full">Create an account</Button>
+          </Link>
+          <Link to={AUTH_ROUTES.LOGIN} state={{ from: location }} className="block">
+            <Button variant="outline" size="full">I already have an account</Button>
+          </Link>
+        </div>
+      );
+    }
+
+    if (profile?.user_type === USER_TYPES.TRAINER) {
+      return (
+        <p className="text-sm text-gray-600">
+          You're signed in as a trainer. Invites are for client accounts, so sign in with a client account to accept it.
+        </p>
+      );
+    }
+
+    // New accounts finish on role selection, which picks "client" and accepts the invite for them
+    if (!profile?.user_type) {
+      return (
+        <Button variant="blue" size="full" onClick={() => navigate(AUTH_ROUTES.USER_TYPE_SELECTION)}>
+          Continue
+        </Button>
+      );
+    }
+
+    return (
+      <Button variant="blue" size="full" onClick={handleAccept} isLoading={isAccepting}>
+        Accept invite
+      </Button>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading || isProfileLoading) {
+      return (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner size="lg" />
+        </div>
+      );
+    }
+
+    if (error || !invite) {
+      return (
+        <>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Invite not found</h2>
+          <p className="text-gray-600 mb-6">Check the link with your trainer, or browse trainers after signing up.</p>
+          <Link to={AUTH_ROUTES.REGISTER}>
+            <Button variant="outline">Sign up</Button>
+          </Link>
+        </>
+      );
+    }
+
+    if (invite.status !== 'active') {
+      return (
+        <>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Invite unavailable</h2>
+          <p className="text-gray-600">{UNAVAILABLE_MESSAGES[invite.status]}</p>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">{invite.trainer_name} invited you to {APP_NAME}</h2>
+        <p className="text-gray-600 mb-6">
+          Join their <strong>{invite.tier_name}</strong> plan ({formatPrice(invite.tier_price, invite.billing_cycle)}) and
+          get your workouts, meal plans and progress tracking in one place.
+        </p>
+        {renderActions()}
+      </>
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <div className="w-full max-w-md m-auto p-8 rounded-lg shadow-lg bg-white">
+        <div className="text-center">{renderContent()}</div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 // src/pages/features/auth/pages/Login.tsx
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, Location, useLocation, useNavigate } from 'react-router-dom';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -17,7 +17,7 @@ import {
 } from '@/components/molecules/Form';
 import { Toaster, toast } from '@/components/feedback/Toast';
 import { LoginFormValues } from '@/lib/types';
-import { AUTH_ROUTES, DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { AUTH_ROUTES, DASHBOARD_ROUTES, POST_LOGIN_REDIRECT_KEY, USER_TYPES } from '@/lib/constants';
 import { handleAuthError } from '@/lib/errors';
 
 // Form schema with validation rules
@@ -29,9 +29,14 @@ const loginSchema = z.object({
 // Login component
 export default function Login() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { signIn, signInWithGoogle, getUserType, isLoading } = useAuth();
   const [isGoogleLoading, setIsGoogleLoading] = useState(false);
 
+  // Page the route guard sent us here from, if any
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}${from.hash}` : null;
+
   // Form setup with Zod validation
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -54,8 +59,10 @@ export default function Login() {
       // Get user type and navigate accordingly
       const userType = await getUserType();
 
-      // Redirect based on user type
-      if (userType === USER_TYPES.CLIENT) {
+      // Back to the requested page, or redirect based on user type
+      if (userType && redirectTo) {
+        navigate(redirectTo, { replace: true });
+      } else if (userType === USER_TYPES.CLIENT) {
         navigate(DASHBOARD_ROUTES.CLIENT.DASHBOARD);
       } else if (userType === USER_TYPES.TRAINER) {
         navigate(DASHBOARD_ROUTES.TRAINER.DASHBOARD);
@@ -83,6 +90,9 @@ export default function Login() {
   const handleGoogleLogin = async () => {
     try {
       setIsGoogleLoading(true);
+      if (redirectTo) {
+        sessionStorage.setItem(POST_LOGIN_REDIRECT_KEY, redirectTo);
+      }
       const { error } = await signInWithGoogle();
   
       if (error) {
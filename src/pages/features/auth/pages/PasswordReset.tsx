@@ -0,0 +1,165 @@
+// src/pages/features/auth/pages/PasswordReset.tsx
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/molecules/Form';
+import { Toaster, toast } from '@/components/feedback/Toast';
+import { PasswordResetFormValues } from '@/lib/types';
+import { AUTH_ROUTES } from '@/lib/constants';
+import { handleAuthError } from '@/lib/errors';
+
+// Form schema with validation rules
+const passwordResetSchema = z.object({
+  email: z.string().email({ message: "Please enter a valid email address." })
+});
+
+// Set by AuthCallback when a recovery link can't be used
+const LINK_ERROR_MESSAGES: Record<string, string> = {
+  expired: 'Your reset link has expired. Enter your email to get a new one.',
+  invalid: 'This reset link is invalid or has already been used. Enter your email to get a new one.'
+};
+
+// Password reset request component
+export default function PasswordReset() {
+  const [searchParams] = useSearchParams();
+  const { requestPasswordReset, isLoading } = useAuth();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const linkError = LINK_ERROR_MESSAGES[searchParams.get('error') || ''];
+
+  // Form setup with Zod validation
+  const form = useForm<PasswordResetFormValues>({
+    resolver: zodResolver(passwordResetSchema),
+    defaultValues: {
+      email: ''
+    }
+  });
+
+  // Handle reset request submission
+  const handleRequestReset = async (values: PasswordResetFormValues) => {
+    try {
+      const { error } = await requestPasswordReset(values.email);
+
+      if (error) {
+        throw error;
+      }
+
+      // Same screen whether or not the email is registered, so addresses can't be probed
+      setSentTo(values.email);
+    } catch (error) {
+      const message = handleAuthError(error);
+      toast.error(message);
+    }
+  };
+
+  // Show confirmation once the email has been sent
+  if (sentTo) {
+    return (
+      <div className="flex min-h-screen bg-background">
+        <div className="w-full max-w-md m-auto p-8 rounded-lg shadow-lg bg-white">
+          <div className="text-center">
+            <div className="h-16 w-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">Check your email</h2>
+            <p className="text-gray-600 mb-6">
+              If an account exists for <strong>{sentTo}</strong>, we've sent a link to reset your password.
+            </p>
+            <p className="text-gray-600 mb-6">
+              The link works once and expires after a while. Open it in this browser to set a new password.
+            </p>
+            <div className="space-y-3">
+              <Link to={AUTH_ROUTES.LOGIN}>
+                <Button variant="blue" size="full">Return to Login</Button>
+              </Link>
+              <button
+                type="button"
+                onClick={() => setSentTo(null)}
+                className="text-sm text-blue-500 hover:underline"
+              >
+                Use a different email
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <div className="w-full max-w-md m-auto p-8 rounded-lg shadow-lg bg-white">
+        <div className="mb-6 text-center">
+          <h2 className="text-2xl font-bold">Reset your password</h2>
+          <p className="text-gray-600">
+            Enter the email you signed up with and we'll send you a reset link
+          </p>
+        </div>
+
+        {linkError && (
+          <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
+            {linkError}
+          </div>
+        )}
+
+        {/* Reset request form */}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleRequestReset)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="name@example.com"
+                      type="email"
+                      disabled={isLoading}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              isLoading={isLoading}
+              disabled={isLoading}
+              variant="blue"
+              size="full"
+            >
+              Send Reset Link
+            </Button>
+          </form>
+        </Form>
+
+        <p className="text-center text-sm text-gray-600 mt-4">
+          Remembered it?{" "}
+          <Link to={AUTH_ROUTES.LOGIN} className="text-blue-500 hover:underline">
+            Back to login
+          </Link>
+        </p>
+      </div>
+
+      {/* Toaster for notifications */}
+      <Toaster position="top-right" />
+    </div>
+  );
+}
@@ -6,17 +6,14 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Toaster, toast } from 'sonner';
 import { supabase } from '@/lib/supabaseClient';
+import { passwordSchema } from '@/lib/validation';
 
 // Form schema with validation rules
 const formSchema = z.object({
   firstName: z.string().min(2, { message: "First name must be at least 2 characters." }),
   lastName: z.string().min(2, { message: "Last name must be at least 2 characters." }),
   email: z.string().email({ message: "Please enter a valid email address." }),
-  password: z.string()
-    .min(8, { message: "Password must be at least 8 characters." })
-    .regex(/[A-Z]/, { message: "Password must contain at least one uppercase letter." })
-    .regex(/[a-z]/, { message: "Password must contain at least one lowercase letter." })
-    .regex(/[0-9]/, { message: "Password must contain at least one number." }),
+  password: passwordSchema,
   confirmPassword: z.string().min(8, { message: "Confirm Password must be at least 8 characters." }),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords do not match",
@@ -0,0 +1,163 @@
+// src/pages/features/auth/pages/UpdatePassword.tsx
+import { Link, useNavigate } from 'react-router-dom';
+import { z } from 'zod';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/molecules/Form';
+import { Toaster, toast } from '@/components/feedback/Toast';
+import { UpdatePasswordFormValues } from '@/lib/types';
+import { AUTH_ROUTES } from '@/lib/constants';
+import { handleAuthError } from '@/lib/errors';
+import { passwordSchema } from '@/lib/validation';
+
+// Form schema with the same password rules as registration
+const updatePasswordSchema = z.object({
+  password: passwordSchema,
+  confirmPassword: z.string().min(1, { message: "Please confirm your new password." })
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+// Update password component, reached from the recovery link via AuthCallback
+export default function UpdatePassword() {
+  const navigate = useNavigate();
+  const { session, isLoading, updatePassword, signOut } = useAuth();
+
+  // Form setup with Zod validation
+  const form = useForm<UpdatePasswordFormValues>({
+    resolver: zodResolver(updatePasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: ''
+    }
+  });
+
+  // Handle new password submission
+  const handleUpdatePassword = async (values: UpdatePasswordFormValues) => {
+    try {
+      const { error } = await updatePassword(values.password);
+
+      if (error) {
+        throw error;
+      }
+
+      // The recovery session is single-purpose, so sign in again with the new password
+      await signOut();
+      toast.success('Password updated. Please sign in with your new password.');
+      navigate(AUTH_ROUTES.LOGIN, { replace: true });
+    } catch (error) {
+      const message = handleAuthError(error);
+      toast.error(message);
+    }
+  };
+
+  // Without a recovery session the link was expired, reused or never opened
+  if (!session && !isLoading) {
+    return (
+      <div className="flex min-h-screen bg-background">
+        <div className="w-full max-w-md m-auto p-8 rounded-lg shadow-lg bg-white">
+          <div className="text-center">
+            <div className="h-16 w-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">Reset link expired</h2>
+            <p className="text-gray-600 mb-6">
+              This password reset link is invalid, has expired or has already been used.
+            </p>
+            <Link to={AUTH_ROUTES.PASSWORD_RESET}>
+              <Button variant="blue" size="full">Request a New Link</Button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen bg-background">
+      <div className="w-full max-w-md m-auto p-8 rounded-lg shadow-lg bg-white">
+        <div className="mb-6 text-center">
+          <h2 className="text-2xl font-bold">Set a new password</h2>
+          <p className="text-gray-600">
+            {session?.user?.email ? `For ${session.user.email}` : 'Choose a password you haven\'t used before'}
+          </p>
+        </div>
+
+        {/* Update password form */}
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleUpdatePassword)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="••••••••"
+                      type="password"
+                      autoComplete="new-password"
+                      disabled={isLoading}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm New Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="••••••••"
+                      type="password"
+                      autoComplete="new-password"
+                      disabled={isLoading}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <p className="text-xs text-gray-500">
+              At least 8 characters, with an uppercase letter, a lowercase letter and a number.
+            </p>
+
+            <Button
+              type="submit"
+              isLoading={isLoading}
+              disabled={isLoading}
+              variant="blue"
+              size="full"
+            >
+              Update Password
+            </Button>
+          </form>
+        </Form>
+      </div>
+
+      {/* Toaster for notifications */}
+      <Toaster position="top-right" />
+    </div>
+  );
+}
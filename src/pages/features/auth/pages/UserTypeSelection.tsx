@@ -3,12 +3,14 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabaseClient';
-
-// Custom type for user type
-type UserType = 'client' | 'trainer';
+import { useAuth } from '@/pages/features/auth/hooks/useAuth';
+import { ClientAPI, UserType } from '@/lib/api';
+import { clearPendingInvite, describeRedeemedInvite, getPendingInvite, getRedeemedInviteRoute } from '@/lib/invites';
+import { NotificationService } from '@/lib/notifications';
 
 export default function UserTypeSelection() {
   const navigate = useNavigate();
+  const { refreshProfile } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
 
@@ -38,12 +40,17 @@ export default function UserTypeSelection() {
 
         // If user type exists, redirect to appropriate dashboard
         if (existingUser?.user_type) {
-          redirectToDashboard(existingUser.user_type);
+          redirectToDashboard(existingUser.user_type as UserType);
           return;
         }
 
         // Set current user for further processing
         setCurrentUser(user);
+
+        // Someone who arrived through a trainer's invite link is a client; no need to ask
+        if (getPendingInvite()) {
+          await handleUserTypeSelection('client', user);
+        }
       } catch (error) {
         console.error('Error checking user status:', error);
         toast.error('Something went wrong');
@@ -59,9 +66,24 @@ export default function UserTypeSelection() {
     navigate(userType === 'client' ? '/client/dashboard' : '/trainer/dashboard');
   };
 
+  // Links the new client to the trainer who invited them; a failed invite still leaves a working account.
+  // Returns where to go next when the invite's plan still has to be paid for.
+  const acceptPendingInvite = async (code: string): Promise<string | null> => {
+    try {
+      const redeemed = await ClientAPI.redeemInvite(code);
+      if (redeemed.linked) NotificationService.newClient(redeemed.relation_id);
+      toast.success(describeRedeemedInvite(redeemed));
+      return redeemed.status === 'pending' ? getRedeemedInviteRoute(redeemed) : null;
+    } catch (error) {
+      console.error('Invite acceptance error:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not accept your invite');
+      return null;
+    }
+  };
+
   // Handle user type selection
-  const handleUserTypeSelection = async (userType: UserType) => {
-    if (!currentUser) return;
+  const handleUserTypeSelection = async (userType: UserType, authUser = currentUser) => {
+    if (!authUser) return;
 
     try {
       setIsLoading(true);
@@ -70,11 +92,11 @@ export default function UserTypeSelection() {
       const { error } = await supabase
         .from('users')
         .upsert({
-          id: currentUser.id,
-          email: currentUser.email,
-          full_name: currentUser.user_metadata?.full_name || '',
+          id: authUser.id,
+          email: authUser.email,
+          full_name: authUser.user_metadata?.full_name || '',
           user_type: userType,
-          registration_method: currentUser.app_metadata?.provider || 'email'
+          registration_method: authUser.app_metadata?.provider || 'email'
         }, { 
           onConflict: 'id' 
         });
@@ -83,13 +105,26 @@ export default function UserTypeSelection() {
 
       // Create corresponding client or trainer record
       if (userType === 'client') {
-        await createClientRecord(currentUser.id);
+        await createClientRecord(authUser.id);
       } else {
-        await createTrainerRecord(currentUser.id);
+        await createTrainerRecord(authUser.id);
       }
 
-      // Redirect to dashboard
-      redirectToDashboard(userType);
+      // The route guards read the cached profile, so load the new user type first
+      await refreshProfile();
+
+      const inviteCode = getPendingInvite();
+      clearPendingInvite();
+      const inviteRoute = inviteCode && userType === 'client'
+        ? await acceptPendingInvite(inviteCode)
+        : null;
+
+      // Redirect to the invite's checkout, or the dashboard
+      if (inviteRoute) {
+        navigate(inviteRoute);
+      } else {
+        redirectToDashboard(userType);
+      }
 
       // Show success toast
       toast.success(`Successfully registered as a ${userType}`);
@@ -0,0 +1,60 @@
+// src/pages/features/client/hooks/useLiveUpdates.tsx - Realtime changes to the signed-in client's plan and progress
+import { useEffect, useState } from 'react';
+import { ClientAPI, ClientProgress, ClientWorkout, queryKeys } from '@/lib/api';
+import { invalidateQueries, setQueryData } from '@/lib/queryCache';
+import { mergeRealtimeRow, useActivityFeed, useRealtimeChanges } from '@/lib/realtime';
+
+// ============================================================================
+// CUSTOM HOOK
+// ============================================================================
+
+/**
+ * Merge realtime changes into the cached measurements and workouts behind the dashboard.
+ * New assignments carry the joined workout, so they refetch instead of merging.
+ */
+export function useClientLiveUpdates() {
+  const [clientId, setClientId] = useState<string | null>(null);
+  const { activity, addActivity, clearActivity } = useActivityFeed();
+
+  useEffect(() => {
+    ClientAPI.getClientId()
+      .then(setClientId)
+      .catch(error => console.error('Error starting live updates:', error));
+  }, []);
+
+  const filter = `client_id=eq.${clientId}`;
+
+  useRealtimeChanges(
+    `client:${clientId}`,
+    [
+      { table: 'client_progress', filter },
+      { table: 'client_workouts', filter },
+      { table: 'client_menu_plans', filter },
+      { table: 'client_trainers', filter }
+    ],
+    change => {
+      switch (change.table) {
+        case 'client_progress':
+          setQueryData<ClientProgress[]>(queryKeys.measurements, current => mergeRealtimeRow(current, change));
+          break;
+        case 'client_workouts':
+          if (change.eventType === 'INSERT') {
+            invalidateQueries(queryKeys.clientWorkouts);
+            addActivity('New workout assigned');
+          } else {
+            setQueryData<ClientWorkout[]>(queryKeys.clientWorkouts, current => mergeRealtimeRow(current, change));
+          }
+          break;
+        case 'client_menu_plans':
+          if (change.eventType === 'INSERT') addActivity('New menu plan assigned');
+          break;
+        case 'client_trainers':
+          addActivity('Your trainer subscription was updated');
+          break;
+      }
+    },
+    clientId !== null
+  );
+
+  return { activity, clearActivity };
+}
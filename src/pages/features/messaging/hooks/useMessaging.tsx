@@ -0,0 +1,195 @@
+// src/pages/features/messaging/hooks/useMessaging.tsx - Conversations, live threads and unread counts for trainer-client messaging
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ClientAPI,
+  ConversationSummary,
+  Message,
+  MessageAttachment,
+  MessagingAPI,
+  SendMessageData,
+  TrainerAPI,
+  UserType,
+  queryKeys
+} from '@/lib/api';
+import { invalidateQueries, setQueryData, useQuery } from '@/lib/queryCache';
+import { mergeRealtimeRow, useBroadcast, useRealtimeChanges } from '@/lib/realtime';
+import {
+  TYPING_INDICATOR_MS,
+  toMeasurementAttachment,
+  toMenuPlanAttachment,
+  toWorkoutAttachment
+} from '@/lib/messaging';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const RECENT_MEASUREMENTS = 5;
+
+// ============================================================================
+// CUSTOM HOOKS
+// ============================================================================
+
+/**
+ * Unread messages across all of the user's conversations, kept current by realtime.
+ * The conversation list is refreshed from here too, since this runs on every dashboard page.
+ */
+export function useUnreadMessageCount(userId: string | null): number {
+  const { data } = useQuery(queryKeys.unreadMessages, MessagingAPI.getUnreadCount, { enabled: userId !== null });
+
+  useRealtimeChanges(
+    `unread-messages:${userId}`,
+    [{ table: 'messages' }, { table: 'conversations' }],
+    change => {
+      if (change.table === 'messages') invalidateQueries(queryKeys.unreadMessages);
+      invalidateQueries(queryKeys.conversations);
+    },
+    userId !== null
+  );
+
+  return data || 0;
+}
+
+export function useConversations(userType: UserType) {
+  return useQuery(queryKeys.conversations, () => MessagingAPI.getConversations(userType));
+}
+
+/**
+ * Messages in one conversation, with live delivery, read receipts and the other
+ * participant's typing indicator. Incoming messages are marked read while the thread is open.
+ */
+export function useConversationThread(conversation: ConversationSummary | null, userId: string | null) {
+  const conversationId = conversation?.conversation_id ?? null;
+  const messagesKey = queryKeys.conversationMessages(conversationId ?? '');
+
+  const { data, error, isLoading } = useQuery(
+    messagesKey,
+    () => MessagingAPI.getMessages(conversationId!),
+    { enabled: conversationId !== null }
+  );
+  const messages = conversationId ? data || [] : [];
+
+  // Typing is tracked per conversation, so switching threads never shows a stale indicator
+  const [typingIn, setTypingIn] = useState<string | null>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastTypingSentRef = useRef(0);
+
+  useEffect(() => () => {
+    if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+  }, []);
+
+  useRealtimeChanges(
+    `conversation:${conversationId}`,
+    [{ table: 'messages', filter: `conversation_id=eq.${conversationId}` }],
+    change => {
+      setQueryData<Message[]>(messagesKey, current => mergeRealtimeRow(current, change));
+      if (change.eventType === 'INSERT' && change.new.sender_id !== userId) setTypingIn(null);
+    },
+    conversationId !== null
+  );
+
+  const sendTypingEvent = useBroadcast<{ user_id: string }>(
+    `typing:${conversationId}`,
+    'typing',
+    ({ user_id }) => {
+      if (user_id === userId) return;
+
+      setTypingIn(conversationId);
+      if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = setTimeout(() => setTypingIn(null), TYPING_INDICATOR_MS);
+    },
+    conversationId !== null && userId !== null
+  );
+
+  // Throttled so a burst of keystrokes sends one event per half indicator lifetime
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (!userId || now - lastTypingSentRef.current < TYPING_INDICATOR_MS / 2) return;
+
+    lastTypingSentRef.current = now;
+    sendTypingEvent({ user_id: userId });
+  }, [userId, sendTypingEvent]);
+
+  const hasUnread = messages.some(message => message.sender_id !== userId && !message.read_at);
+
+  useEffect(() => {
+    if (!conversationId || !userId || !hasUnread) return;
+
+    MessagingAPI.markConversationRead(conversationId)
+      .then(() => {
+        const readAt = new Date().toISOString();
+        setQueryData<Message[]>(queryKeys.conversationMessages(conversationId), current =>
+          current.map(message => (message.sender_id !== userId && !message.read_at ? { ...message, read_at: readAt } : message))
+        );
+      })
+      .catch(error => console.error('Error marking conversation as read:', error));
+  }, [conversationId, userId, hasUnread]);
+
+  const sendMessage = useCallback(async (messageData: SendMessageData) => {
+    if (!conversation) return;
+
+    const message = await MessagingAPI.sendMessage(conversation.client_trainer_id, messageData);
+    lastTypingSentRef.current = 0;
+    setQueryData<Message[]>(queryKeys.conversationMessages(message.conversation_id), current =>
+      current.some(item => item.id === message.id) ? current : [...current, message]
+    );
+  }, [conversation]);
+
+  return {
+    messages,
+    error,
+    isLoading: conversationId !== null && isLoading,
+    isOtherTyping: conversationId !== null && typingIn === conversationId,
+    notifyTyping,
+    sendMessage
+  };
+}
+
+/**
+ * Workouts, menu plans and recent measurements the user can share in a conversation.
+ * Trainers share from their library and the client's history; clients share what they were assigned.
+ */
+export function useAttachmentOptions(userType: UserType, clientId: string, enabled: boolean) {
+  const isTrainer = userType === 'trainer';
+
+  const workoutsQuery = useQuery(queryKeys.workouts, TrainerAPI.getWorkouts, { enabled: enabled && isTrainer });
+  const menuPlansQuery = useQuery(queryKeys.menuPlans, TrainerAPI.getMenuPlans, { enabled: enabled && isTrainer });
+  const clientWorkoutsQuery = useQuery(queryKeys.clientWorkouts, ClientAPI.getClientWorkouts, { enabled: enabled && !isTrainer });
+  const activePlanQuery = useQuery(
+    queryKeys.activeMenuPlan,
+    () => ClientAPI.getActiveMenuPlan(),
+    { enabled: enabled && !isTrainer }
+  );
+  const measurementsQuery = useQuery(
+    isTrainer ? queryKeys.clientMeasurements(clientId) : queryKeys.measurements,
+    () => isTrainer
+      ? TrainerAPI.getClientMeasurements(clientId, 100)
+      : ClientAPI.getClientMeasurements(100),
+    { enabled }
+  );
+
+  const workouts = isTrainer
+    ? workoutsQuery.data || []
+    : (clientWorkoutsQuery.data || []).flatMap(clientWorkout => (clientWorkout.workout ? [clientWorkout.workout] : []));
+  const menuPlans = isTrainer
+    ? menuPlansQuery.data || []
+    : activePlanQuery.data?.menu_plan ? [activePlanQuery.data.menu_plan] : [];
+  const measurements = [...(measurementsQuery.data || [])]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, RECENT_MEASUREMENTS);
+
+  // Clients can be assigned the same workout on several days
+  const uniqueWorkouts = workouts.filter((workout, index) => workouts.findIndex(item => item.id === workout.id) === index);
+
+  const options: MessageAttachment[] = [
+    ...uniqueWorkouts.map(toWorkoutAttachment),
+    ...menuPlans.map(toMenuPlanAttachment),
+    ...measurements.map(toMeasurementAttachment)
+  ];
+
+  const isLoading = isTrainer
+    ? workoutsQuery.isLoading || menuPlansQuery.isLoading || measurementsQuery.isLoading
+    : clientWorkoutsQuery.isLoading || activePlanQuery.isLoading || measurementsQuery.isLoading;
+
+  return { options, isLoading };
+}
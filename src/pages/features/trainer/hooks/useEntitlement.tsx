@@ -0,0 +1,28 @@
+// src/pages/features/trainer/hooks/useEntitlement.tsx - Whether the signed-in trainer's tier unlocks a feature
+import { Entitlement, hasEntitlement } from '@/lib/entitlements';
+import { useSubscription } from './useSubscription';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface EntitlementState {
+  isEntitled: boolean;
+  isLoading: boolean;
+  tierName: string | null;
+}
+
+// ============================================================================
+// CUSTOM HOOK
+// ============================================================================
+
+// Not entitled while loading, so locked content never flashes; API calls enforce the same check
+export function useEntitlement(entitlement: Entitlement): EntitlementState {
+  const { subscription, isLoading } = useSubscription();
+
+  return {
+    isEntitled: !isLoading && hasEntitlement(subscription?.name, entitlement),
+    isLoading,
+    tierName: subscription?.name ?? null
+  };
+}
@@ -0,0 +1,147 @@
+// src/pages/features/trainer/hooks/useLiveUpdates.tsx - Realtime changes to the trainer's roster and linked clients
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TrainerAPI, TrainerClient, ClientProgress, queryKeys } from '@/lib/api';
+import { invalidateQueries, setQueryData } from '@/lib/queryCache';
+import { RealtimeChange, inFilter, mergeRealtimeRow, useActivityFeed, useRealtimeChanges } from '@/lib/realtime';
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+// Keep a roster row's latest measurement in step with a measurement insert or update
+const withLatestMeasurement = (clients: TrainerClient[], measurement: ClientProgress): TrainerClient[] =>
+  clients.map(client => {
+    if (client.client_id !== measurement.client_id) return client;
+    if (client.last_measurement && client.last_measurement.id !== measurement.id && client.last_measurement.date > measurement.date) {
+      return client;
+    }
+    return { ...client, last_measurement: measurement };
+  });
+
+// A completion sets completion_date, so an edit to a workout completed earlier is not announced again
+const COMPLETION_WINDOW_MS = 10 * 60 * 1000;
+
+const isFreshCompletion = (change: RealtimeChange) =>
+  change.eventType === 'UPDATE' &&
+  change.new.status === 'completed' &&
+  typeof change.new.completion_date === 'string' &&
+  Date.now() - new Date(change.new.completion_date).getTime() < COMPLETION_WINDOW_MS;
+
+// ============================================================================
+// CUSTOM HOOKS
+// ============================================================================
+
+/**
+ * Realtime's `old` row carries only the primary key on tables with RLS, so it can't tell whether
+ * a workout was already completed. Each workout is announced once, on its first fresh completion.
+ */
+function useCompletionCheck() {
+  const announcedIds = useRef(new Set<unknown>());
+
+  return useCallback((change: RealtimeChange) => {
+    if (!isFreshCompletion(change) || announcedIds.current.has(change.new.id)) return false;
+    announcedIds.current.add(change.new.id);
+    return true;
+  }, []);
+}
+
+/**
+ * Merge realtime changes into the cached roster: new measurements are applied in place,
+ * while relation and workout changes refetch it since they carry joined names.
+ */
+export function useRosterLiveUpdates(clients: TrainerClient[]) {
+  const [trainerId, setTrainerId] = useState<string | null>(null);
+  const { activity, addActivity, clearActivity } = useActivityFeed();
+  const isCompletion = useCompletionCheck();
+
+  useEffect(() => {
+    TrainerAPI.getTrainerId()
+      .then(setTrainerId)
+      .catch(error => console.error('Error starting live roster updates:', error));
+  }, []);
+
+  const clientIds = clients.map(client => client.client_id).sort();
+  const getClientName = (clientId: unknown) =>
+    clients.find(client => client.client_id === clientId)?.full_name || 'A client';
+
+  useRealtimeChanges(
+    `trainer-roster:${trainerId}`,
+    [
+      { table: 'client_trainers', filter: `trainer_id=eq.${trainerId}` },
+      ...(clientIds.length > 0 ? [
+        { table: 'client_progress' as const, filter: inFilter('client_id', clientIds) },
+        { table: 'client_workouts' as const, filter: inFilter('client_id', clientIds) }
+      ] : [])
+    ],
+    change => {
+      switch (change.table) {
+        case 'client_trainers':
+          invalidateQueries(queryKeys.clients);
+          invalidateQueries(queryKeys.clientCount);
+          addActivity(change.eventType === 'INSERT' ? 'New client' : 'Client status changed');
+          break;
+        case 'client_progress':
+          if (change.eventType === 'DELETE') {
+            invalidateQueries(queryKeys.clients);
+          } else {
+            setQueryData<TrainerClient[]>(queryKeys.clients, current =>
+              withLatestMeasurement(current, change.new as ClientProgress)
+            );
+            addActivity(`${getClientName(change.new.client_id)} logged a measurement`);
+          }
+          break;
+        case 'client_workouts':
+          if (isCompletion(change)) {
+            invalidateQueries(queryKeys.clients);
+            addActivity(`${getClientName(change.new.client_id)} completed a workout`);
+          }
+          break;
+      }
+    },
+    trainerId !== null
+  );
+
+  return { activity, clearActivity };
+}
+
+/**
+ * Live updates for a single client's detail page. Measurements are merged into the cache
+ * behind the progress graph; other changes are handed to `onChange` so the page can reload.
+ */
+export function useClientDetailLiveUpdates(clientId: string, onChange: (change: RealtimeChange) => void) {
+  const { activity, addActivity, clearActivity } = useActivityFeed();
+  const isCompletion = useCompletionCheck();
+
+  useRealtimeChanges(
+    `trainer-client:${clientId}`,
+    [
+      { table: 'client_progress', filter: `client_id=eq.${clientId}` },
+      { table: 'client_workouts', filter: `client_id=eq.${clientId}` },
+      { table: 'client_menu_plans', filter: `client_id=eq.${clientId}` },
+      { table: 'wellbeing_checkins', filter: `client_id=eq.${clientId}` }
+    ],
+    change => {
+      if (change.table === 'client_progress') {
+        setQueryData<ClientProgress[]>(queryKeys.clientMeasurements(clientId), current =>
+          mergeRealtimeRow(current, change)
+        );
+        if (change.eventType === 'INSERT') addActivity('New measurement logged');
+        return;
+      }
+
+      // Assignments made from this page are the trainer's own, so only client-side progress is announced
+      if (change.table === 'client_workouts' && isCompletion(change)) {
+        addActivity('Workout completed');
+      } else if (change.table === 'client_workouts' && change.eventType === 'UPDATE' && change.new.status === 'in_progress') {
+        addActivity('Workout started');
+      } else if (change.table === 'wellbeing_checkins' && change.eventType !== 'DELETE') {
+        addActivity('New wellbeing check-in');
+      }
+
+      onChange(change);
+    },
+    Boolean(clientId)
+  );
+
+  return { activity, clearActivity };
+}
@@ -1,7 +1,8 @@
 // src/pages/features/trainer/hooks/useSubscription.tsx - Refactored Version
-import { useState, useEffect, useCallback } from 'react';
-import { TrainerAPI } from '@/lib/api';
-import { SubscriptionTier } from '@/lib/types';
+import { useEffect, useCallback } from 'react';
+import { TrainerAPI, SubscriptionTier, TrainerBilling, queryKeys } from '@/lib/api';
+import { DEFAULT_CLIENT_LIMIT, DEFAULT_TIER_NAME, hasClientCapacity } from '@/lib/entitlements';
+import { useQuery } from '@/lib/queryCache';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -15,86 +16,83 @@ export interface SubscriptionState {
 }
 
 export interface SubscriptionData extends SubscriptionState {
+  // Null until Stripe has reported on a paid subscription, and for the free plan
+  billing: TrainerBilling | null;
   clientLimit: number | null;
   usagePercentage: number;
+  canAddClient: boolean;
   refetch: () => Promise<void>;
 }
 
+export interface SubscriptionOptions {
+  // Set while waiting for the stripe-webhook function to record a payment
+  refetchInterval?: number;
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const INITIAL_STATE: SubscriptionState = {
-  subscription: null,
-  clientCount: 0,
-  isLoading: true,
-  error: null
-};
-
 const FALLBACK_SUBSCRIPTION: SubscriptionTier = {
   id: 'basic-fallback',
-  name: 'Basic',
+  name: DEFAULT_TIER_NAME,
   price: 0,
   billing_cycle: 'monthly',
   description: 'Basic plan',
-  client_limit: 10,
+  client_limit: DEFAULT_CLIENT_LIMIT,
   yearly_price: null,
   sale_price: null,
-  justification: null
+  justification: null,
+  created_at: '',
+  updated_at: ''
 };
 
 // ============================================================================
 // CUSTOM HOOK
 // ============================================================================
 
-export function useSubscription(): SubscriptionData {
-  const [state, setState] = useState<SubscriptionState>(INITIAL_STATE);
+// Shares the cached subscription and client count with every other subscriber
+export function useSubscription({ refetchInterval }: SubscriptionOptions = {}): SubscriptionData {
+  const subscriptionQuery = useQuery(queryKeys.subscription, TrainerAPI.getSubscription, { refetchInterval });
+  const clientCountQuery = useQuery(queryKeys.clientCount, TrainerAPI.getClientCount);
+  const billingQuery = useQuery(queryKeys.billing, TrainerAPI.getBilling, { refetchInterval });
 
-  const updateState = useCallback((updates: Partial<SubscriptionState>) => {
-    setState(prev => ({ ...prev, ...updates }));
-  }, []);
+  const queryError = subscriptionQuery.error || clientCountQuery.error;
+  const isLoading = subscriptionQuery.isLoading || clientCountQuery.isLoading;
 
-  const fetchSubscriptionData = useCallback(async () => {
-    try {
-      updateState({ isLoading: true, error: null });
-      
-      const [subscriptionData, clientCount] = await Promise.all([
-        TrainerAPI.getSubscription(),
-        TrainerAPI.getClientCount()
-      ]);
-      
-      updateState({
-        subscription: subscriptionData || FALLBACK_SUBSCRIPTION,
-        clientCount,
-        isLoading: false
-      });
-      
-    } catch (error: any) {
-      console.error('Error fetching subscription data:', error);
-      
-      updateState({
-        subscription: FALLBACK_SUBSCRIPTION,
-        clientCount: 0,
-        error,
-        isLoading: false
-      });
+  useEffect(() => {
+    if (queryError) {
+      console.error('Error fetching subscription data:', queryError);
     }
-  }, [updateState]);
+  }, [queryError]);
 
-  useEffect(() => {
-    fetchSubscriptionData();
-  }, [fetchSubscriptionData]);
+  const state: SubscriptionState = {
+    subscription: isLoading ? null : subscriptionQuery.data || FALLBACK_SUBSCRIPTION,
+    clientCount: clientCountQuery.data || 0,
+    isLoading,
+    error: queryError ? (queryError as Error) : null
+  };
+
+  const { refetch: refetchSubscription } = subscriptionQuery;
+  const { refetch: refetchClientCount } = clientCountQuery;
+  const { refetch: refetchBilling } = billingQuery;
+  const fetchSubscriptionData = useCallback(async () => {
+    await Promise.all([refetchSubscription(), refetchClientCount(), refetchBilling()]);
+  }, [refetchSubscription, refetchClientCount, refetchBilling]);
 
   // Computed values
   const clientLimit = state.subscription?.client_limit || null;
   const usagePercentage = clientLimit 
     ? Math.min(Math.round((state.clientCount / clientLimit) * 100), 100) 
     : 0;
+  const canAddClient = !state.isLoading && hasClientCapacity(clientLimit, state.clientCount);
 
   return {
     ...state,
+    billing: billingQuery.data ?? null,
     clientLimit,
     usagePercentage,
+    canAddClient,
     refetch: fetchSubscriptionData
   };
 }
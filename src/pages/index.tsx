@@ -4,6 +4,7 @@ import ReactDOM from 'react-dom/client'
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import { AuthProvider } from '@/pages/features/auth/hooks/useAuth'
 import { Toaster } from 'sonner'
+import { USER_TYPES } from '@/lib/constants'
 import '../styles/index.css'
 
 // Main App Component
@@ -13,17 +14,34 @@ import App from '@/pages/App'
 import Login from '@/pages/features/auth/pages/Login'
 import Register from '@/pages/features/auth/pages/Register'
 import UserTypeSelection from '@/pages/features/auth/pages/UserTypeSelection'
+import PasswordReset from '@/pages/features/auth/pages/PasswordReset'
+import UpdatePassword from '@/pages/features/auth/pages/UpdatePassword'
 import AuthCallback from '@/pages/features/auth/components/AuthCallback'
+import Invite from '@/pages/features/auth/pages/Invite'
+import RouteGuard from '@/pages/features/auth/components/RouteGuard'
 
 // Client Pages
 import ClientDashboard from '@/pages/client/pages/ClientDashboard'
+import ClientWorkoutSession from '@/pages/client/pages/ClientWorkoutSession'
+import ClientNutrition from '@/pages/client/pages/ClientNutrition'
+import ClientMessages from '@/pages/client/pages/ClientMessages'
+import ClientSettings from '@/pages/client/pages/ClientSettings'
+import ClientTrainers from '@/pages/client/pages/ClientTrainers'
+import ClientTrainerProfile from '@/pages/client/pages/ClientTrainerProfile'
 
 // Trainer Pages
 import TrainerDashboard from '@/pages/trainer/pages/TrainerDashboard'
+import TrainerClients from '@/pages/trainer/pages/TrainerClients'
+import TrainerClientDetail from '@/pages/trainer/pages/TrainerClientDetail'
 import TrainerSubscriptions from '@/pages/trainer/pages/TrainerSubscriptions'
 import TrainerSubscriptionPlans from '@/pages/trainer/pages/TrainerSubscriptionPlans'
 import TrainerMenus from '@/pages/trainer/pages/TrainerMenus'
 import TrainerWorkouts from '@/pages/trainer/pages/TrainerWorkouts'
+import TrainerPrograms from '@/pages/trainer/pages/TrainerPrograms'
+import TrainerMessages from '@/pages/trainer/pages/TrainerMessages'
+import TrainerSettings from '@/pages/trainer/pages/TrainerSettings'
+import TrainerPublicProfile from '@/pages/trainer/pages/TrainerPublicProfile'
+import TrainerBilling from '@/pages/trainer/pages/TrainerBilling'
 
 // Static Pages
 import Legal from '@/pages/Legal'
@@ -40,17 +58,37 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
           <Route path="/user-type-selection" element={<UserTypeSelection />} />
+          <Route path="/password-reset" element={<PasswordReset />} />
+          <Route path="/update-password" element={<UpdatePassword />} />
+          <Route path="/invite/:code" element={<Invite />} />
           <Route path="/auth/callback" element={<AuthCallback />} />
           
           {/* Client Routes */}
-          <Route path="/client/dashboard" element={<ClientDashboard />} />
+          <Route element={<RouteGuard userType={USER_TYPES.CLIENT} />}>
+            <Route path="/client/dashboard" element={<ClientDashboard />} />
+            <Route path="/client/workouts/:clientWorkoutId" element={<ClientWorkoutSession />} />
+            <Route path="/client/nutrition" element={<ClientNutrition />} />
+            <Route path="/client/messages/:clientTrainerId?" element={<ClientMessages />} />
+            <Route path="/client/settings" element={<ClientSettings />} />
+            <Route path="/client/trainers" element={<ClientTrainers />} />
+            <Route path="/client/trainers/:trainerId" element={<ClientTrainerProfile />} />
+          </Route>
           
           {/* Trainer Routes */}
-          <Route path="/trainer/dashboard" element={<TrainerDashboard />} />
-          <Route path="/trainer/subscriptions" element={<TrainerSubscriptions />} />
-          <Route path="/trainer/subscription-plans" element={<TrainerSubscriptionPlans />} />
-          <Route path="/trainer/menus" element={<TrainerMenus />} />
-          <Route path="/trainer/workouts" element={<TrainerWorkouts />} />
+          <Route element={<RouteGuard userType={USER_TYPES.TRAINER} />}>
+            <Route path="/trainer/dashboard" element={<TrainerDashboard />} />
+            <Route path="/trainer/clients" element={<TrainerClients />} />
+            <Route path="/trainer/clients/:clientId" element={<TrainerClientDetail />} />
+            <Route path="/trainer/subscriptions" element={<TrainerSubscriptions />} />
+            <Route path="/trainer/billing" element={<TrainerBilling />} />
+            <Route path="/trainer/subscription-plans" element={<TrainerSubscriptionPlans />} />
+            <Route path="/trainer/menus" element={<TrainerMenus />} />
+            <Route path="/trainer/workouts" element={<TrainerWorkouts />} />
+            <Route path="/trainer/programs" element={<TrainerPrograms />} />
+            <Route path="/trainer/messages/:clientTrainerId?" element={<TrainerMessages />} />
+            <Route path="/trainer/settings" element={<TrainerSettings />} />
+            <Route path="/trainer/profile" element={<TrainerPublicProfile />} />
+          </Route>
           
           {/* Static Pages */}
           <Route path="/legal" element={<Legal />} />
@@ -0,0 +1,314 @@
+// src/pages/trainer/pages/TrainerBilling.tsx - What the trainer has paid, what's next, and the card it's charged to
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import PaymentMethodModal from '@/components/features/trainer/PaymentMethodModal';
+import { queryKeys } from '@/lib/api';
+import { invalidateQueries, useQuery } from '@/lib/queryCache';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { APP_NAME, DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { StripeInvoice, StripeService } from '@/lib/stripe';
+import {
+  BILLING_STATUS_LABELS,
+  BILLING_STATUS_STYLES,
+  INVOICE_STATUS_STYLES,
+  describeRenewal,
+  formatInvoiceAmount,
+  getBilledPrice,
+  hasPaidSubscription
+} from '@/lib/billing';
+import { BILLING_CYCLE_LABELS } from '@/lib/payments';
+import { formatPrice, useSubscription } from '@/pages/features/trainer/hooks/useSubscription';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function TrainerBilling() {
+  const { subscription, billing, isLoading: subscriptionLoading } = useSubscription();
+  const [setupClientSecret, setSetupClientSecret] = useState<string | null>(null);
+  const [isStartingSetup, setIsStartingSetup] = useState(false);
+  const [isResuming, setIsResuming] = useState(false);
+
+  // Trainers who never paid have no Stripe customer, so there is nothing to ask Stripe for
+  const hasCustomer = Boolean(billing?.stripe_customer_id);
+  const invoicesQuery = useQuery(queryKeys.invoices, StripeService.getInvoices, { enabled: hasCustomer });
+  const upcomingQuery = useQuery(queryKeys.upcomingInvoice, StripeService.getUpcomingInvoice, { enabled: hasCustomer });
+  const paymentMethodQuery = useQuery(queryKeys.paymentMethod, StripeService.getPaymentMethod, { enabled: hasCustomer });
+  const queryError = invoicesQuery.error || upcomingQuery.error || paymentMethodQuery.error;
+
+  useEffect(() => {
+    if (queryError) showErrorToast(queryError, 'Failed to load billing details');
+  }, [queryError]);
+
+  const handleUpdateCard = async () => {
+    try {
+      setIsStartingSetup(true);
+      setSetupClientSecret(await StripeService.createSetupIntent());
+    } catch (error) {
+      showErrorToast(error, 'Failed to start card update');
+    } finally {
+      setIsStartingSetup(false);
+    }
+  };
+
+  const handleCardSaved = () => {
+    setSetupClientSecret(null);
+    invalidateQueries(queryKeys.paymentMethod);
+  };
+
+  // The webhook clears cancel_at_period_end once Stripe confirms; the refetch picks it up
+  const handleResume = async () => {
+    try {
+      setIsResuming(true);
+      await StripeService.resumeSubscription();
+      showSuccessToast('Your subscription will renew as usual');
+      invalidateQueries(queryKeys.billing);
+    } catch (error) {
+      showErrorToast(error, 'Failed to resume subscription');
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  // Render functions
+  const renderSubscription = () => {
+    const price = getBilledPrice(subscription, billing);
+    const status = billing?.subscription_status;
+    const renewal = describeRenewal(billing);
+    const isEnding = hasPaidSubscription(billing) && billing?.cancel_at_period_end;
+
+    return (
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Subscription</CardTitle>
+          <Link to={DASHBOARD_ROUTES.TRAINER.SUBSCRIPTIONS}>
+            <Button variant="outline" size="sm">Change plan</Button>
+          </Link>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-lg font-semibold text-[#007bff]">{subscription?.name || 'Basic'}</span>
+            <span className="text-gray-700">{formatPrice(price.amount, price.cycle)}</span>
+            {status && (
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${BILLING_STATUS_STYLES[status]}`}>
+                {BILLING_STATUS_LABELS[status]}
+              </span>
+            )}
+          </div>
+          {renewal && (
+            <p className="text-sm text-gray-600">
+              {billing?.billing_cycle && `Billed ${BILLING_CYCLE_LABELS[billing.billing_cycle].toLowerCase()} · `}{renewal}
+            </p>
+          )}
+
+          {isEnding && (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-yellow-200 bg-yellow-50 p-3">
+              <p className="text-sm text-yellow-800">
+                Your subscription is canceled and you move to the Basic plan when this period ends.
+              </p>
+              <Button variant="blue" size="sm" onClick={handleResume} isLoading={isResuming} className="sm:flex-shrink-0">
+                Resume subscription
+              </Button>
+            </div>
+          )}
+
+          {status === 'past_due' && (
+            <p className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              Your last payment failed. Stripe will retry it; update your card below to avoid losing your plan.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderPaymentMethod = () => {
+    const paymentMethod = paymentMethodQuery.data;
+
+    return (
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Payment Method</CardTitle>
+          <Button variant="outline" size="sm" onClick={handleUpdateCard} isLoading={isStartingSetup}>
+            {paymentMethod ? 'Update card' : 'Add card'}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {paymentMethodQuery.isLoading ? (
+            <LoadingSpinner size="sm" />
+          ) : paymentMethod ? (
+            <p className="text-gray-700">
+              <span className="font-medium capitalize">{paymentMethod.brand}</span> ending in {paymentMethod.last4}
+              <span className="text-sm text-gray-500 ml-2">
+                Expires {String(paymentMethod.exp_month).padStart(2, '0')}/{paymentMethod.exp_year}
+              </span>
+            </p>
+          ) : (
+            <p className="text-sm text-gray-500">No card on file.</p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderUpcomingInvoice = () => {
+    const upcoming = upcomingQuery.data;
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Next Invoice</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {upcomingQuery.isLoading ? (
+            <LoadingSpinner size="sm" />
+          ) : upcoming ? (
+            <div className="space-y-3">
+              <div className="flex items-baseline justify-between">
+                <span className="text-2xl font-semibold text-gray-800">{formatInvoiceAmount(upcoming.amount_due, upcoming.currency)}</span>
+                {upcoming.next_payment_attempt && (
+                  <span className="text-sm text-gray-500">Charged on {formatDate(upcoming.next_payment_attempt)}</span>
+                )}
+              </div>
+              {upcoming.lines.length > 1 && (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {upcoming.lines.map((line, index) => (
+                    <li key={index} className="flex justify-between gap-4 py-2">
+                      <span className="text-gray-600">{line.description}</span>
+                      <span className="text-gray-800">{formatInvoiceAmount(line.amount, upcoming.currency)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Nothing scheduled.</p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderInvoice = (invoice: StripeInvoice) => (
+    <tr key={invoice.id} className="border-b border-gray-100">
+      <td className="py-3 px-4 text-gray-800">{formatDate(invoice.created)}</td>
+      <td className="py-3 px-4 text-gray-600 hidden md:table-cell">
+        {formatDate(invoice.period_start)} – {formatDate(invoice.period_end)}
+      </td>
+      <td className="py-3 px-4 text-gray-800">
+        {formatInvoiceAmount(invoice.status === 'paid' ? invoice.amount_paid : invoice.amount_due, invoice.currency)}
+      </td>
+      <td className="py-3 px-4">
+        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize ${INVOICE_STATUS_STYLES[invoice.status] || INVOICE_STATUS_STYLES.draft}`}>
+          {invoice.status}
+        </span>
+      </td>
+      <td className="py-3 px-4 text-right space-x-3 whitespace-nowrap">
+        {invoice.hosted_invoice_url && (
+          <a href={invoice.hosted_invoice_url} target="_blank" rel="noopener noreferrer" className="text-sm text-[#007bff] hover:underline">
+            {invoice.status === 'open' ? 'Pay' : 'View'}
+          </a>
+        )}
+        {invoice.invoice_pdf && (
+          <a href={invoice.invoice_pdf} target="_blank" rel="noopener noreferrer" className="text-sm text-[#007bff] hover:underline">
+            PDF
+          </a>
+        )}
+      </td>
+    </tr>
+  );
+
+  const renderInvoices = () => {
+    const invoices = invoicesQuery.data || [];
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Invoices</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {invoicesQuery.isLoading ? (
+            <div className="flex justify-center py-4">
+              <LoadingSpinner />
+            </div>
+          ) : invoices.length === 0 ? (
+            <p className="text-sm text-gray-500">No invoices yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-700">
+                    <th className="py-3 px-4 font-medium">Date</th>
+                    <th className="py-3 px-4 font-medium hidden md:table-cell">Period</th>
+                    <th className="py-3 px-4 font-medium">Amount</th>
+                    <th className="py-3 px-4 font-medium">Status</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>{invoices.map(renderInvoice)}</tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (subscriptionLoading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.TRAINER}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout userType={USER_TYPES.TRAINER}>
+      <div className="space-y-6 max-w-4xl">
+        <div>
+          <h1 className="text-2xl font-bold text-[#040b07]">Billing</h1>
+          <p className="text-gray-600">Your {APP_NAME} subscription, invoices and payment method</p>
+        </div>
+
+        {renderSubscription()}
+
+        {hasCustomer ? (
+          <>
+            <div className="grid gap-6 md:grid-cols-2">
+              {renderPaymentMethod()}
+              {renderUpcomingInvoice()}
+            </div>
+            {renderInvoices()}
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-600">
+              You're on the free plan, so there are no invoices or saved cards yet.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {setupClientSecret && (
+        <PaymentMethodModal
+          clientSecret={setupClientSecret}
+          onClose={() => setSetupClientSecret(null)}
+          onSaved={handleCardSaved}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
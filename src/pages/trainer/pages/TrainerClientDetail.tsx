@@ -0,0 +1,389 @@
+// src/pages/trainer/pages/TrainerClientDetail.tsx - Single client view for trainers
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import { ProgressGraph } from '@/components/features/client/ProgressGraph';
+import NewActivityIndicator from '@/components/molecules/NewActivityIndicator';
+import WellbeingHeatmap from '@/components/features/trainer/WellbeingHeatmap';
+import UpgradePrompt from '@/components/features/trainer/UpgradePrompt';
+import {
+  TrainerAPI,
+  TrainerClientDetail as ClientDetail,
+  ClientWorkout,
+  ClientMenuPlan,
+  ClientTrainerStatus,
+  NutritionAdherence,
+  WellbeingCheckin
+} from '@/lib/api';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { DASHBOARD_ROUTES, LINKED_CLIENT_STATUSES, USER_TYPES } from '@/lib/constants';
+import { formatWorkoutProgression } from '@/lib/programs';
+import { ADHERENCE_HISTORY_DAYS, getAdherenceColor, getAverageAdherence } from '@/lib/nutrition';
+import { addDays, getTodayDate } from '@/lib/utils';
+import { useClientDetailLiveUpdates } from '@/pages/features/trainer/hooks/useLiveUpdates';
+import { useEntitlement } from '@/pages/features/trainer/hooks/useEntitlement';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STATUS_STYLES: Record<ClientTrainerStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  suspended: 'bg-red-100 text-red-800',
+  inactive: 'bg-gray-100 text-gray-700'
+};
+
+const WORKOUT_STATUS_STYLES: Record<ClientWorkout['status'], string> = {
+  assigned: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-orange-100 text-orange-800',
+  completed: 'bg-green-100 text-green-800'
+};
+
+const WORKOUT_STATUS_LABELS: Record<ClientWorkout['status'], string> = {
+  assigned: 'Assigned',
+  in_progress: 'In Progress',
+  completed: 'Completed'
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const formatDate = (dateString: string | null | undefined) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric'
+  });
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function TrainerClientDetail() {
+  const { clientId = '' } = useParams<{ clientId: string }>();
+  const [client, setClient] = useState<ClientDetail | null>(null);
+  const [workouts, setWorkouts] = useState<ClientWorkout[]>([]);
+  const [menuPlans, setMenuPlans] = useState<ClientMenuPlan[]>([]);
+  const [adherence, setAdherence] = useState<NutritionAdherence[]>([]);
+  const [wellbeing, setWellbeing] = useState<WellbeingCheckin[]>([]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [savingNotes, setSavingNotes] = useState(false);
+  const wellbeingAccess = useEntitlement('table_of_feelings');
+
+  const fetchClient = useCallback(async () => {
+    try {
+      setLoading(true);
+      const detail = await TrainerAPI.getClientDetail(clientId);
+      setClient(detail);
+      if (!detail) return;
+
+      setNotes(detail.notes || '');
+      if (!LINKED_CLIENT_STATUSES.includes(detail.status)) return;
+
+      const [workoutsData, menuPlansData, adherenceData, wellbeingData] = await Promise.all([
+        TrainerAPI.getClientWorkouts(clientId),
+        TrainerAPI.getClientMenuPlans(clientId),
+        TrainerAPI.getClientAdherence(clientId),
+        TrainerAPI.getClientWellbeing(clientId)
+      ]);
+      setWorkouts(workoutsData);
+      setMenuPlans(menuPlansData);
+      setAdherence(adherenceData);
+      setWellbeing(wellbeingData);
+    } catch (error) {
+      showErrorToast(error, 'Failed to load client');
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    fetchClient();
+  }, [fetchClient]);
+
+  // Realtime changes reload only the affected list, without the full-page spinner
+  const { activity, clearActivity } = useClientDetailLiveUpdates(clientId, async (change) => {
+    try {
+      if (change.table === 'client_workouts') {
+        setWorkouts(await TrainerAPI.getClientWorkouts(clientId));
+      } else if (change.table === 'client_menu_plans') {
+        setMenuPlans(await TrainerAPI.getClientMenuPlans(clientId));
+      } else if (change.table === 'wellbeing_checkins') {
+        setWellbeing(await TrainerAPI.getClientWellbeing(clientId));
+      }
+    } catch (error) {
+      console.error('Error refreshing client activity:', error);
+    }
+  });
+
+  const handleSaveNotes = async () => {
+    try {
+      setSavingNotes(true);
+      await TrainerAPI.updateClientNotes(clientId, notes);
+      showSuccessToast('Notes saved');
+    } catch (error) {
+      showErrorToast(error, 'Failed to save notes');
+    } finally {
+      setSavingNotes(false);
+    }
+  };
+
+  // Render functions
+  const renderBackLink = () => (
+    <Link
+      to={DASHBOARD_ROUTES.TRAINER.CLIENTS}
+      className="inline-flex items-center text-sm text-gray-600 hover:text-[#007bff]"
+    >
+      ← Back to clients
+    </Link>
+  );
+
+  const renderWorkoutRow = (clientWorkout: ClientWorkout) => (
+    <div key={clientWorkout.id} className="flex items-start justify-between border-b border-gray-100 py-3 last:border-0">
+      <div>
+        <p className="font-medium text-gray-800">{clientWorkout.workout?.workout_name || 'Workout'}</p>
+        <p className="text-xs text-gray-500">
+          Assigned {formatDate(clientWorkout.assigned_date)}
+          {clientWorkout.completion_date && ` • Completed ${formatDate(clientWorkout.completion_date)}`}
+        </p>
+        {clientWorkout.progression && (
+          <p className="text-xs text-orange-700 mt-1">
+            Week {clientWorkout.program_week} • {formatWorkoutProgression(clientWorkout.progression)}
+          </p>
+        )}
+        {clientWorkout.trainer_notes && (
+          <p className="text-sm text-gray-600 mt-1">{clientWorkout.trainer_notes}</p>
+        )}
+      </div>
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${WORKOUT_STATUS_STYLES[clientWorkout.status]}`}>
+        {WORKOUT_STATUS_LABELS[clientWorkout.status]}
+      </span>
+    </div>
+  );
+
+  const renderMenuPlanRow = (clientPlan: ClientMenuPlan) => (
+    <div key={clientPlan.id} className="border-b border-gray-100 py-3 last:border-0">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-800">{clientPlan.menu_plan?.plan_name || 'Menu plan'}</p>
+        <span className="text-xs text-gray-500">Since {formatDate(clientPlan.start_date || clientPlan.created_at)}</span>
+      </div>
+      {clientPlan.menu_plan && (
+        <div className="grid grid-cols-4 gap-2 mt-2 text-center text-xs">
+          <div className="bg-orange-50 rounded p-2">
+            <p className="font-medium text-orange-600">{clientPlan.menu_plan.total_calories}</p>
+            <p className="text-gray-500">kcal</p>
+          </div>
+          <div className="bg-blue-50 rounded p-2">
+            <p className="font-medium text-blue-600">{clientPlan.menu_plan.total_protein}g</p>
+            <p className="text-gray-500">Protein</p>
+          </div>
+          <div className="bg-green-50 rounded p-2">
+            <p className="font-medium text-green-600">{clientPlan.menu_plan.total_carbohydrates}g</p>
+            <p className="text-gray-500">Carbs</p>
+          </div>
+          <div className="bg-purple-50 rounded p-2">
+            <p className="font-medium text-purple-600">{clientPlan.menu_plan.total_fat}g</p>
+            <p className="text-gray-500">Fat</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  // One cell per day, oldest first; days without check-ins stay grey
+  const renderWellbeing = () => {
+    if (wellbeingAccess.isLoading) return null;
+    if (wellbeingAccess.isEntitled) {
+      return <WellbeingHeatmap checkins={wellbeing} workouts={workouts} />;
+    }
+
+    return (
+      <UpgradePrompt
+        compact
+        entitlement="table_of_feelings"
+        tierName={wellbeingAccess.tierName}
+        description="See daily mood, energy, sleep, stress and soreness check-ins."
+      />
+    );
+  };
+
+  const renderAdherence = () => {
+    const today = getTodayDate();
+    const days = Array.from({ length: ADHERENCE_HISTORY_DAYS }, (_, index) =>
+      addDays(today, index - (ADHERENCE_HISTORY_DAYS - 1)));
+    const average = getAverageAdherence(adherence);
+
+    return (
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Nutrition Adherence</CardTitle>
+            <span className="text-sm text-gray-600">
+              {average === null ? 'No check-ins' : `${average}% avg • last ${ADHERENCE_HISTORY_DAYS} days`}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-1">
+            {days.map(date => {
+              const entry = adherence.find(item => item.date === date);
+              return (
+                <div
+                  key={date}
+                  className={`flex-1 h-8 rounded ${entry ? getAdherenceColor(entry.score) : 'bg-gray-100'}`}
+                  title={entry
+                    ? `${formatDate(date)}: ${entry.score}% (${entry.meals_eaten} eaten, ${entry.meals_substituted} substituted, ${entry.meals_skipped} skipped of ${entry.meals_planned})`
+                    : `${formatDate(date)}: no check-ins`}
+                />
+              );
+            })}
+          </div>
+          <div className="flex justify-between mt-1 text-xs text-gray-500">
+            <span>{formatDate(days[0])}</span>
+            <span>Today</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.TRAINER}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (!client) {
+    return (
+      <DashboardLayout userType={USER_TYPES.TRAINER}>
+        <div className="space-y-6">
+          {renderBackLink()}
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 mb-4">
+                <Icon name="user" size={24} className="text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Client Not Found</h3>
+              <p className="text-gray-600">This client does not exist or is not linked to you.</p>
+            </CardContent>
+          </Card>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout userType={USER_TYPES.TRAINER}>
+      <div className="space-y-6">
+        {renderBackLink()}
+
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div className="flex items-center">
+            <div className="flex h-12 w-12 items-center justify-center rounded-full bg-gray-200 text-lg text-gray-600">
+              {client.full_name.charAt(0)}
+            </div>
+            <div className="ml-4">
+              <h1 className="text-2xl font-bold text-[#040b07]">{client.full_name}</h1>
+              <p className="text-gray-600">{client.email}</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[client.status]}`}>
+              {client.status}
+            </span>
+            {client.subscription_name && (
+              <span>
+                {client.subscription_name}
+                {client.subscription_price !== null && ` • ${client.subscription_price} CZK`}
+              </span>
+            )}
+            <span>Since {formatDate(client.start_date)}</span>
+          </div>
+        </div>
+
+        <NewActivityIndicator activity={activity} onDismiss={clearActivity} />
+
+        {LINKED_CLIENT_STATUSES.includes(client.status) ? (
+          <>
+            {/* Measurements */}
+            <ProgressGraph clientId={clientId} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Workouts */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Workouts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {workouts.length === 0 ? (
+                    <p className="text-center text-gray-500 py-6">No workouts assigned yet.</p>
+                  ) : (
+                    workouts.map(renderWorkoutRow)
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Menu plans */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Active Menu Plans</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {menuPlans.length === 0 ? (
+                    <p className="text-center text-gray-500 py-6">No active menu plans.</p>
+                  ) : (
+                    menuPlans.map(renderMenuPlanRow)
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {renderAdherence()}
+
+            {renderWellbeing()}
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-8 text-center text-gray-500">
+              {client.status === 'pending'
+                ? 'Their progress, workouts and menu plans appear here once they are an active client.'
+                : 'This client is no longer with you, so their progress, workouts and menu plans are private.'}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Trainer notes */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <textarea
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              className="flex h-28 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              placeholder="Private notes about this client - injuries, goals, preferences..."
+            />
+            <div className="flex justify-end">
+              <Button variant="blue" size="sm" onClick={handleSaveNotes} isLoading={savingNotes} disabled={savingNotes}>
+                Save Notes
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,366 @@
+// src/pages/trainer/pages/TrainerClients.tsx - Client roster backed by client_trainers
+import { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardContent } from '@/components/organisms/Card';
+import NewActivityIndicator from '@/components/molecules/NewActivityIndicator';
+import ClientInvitesCard from '@/components/features/trainer/ClientInvitesCard';
+import { TrainerAPI, TrainerClient, ClientTrainerStatus, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { formatRelativeDate } from '@/lib/utils';
+import { useRosterLiveUpdates } from '@/pages/features/trainer/hooks/useLiveUpdates';
+import { useSubscription } from '@/pages/features/trainer/hooks/useSubscription';
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+type StatusFilter = 'all' | ClientTrainerStatus;
+type SortKey = 'name' | 'status' | 'start_date' | 'last_measurement' | 'last_workout';
+type SortDirection = 'asc' | 'desc';
+
+const STATUS_FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'active', label: 'Active' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'suspended', label: 'Suspended' },
+  { value: 'inactive', label: 'Inactive' }
+];
+
+const STATUS_STYLES: Record<ClientTrainerStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  suspended: 'bg-red-100 text-red-800',
+  inactive: 'bg-gray-100 text-gray-700'
+};
+
+const STATUS_ORDER: Record<ClientTrainerStatus, number> = {
+  active: 0,
+  pending: 1,
+  suspended: 2,
+  inactive: 3
+};
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric'
+  });
+};
+
+const toTime = (dateString: string | null | undefined) => (dateString ? new Date(dateString).getTime() : 0);
+
+const getSortValue = (client: TrainerClient, key: SortKey): string | number => {
+  switch (key) {
+    case 'name':
+      return client.full_name.toLowerCase();
+    case 'status':
+      return STATUS_ORDER[client.status];
+    case 'start_date':
+      return toTime(client.start_date);
+    case 'last_measurement':
+      return toTime(client.last_measurement?.date);
+    case 'last_workout':
+      return toTime(client.last_completed_workout?.completion_date);
+    default:
+      return 0;
+  }
+};
+
+const sortClients = (clients: TrainerClient[], key: SortKey, direction: SortDirection) => {
+  const modifier = direction === 'asc' ? 1 : -1;
+  return [...clients].sort((a, b) => {
+    const aValue = getSortValue(a, key);
+    const bValue = getSortValue(b, key);
+    if (aValue < bValue) return -1 * modifier;
+    if (aValue > bValue) return 1 * modifier;
+    return 0;
+  });
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function TrainerClients() {
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('name');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [showInvites, setShowInvites] = useState(false);
+  const { subscription, clientLimit, canAddClient } = useSubscription();
+
+  // Cached and kept current by realtime changes to the roster, measurements and workouts
+  const { data, isLoading: loading, error } = useQuery(queryKeys.clients, TrainerAPI.getClients);
+  const clients = useMemo(() => data || [], [data]);
+  const { activity, clearActivity } = useRosterLiveUpdates(clients);
+
+  useEffect(() => {
+    if (error) showErrorToast(error, 'Failed to load clients');
+  }, [error]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<StatusFilter, number> = { all: clients.length, active: 0, pending: 0, suspended: 0, inactive: 0 };
+    clients.forEach(client => {
+      counts[client.status] += 1;
+    });
+    return counts;
+  }, [clients]);
+
+  const visibleClients = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = clients.filter(client => {
+      if (statusFilter !== 'all' && client.status !== statusFilter) return false;
+      if (!query) return true;
+      return client.full_name.toLowerCase().includes(query) || client.email.toLowerCase().includes(query);
+    });
+    return sortClients(filtered, sortKey, sortDirection);
+  }, [clients, search, statusFilter, sortKey, sortDirection]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      // Dates read most naturally newest first, names A-Z
+      setSortDirection(key === 'name' || key === 'status' ? 'asc' : 'desc');
+    }
+  };
+
+  const handleAccept = async (client: TrainerClient) => {
+    try {
+      setRespondingId(client.relation_id);
+      await TrainerAPI.acceptClient(client.relation_id);
+      showSuccessToast(`${client.full_name} is now an active client`);
+    } catch (error) {
+      showErrorToast(error, 'Failed to accept client');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const handleDecline = async (client: TrainerClient) => {
+    if (!confirm(`Decline ${client.full_name}'s request?`)) return;
+
+    try {
+      setRespondingId(client.relation_id);
+      await TrainerAPI.declineClient(client.relation_id);
+      showSuccessToast(`Declined ${client.full_name}'s request`);
+    } catch (error) {
+      showErrorToast(error, 'Failed to decline client');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  // Render functions
+  const renderSortHeader = (key: SortKey, label: string) => (
+    <th className="py-3 px-4 text-left font-medium text-gray-700">
+      <button
+        type="button"
+        onClick={() => handleSort(key)}
+        className="inline-flex items-center hover:text-[#007bff] transition-colors"
+      >
+        {label}
+        {sortKey === key && (
+          <span className="ml-1 text-xs">{sortDirection === 'asc' ? '▲' : '▼'}</span>
+        )}
+      </button>
+    </th>
+  );
+
+  const renderClientRow = (client: TrainerClient) => (
+    <tr key={client.relation_id} className="border-b border-gray-100 hover:bg-gray-50">
+      <td className="py-3 px-4">
+        <div className="flex items-center">
+          <div className="flex h-9 w-9 items-center justify-center rounded-full bg-gray-200 text-gray-600">
+            {client.full_name.charAt(0)}
+          </div>
+          <div className="ml-3">
+            <Link
+              to={`${DASHBOARD_ROUTES.TRAINER.CLIENTS}/${client.client_id}`}
+              className="font-medium text-gray-800 hover:text-[#007bff]"
+            >
+              {client.full_name}
+            </Link>
+            <p className="text-xs text-gray-500">{client.email}</p>
+          </div>
+        </div>
+      </td>
+      <td className="py-3 px-4">
+        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[client.status]}`}>
+          {client.status}
+        </span>
+        {client.status === 'pending' && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-2"
+              onClick={() => handleAccept(client)}
+              isLoading={respondingId === client.relation_id}
+              disabled={!canAddClient || respondingId !== null}
+              title={canAddClient ? undefined : 'Your plan\'s client limit is reached'}
+            >
+              Accept
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-1 text-gray-600"
+              onClick={() => handleDecline(client)}
+              disabled={respondingId !== null}
+            >
+              Decline
+            </Button>
+          </>
+        )}
+      </td>
+      <td className="py-3 px-4 text-sm text-gray-700">
+        {client.subscription_name || '-'}
+        {client.subscription_price !== null && (
+          <span className="block text-xs text-gray-500">{client.subscription_price} CZK</span>
+        )}
+      </td>
+      <td className="py-3 px-4 text-sm text-gray-700">{formatDate(client.start_date)}</td>
+      <td className="py-3 px-4 text-sm text-gray-700">
+        {client.last_measurement ? (
+          <>
+            {formatRelativeDate(client.last_measurement.date)}
+            {client.last_measurement.body_weight !== null && (
+              <span className="block text-xs text-gray-500">{client.last_measurement.body_weight} kg</span>
+            )}
+          </>
+        ) : 'Never'}
+      </td>
+      <td className="py-3 px-4 text-sm text-gray-700">
+        {client.last_completed_workout ? (
+          <>
+            {formatRelativeDate(client.last_completed_workout.completion_date)}
+            <span className="block text-xs text-gray-500">{client.last_completed_workout.workout_name}</span>
+          </>
+        ) : 'Never'}
+      </td>
+    </tr>
+  );
+
+  if (loading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.TRAINER}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout userType={USER_TYPES.TRAINER}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-[#040b07]">My Clients</h1>
+            <p className="text-gray-600">Everyone linked to you, with their latest measurements and workouts</p>
+          </div>
+          <div className="flex w-full sm:w-auto gap-2">
+            <div className="flex-1 sm:w-72">
+              <Input
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Search by name or email"
+              />
+            </div>
+            <Button variant={showInvites ? 'outline' : 'blue'} onClick={() => setShowInvites(prev => !prev)}>
+              <Icon name="users" size={16} className="mr-2" />
+              Invite
+            </Button>
+          </div>
+        </div>
+
+        {showInvites && <ClientInvitesCard />}
+
+        <NewActivityIndicator activity={activity} onDismiss={clearActivity} />
+
+        {!canAddClient && statusCounts.pending > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800" role="alert">
+            <p>
+              You've reached the {clientLimit}-client limit of the {subscription?.name} plan, so pending clients
+              can't be accepted until you upgrade or a client leaves.
+            </p>
+            <Link to={DASHBOARD_ROUTES.TRAINER.SUBSCRIPTIONS}>
+              <Button variant="outline" size="sm">View plans</Button>
+            </Link>
+          </div>
+        )}
+
+        {/* Status filters */}
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map(option => (
+            <Button
+              key={option.value}
+              variant={statusFilter === option.value ? 'blue' : 'outline'}
+              size="sm"
+              onClick={() => setStatusFilter(option.value)}
+            >
+              {option.label}
+              <span className="ml-1 text-xs opacity-80">({statusCounts[option.value]})</span>
+            </Button>
+          ))}
+        </div>
+
+        {/* Clients table */}
+        {clients.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 mb-4">
+                <Icon name="users" size={24} className="text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Clients Yet</h3>
+              <p className="text-gray-600 mb-6">Clients appear here as soon as they request or subscribe to one of your plans.</p>
+              {!showInvites && (
+                <Button variant="blue" onClick={() => setShowInvites(true)}>Invite your first client</Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 text-sm">
+                      {renderSortHeader('name', 'Client')}
+                      {renderSortHeader('status', 'Status')}
+                      <th className="py-3 px-4 text-left font-medium text-gray-700">Subscription</th>
+                      {renderSortHeader('start_date', 'Start Date')}
+                      {renderSortHeader('last_measurement', 'Last Measurement')}
+                      {renderSortHeader('last_workout', 'Last Workout')}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleClients.map(renderClientRow)}
+                  </tbody>
+                </table>
+              </div>
+              {visibleClients.length === 0 && (
+                <p className="text-center text-gray-500 py-8">No clients match your filters.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,5 +1,5 @@
 // src/pages/trainer/pages/TrainerDashboard.tsx - Updated with Subscription Plans card
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo } from "react";
 import DashboardLayout from "@/components/organisms/DashboardLayout";
 import SubscriptionBox from "@/components/features/trainer/SubscriptionBox";
 import MenuPlansOverview from "@/components/features/trainer/MenuPlansOverview";
@@ -8,71 +8,63 @@ import TrainerSubscriptionPlansOverview from "@/components/features/trainer/Trai
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/organisms/Card";
 import { Button } from "@/components/atoms/Button";
 import LoadingSpinner from "@/components/atoms/LoadingSpinner";
-import { AuthAPI } from "@/lib/api";
+import { Link } from "react-router-dom";
+import { TrainerAPI, TrainerClient, queryKeys } from "@/lib/api";
+import { useQuery } from "@/lib/queryCache";
 import { showErrorToast } from "@/lib/errors";
-import { USER_TYPES } from "@/lib/constants";
-import { UserProfile } from "@/lib/types";
+import { USER_TYPES, DASHBOARD_ROUTES } from "@/lib/constants";
+import { useAuth } from "@/pages/features/auth/hooks/useAuth";
+import { formatRelativeDate } from "@/lib/utils";
 
-interface ClientSummary {
-  id: string;
-  full_name: string;
-  last_workout: string;
-  progress: number;
-}
+const TOP_CLIENTS_LIMIT = 5;
 
-// Mock client data - in real app this would come from API
-const MOCK_CLIENTS: ClientSummary[] = [
-  { id: '1', full_name: 'John Smith', last_workout: '2 days ago', progress: 85 },
-  { id: '2', full_name: 'Maria Garcia', last_workout: 'Today', progress: 92 },
-  { id: '3', full_name: 'Ahmed Khan', last_workout: 'Yesterday', progress: 78 },
-];
+// Most recent activity across measurements and completed workouts, used to rank top clients
+const getLastActivityTime = (client: TrainerClient): number => {
+  const measurementTime = client.last_measurement ? new Date(client.last_measurement.date).getTime() : 0;
+  const workoutTime = client.last_completed_workout ? new Date(client.last_completed_workout.completion_date).getTime() : 0;
+  return Math.max(measurementTime, workoutTime);
+};
 
 export default function TrainerDashboard() {
-  const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [clients] = useState<ClientSummary[]>(MOCK_CLIENTS);
+  // Loaded by the route guard before this page renders
+  const { profile } = useAuth();
+  // Shares the cached roster with the clients page
+  const { data: roster, isLoading: clientsLoading, error: clientsError } = useQuery(queryKeys.clients, TrainerAPI.getClients);
 
-  const fetchProfile = async () => {
-    try {
-      setLoading(true);
-      const profileData = await AuthAPI.getUserProfile();
-      setProfile(profileData);
-    } catch (error) {
-      showErrorToast(error, 'Failed to load profile');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const clients = useMemo(() => (roster || [])
+    .filter(client => client.status === 'active')
+    .sort((a, b) => getLastActivityTime(b) - getLastActivityTime(a))
+    .slice(0, TOP_CLIENTS_LIMIT), [roster]);
 
   useEffect(() => {
-    fetchProfile();
-  }, []);
+    if (clientsError) showErrorToast(clientsError, 'Failed to load clients');
+  }, [clientsError]);
 
-  const renderClientRow = (client: ClientSummary) => (
-    <div key={client.id} className="flex items-center justify-between rounded-md border border-gray-200 p-3">
+  const renderClientRow = (client: TrainerClient) => (
+    <div key={client.relation_id} className="flex items-center justify-between rounded-md border border-gray-200 p-3">
       <div className="flex items-center">
         <div className="flex h-10 w-10 items-center justify-center rounded-full bg-gray-200 text-gray-600">
           {client.full_name.charAt(0)}
         </div>
         <div className="ml-3">
-          <p className="font-medium text-gray-800">{client.full_name}</p>
-          <p className="text-xs text-gray-500">Last workout: {client.last_workout}</p>
+          <Link
+            to={`${DASHBOARD_ROUTES.TRAINER.CLIENTS}/${client.client_id}`}
+            className="font-medium text-gray-800 hover:text-[#007bff]"
+          >
+            {client.full_name}
+          </Link>
+          <p className="text-xs text-gray-500">
+            Last workout: {formatRelativeDate(client.last_completed_workout?.completion_date)}
+          </p>
         </div>
       </div>
       <div className="text-right">
-        <div className="flex items-center">
-          <span className="mr-2 text-sm font-medium text-gray-700">{client.progress}%</span>
-          <div className="h-2 w-16 rounded-full bg-gray-200">
-            <div 
-              className="h-2 rounded-full bg-green-600" 
-              style={{ width: `${client.progress}%` }}
-              aria-valuenow={client.progress}
-              aria-valuemin={0}
-              aria-valuemax={100}
-              role="progressbar"
-            />
-          </div>
-        </div>
+        <p className="text-sm font-medium text-gray-700">
+          {client.last_measurement?.body_weight != null ? `${client.last_measurement.body_weight} kg` : '-'}
+        </p>
+        <p className="text-xs text-gray-500">
+          Measured: {formatRelativeDate(client.last_measurement?.date)}
+        </p>
       </div>
     </div>
   );
@@ -80,21 +72,12 @@ export default function TrainerDashboard() {
   const renderWelcomeCard = () => (
     <Card>
       <CardContent className="p-6">
-        {loading ? (
-          <div className="flex items-center space-x-4">
-            <LoadingSpinner size="sm" />
-            <p>Loading profile...</p>
-          </div>
-        ) : (
-          <>
-            <h2 className="text-xl font-semibold text-gray-800">
-              Welcome, {profile?.full_name || 'Trainer'}
-            </h2>
-            <p className="mt-2 text-gray-600">
-              Here's an overview of your clients, workouts, and menu plans.
-            </p>
-          </>
-        )}
+        <h2 className="text-xl font-semibold text-gray-800">
+          Welcome, {profile?.full_name || 'Trainer'}
+        </h2>
+        <p className="mt-2 text-gray-600">
+          Here's an overview of your clients, workouts, and menu plans.
+        </p>
       </CardContent>
     </Card>
   );
@@ -120,12 +103,22 @@ export default function TrainerDashboard() {
     <Card>
       <CardHeader className="p-6 pb-0 flex items-center justify-between">
         <CardTitle>Clients Overview</CardTitle>
-        <Button variant="link" size="sm">View All</Button>
+        <Link to={DASHBOARD_ROUTES.TRAINER.CLIENTS}>
+          <Button variant="link" size="sm">View All</Button>
+        </Link>
       </CardHeader>
       <CardContent className="p-6">
-        <div className="space-y-3">
-          {clients.map(renderClientRow)}
-        </div>
+        {clientsLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <LoadingSpinner size="md" />
+          </div>
+        ) : clients.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-6">No active clients yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {clients.map(renderClientRow)}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
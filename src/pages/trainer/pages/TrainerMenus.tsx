@@ -1,11 +1,15 @@
 // src/pages/trainer/pages/TrainerMenus.tsx - Refactored with cleaner code
 import React, { useState, useEffect } from 'react';
 import DashboardLayout from '@/components/organisms/DashboardLayout';
+import AssignToClientsModal, { AssignmentTarget } from '@/components/features/trainer/AssignToClientsModal';
 import { Button } from '@/components/atoms/Button';
 import { Input } from '@/components/atoms/Input';
 import Icon from '@/components/atoms/Icon';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import SortableList from '@/components/molecules/SortableList';
+import MealIngredientsEditor, { IngredientDraft } from '@/components/features/trainer/MealIngredientsEditor';
+import FoodCatalogPanel from '@/components/features/trainer/FoodCatalogPanel';
 import { 
   Form,
   FormControl,
@@ -14,12 +18,14 @@ import {
   FormLabel,
   FormMessage
 } from '@/components/molecules/Form';
-import { useForm } from 'react-hook-form';
+import { useForm, Resolver } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { TrainerAPI, Menu, MenuPlan, CreateMenuData, CreateMenuPlanData } from '@/lib/api';
+import { TrainerAPI, Menu, MenuPlan, MenuPlanItem, Food, CreateMenuData, CreateMenuPlanData } from '@/lib/api';
 import { showSuccessToast, showErrorToast } from '@/lib/errors';
 import { USER_TYPES } from '@/lib/constants';
+import { getIngredientTotals } from '@/lib/foods';
+import { getMacroBreakdown, formatMacroSplit, MacroBreakdown, MacroKey, MACRO_LABELS, MACRO_STYLES } from '@/lib/macros';
 
 // Constants
 const MEAL_TYPES = [
@@ -55,43 +61,71 @@ const createMenuPlanSchema = z.object({
   selected_meal_ids: z.array(z.string()).min(1, 'At least one meal must be selected')
 });
 
+type CreateMealFormInput = z.input<typeof createMealSchema>;
 type CreateMealFormValues = z.infer<typeof createMealSchema>;
 type CreateMenuPlanFormValues = z.infer<typeof createMenuPlanSchema>;
 
+const MEAL_FORM_DEFAULTS: CreateMealFormInput = {
+  meal_type: '', food_details: '', calories: '', protein: '',
+  carbohydrates: '', fat: '', note: ''
+};
+
+const PLAN_FORM_DEFAULTS: CreateMenuPlanFormValues = { plan_name: '', selected_meal_ids: [] };
+
+const toMealFormValues = (meal: Menu): CreateMealFormInput => ({
+  meal_type: meal.meal_type,
+  food_details: meal.food_details,
+  calories: String(meal.calories),
+  protein: String(meal.protein),
+  carbohydrates: String(meal.carbohydrates),
+  fat: String(meal.fat),
+  note: meal.note || ''
+});
+
 export default function TrainerMenus() {
   // State
-  const [activeTab, setActiveTab] = useState<'meals' | 'plans'>('meals');
+  const [activeTab, setActiveTab] = useState<'meals' | 'plans' | 'foods'>('meals');
   const [meals, setMeals] = useState<Menu[]>([]);
+  const [foods, setFoods] = useState<Food[]>([]);
+  const [mealMode, setMealMode] = useState<'ingredients' | 'custom'>('ingredients');
+  const [ingredients, setIngredients] = useState<IngredientDraft[]>([]);
+  const [ingredientError, setIngredientError] = useState<string | null>(null);
   const [menuPlans, setMenuPlans] = useState<MenuPlan[]>([]);
   const [loading, setLoading] = useState(true);
   const [showMealForm, setShowMealForm] = useState(false);
   const [showPlanForm, setShowPlanForm] = useState(false);
+  const [editingMeal, setEditingMeal] = useState<Menu | null>(null);
+  const [editingPlan, setEditingPlan] = useState<MenuPlan | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [assignTarget, setAssignTarget] = useState<AssignmentTarget | null>(null);
 
   // Forms
-  const mealForm = useForm<CreateMealFormValues>({
-    resolver: zodResolver(createMealSchema),
-    defaultValues: {
-      meal_type: '', food_details: '', calories: '', protein: '', 
-      carbohydrates: '', fat: '', note: ''
-    }
+  // Inputs hold strings that the schema turns into numbers; this resolver version only types the output
+  const mealForm = useForm<CreateMealFormInput, unknown, CreateMealFormValues>({
+    resolver: zodResolver(createMealSchema) as unknown as Resolver<CreateMealFormInput, unknown>,
+    defaultValues: MEAL_FORM_DEFAULTS
   });
 
   const planForm = useForm<CreateMenuPlanFormValues>({
     resolver: zodResolver(createMenuPlanSchema),
-    defaultValues: { plan_name: '', selected_meal_ids: [] }
+    defaultValues: PLAN_FORM_DEFAULTS
   });
 
+  const selectedMealIds = planForm.watch('selected_meal_ids');
+  const selectedBreakdown = getMacroBreakdown(meals.filter(meal => selectedMealIds.includes(meal.id)));
+
   // Fetch data
   const fetchData = async () => {
     try {
       setLoading(true);
-      const [mealsData, menuPlansData] = await Promise.all([
+      const [mealsData, menuPlansData, foodsData] = await Promise.all([
         TrainerAPI.getMenus(),
-        TrainerAPI.getMenuPlans()
+        TrainerAPI.getMenuPlans(),
+        TrainerAPI.getFoods()
       ]);
       setMeals(mealsData || []);
       setMenuPlans(menuPlansData || []);
+      setFoods(foodsData || []);
     } catch (error) {
       showErrorToast(error, 'Failed to load menu data');
     } finally {
@@ -104,7 +138,58 @@ export default function TrainerMenus() {
   }, []);
 
   // Handlers
-  const handleCreateMeal = async (data: CreateMealFormValues) => {
+  // Existing meals without ingredients open as custom, so their hand-entered values are kept
+  const openMealForm = (meal?: Menu) => {
+    const mealIngredients = meal?.ingredients || [];
+    setEditingMeal(meal || null);
+    mealForm.reset(meal ? toMealFormValues(meal) : MEAL_FORM_DEFAULTS);
+    setIngredients(mealIngredients.map(item => ({ food_id: item.food_id, grams: String(item.grams) })));
+    setMealMode(mealIngredients.length > 0 || (!meal && foods.length > 0) ? 'ingredients' : 'custom');
+    setIngredientError(null);
+    setShowMealForm(true);
+  };
+
+  // Keeps the macro fields in step with the ingredients so the schema validates the computed values
+  const handleIngredientsChange = (nextIngredients: IngredientDraft[]) => {
+    const totals = getIngredientTotals(foods, nextIngredients);
+    setIngredients(nextIngredients);
+    setIngredientError(null);
+    mealForm.setValue('calories', String(totals.calories));
+    mealForm.setValue('protein', String(totals.protein));
+    mealForm.setValue('carbohydrates', String(totals.carbohydrates));
+    mealForm.setValue('fat', String(totals.fat));
+  };
+
+  const handleMealModeChange = (mode: 'ingredients' | 'custom') => {
+    setMealMode(mode);
+    if (mode === 'ingredients') handleIngredientsChange(ingredients);
+  };
+
+  const closeMealForm = () => {
+    setEditingMeal(null);
+    setShowMealForm(false);
+  };
+
+  const openPlanForm = (plan?: MenuPlan) => {
+    setEditingPlan(plan || null);
+    planForm.reset(plan
+      ? { plan_name: plan.plan_name, selected_meal_ids: (plan.menu_plan_items || []).map(item => item.menu_id) }
+      : PLAN_FORM_DEFAULTS);
+    setActiveTab('plans');
+    setShowPlanForm(true);
+  };
+
+  const closePlanForm = () => {
+    setEditingPlan(null);
+    setShowPlanForm(false);
+  };
+
+  const handleSubmitMeal = async (data: CreateMealFormValues) => {
+    if (mealMode === 'ingredients' && (ingredients.length === 0 || ingredients.some(item => !(Number(item.grams) > 0)))) {
+      setIngredientError('Add at least one ingredient and give every ingredient an amount in grams');
+      return;
+    }
+
     try {
       setSubmitting(true);
       const menuData: CreateMenuData = {
@@ -114,24 +199,33 @@ export default function TrainerMenus() {
         protein: data.protein,
         carbohydrates: data.carbohydrates,
         fat: data.fat,
-        note: data.note || undefined
+        note: data.note || undefined,
+        ingredients: mealMode === 'ingredients'
+          ? ingredients.map(item => ({ food_id: item.food_id, grams: Number(item.grams) }))
+          : []
       };
+
+      if (editingMeal) {
+        await TrainerAPI.updateMenu(editingMeal.id, menuData);
+        await fetchData(); // Plan totals include the meal, so refetch them too
+        showSuccessToast('Meal updated successfully');
+        closeMealForm();
+        return;
+      }
       
       const newMeal = await TrainerAPI.createMenu(menuData);
-      if (newMeal) {
-        setMeals(prev => [newMeal, ...prev]);
-        showSuccessToast('Meal created successfully');
-        mealForm.reset();
-        setShowMealForm(false);
-      }
+      setMeals(prev => [newMeal, ...prev]);
+      showSuccessToast('Meal created successfully');
+      mealForm.reset(MEAL_FORM_DEFAULTS);
+      closeMealForm();
     } catch (error) {
-      showErrorToast(error, 'Failed to create meal');
+      showErrorToast(error, editingMeal ? 'Failed to update meal' : 'Failed to create meal');
     } finally {
       setSubmitting(false);
     }
   };
 
-  const handleCreateMenuPlan = async (data: CreateMenuPlanFormValues) => {
+  const handleSubmitMenuPlan = async (data: CreateMenuPlanFormValues) => {
     try {
       setSubmitting(true);
       const planData: CreateMenuPlanData = {
@@ -139,29 +233,54 @@ export default function TrainerMenus() {
         selected_meal_ids: data.selected_meal_ids
       };
 
-      const newPlan = await TrainerAPI.createMenuPlan(planData);
-      if (newPlan) {
-        setMenuPlans(prev => [newPlan, ...prev]);
-        showSuccessToast('Menu plan created successfully');
-        planForm.reset();
-        setShowPlanForm(false);
+      if (editingPlan) {
+        await TrainerAPI.updateMenuPlan(editingPlan.id, planData);
+      } else {
+        await TrainerAPI.createMenuPlan(planData);
       }
+      await fetchData(); // Refetch to get the ordered plan items
+      showSuccessToast(editingPlan ? 'Menu plan updated successfully' : 'Menu plan created successfully');
+      planForm.reset(PLAN_FORM_DEFAULTS);
+      closePlanForm();
     } catch (error) {
-      showErrorToast(error, 'Failed to create menu plan');
+      showErrorToast(error, editingPlan ? 'Failed to update menu plan' : 'Failed to create menu plan');
     } finally {
       setSubmitting(false);
     }
   };
 
+  const togglePlanMeal = (mealId: string) => {
+    const current = planForm.getValues('selected_meal_ids');
+    const next = current.includes(mealId)
+      ? current.filter(id => id !== mealId)
+      : [...current, mealId];
+    planForm.setValue('selected_meal_ids', next, { shouldValidate: planForm.formState.isSubmitted });
+  };
+
+  // Reorders in place on the card; the list is restored if saving fails
+  const handleReorderPlan = async (plan: MenuPlan, items: MenuPlanItem[]) => {
+    const previous = menuPlans;
+    setMenuPlans(prev => prev.map(item => item.id === plan.id ? {
+      ...item,
+      menu_plan_items: items,
+      meals: items.map(planItem => planItem.menu).filter(Boolean) as Menu[]
+    } : item));
+
+    try {
+      await TrainerAPI.reorderMenuPlanMeals(plan.id, items.map(item => item.id));
+    } catch (error) {
+      setMenuPlans(previous);
+      showErrorToast(error, 'Failed to reorder meals');
+    }
+  };
+
   const handleDeleteMeal = async (mealId: string) => {
     if (!confirm('Are you sure you want to delete this meal?')) return;
     
     try {
-      const success = await TrainerAPI.deleteMenu(mealId);
-      if (success) {
-        setMeals(prev => prev.filter(meal => meal.id !== mealId));
-        showSuccessToast('Meal deleted successfully');
-      }
+      await TrainerAPI.deleteMenu(mealId);
+      setMeals(prev => prev.filter(meal => meal.id !== mealId));
+      showSuccessToast('Meal deleted successfully');
     } catch (error) {
       showErrorToast(error, 'Failed to delete meal');
     }
@@ -171,11 +290,9 @@ export default function TrainerMenus() {
     if (!confirm('Are you sure you want to delete this menu plan?')) return;
     
     try {
-      const success = await TrainerAPI.deleteMenuPlan(planId);
-      if (success) {
-        setMenuPlans(prev => prev.filter(plan => plan.id !== planId));
-        showSuccessToast('Menu plan deleted successfully');
-      }
+      await TrainerAPI.deleteMenuPlan(planId);
+      setMenuPlans(prev => prev.filter(plan => plan.id !== planId));
+      showSuccessToast('Menu plan deleted successfully');
     } catch (error) {
       showErrorToast(error, 'Failed to delete menu plan');
     }
@@ -212,15 +329,36 @@ export default function TrainerMenus() {
           <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getMealTypeBadgeColor(meal.meal_type)}`}>
             {meal.meal_type}
           </span>
-          <button 
-            onClick={() => handleDeleteMeal(meal.id)}
-            className="text-red-400 hover:text-red-600 transition-colors"
-          >
-            <Icon name="x" size={16} />
-          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => openMealForm(meal)}
+              className="text-gray-400 hover:text-[#007bff] transition-colors"
+            >
+              <Icon name="edit" size={16} />
+            </button>
+            <button 
+              onClick={() => handleDeleteMeal(meal.id)}
+              className="text-red-400 hover:text-red-600 transition-colors"
+            >
+              <Icon name="x" size={16} />
+            </button>
+          </div>
         </div>
         
-        <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2">{meal.food_details}</h3>
+        <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2">
+          {meal.food_details}
+          {!meal.ingredients?.length && (
+            <span className="ml-2 px-2 py-0.5 rounded text-xs font-normal bg-gray-100 text-gray-600 align-middle">Custom</span>
+          )}
+        </h3>
+
+        {meal.ingredients && meal.ingredients.length > 0 && (
+          <ul className="text-xs text-gray-600 mb-3 space-y-0.5">
+            {meal.ingredients.map(ingredient => (
+              <li key={ingredient.id}>{ingredient.grams}g {ingredient.food?.name}</li>
+            ))}
+          </ul>
+        )}
         
         <div className="text-sm text-gray-600 mb-3">
           <p className="font-medium">{formatNutrition(meal)}</p>
@@ -237,64 +375,94 @@ export default function TrainerMenus() {
     </Card>
   );
 
-  const renderMenuPlanCard = (plan: MenuPlan) => (
-    <Card key={plan.id} className="hover:shadow-md transition-shadow duration-200">
-      <CardContent className="p-6">
-        <div className="flex justify-between items-start mb-4">
-          <h3 className="font-semibold text-gray-900 text-lg line-clamp-2">{plan.plan_name}</h3>
-          <button 
-            onClick={() => handleDeleteMenuPlan(plan.id)}
-            className="text-red-400 hover:text-red-600 transition-colors"
-          >
-            <Icon name="x" size={16} />
-          </button>
+  const renderMacroSplit = (breakdown: MacroBreakdown) => {
+    const macros = Object.keys(MACRO_LABELS) as MacroKey[];
+    return (
+      <div className="mb-4">
+        <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+          {macros.map(macro => (
+            <div key={macro} className={MACRO_STYLES[macro]} style={{ width: `${breakdown.split[macro]}%` }} />
+          ))}
         </div>
-        
-        <div className="grid grid-cols-2 gap-3 mb-4">
-          <div className="text-center p-3 bg-blue-50 rounded-lg border border-blue-100">
-            <div className="text-lg font-bold text-[#007bff]">{plan.total_calories}</div>
-            <div className="text-xs text-gray-600">Total Calories</div>
+        <div className="flex justify-between mt-2 text-xs text-gray-600">
+          {macros.map(macro => (
+            <span key={macro} className="inline-flex items-center">
+              <span className={`h-2 w-2 rounded-full mr-1 ${MACRO_STYLES[macro]}`} />
+              {MACRO_LABELS[macro]} {breakdown.totals[macro]}g • {Math.round(breakdown.split[macro])}%
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMenuPlanCard = (plan: MenuPlan) => {
+    const breakdown = getMacroBreakdown(plan.meals || []);
+    const caloriePercents = new Map(breakdown.meals.map(share => [share.menu_id, share.percent]));
+
+    return (
+      <Card key={plan.id} className="hover:shadow-md transition-shadow duration-200">
+        <CardContent className="p-6">
+          <div className="flex justify-between items-start mb-4">
+            <h3 className="font-semibold text-gray-900 text-lg line-clamp-2">{plan.plan_name}</h3>
+            <button 
+              onClick={() => handleDeleteMenuPlan(plan.id)}
+              className="text-red-400 hover:text-red-600 transition-colors"
+            >
+              <Icon name="x" size={16} />
+            </button>
           </div>
-          <div className="text-center p-3 bg-gray-50 rounded-lg border border-gray-200">
-            <div className="text-lg font-bold text-gray-700">{plan.meal_count || 0}</div>
-            <div className="text-xs text-gray-600">Meals</div>
+          
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <div className="text-center p-3 bg-blue-50 rounded-lg border border-blue-100">
+              <div className="text-lg font-bold text-[#007bff]">{plan.total_calories}</div>
+              <div className="text-xs text-gray-600">Total Calories</div>
+            </div>
+            <div className="text-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="text-lg font-bold text-gray-700">{plan.meal_count || 0}</div>
+              <div className="text-xs text-gray-600">Meals</div>
+            </div>
           </div>
-        </div>
-        
-        <div className="text-sm text-gray-600 mb-4 text-center p-2 bg-gray-50 rounded">
-          <p>Protein: {plan.total_protein}g | Carbs: {plan.total_carbohydrates}g | Fat: {plan.total_fat}g</p>
-        </div>
-        
-        {plan.meals && plan.meals.length > 0 && (
-          <div className="mb-4">
-            <h4 className="text-sm font-medium text-gray-700 mb-2">Meals in this plan:</h4>
-            <div className="space-y-2 max-h-40 overflow-y-auto">
-              {plan.meals.map((meal, index) => (
-                <div key={meal.id} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded border">
-                  <div className="flex items-center space-x-2">
-                    <span className="text-xs text-gray-500 font-mono w-6">#{index + 1}</span>
-                    <span className={`px-2 py-0.5 rounded text-xs font-medium border ${getMealTypeBadgeColor(meal.meal_type)}`}>
-                      {meal.meal_type}
+          
+          {renderMacroSplit(breakdown)}
+          
+          {plan.menu_plan_items && plan.menu_plan_items.length > 0 && (
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Meals in this plan (drag to reorder):</h4>
+              <SortableList
+                items={plan.menu_plan_items}
+                getKey={item => item.id}
+                onReorder={items => handleReorderPlan(plan, items)}
+                className="max-h-60 overflow-y-auto"
+                renderItem={(item, index) => item.menu && (
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <span className="text-xs text-gray-500 font-mono w-6">#{index + 1}</span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium border ${getMealTypeBadgeColor(item.menu.meal_type)}`}>
+                        {item.menu.meal_type}
+                      </span>
+                      <span className="font-medium truncate">{item.menu.food_details}</span>
+                    </div>
+                    <span className="text-xs text-gray-500 ml-2 font-medium whitespace-nowrap">
+                      {item.menu.calories}kcal • {caloriePercents.get(item.menu.id) ?? 0}%
                     </span>
-                    <span className="font-medium truncate">{meal.food_details}</span>
                   </div>
-                  <span className="text-xs text-gray-500 ml-2 font-medium">{meal.calories}kcal</span>
-                </div>
-              ))}
+                )}
+              />
+            </div>
+          )}
+          
+          <div className="flex justify-between items-center pt-4 border-t border-gray-200">
+            <span className="text-xs text-gray-400">Created {formatDate(plan.created_at)}</span>
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" onClick={() => openPlanForm(plan)}>Edit Plan</Button>
+              <Button variant="blue" size="sm" onClick={() => setAssignTarget({ type: 'menu_plan', id: plan.id, name: plan.plan_name })}>Assign to Client</Button>
             </div>
           </div>
-        )}
-        
-        <div className="flex justify-between items-center pt-4 border-t border-gray-200">
-          <span className="text-xs text-gray-400">Created {formatDate(plan.created_at)}</span>
-          <div className="flex space-x-2">
-            <Button variant="outline" size="sm">Edit Plan</Button>
-            <Button variant="blue" size="sm">Assign to Client</Button>
-          </div>
-        </div>
-      </CardContent>
-    </Card>
-  );
+        </CardContent>
+      </Card>
+    );
+  };
 
   if (loading) {
     return (
@@ -317,13 +485,13 @@ export default function TrainerMenus() {
           </div>
           <div className="flex space-x-3">
             {activeTab === 'meals' && (
-              <Button variant="blue" onClick={() => setShowMealForm(true)} disabled={showMealForm}>
+              <Button variant="blue" onClick={() => openMealForm()} disabled={showMealForm}>
                 <Icon name="dumbbell" size={16} className="mr-2" />
                 Create Meal
               </Button>
             )}
             {activeTab === 'plans' && (
-              <Button variant="blue" onClick={() => setShowPlanForm(true)} disabled={showPlanForm || meals.length === 0}>
+              <Button variant="blue" onClick={() => openPlanForm()} disabled={showPlanForm || meals.length === 0}>
                 <Icon name="calendar" size={16} className="mr-2" />
                 Create Menu Plan
               </Button>
@@ -350,6 +518,14 @@ export default function TrainerMenus() {
             >
               Menu Plans ({menuPlans.length})
             </button>
+            <button
+              onClick={() => setActiveTab('foods')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors ${
+                activeTab === 'foods' ? 'border-[#007bff] text-[#007bff]' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              Food Catalog ({foods.length})
+            </button>
           </nav>
         </div>
 
@@ -359,10 +535,15 @@ export default function TrainerMenus() {
             {/* Meal Form */}
             {showMealForm && (
               <Card>
-                <CardHeader><CardTitle>Create New Meal</CardTitle></CardHeader>
+                <CardHeader>
+                  <CardTitle>{editingMeal ? 'Edit Meal' : 'Create New Meal'}</CardTitle>
+                  {editingMeal && (
+                    <p className="text-sm text-gray-500">Totals of menu plans that include this meal are updated too.</p>
+                  )}
+                </CardHeader>
                 <CardContent>
                   <Form {...mealForm}>
-                    <form onSubmit={mealForm.handleSubmit(handleCreateMeal)} className="space-y-4">
+                    <form onSubmit={mealForm.handleSubmit(handleSubmitMeal)} className="space-y-4">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <FormField control={mealForm.control} name="meal_type" render={({ field }) => (
                           <FormItem>
@@ -385,37 +566,60 @@ export default function TrainerMenus() {
                         )} />
                       </div>
 
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                        <FormField control={mealForm.control} name="calories" render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Calories</FormLabel>
-                            <FormControl><Input {...field} type="number" placeholder="350" /></FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )} />
-                        <FormField control={mealForm.control} name="protein" render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Protein (g)</FormLabel>
-                            <FormControl><Input {...field} type="number" placeholder="25" /></FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )} />
-                        <FormField control={mealForm.control} name="carbohydrates" render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Carbs (g)</FormLabel>
-                            <FormControl><Input {...field} type="number" placeholder="45" /></FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )} />
-                        <FormField control={mealForm.control} name="fat" render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Fat (g)</FormLabel>
-                            <FormControl><Input {...field} type="number" placeholder="12" /></FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )} />
+                      <div>
+                        <label className="text-sm font-medium">Nutrition</label>
+                        <div className="mt-2 flex space-x-6 text-sm">
+                          <label className="flex items-center space-x-2 cursor-pointer">
+                            <input type="radio" checked={mealMode === 'ingredients'} onChange={() => handleMealModeChange('ingredients')} />
+                            <span>Build from ingredients</span>
+                          </label>
+                          <label className="flex items-center space-x-2 cursor-pointer">
+                            <input type="radio" checked={mealMode === 'custom'} onChange={() => handleMealModeChange('custom')} />
+                            <span>Custom (enter macros)</span>
+                          </label>
+                        </div>
                       </div>
 
+                      {mealMode === 'ingredients' ? (
+                        <MealIngredientsEditor
+                          foods={foods}
+                          ingredients={ingredients}
+                          onChange={handleIngredientsChange}
+                          error={ingredientError || mealForm.formState.errors.calories?.message}
+                        />
+                      ) : (
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          <FormField control={mealForm.control} name="calories" render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Calories</FormLabel>
+                              <FormControl><Input {...field} type="number" placeholder="350" /></FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )} />
+                          <FormField control={mealForm.control} name="protein" render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Protein (g)</FormLabel>
+                              <FormControl><Input {...field} type="number" placeholder="25" /></FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )} />
+                          <FormField control={mealForm.control} name="carbohydrates" render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Carbs (g)</FormLabel>
+                              <FormControl><Input {...field} type="number" placeholder="45" /></FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )} />
+                          <FormField control={mealForm.control} name="fat" render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Fat (g)</FormLabel>
+                              <FormControl><Input {...field} type="number" placeholder="12" /></FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )} />
+                        </div>
+                      )}
+
                       <FormField control={mealForm.control} name="note" render={({ field }) => (
                         <FormItem>
                           <FormLabel>Notes (optional)</FormLabel>
@@ -427,8 +631,8 @@ export default function TrainerMenus() {
                       )} />
 
                       <div className="flex justify-end space-x-3">
-                        <Button type="button" variant="outline" onClick={() => setShowMealForm(false)} disabled={submitting}>Cancel</Button>
-                        <Button type="submit" variant="blue" isLoading={submitting}>Create Meal</Button>
+                        <Button type="button" variant="outline" onClick={closeMealForm} disabled={submitting}>Cancel</Button>
+                        <Button type="submit" variant="blue" isLoading={submitting}>{editingMeal ? 'Save Changes' : 'Create Meal'}</Button>
                       </div>
                     </form>
                   </Form>
@@ -445,7 +649,7 @@ export default function TrainerMenus() {
                   </div>
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No Meals Created</h3>
                   <p className="text-gray-600 mb-6">Start by creating individual meals that you can later organize into plans.</p>
-                  <Button variant="blue" onClick={() => setShowMealForm(true)}>
+                  <Button variant="blue" onClick={() => openMealForm()}>
                     <Icon name="dumbbell" size={16} className="mr-2" />Create Your First Meal
                   </Button>
                 </CardContent>
@@ -464,10 +668,10 @@ export default function TrainerMenus() {
             {/* Menu Plan Form */}
             {showPlanForm && (
               <Card>
-                <CardHeader><CardTitle>Create New Menu Plan</CardTitle></CardHeader>
+                <CardHeader><CardTitle>{editingPlan ? `Edit ${editingPlan.plan_name}` : 'Create New Menu Plan'}</CardTitle></CardHeader>
                 <CardContent>
                   <Form {...planForm}>
-                    <form onSubmit={planForm.handleSubmit(handleCreateMenuPlan)} className="space-y-4">
+                    <form onSubmit={planForm.handleSubmit(handleSubmitMenuPlan)} className="space-y-4">
                       <FormField control={planForm.control} name="plan_name" render={({ field }) => (
                         <FormItem>
                           <FormLabel>Plan Name</FormLabel>
@@ -485,7 +689,12 @@ export default function TrainerMenus() {
                             <div className="space-y-2">
                               {meals.map((meal) => (
                                 <label key={meal.id} className="flex items-start space-x-3 p-2 hover:bg-gray-50 rounded cursor-pointer">
-                                  <input type="checkbox" value={meal.id} {...planForm.register('selected_meal_ids')} className="mt-1" />
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedMealIds.includes(meal.id)}
+                                    onChange={() => togglePlanMeal(meal.id)}
+                                    className="mt-1"
+                                  />
                                   <div className="flex-1">
                                     <div className="flex items-center space-x-2 mb-1">
                                       <span className={`px-2 py-0.5 rounded text-xs border ${getMealTypeBadgeColor(meal.meal_type)}`}>
@@ -503,11 +712,46 @@ export default function TrainerMenus() {
                         {planForm.formState.errors.selected_meal_ids && (
                           <p className="text-sm font-medium text-destructive mt-2">{planForm.formState.errors.selected_meal_ids.message}</p>
                         )}
+                        {selectedMealIds.length > 0 && (
+                          <p className="text-sm text-gray-600 mt-2">
+                            Plan total: <span className="font-medium">{selectedBreakdown.totals.calories}kcal</span>
+                            {' '}• Protein / Carbs / Fat {formatMacroSplit(selectedBreakdown.split)}%
+                          </p>
+                        )}
                       </div>
 
+                      {selectedMealIds.length > 1 && (
+                        <div>
+                          <label className="text-sm font-medium">Meal Order</label>
+                          <p className="text-xs text-gray-500">Drag to reorder.</p>
+                          <SortableList
+                            items={selectedMealIds}
+                            getKey={mealId => mealId}
+                            onReorder={ids => planForm.setValue('selected_meal_ids', ids)}
+                            className="mt-2"
+                            renderItem={(mealId, index) => {
+                              const meal = meals.find(item => item.id === mealId);
+                              return (
+                                <div className="flex items-center space-x-2 text-sm">
+                                  <span className="text-xs text-gray-500 font-mono w-6">#{index + 1}</span>
+                                  {meal && (
+                                    <span className={`px-2 py-0.5 rounded text-xs border ${getMealTypeBadgeColor(meal.meal_type)}`}>
+                                      {meal.meal_type}
+                                    </span>
+                                  )}
+                                  <span className="font-medium truncate">{meal?.food_details}</span>
+                                </div>
+                              );
+                            }}
+                          />
+                        </div>
+                      )}
+
                       <div className="flex justify-end space-x-3">
-                        <Button type="button" variant="outline" onClick={() => setShowPlanForm(false)} disabled={submitting}>Cancel</Button>
-                        <Button type="submit" variant="blue" isLoading={submitting} disabled={meals.length === 0}>Create Menu Plan</Button>
+                        <Button type="button" variant="outline" onClick={closePlanForm} disabled={submitting}>Cancel</Button>
+                        <Button type="submit" variant="blue" isLoading={submitting} disabled={meals.length === 0}>
+                          {editingPlan ? 'Save Changes' : 'Create Menu Plan'}
+                        </Button>
                       </div>
                     </form>
                   </Form>
@@ -529,7 +773,7 @@ export default function TrainerMenus() {
                   {meals.length === 0 ? (
                     <Button variant="outline" onClick={() => setActiveTab('meals')}>Create Meals First</Button>
                   ) : (
-                    <Button variant="blue" onClick={() => setShowPlanForm(true)}>
+                    <Button variant="blue" onClick={() => openPlanForm()}>
                       <Icon name="calendar" size={16} className="mr-2" />Create Your First Plan
                     </Button>
                   )}
@@ -542,7 +786,14 @@ export default function TrainerMenus() {
             )}
           </div>
         )}
+
+        {/* Food Catalog Tab */}
+        {activeTab === 'foods' && (
+          <FoodCatalogPanel foods={foods} onFoodsChange={setFoods} />
+        )}
       </div>
+
+      <AssignToClientsModal target={assignTarget} onClose={() => setAssignTarget(null)} />
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
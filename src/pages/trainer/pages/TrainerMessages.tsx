@@ -0,0 +1,37 @@
+// src/pages/trainer/pages/TrainerMessages.tsx - Conversations with the trainer's clients; requires the in_app_messaging entitlement
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import MessagingInbox from '@/components/features/messaging/MessagingInbox';
+import UpgradePrompt from '@/components/features/trainer/UpgradePrompt';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { USER_TYPES } from '@/lib/constants';
+import { useEntitlement } from '@/pages/features/trainer/hooks/useEntitlement';
+
+export default function TrainerMessages() {
+  const { isEntitled, isLoading, tierName } = useEntitlement('in_app_messaging');
+
+  return (
+    <DashboardLayout userType={USER_TYPES.TRAINER}>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Messages</h1>
+          <p className="text-gray-600">Keep in touch with your clients between sessions</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" color="primary" />
+          </div>
+        ) : isEntitled ? (
+          <MessagingInbox userType={USER_TYPES.TRAINER} />
+        ) : (
+          <UpgradePrompt
+            entitlement="in_app_messaging"
+            icon="message"
+            tierName={tierName}
+            description="Chat with clients and share workouts, menu plans and measurements right in the conversation."
+          />
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
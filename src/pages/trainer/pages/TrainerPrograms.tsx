@@ -0,0 +1,456 @@
+// src/pages/trainer/pages/TrainerPrograms.tsx - Multi-week programs built from workouts
+import { useState, useEffect } from 'react';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import AssignToClientsModal, { AssignmentTarget } from '@/components/features/trainer/AssignToClientsModal';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import Icon from '@/components/atoms/Icon';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/molecules/Form';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { TrainerAPI, Program, Workout, CreateProgramData } from '@/lib/api';
+import { showSuccessToast, showErrorToast } from '@/lib/errors';
+import { USER_TYPES } from '@/lib/constants';
+import {
+  PROGRAM_DAYS,
+  PHASE_TYPE_LABELS,
+  PHASE_TYPE_STYLES,
+  MAX_PROGRAM_WEEKS,
+  getProgramWeeks,
+  formatProgressionRule
+} from '@/lib/programs';
+
+const SELECT_CLASS_NAME = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+// Schemas
+const phaseSchema = z.object({
+  name: z.string().min(1, 'Phase name is required'),
+  type: z.enum(['accumulation', 'intensification', 'realization', 'deload']),
+  weeks: z.string().regex(/^\d+$/, 'Enter weeks').refine(value => Number(value) >= 1, 'At least 1 week'),
+  load_percent: z.string().regex(/^\d+$/, 'Enter a percentage')
+});
+
+const createProgramSchema = z.object({
+  program_name: z.string().min(1, 'Program name is required'),
+  description: z.string().optional(),
+  phases: z.array(phaseSchema).min(1, 'Add at least one phase'),
+  progression_target: z.enum(['none', 'load_kg', 'reps']),
+  progression_amount: z.string().regex(/^(\d+([.,]\d+)?)?$/, 'Enter a number'),
+  progression_per: z.enum(['week', 'session']),
+  // One workout id per weekday, empty string for a rest day
+  schedule: z.array(z.string()).length(PROGRAM_DAYS.length)
+})
+  .refine(values => values.schedule.some(Boolean), {
+    message: 'Schedule at least one workout',
+    path: ['schedule']
+  })
+  .refine(values => values.phases.reduce((total, phase) => total + Number(phase.weeks || 0), 0) <= MAX_PROGRAM_WEEKS, {
+    message: `Programs can run at most ${MAX_PROGRAM_WEEKS} weeks`,
+    path: ['phases']
+  });
+
+type CreateProgramFormValues = z.infer<typeof createProgramSchema>;
+
+const PROGRAM_FORM_DEFAULTS: CreateProgramFormValues = {
+  program_name: '',
+  description: '',
+  phases: [
+    { name: 'Accumulation', type: 'accumulation', weeks: '3', load_percent: '100' },
+    { name: 'Deload', type: 'deload', weeks: '1', load_percent: '60' }
+  ],
+  progression_target: 'load_kg',
+  progression_amount: '2.5',
+  progression_per: 'week',
+  schedule: PROGRAM_DAYS.map(() => '')
+};
+
+const toProgramData = (values: CreateProgramFormValues): CreateProgramData => ({
+  program_name: values.program_name,
+  description: values.description,
+  phases: values.phases.map(phase => ({
+    name: phase.name,
+    type: phase.type,
+    weeks: Number(phase.weeks),
+    load_percent: Number(phase.load_percent)
+  })),
+  progression: {
+    target: values.progression_target,
+    amount: Number(values.progression_amount.replace(',', '.')) || 0,
+    per: values.progression_per
+  },
+  schedule: values.schedule
+    .map((workoutId, index) => ({ workout_id: workoutId, day_of_week: index + 1 }))
+    .filter(slot => slot.workout_id)
+});
+
+export default function TrainerPrograms() {
+  // State
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showProgramForm, setShowProgramForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [assignTarget, setAssignTarget] = useState<AssignmentTarget | null>(null);
+
+  // Form
+  const programForm = useForm<CreateProgramFormValues>({
+    resolver: zodResolver(createProgramSchema),
+    defaultValues: PROGRAM_FORM_DEFAULTS
+  });
+  const { fields: phaseFields, append: appendPhase, remove: removePhase } = useFieldArray({
+    control: programForm.control,
+    name: 'phases'
+  });
+  const progressionTarget = programForm.watch('progression_target');
+  const totalWeeks = programForm.watch('phases').reduce((total, phase) => total + (Number(phase.weeks) || 0), 0);
+
+  // Fetch data
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [programsData, workoutsData] = await Promise.all([
+        TrainerAPI.getPrograms(),
+        TrainerAPI.getWorkouts()
+      ]);
+      setPrograms(programsData || []);
+      setWorkouts(workoutsData || []);
+    } catch (error) {
+      showErrorToast(error, 'Failed to load programs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  // Handlers
+  const handleCreateProgram = async (data: CreateProgramFormValues) => {
+    try {
+      setSubmitting(true);
+      await TrainerAPI.createProgram(toProgramData(data));
+      await fetchData(); // Refetch to get the schedule with workouts
+      showSuccessToast('Program created successfully');
+      programForm.reset(PROGRAM_FORM_DEFAULTS);
+      setShowProgramForm(false);
+    } catch (error) {
+      showErrorToast(error, 'Failed to create program');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDeleteProgram = async (programId: string) => {
+    if (!confirm('Are you sure you want to delete this program? Workouts already assigned to clients are kept.')) return;
+    try {
+      await TrainerAPI.deleteProgram(programId);
+      setPrograms(prev => prev.filter(program => program.id !== programId));
+      showSuccessToast('Program deleted successfully');
+    } catch (error) {
+      showErrorToast(error, 'Failed to delete program');
+    }
+  };
+
+  // Utility functions
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short', day: 'numeric', year: 'numeric'
+    });
+  };
+
+  // Render functions
+  const renderPhaseBar = (program: Program) => {
+    const weeks = getProgramWeeks(program.phases) || 1;
+    return (
+      <div>
+        <div className="flex h-2 rounded-full overflow-hidden">
+          {program.phases.map((phase, index) => (
+            <div
+              key={index}
+              className={PHASE_TYPE_STYLES[phase.type]}
+              style={{ width: `${(phase.weeks / weeks) * 100}%` }}
+              title={`${phase.name}: ${phase.weeks} weeks`}
+            />
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-gray-600">
+          {program.phases.map((phase, index) => (
+            <span key={index} className="inline-flex items-center">
+              <span className={`h-2 w-2 rounded-full mr-1 ${PHASE_TYPE_STYLES[phase.type]}`} />
+              {phase.name} • {phase.weeks} {phase.weeks === 1 ? 'week' : 'weeks'}
+              {phase.load_percent !== 100 && ` @ ${phase.load_percent}%`}
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderProgramCard = (program: Program) => (
+    <Card key={program.id} className="hover:shadow-md transition-shadow duration-200">
+      <CardContent className="p-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="font-semibold text-gray-900 text-lg">{program.program_name}</h3>
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 mt-2">
+              {program.duration_weeks} weeks
+            </span>
+          </div>
+          <button
+            onClick={() => handleDeleteProgram(program.id)}
+            className="text-red-400 hover:text-red-600 transition-colors"
+          >
+            <Icon name="x" size={16} />
+          </button>
+        </div>
+
+        {program.description && (
+          <div className="text-sm text-gray-600 mb-4 p-2 bg-gray-50 rounded">
+            <p>{program.description}</p>
+          </div>
+        )}
+
+        <div className="mb-4">{renderPhaseBar(program)}</div>
+
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Weekly Schedule:</h4>
+          <div className="space-y-1">
+            {(program.program_workouts || []).map(slot => (
+              <div key={slot.id} className="flex justify-between text-sm p-2 bg-gray-50 rounded border">
+                <span className="text-gray-500">{PROGRAM_DAYS[slot.day_of_week - 1]}</span>
+                <span className="font-medium">{slot.workout?.workout_name || 'Workout'}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-700 mb-4">
+          <span className="font-medium">Progression:</span> {formatProgressionRule(program.progression)}
+        </p>
+
+        <div className="flex justify-between items-center pt-4 border-t border-gray-200">
+          <span className="text-xs text-gray-400">Created {formatDate(program.created_at)}</span>
+          <Button
+            variant="blue"
+            size="sm"
+            onClick={() => setAssignTarget({ type: 'program', id: program.id, name: program.program_name, program })}
+            disabled={(program.program_workouts || []).length === 0}
+          >
+            Assign to Client
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderPhaseFields = () => (
+    <div>
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-medium">Phases ({totalWeeks} weeks total)</label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => appendPhase({ name: '', type: 'intensification', weeks: '3', load_percent: '100' })}
+        >
+          Add Phase
+        </Button>
+      </div>
+      <div className="mt-2 space-y-3">
+        {phaseFields.map((phaseField, index) => (
+          <div key={phaseField.id} className="grid grid-cols-12 gap-2 items-start">
+            <div className="col-span-4">
+              <Input {...programForm.register(`phases.${index}.name`)} placeholder="Phase name" />
+            </div>
+            <div className="col-span-3">
+              <select {...programForm.register(`phases.${index}.type`)} className={SELECT_CLASS_NAME}>
+                {Object.entries(PHASE_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <Input {...programForm.register(`phases.${index}.weeks`)} type="number" min="1" placeholder="Weeks" />
+            </div>
+            <div className="col-span-2">
+              <Input {...programForm.register(`phases.${index}.load_percent`)} type="number" min="0" placeholder="Load %" />
+            </div>
+            <div className="col-span-1 flex justify-center pt-2">
+              <button
+                type="button"
+                onClick={() => removePhase(index)}
+                disabled={phaseFields.length === 1}
+                className="text-red-400 hover:text-red-600 transition-colors disabled:opacity-30"
+              >
+                <Icon name="x" size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-2">Load % scales the prescribed load for that phase, e.g. 60% for a deload.</p>
+      {programForm.formState.errors.phases && (
+        <p className="text-sm font-medium text-destructive mt-2">
+          {programForm.formState.errors.phases.message || 'Check the phase details'}
+        </p>
+      )}
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.TRAINER}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout userType={USER_TYPES.TRAINER}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-[#040b07]">Training Programs</h1>
+            <p className="text-gray-600">Arrange workouts into multi-week blocks with phases and progression</p>
+          </div>
+          <Button variant="blue" onClick={() => setShowProgramForm(true)} disabled={showProgramForm || workouts.length === 0}>
+            <Icon name="chart-line" size={16} className="mr-2" />
+            Create Program
+          </Button>
+        </div>
+
+        {/* Program Form */}
+        {showProgramForm && (
+          <Card>
+            <CardHeader><CardTitle>Create New Program</CardTitle></CardHeader>
+            <CardContent>
+              <Form {...programForm}>
+                <form onSubmit={programForm.handleSubmit(handleCreateProgram)} className="space-y-6">
+                  <FormField control={programForm.control} name="program_name" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Program Name</FormLabel>
+                      <FormControl><Input {...field} placeholder="e.g., 12-Week Strength Block" /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+                  <FormField control={programForm.control} name="description" render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description (optional)</FormLabel>
+                      <FormControl>
+                        <textarea {...field} className="flex h-20 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2" placeholder="Goal and focus of this block..." />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )} />
+
+                  {renderPhaseFields()}
+
+                  <div>
+                    <label className="text-sm font-medium">Weekly Schedule</label>
+                    <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {PROGRAM_DAYS.map((day, index) => (
+                        <div key={day} className="flex items-center space-x-3">
+                          <span className="w-24 text-sm text-gray-600">{day}</span>
+                          <select {...programForm.register(`schedule.${index}`)} className={SELECT_CLASS_NAME}>
+                            <option value="">Rest day</option>
+                            {workouts.map(workout => <option key={workout.id} value={workout.id}>{workout.workout_name}</option>)}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                    {programForm.formState.errors.schedule && (
+                      <p className="text-sm font-medium text-destructive mt-2">{programForm.formState.errors.schedule.message}</p>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <FormField control={programForm.control} name="progression_target" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Progression</FormLabel>
+                        <FormControl>
+                          <select {...field} className={SELECT_CLASS_NAME}>
+                            <option value="none">None</option>
+                            <option value="load_kg">Add load (kg)</option>
+                            <option value="reps">Add reps</option>
+                          </select>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <FormField control={programForm.control} name="progression_amount" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Amount</FormLabel>
+                        <FormControl>
+                          <Input {...field} inputMode="decimal" placeholder="e.g., 2.5" disabled={progressionTarget === 'none'} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                    <FormField control={programForm.control} name="progression_per" render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Every</FormLabel>
+                        <FormControl>
+                          <select {...field} className={SELECT_CLASS_NAME} disabled={progressionTarget === 'none'}>
+                            <option value="week">Week</option>
+                            <option value="session">Session</option>
+                          </select>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )} />
+                  </div>
+                  <p className="text-xs text-gray-500 -mt-4">Deload phases hold progression where it is.</p>
+
+                  <div className="flex justify-end space-x-3">
+                    <Button type="button" variant="outline" onClick={() => setShowProgramForm(false)} disabled={submitting}>Cancel</Button>
+                    <Button type="submit" variant="blue" isLoading={submitting}>Create Program</Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Programs List */}
+        {programs.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="inline-flex h-16 w-16 items-center justify-center rounded-full bg-gray-100 mb-4">
+                <Icon name="chart-line" size={24} className="text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Programs Created</h3>
+              <p className="text-gray-600 mb-6">
+                {workouts.length === 0
+                  ? 'Create some workouts first, then arrange them into a multi-week program.'
+                  : 'Lay your workouts out over weeks and phases, then assign the whole block to a client.'}
+              </p>
+              {workouts.length > 0 && (
+                <Button variant="blue" onClick={() => setShowProgramForm(true)}>
+                  <Icon name="chart-line" size={16} className="mr-2" />Create Your First Program
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {programs.map(renderProgramCard)}
+          </div>
+        )}
+      </div>
+
+      <AssignToClientsModal target={assignTarget} onClose={() => setAssignTarget(null)} />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,233 @@
+// src/pages/trainer/pages/TrainerPublicProfile.tsx - The trainer's listing in the client-facing trainer directory
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import { Button } from '@/components/atoms/Button';
+import { Input } from '@/components/atoms/Input';
+import LoadingSpinner from '@/components/atoms/LoadingSpinner';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/molecules/Form';
+import { TrainerAPI, TrainerProfile, queryKeys } from '@/lib/api';
+import { useQuery } from '@/lib/queryCache';
+import { showErrorToast, showSuccessToast } from '@/lib/errors';
+import { DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { SUGGESTED_SPECIALTIES, parseSpecialties } from '@/lib/marketplace';
+
+// ============================================================================
+// SCHEMA & CONSTANTS
+// ============================================================================
+
+const profileSchema = z.object({
+  bio: z.string().max(1000, 'Keep your bio under 1000 characters'),
+  specialties: z.string(),
+  photo_url: z.union([z.literal(''), z.string().url('Enter a full image URL, e.g. https://...')]),
+  location: z.string(),
+  offers_online: z.boolean(),
+  offers_in_person: z.boolean(),
+  is_listed: z.boolean()
+}).refine(values => values.offers_online || values.offers_in_person, {
+  message: 'Choose online, in person or both',
+  path: ['offers_online']
+});
+
+type ProfileFormValues = z.infer<typeof profileSchema>;
+
+const TEXTAREA_CLASS_NAME = 'flex h-32 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+const toFormValues = (profile: TrainerProfile | null | undefined): ProfileFormValues => ({
+  bio: profile?.bio ?? '',
+  specialties: (profile?.specialties ?? []).join(', '),
+  photo_url: profile?.photo_url ?? '',
+  location: profile?.location ?? '',
+  offers_online: profile?.offers_online ?? true,
+  offers_in_person: profile?.offers_in_person ?? false,
+  is_listed: profile?.is_listed ?? false
+});
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function TrainerPublicProfile() {
+  const { data: profile, isLoading, error } = useQuery(queryKeys.trainerProfile, TrainerAPI.getProfile);
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: toFormValues(null)
+  });
+  const { reset } = form;
+
+  useEffect(() => {
+    if (error) showErrorToast(error, 'Failed to load your profile');
+  }, [error]);
+
+  useEffect(() => {
+    if (!isLoading) reset(toFormValues(profile));
+  }, [isLoading, profile, reset]);
+
+  const handleSave = async (values: ProfileFormValues) => {
+    try {
+      await TrainerAPI.updateProfile({
+        bio: values.bio,
+        specialties: parseSpecialties(values.specialties),
+        photo_url: values.photo_url,
+        location: values.location,
+        offers_online: values.offers_online,
+        offers_in_person: values.offers_in_person,
+        is_listed: values.is_listed
+      });
+      showSuccessToast(values.is_listed ? 'Profile saved and listed in the directory' : 'Profile saved');
+    } catch (error) {
+      showErrorToast(error, 'Failed to save your profile');
+    }
+  };
+
+  // Render functions
+  const renderToggle = (name: 'offers_online' | 'offers_in_person' | 'is_listed', label: string, description: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <FormControl>
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4"
+                checked={field.value}
+                onChange={event => field.onChange(event.target.checked)}
+              />
+            </FormControl>
+            <div>
+              <span className="text-sm font-medium">{label}</span>
+              <p className="text-xs text-gray-500">{description}</p>
+            </div>
+          </label>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <DashboardLayout userType={USER_TYPES.TRAINER}>
+        <div className="flex justify-center items-center py-20">
+          <LoadingSpinner size="lg" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout userType={USER_TYPES.TRAINER}>
+      <div className="space-y-6 max-w-2xl">
+        <div>
+          <h1 className="text-2xl font-bold text-[#040b07]">My Profile</h1>
+          <p className="text-gray-600">
+            What clients see in the trainer directory, next to your{' '}
+            <Link to="/trainer/subscription-plans" className="text-[#007bff] hover:underline">published plans</Link>
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Public Profile</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="bio"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bio</FormLabel>
+                      <FormControl>
+                        <textarea
+                          {...field}
+                          className={TEXTAREA_CLASS_NAME}
+                          placeholder="Your background, coaching style and who you work best with"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="specialties"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Specialties</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder={SUGGESTED_SPECIALTIES.slice(0, 3).join(', ')} />
+                      </FormControl>
+                      <p className="text-xs text-gray-500">Separate with commas, e.g. {SUGGESTED_SPECIALTIES.join(', ')}</p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="photo_url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Photo URL</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="https://..." />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Location</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="e.g., Prague" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  {renderToggle('offers_online', 'Online coaching', 'Train clients remotely')}
+                  {renderToggle('offers_in_person', 'In-person training', 'Meet clients at your location')}
+                  {renderToggle('is_listed', 'List me in the trainer directory', 'Clients can find your profile and request your published plans')}
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                  <Link to={DASHBOARD_ROUTES.TRAINER.CLIENTS}>
+                    <Button type="button" variant="outline">View requests</Button>
+                  </Link>
+                  <Button type="submit" variant="blue" isLoading={form.formState.isSubmitting}>
+                    Save Profile
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
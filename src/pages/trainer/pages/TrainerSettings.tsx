@@ -0,0 +1,36 @@
+// src/pages/trainer/pages/TrainerSettings.tsx - Account settings for trainers: email notification preferences
+import { Link } from 'react-router-dom';
+import DashboardLayout from '@/components/organisms/DashboardLayout';
+import NotificationPreferencesCard from '@/components/features/notifications/NotificationPreferencesCard';
+import { DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
+import { formatEntitledTiers } from '@/lib/entitlements';
+import { useEntitlement } from '@/pages/features/trainer/hooks/useEntitlement';
+
+export default function TrainerSettings() {
+  const { isEntitled, isLoading, tierName } = useEntitlement('email_notifications');
+
+  // Payment emails still go out on every tier, so the switches stay usable
+  const renderTierNotice = () => (
+    <div className="mb-4 rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+      Email notifications for you and your clients are included on {formatEntitledTiers('email_notifications')}.
+      You're on {tierName}, so only payment emails are sent.{' '}
+      <Link to={DASHBOARD_ROUTES.TRAINER.SUBSCRIPTIONS} className="font-medium underline">View plans</Link>
+    </div>
+  );
+
+  return (
+    <DashboardLayout userType={USER_TYPES.TRAINER}>
+      <div className="space-y-6 max-w-2xl">
+        <div>
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <p className="text-gray-600">Choose which emails you get from Pumpee</p>
+        </div>
+
+        <NotificationPreferencesCard
+          userType={USER_TYPES.TRAINER}
+          notice={!isLoading && !isEntitled && renderTierNotice()}
+        />
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -18,7 +18,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { showSuccessToast, showErrorToast } from '@/lib/errors';
 import { USER_TYPES } from '@/lib/constants';
-import { TrainerAPI, TrainerSubscriptionTier, CreateTrainerSubscriptionData } from '@/lib/api/trainer';
+import { TrainerAPI, TrainerSubscriptionTier, CreateTrainerSubscriptionData } from '@/lib/api';
 
 // Schema
 const createSubscriptionSchema = z.object({
@@ -32,7 +32,8 @@ const createSubscriptionSchema = z.object({
     .optional()
     .transform(val => val === '' || val === undefined ? null : parseFloat(val))
     .refine(val => val === null || val > 0, 'Yearly price must be greater than 0'),
-  billing_cycle: z.enum(['monthly', 'yearly'])
+  billing_cycle: z.enum(['monthly', 'yearly']),
+  is_published: z.boolean()
 });
 
 type CreateSubscriptionFormValues = z.infer<typeof createSubscriptionSchema>;
@@ -51,7 +52,8 @@ export default function TrainerSubscriptionPlans() {
       description: '',
       price: '',
       yearly_price: '',
-      billing_cycle: 'monthly'
+      billing_cycle: 'monthly',
+      is_published: true
     }
   });
 
@@ -80,7 +82,8 @@ export default function TrainerSubscriptionPlans() {
         description: data.description,
         price: data.price,
         yearly_price: data.yearly_price,
-        billing_cycle: data.billing_cycle
+        billing_cycle: data.billing_cycle,
+        is_published: data.is_published
       };
       
       if (editingId) {
@@ -109,7 +112,8 @@ export default function TrainerSubscriptionPlans() {
       description: subscription.description,
       price: subscription.price.toString(),
       yearly_price: subscription.yearly_price?.toString() || '',
-      billing_cycle: subscription.billing_cycle
+      billing_cycle: subscription.billing_cycle,
+      is_published: subscription.is_published
     });
     setEditingId(subscription.id);
     setShowForm(true);
@@ -281,6 +285,29 @@ export default function TrainerSubscriptionPlans() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="is_published"
+                    render={({ field }) => (
+                      <FormItem>
+                        <label className="flex items-start space-x-3 cursor-pointer">
+                          <FormControl>
+                            <input
+                              type="checkbox"
+                              className="mt-1 h-4 w-4"
+                              checked={field.value}
+                              onChange={event => field.onChange(event.target.checked)}
+                            />
+                          </FormControl>
+                          <div>
+                            <span className="text-sm font-medium">Show on my public profile</span>
+                            <p className="text-xs text-gray-500">Clients can find and request published plans in the trainer directory</p>
+                          </div>
+                        </label>
+                      </FormItem>
+                    )}
+                  />
+
                   <div className="flex justify-end space-x-3">
                     <Button 
                       type="button" 
@@ -361,8 +388,10 @@ export default function TrainerSubscriptionPlans() {
                   <div className="pt-4 border-t border-gray-200">
                     <div className="flex justify-between items-center text-xs text-gray-500 mb-2">
                       <span>Created {formatDate(subscription.created_at)}</span>
-                      <span className="inline-flex items-center px-2 py-1 rounded-full bg-green-100 text-green-800 font-medium">
-                        Active
+                      <span className={`inline-flex items-center px-2 py-1 rounded-full font-medium ${
+                        subscription.is_published ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {subscription.is_published ? 'Published' : 'Hidden'}
                       </span>
                     </div>
                     <button 
@@ -1,17 +1,20 @@
 // src/pages/trainer/pages/TrainerSubscriptions.tsx - Clean Version
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import DashboardLayout from '@/components/organisms/DashboardLayout';
 import { Button } from '@/components/atoms/Button';
 import Icon from '@/components/atoms/Icon';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import StripePaymentModal from '@/components/features/trainer/StripePaymentModal';
 import { toast } from 'sonner';
-import { TrainerAPI } from '@/lib/api';
+import { BillingCycle, TrainerAPI } from '@/lib/api';
 import { useSubscription } from '@/pages/features/trainer/hooks/useSubscription';
-import { SUBSCRIPTION_TIERS, FEATURE_COMPARISON, USER_TYPES } from '@/lib/constants';
-import { SubscriptionTier } from '@/lib/types';
+import { SUBSCRIPTION_TIERS, FEATURE_COMPARISON, DASHBOARD_ROUTES, USER_TYPES } from '@/lib/constants';
 import { showErrorToast, showSuccessToast } from '@/lib/errors';
-import { supabase } from '@/lib/supabaseClient';
+import { StripeService } from '@/lib/stripe';
+import { describeRenewal, getBilledPrice, hasPaidSubscription } from '@/lib/billing';
+import { BILLING_CYCLE_LABELS, getYearlySavingsPercent } from '@/lib/payments';
 
 // ============================================================================
 // TYPES
@@ -22,19 +25,66 @@ interface PaymentState {
   processingTierId: string | null;
 }
 
+// A subscription or plan change waiting for the card to be confirmed
+interface PendingPayment {
+  clientSecret: string;
+  planName: string;
+  amount: number;
+  // Prorated charge for switching a running subscription
+  amountDueNow?: number;
+  billingCycle: BillingCycle;
+}
+
+// A paid plan the stripe-webhook function hasn't recorded yet
+interface ConfirmingPlan {
+  planName: string;
+  // billing_synced_at before the payment; the webhook moves it on when it records the plan
+  syncedAt: string | null;
+}
+
+interface PlanPricing {
+  price: number | null;
+  salePrice?: number | null;
+  yearlyPrice: number | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Stripe usually reports the payment within seconds; after the timeout the page stops asking
+const CONFIRMATION_POLL_MS = 3000;
+const CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+// ============================================================================
+// PRICING
+// ============================================================================
+
+const getMonthlyPrice = (tier: PlanPricing) =>
+  tier.salePrice && tier.price && tier.salePrice < tier.price ? tier.salePrice : tier.price;
+
+// Measured against twelve months at the price the trainer would otherwise pay, sale included
+const getSavingsPercent = (tier: PlanPricing) => getYearlySavingsPercent({
+  price: getMonthlyPrice(tier) ?? 0,
+  yearly_price: tier.yearlyPrice,
+  billing_cycle: 'monthly'
+});
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
 
 const TrainerSubscriptions: React.FC = () => {
+  const [confirmingPlan, setConfirmingPlan] = useState<ConfirmingPlan | null>(null);
   const { 
     subscription: currentSubscription, 
     clientCount, 
     clientLimit, 
     usagePercentage, 
+    billing,
     refetch,
     isLoading: subscriptionLoading 
-  } = useSubscription();
+  } = useSubscription({ refetchInterval: confirmingPlan ? CONFIRMATION_POLL_MS : undefined });
   
   const [subscriptionTiers, setSubscriptionTiers] = useState(SUBSCRIPTION_TIERS);
   const [showFeatureComparison, setShowFeatureComparison] = useState(false);
@@ -42,6 +92,27 @@ const TrainerSubscriptions: React.FC = () => {
     isProcessing: false,
     processingTierId: null
   });
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>('monthly');
+  const [pendingPayment, setPendingPayment] = useState<PendingPayment | null>(null);
+  const currentCycle = billing?.billing_cycle ?? 'monthly';
+
+  // Open on the cycle the trainer is already billed on
+  useEffect(() => {
+    if (billing?.billing_cycle) setBillingCycle(billing.billing_cycle);
+  }, [billing?.billing_cycle]);
+
+  useEffect(() => {
+    if (!confirmingPlan || !billing || billing.billing_synced_at === confirmingPlan.syncedAt) return;
+    if (billing.subscription_status !== 'active') return;
+    setConfirmingPlan(null);
+    showSuccessToast(`You're now on ${confirmingPlan.planName}`);
+  }, [confirmingPlan, billing]);
+
+  useEffect(() => {
+    if (!confirmingPlan) return;
+    const timeout = window.setTimeout(() => setConfirmingPlan(null), CONFIRMATION_TIMEOUT_MS);
+    return () => window.clearTimeout(timeout);
+  }, [confirmingPlan]);
 
   // ============================================================================
   // FETCH SUBSCRIPTION TIERS
@@ -60,6 +131,7 @@ const TrainerSubscriptions: React.FC = () => {
               name: tier.name,
               price: tier.price,
               salePrice: tier.sale_price,
+              yearlyPrice: tier.yearly_price ?? tierTemplate.yearlyPrice,
               description: tier.description || tierTemplate.description
             };
           });
@@ -77,9 +149,9 @@ const TrainerSubscriptions: React.FC = () => {
   // HANDLE SUBSCRIPTION UPGRADE
   // ============================================================================
 
-  const handleUpgrade = async (tierId: string, tierName: string) => {
+  const handleUpgrade = async (tier: PlanPricing & { id: string; name: string }) => {
     // Handle Arnold (custom pricing)
-    if (tierName === 'Arnold') {
+    if (tier.name === 'Arnold') {
       toast.info('Contact our sales team for custom pricing', {
         description: 'Email: sales@pumpee.com',
         duration: 4000
@@ -87,53 +159,60 @@ const TrainerSubscriptions: React.FC = () => {
       return;
     }
     
+    // Plans without a yearly price are billed monthly whichever cycle is selected
+    const cycle: BillingCycle = billingCycle === 'yearly' && tier.yearlyPrice ? 'yearly' : 'monthly';
+    const amount = cycle === 'yearly' ? tier.yearlyPrice ?? 0 : getMonthlyPrice(tier) ?? 0;
+    const isFree = !getMonthlyPrice(tier);
+
     // Don't process if already current
-    if (tierId === currentSubscription?.id) return;
+    if (isCurrentTier(tier) && (isFree || cycle === currentCycle)) return;
+
+    // Moving to the free plan ends the paid subscription at the close of the period already paid for
+    if (isFree && hasPaidSubscription(billing)) {
+      if (billing?.cancel_at_period_end) {
+        toast.info(`You already move to ${tier.name} when your current period ends`);
+        return;
+      }
+      await cancelAtPeriodEnd(`Switch to ${tier.name}? Your current plan stays active until the end of this billing period.`);
+      return;
+    }
     
     try {
-      setPaymentState({ isProcessing: true, processingTierId: tierId });
-      
-      // Get auth token
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.access_token) {
-        throw new Error('Not authenticated');
-      }
-
-      // Call Edge Function to create subscription
-      const { data, error } = await supabase.functions.invoke('create-subscription', {
-        body: { 
-          subscriptionTierId: tierId,
-          billingCycle: 'monthly' 
-        },
-        headers: {
-          Authorization: `Bearer ${session.session.access_token}`,
-        },
-      });
+      setPaymentState({ isProcessing: true, processingTierId: tier.id });
 
-      if (error) {
-        throw error;
-      }
+      // A running paid subscription is switched in place, so Stripe prorates the unused time
+      const isChange = hasPaidSubscription(billing);
+      const data = isChange
+        ? await StripeService.changeSubscription({ subscriptionTierId: tier.id, billingCycle: cycle })
+        : await StripeService.createSubscription({ subscriptionTierId: tier.id, billingCycle: cycle });
 
       if (!data.success) {
-        throw new Error(data.error || 'Failed to create subscription');
+        throw new Error(data.error || 'Failed to update subscription');
       }
 
-      // Handle free Basic plan
-      if (data.message && !data.clientSecret) {
-        showSuccessToast(data.message);
-        await refetch();
+      if (data.clientSecret) {
+        const amountDue = 'amountDue' in data ? data.amountDue : undefined;
+        setPendingPayment({
+          clientSecret: data.clientSecret,
+          planName: tier.name,
+          amount,
+          amountDueNow: amountDue !== undefined ? amountDue / 100 : undefined,
+          billingCycle: cycle
+        });
         return;
       }
 
-      // Handle paid plans - redirect to Stripe Checkout
-      if (data.clientSecret) {
-        // For now, show success and refresh
-        // TODO: Implement Stripe Elements payment form
-        showSuccessToast('Subscription created! Payment processing...');
-        await refetch();
+      // A change the saved card already covered is recorded by the webhook like a confirmed payment
+      if (isChange) {
+        startConfirming(tier.name);
+        return;
       }
+
+      // Free Basic plan
+      showSuccessToast(data.message || `You're now on ${tier.name}, billed ${BILLING_CYCLE_LABELS[cycle].toLowerCase()}`);
+      await refetch();
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error upgrading subscription:', error);
       showErrorToast(error, 'Failed to upgrade subscription');
     } finally {
@@ -141,43 +220,42 @@ const TrainerSubscriptions: React.FC = () => {
     }
   };
 
+  // The stripe-webhook function records the plan once Stripe reports the payment, so billing is polled until it has
+  const startConfirming = (planName: string) => {
+    setConfirmingPlan({ planName, syncedAt: billing?.billing_synced_at ?? null });
+  };
+
+  const handlePaymentSuccess = () => {
+    if (pendingPayment) startConfirming(pendingPayment.planName);
+    setPendingPayment(null);
+  };
+
   // ============================================================================
   // HANDLE SUBSCRIPTION CANCELLATION
   // ============================================================================
 
-  const handleCancel = async () => {
-    if (!confirm('Are you sure you want to cancel your subscription? It will remain active until the end of your current billing period.')) {
+  const cancelAtPeriodEnd = async (confirmMessage: string) => {
+    if (!confirm(confirmMessage)) {
       return;
     }
 
     try {
-      const { data: session } = await supabase.auth.getSession();
-      if (!session?.session?.access_token) {
-        throw new Error('Not authenticated');
-      }
-
-      const { data, error } = await supabase.functions.invoke('cancel-subscription', {
-        body: { cancelAtPeriodEnd: true },
-        headers: {
-          Authorization: `Bearer ${session.session.access_token}`,
-        },
-      });
-
-      if (error) {
-        throw error;
+      const data = await StripeService.cancelSubscription(true);
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to cancel subscription');
       }
 
-      if (data.success) {
-        showSuccessToast(data.message || 'Subscription will be canceled at the end of the billing period');
-        await refetch();
-      } else {
-        throw new Error(data.error);
-      }
-    } catch (error: any) {
+      showSuccessToast(data.message || 'Subscription will be canceled at the end of the billing period');
+      await refetch();
+    } catch (error) {
       showErrorToast(error, 'Failed to cancel subscription');
     }
   };
 
+  const handleCancel = () => cancelAtPeriodEnd(
+    'Are you sure you want to cancel your subscription? It will remain active until the end of your current billing period.'
+  );
+
   // ============================================================================
   // UTILITY FUNCTIONS
   // ============================================================================
@@ -204,15 +282,24 @@ const TrainerSubscriptions: React.FC = () => {
   // RENDER COMPONENTS
   // ============================================================================
 
+  const currentPrice = getBilledPrice(currentSubscription, billing);
+  const renewal = describeRenewal(billing);
+  const maxSavings = Math.max(0, ...subscriptionTiers.map(tier => getSavingsPercent(tier) ?? 0));
+
   const renderCurrentSubscription = () => (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle>Current Subscription</CardTitle>
-        {currentSubscription && currentSubscription.name !== 'Basic' && (
-          <Button variant="outline" size="sm" onClick={handleCancel}>
-            Cancel Subscription
-          </Button>
-        )}
+        <div className="flex gap-2">
+          <Link to={DASHBOARD_ROUTES.TRAINER.BILLING}>
+            <Button variant="ghost" size="sm">Billing &amp; invoices</Button>
+          </Link>
+          {currentSubscription && currentSubscription.name !== 'Basic' && !billing?.cancel_at_period_end && (
+            <Button variant="outline" size="sm" onClick={handleCancel}>
+              Cancel Subscription
+            </Button>
+          )}
+        </div>
       </CardHeader>
       <CardContent>
         {subscriptionLoading ? (
@@ -232,6 +319,11 @@ const TrainerSubscriptions: React.FC = () => {
                 <p className="text-lg font-semibold text-[#007bff]">
                   {currentSubscription?.name || 'Basic'}
                 </p>
+                {confirmingPlan && (
+                  <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    Confirming payment for {confirmingPlan.planName}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -269,10 +361,11 @@ const TrainerSubscriptions: React.FC = () => {
                 </svg>
               </div>
               <div>
-                <p className="text-sm text-gray-500">Monthly Cost</p>
+                <p className="text-sm text-gray-500">{currentCycle === 'yearly' ? 'Yearly' : 'Monthly'} Cost</p>
                 <p className="text-lg font-semibold text-green-600">
-                  {currentSubscription?.price ? `${currentSubscription.price} CZK` : 'Free'}
+                  {currentPrice.amount ? `${currentPrice.amount} CZK` : 'Free'}
                 </p>
+                {renewal && <p className="text-xs text-gray-500">{renewal}</p>}
               </div>
             </div>
           </div>
@@ -284,6 +377,9 @@ const TrainerSubscriptions: React.FC = () => {
   const renderSubscriptionTier = (tier: any) => {
     const current = isCurrentTier(tier);
     const processing = isProcessingTier(tier.id);
+    const savings = getSavingsPercent(tier);
+    // Moving the current plan to the other cycle is a switch, not a new plan
+    const isCycleSwitch = current && Boolean(getMonthlyPrice(tier)) && billingCycle !== currentCycle && (billingCycle === 'monthly' || Boolean(tier.yearlyPrice));
     
     return (
       <Card 
@@ -320,6 +416,12 @@ const TrainerSubscriptions: React.FC = () => {
                   <span className="text-lg font-semibold text-gray-600">Custom</span>
                   <p className="text-sm text-gray-500">Contact Sales</p>
                 </>
+              ) : billingCycle === 'yearly' && tier.yearlyPrice ? (
+                <div>
+                  <span className="text-3xl font-bold text-gray-700">{tier.yearlyPrice}</span>
+                  <span className="text-gray-500 text-sm ml-1">CZK/year</span>
+                  {savings && <p className="text-sm font-medium text-green-600">Save {savings}%</p>}
+                </div>
               ) : (
                 <div>
                   {tier.salePrice && tier.price && tier.salePrice < tier.price ? (
@@ -331,6 +433,7 @@ const TrainerSubscriptions: React.FC = () => {
                     <span className="text-3xl font-bold text-gray-700">{tier.price}</span>
                   )}
                   <span className="text-gray-500 text-sm ml-1">CZK/month</span>
+                  {billingCycle === 'yearly' && <p className="text-xs text-gray-500">Billed monthly only</p>}
                 </div>
               )}
             </div>
@@ -356,20 +459,43 @@ const TrainerSubscriptions: React.FC = () => {
 
           {/* Action Button */}
           <Button
-            onClick={() => handleUpgrade(tier.id, tier.name)}
-            disabled={current || paymentState.isProcessing}
+            onClick={() => handleUpgrade(tier)}
+            disabled={(current && !isCycleSwitch) || paymentState.isProcessing}
             isLoading={processing}
-            variant={current ? 'outline' : getButtonVariant(tier.name)}
+            variant={current && !isCycleSwitch ? 'outline' : getButtonVariant(tier.name)}
             size="full"
             className="mt-auto"
           >
-            {current ? 'Current Plan' : tier.buttonText}
+            {isCycleSwitch ? `Switch to ${BILLING_CYCLE_LABELS[billingCycle].toLowerCase()}` : current ? 'Current Plan' : tier.buttonText}
           </Button>
         </CardContent>
       </Card>
     );
   };
 
+  const renderCycleToggle = () => (
+    <div className="inline-flex rounded-lg border border-gray-200 p-1 text-sm" role="group" aria-label="Billing cycle">
+      {(['monthly', 'yearly'] as BillingCycle[]).map(cycle => (
+        <button
+          key={cycle}
+          type="button"
+          onClick={() => setBillingCycle(cycle)}
+          aria-pressed={billingCycle === cycle}
+          className={`rounded-md px-3 py-1 font-medium transition-colors ${
+            billingCycle === cycle ? 'bg-[#007bff] text-white' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {BILLING_CYCLE_LABELS[cycle]}
+          {cycle === 'yearly' && maxSavings > 0 && (
+            <span className={`ml-1 text-xs ${billingCycle === cycle ? 'text-white' : 'text-green-600'}`}>
+              Save up to {maxSavings}%
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+
   const renderFeatureComparison = () => {
     if (!showFeatureComparison) return null;
     
@@ -454,14 +580,22 @@ const TrainerSubscriptions: React.FC = () => {
         <div>
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-xl font-semibold text-[#040b07]">Available Plans</h2>
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={() => setShowFeatureComparison(!showFeatureComparison)}
-            >
-              {showFeatureComparison ? 'Hide' : 'Compare'} Features
-            </Button>
+            <div className="flex items-center gap-3">
+              {renderCycleToggle()}
+              <Button 
+                variant="outline" 
+                size="sm"
+                onClick={() => setShowFeatureComparison(!showFeatureComparison)}
+              >
+                {showFeatureComparison ? 'Hide' : 'Compare'} Features
+              </Button>
+            </div>
           </div>
+          {hasPaidSubscription(billing) && (
+            <p className="text-sm text-gray-500 -mt-4 mb-6">
+              Changing plan or billing cycle takes effect now; unused time on your current plan is credited against the new one.
+            </p>
+          )}
 
           <div className="grid gap-6 grid-cols-1 md:grid-cols-2 lg:grid-cols-4">
             {subscriptionTiers.map(renderSubscriptionTier)}
@@ -471,6 +605,19 @@ const TrainerSubscriptions: React.FC = () => {
         {/* Feature Comparison Table */}
         {renderFeatureComparison()}
       </div>
+
+      {pendingPayment && (
+        <StripePaymentModal
+          isOpen
+          onClose={() => setPendingPayment(null)}
+          onSuccess={handlePaymentSuccess}
+          clientSecret={pendingPayment.clientSecret}
+          planName={pendingPayment.planName}
+          amount={pendingPayment.amount}
+          amountDueNow={pendingPayment.amountDueNow}
+          billingCycle={pendingPayment.billingCycle}
+        />
+      )}
     </DashboardLayout>
   );
 };
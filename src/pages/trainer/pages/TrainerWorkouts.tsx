@@ -1,11 +1,13 @@
 // src/pages/trainer/pages/TrainerWorkouts.tsx - Simply refactored existing code
 import React, { useState, useEffect } from 'react';
 import DashboardLayout from '@/components/organisms/DashboardLayout';
+import AssignToClientsModal, { AssignmentTarget } from '@/components/features/trainer/AssignToClientsModal';
 import { Button } from '@/components/atoms/Button';
 import { Input } from '@/components/atoms/Input';
 import Icon from '@/components/atoms/Icon';
 import LoadingSpinner from '@/components/atoms/LoadingSpinner';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/organisms/Card';
+import SortableList from '@/components/molecules/SortableList';
 import { 
   Form,
   FormControl,
@@ -17,9 +19,15 @@ import {
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { TrainerAPI, Exercise, Workout, CreateExerciseData, CreateWorkoutData } from '@/lib/api';
+import { TrainerAPI, Exercise, Workout, WorkoutExercise, CreateExerciseData, CreateWorkoutData, ExercisePrescription } from '@/lib/api';
 import { showSuccessToast, showErrorToast } from '@/lib/errors';
 import { USER_TYPES } from '@/lib/constants';
+import {
+  formatPrescription,
+  LOAD_TYPE_LABELS,
+  SET_VARIATION_LABELS,
+  MAX_PRESCRIBED_SETS
+} from '@/lib/prescription';
 
 // Constants moved to top
 const WORKOUT_DAYS = [
@@ -27,23 +35,121 @@ const WORKOUT_DAYS = [
   'Day 1', 'Day 2', 'Day 3', 'Day 4', 'Day 5', 'Day 6', 'Day 7'
 ];
 
+const SELECT_CLASS_NAME = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
 // Schemas
+const wholeNumber = z.string().regex(/^\d*$/, 'Enter a whole number');
+
 const createExerciseSchema = z.object({
   exercise_name: z.string().min(1, 'Exercise name is required'),
-  series: z.string().min(1, 'Series is required'),
-  series_description: z.string().min(1, 'Series description is required')
-});
+  sets: z.string()
+    .regex(/^\d+$/, 'Sets are required')
+    .refine(value => Number(value) >= 1 && Number(value) <= MAX_PRESCRIBED_SETS, `Use 1-${MAX_PRESCRIBED_SETS} sets`),
+  rep_min: wholeNumber,
+  rep_max: wholeNumber,
+  tempo: z.string().regex(/^([\dXx](-[\dXx]){2,3})?$/, 'Use a format like 3-1-1-0'),
+  rest_seconds: wholeNumber,
+  load_type: z.enum(['none', 'percent_1rm', 'rpe', 'fixed_kg']),
+  load_value: z.string().regex(/^(\d+([.,]\d+)?)?$/, 'Enter a number'),
+  set_variations: z.array(z.enum(['standard', 'warmup', 'drop_set', 'amrap'])),
+  series_description: z.string().min(1, 'Instructions are required')
+})
+  .refine(values => !values.rep_min || !values.rep_max || Number(values.rep_max) >= Number(values.rep_min), {
+    message: 'Max reps must be at least min reps',
+    path: ['rep_max']
+  })
+  .refine(values => values.load_type === 'none' || values.load_value !== '', {
+    message: 'Enter a load value',
+    path: ['load_value']
+  });
 
 const createWorkoutSchema = z.object({
   workout_name: z.string().min(1, 'Workout name is required'),
   workout_day: z.string().min(1, 'Workout day is required'),
   description: z.string().optional(),
-  selected_exercise_ids: z.array(z.string()).min(1, 'At least one exercise must be selected')
+  selected_exercise_ids: z.array(z.string()).min(1, 'At least one exercise must be selected'),
+  exercise_notes: z.record(z.string(), z.string())
 });
 
 type CreateExerciseFormValues = z.infer<typeof createExerciseSchema>;
 type CreateWorkoutFormValues = z.infer<typeof createWorkoutSchema>;
 
+const EXERCISE_FORM_DEFAULTS: CreateExerciseFormValues = {
+  exercise_name: '',
+  sets: '3',
+  rep_min: '',
+  rep_max: '',
+  tempo: '',
+  rest_seconds: '',
+  load_type: 'none',
+  load_value: '',
+  set_variations: Array(MAX_PRESCRIBED_SETS).fill('standard'),
+  series_description: ''
+};
+
+const WORKOUT_FORM_DEFAULTS: CreateWorkoutFormValues = {
+  workout_name: '',
+  workout_day: '',
+  description: '',
+  selected_exercise_ids: [],
+  exercise_notes: {}
+};
+
+const toOptionalNumber = (value: string) => (value.trim() === '' ? null : Number(value.replace(',', '.')));
+
+// Form values -> prescription; a single rep field means a fixed rep target
+const toPrescription = (values: CreateExerciseFormValues): ExercisePrescription => {
+  const sets = Number(values.sets);
+  const repMin = toOptionalNumber(values.rep_min);
+  const repMax = toOptionalNumber(values.rep_max);
+
+  return {
+    sets,
+    rep_min: repMin ?? repMax,
+    rep_max: repMax ?? repMin,
+    tempo: values.tempo ? values.tempo.toUpperCase() : null,
+    rest_seconds: toOptionalNumber(values.rest_seconds),
+    load_type: values.load_type,
+    load_value: values.load_type === 'none' ? null : toOptionalNumber(values.load_value),
+    set_variations: values.set_variations
+      .slice(0, sets)
+      .map((type, index) => ({ set_number: index + 1, type }))
+      .filter(variation => variation.type !== 'standard')
+  };
+};
+
+// Prescription -> form values, the inverse of toPrescription
+const toExerciseFormValues = (exercise: Exercise): CreateExerciseFormValues => {
+  const { prescription } = exercise;
+  const toText = (value: number | null) => (value === null ? '' : String(value));
+
+  return {
+    exercise_name: exercise.exercise_name,
+    sets: String(prescription.sets),
+    rep_min: toText(prescription.rep_min),
+    rep_max: toText(prescription.rep_max),
+    tempo: prescription.tempo || '',
+    rest_seconds: toText(prescription.rest_seconds),
+    load_type: prescription.load_type,
+    load_value: toText(prescription.load_value),
+    set_variations: Array.from({ length: MAX_PRESCRIBED_SETS }, (_, index) =>
+      prescription.set_variations.find(variation => variation.set_number === index + 1)?.type || 'standard'
+    ),
+    series_description: exercise.series_description
+  };
+};
+
+const toWorkoutFormValues = (workout: Workout): CreateWorkoutFormValues => {
+  const items = workout.workout_exercises || [];
+  return {
+    workout_name: workout.workout_name,
+    workout_day: workout.workout_day,
+    description: workout.description || '',
+    selected_exercise_ids: items.map(item => item.exercise_id),
+    exercise_notes: Object.fromEntries(items.map(item => [item.exercise_id, item.notes || '']))
+  };
+};
+
 export default function TrainerWorkouts() {
   // State
   const [activeTab, setActiveTab] = useState<'exercises' | 'workouts'>('exercises');
@@ -52,19 +158,26 @@ export default function TrainerWorkouts() {
   const [loading, setLoading] = useState(true);
   const [showExerciseForm, setShowExerciseForm] = useState(false);
   const [showWorkoutForm, setShowWorkoutForm] = useState(false);
+  const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
+  const [editingWorkout, setEditingWorkout] = useState<Workout | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [assignTarget, setAssignTarget] = useState<AssignmentTarget | null>(null);
 
   // Forms
   const exerciseForm = useForm<CreateExerciseFormValues>({
     resolver: zodResolver(createExerciseSchema),
-    defaultValues: { exercise_name: '', series: '', series_description: '' }
+    defaultValues: EXERCISE_FORM_DEFAULTS
   });
 
   const workoutForm = useForm<CreateWorkoutFormValues>({
     resolver: zodResolver(createWorkoutSchema),
-    defaultValues: { workout_name: '', workout_day: '', description: '', selected_exercise_ids: [] }
+    defaultValues: WORKOUT_FORM_DEFAULTS
   });
 
+  const exerciseLoadType = exerciseForm.watch('load_type');
+  const exerciseSetCount = Math.min(Math.max(Number(exerciseForm.watch('sets')) || 0, 0), MAX_PRESCRIBED_SETS);
+  const selectedExerciseIds = workoutForm.watch('selected_exercise_ids');
+
   // Fetch data
   const fetchData = async () => {
     try {
@@ -87,48 +200,114 @@ export default function TrainerWorkouts() {
   }, []);
 
   // Handlers
-  const handleCreateExercise = async (data: CreateExerciseFormValues) => {
+  const openExerciseForm = (exercise?: Exercise) => {
+    setEditingExercise(exercise || null);
+    exerciseForm.reset(exercise ? toExerciseFormValues(exercise) : EXERCISE_FORM_DEFAULTS);
+    setShowExerciseForm(true);
+  };
+
+  const closeExerciseForm = () => {
+    setEditingExercise(null);
+    setShowExerciseForm(false);
+  };
+
+  const openWorkoutForm = (workout?: Workout) => {
+    setEditingWorkout(workout || null);
+    workoutForm.reset(workout ? toWorkoutFormValues(workout) : WORKOUT_FORM_DEFAULTS);
+    setActiveTab('workouts');
+    setShowWorkoutForm(true);
+  };
+
+  const closeWorkoutForm = () => {
+    setEditingWorkout(null);
+    setShowWorkoutForm(false);
+  };
+
+  const handleSubmitExercise = async (data: CreateExerciseFormValues) => {
     try {
       setSubmitting(true);
-      const newExercise = await TrainerAPI.createExercise(data);
-      if (newExercise) {
-        setExercises(prev => [newExercise, ...prev]);
-        showSuccessToast('Exercise created successfully');
-        exerciseForm.reset();
-        setShowExerciseForm(false);
+      const exerciseData: CreateExerciseData = {
+        exercise_name: data.exercise_name,
+        series_description: data.series_description,
+        prescription: toPrescription(data)
+      };
+
+      if (editingExercise) {
+        await TrainerAPI.updateExercise(editingExercise.id, exerciseData);
+        await fetchData(); // Workouts embed the exercise, so refetch them too
+        showSuccessToast('Exercise updated successfully');
+        closeExerciseForm();
+        return;
       }
+
+      const newExercise = await TrainerAPI.createExercise(exerciseData);
+      setExercises(prev => [newExercise, ...prev]);
+      showSuccessToast('Exercise created successfully');
+      exerciseForm.reset();
+      closeExerciseForm();
     } catch (error) {
-      showErrorToast(error, 'Failed to create exercise');
+      showErrorToast(error, editingExercise ? 'Failed to update exercise' : 'Failed to create exercise');
     } finally {
       setSubmitting(false);
     }
   };
 
-  const handleCreateWorkout = async (data: CreateWorkoutFormValues) => {
+  const handleSubmitWorkout = async (data: CreateWorkoutFormValues) => {
     try {
       setSubmitting(true);
-      const newWorkout = await TrainerAPI.createWorkout(data);
-      if (newWorkout) {
-        await fetchData(); // Refetch to get complete data
-        showSuccessToast('Workout created successfully');
-        workoutForm.reset();
-        setShowWorkoutForm(false);
+      const workoutData: CreateWorkoutData = data;
+
+      if (editingWorkout) {
+        await TrainerAPI.updateWorkout(editingWorkout.id, workoutData);
+        await fetchData();
+        showSuccessToast('Workout updated successfully');
+        closeWorkoutForm();
+        return;
       }
+
+      await TrainerAPI.createWorkout(workoutData);
+      await fetchData(); // Refetch to get complete data
+      showSuccessToast('Workout created successfully');
+      workoutForm.reset(WORKOUT_FORM_DEFAULTS);
+      closeWorkoutForm();
     } catch (error) {
-      showErrorToast(error, 'Failed to create workout');
+      showErrorToast(error, editingWorkout ? 'Failed to update workout' : 'Failed to create workout');
     } finally {
       setSubmitting(false);
     }
   };
 
+  const toggleWorkoutExercise = (exerciseId: string) => {
+    const current = workoutForm.getValues('selected_exercise_ids');
+    const next = current.includes(exerciseId)
+      ? current.filter(id => id !== exerciseId)
+      : [...current, exerciseId];
+    workoutForm.setValue('selected_exercise_ids', next, { shouldValidate: workoutForm.formState.isSubmitted });
+  };
+
+  // Reorders in place on the card; the list is restored if saving fails
+  const handleReorderWorkout = async (workout: Workout, items: WorkoutExercise[]) => {
+    const previous = workouts;
+    setWorkouts(prev => prev.map(item => item.id === workout.id ? {
+      ...item,
+      workout_exercises: items,
+      exercises: items.map(workoutExercise => workoutExercise.exercise).filter(Boolean) as Exercise[]
+    } : item));
+
+    try {
+      await TrainerAPI.reorderWorkoutExercises(workout.id, items.map(item => item.id));
+    } catch (error) {
+      setWorkouts(previous);
+      showErrorToast(error, 'Failed to reorder exercises');
+    }
+  };
+
   const handleDeleteExercise = async (exerciseId: string) => {
     if (!confirm('Are you sure you want to delete this exercise?')) return;
     try {
-      const success = await TrainerAPI.deleteExercise(exerciseId);
-      if (success) {
-        setExercises(prev => prev.filter(exercise => exercise.id !== exerciseId));
-        showSuccessToast('Exercise deleted successfully');
-      }
+      await TrainerAPI.deleteExercise(exerciseId);
+      setExercises(prev => prev.filter(exercise => exercise.id !== exerciseId));
+      showSuccessToast('Exercise deleted successfully');
     } catch (error) {
       showErrorToast(error, 'Failed to delete exercise');
     }
@@ -137,11 +316,9 @@ export default function TrainerWorkouts() {
   const handleDeleteWorkout = async (workoutId: string) => {
     if (!confirm('Are you sure you want to delete this workout?')) return;
     try {
-      const success = await TrainerAPI.deleteWorkout(workoutId);
-      if (success) {
-        setWorkouts(prev => prev.filter(workout => workout.id !== workoutId));
-        showSuccessToast('Workout deleted successfully');
-      }
+      await TrainerAPI.deleteWorkout(workoutId);
+      setWorkouts(prev => prev.filter(workout => workout.id !== workoutId));
+      showSuccessToast('Workout deleted successfully');
     } catch (error) {
       showErrorToast(error, 'Failed to delete workout');
     }
@@ -160,19 +337,27 @@ export default function TrainerWorkouts() {
       <CardContent className="p-4">
         <div className="flex justify-between items-start mb-3">
           <h3 className="font-semibold text-gray-900 text-lg">{exercise.exercise_name}</h3>
-          <button 
-            onClick={() => handleDeleteExercise(exercise.id)}
-            className="text-red-400 hover:text-red-600 transition-colors"
-          >
-            <Icon name="x" size={16} />
-          </button>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => openExerciseForm(exercise)}
+              className="text-gray-400 hover:text-[#007bff] transition-colors"
+            >
+              <Icon name="edit" size={16} />
+            </button>
+            <button 
+              onClick={() => handleDeleteExercise(exercise.id)}
+              className="text-red-400 hover:text-red-600 transition-colors"
+            >
+              <Icon name="x" size={16} />
+            </button>
+          </div>
         </div>
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-3">
-          <p className="font-medium text-blue-800 text-sm">Series:</p>
-          <p className="text-blue-700">{exercise.series}</p>
+          <p className="font-medium text-blue-800 text-sm">Prescription:</p>
+          <p className="text-blue-700">{formatPrescription(exercise.prescription)}</p>
         </div>
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-3">
-          <p className="font-medium text-gray-800 text-sm">Description:</p>
+          <p className="font-medium text-gray-800 text-sm">Instructions:</p>
           <p className="text-gray-700 text-sm">{exercise.series_description}</p>
         </div>
         <div className="text-xs text-gray-400">Created {formatDate(exercise.created_at)}</div>
@@ -189,6 +374,9 @@ export default function TrainerWorkouts() {
             <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 mt-2">
               {workout.workout_day}
             </span>
+            {workout.version > 1 && (
+              <span className="ml-2 text-xs text-gray-500">Version {workout.version}</span>
+            )}
           </div>
           <button 
             onClick={() => handleDeleteWorkout(workout.id)}
@@ -209,30 +397,35 @@ export default function TrainerWorkouts() {
           </div>
         )}
         
-        {workout.exercises && workout.exercises.length > 0 && (
+        {workout.workout_exercises && workout.workout_exercises.length > 0 && (
           <div className="mb-4">
-            <h4 className="text-sm font-medium text-gray-700 mb-2">Exercises:</h4>
-            <div className="space-y-2 max-h-40 overflow-y-auto">
-              {workout.exercises.map((exercise, index) => (
-                <div key={exercise.id} className="flex items-start justify-between text-sm p-2 bg-gray-50 rounded border">
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <span className="text-xs text-gray-500 font-mono w-6">#{index + 1}</span>
-                      <span className="font-medium">{exercise.exercise_name}</span>
-                    </div>
-                    <p className="text-xs text-gray-600 ml-8">{exercise.series}</p>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Exercises (drag to reorder):</h4>
+            <SortableList
+              items={workout.workout_exercises}
+              getKey={item => item.id}
+              onReorder={items => handleReorderWorkout(workout, items)}
+              className="max-h-60 overflow-y-auto"
+              renderItem={(item, index) => (
+                <div className="text-sm">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-xs text-gray-500 font-mono w-6">#{index + 1}</span>
+                    <span className="font-medium">{item.exercise?.exercise_name}</span>
                   </div>
+                  {item.exercise && (
+                    <p className="text-xs text-gray-600 ml-8">{formatPrescription(item.exercise.prescription)}</p>
+                  )}
+                  {item.notes && <p className="text-xs text-gray-500 italic ml-8 mt-1">{item.notes}</p>}
                 </div>
-              ))}
-            </div>
+              )}
+            />
           </div>
         )}
         
         <div className="flex justify-between items-center pt-4 border-t border-gray-200">
           <span className="text-xs text-gray-400">Created {formatDate(workout.created_at)}</span>
           <div className="flex space-x-2">
-            <Button variant="outline" size="sm">Edit Workout</Button>
-            <Button variant="blue" size="sm">Assign to Client</Button>
+            <Button variant="outline" size="sm" onClick={() => openWorkoutForm(workout)}>Edit Workout</Button>
+            <Button variant="blue" size="sm" onClick={() => setAssignTarget({ type: 'workout', id: workout.id, name: workout.workout_name })}>Assign to Client</Button>
           </div>
         </div>
       </CardContent>
@@ -260,13 +453,13 @@ export default function TrainerWorkouts() {
           </div>
           <div className="flex space-x-3">
             {activeTab === 'exercises' && (
-              <Button variant="blue" onClick={() => setShowExerciseForm(true)} disabled={showExerciseForm}>
+              <Button variant="blue" onClick={() => openExerciseForm()} disabled={showExerciseForm}>
                 <Icon name="dumbbell" size={16} className="mr-2" />
                 Create Exercise
               </Button>
             )}
             {activeTab === 'workouts' && (
-              <Button variant="blue" onClick={() => setShowWorkoutForm(true)} disabled={showWorkoutForm || exercises.length === 0}>
+              <Button variant="blue" onClick={() => openWorkoutForm()} disabled={showWorkoutForm || exercises.length === 0}>
                 <Icon name="calendar" size={16} className="mr-2" />
                 Create Workout
               </Button>
@@ -302,10 +495,10 @@ export default function TrainerWorkouts() {
             {/* Exercise Form */}
             {showExerciseForm && (
               <Card>
-                <CardHeader><CardTitle>Create New Exercise</CardTitle></CardHeader>
+                <CardHeader><CardTitle>{editingExercise ? `Edit ${editingExercise.exercise_name}` : 'Create New Exercise'}</CardTitle></CardHeader>
                 <CardContent>
                   <Form {...exerciseForm}>
-                    <form onSubmit={exerciseForm.handleSubmit(handleCreateExercise)} className="space-y-4">
+                    <form onSubmit={exerciseForm.handleSubmit(handleSubmitExercise)} className="space-y-4">
                       <FormField control={exerciseForm.control} name="exercise_name" render={({ field }) => (
                         <FormItem>
                           <FormLabel>Exercise Name</FormLabel>
@@ -313,16 +506,83 @@ export default function TrainerWorkouts() {
                           <FormMessage />
                         </FormItem>
                       )} />
-                      <FormField control={exerciseForm.control} name="series" render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Series</FormLabel>
-                          <FormControl><Input {...field} placeholder="e.g., 3 sets x 12 reps" /></FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )} />
+                      <div className="grid grid-cols-3 gap-4">
+                        <FormField control={exerciseForm.control} name="sets" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Sets</FormLabel>
+                            <FormControl><Input {...field} type="number" min="1" max={MAX_PRESCRIBED_SETS} /></FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                        <FormField control={exerciseForm.control} name="rep_min" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Min Reps</FormLabel>
+                            <FormControl><Input {...field} type="number" min="1" placeholder="e.g., 8" /></FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                        <FormField control={exerciseForm.control} name="rep_max" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Max Reps</FormLabel>
+                            <FormControl><Input {...field} type="number" min="1" placeholder="e.g., 12" /></FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField control={exerciseForm.control} name="load_type" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Load</FormLabel>
+                            <FormControl>
+                              <select {...field} className={SELECT_CLASS_NAME}>
+                                {Object.entries(LOAD_TYPE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                              </select>
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                        <FormField control={exerciseForm.control} name="load_value" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Load Value</FormLabel>
+                            <FormControl>
+                              <Input {...field} inputMode="decimal" placeholder="e.g., 75" disabled={exerciseLoadType === 'none'} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <FormField control={exerciseForm.control} name="tempo" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tempo (optional)</FormLabel>
+                            <FormControl><Input {...field} placeholder="e.g., 3-1-1-0" /></FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                        <FormField control={exerciseForm.control} name="rest_seconds" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Rest in seconds (optional)</FormLabel>
+                            <FormControl><Input {...field} type="number" min="0" step="15" placeholder="e.g., 90" /></FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">Set Variations</label>
+                        <div className="mt-2 grid grid-cols-2 md:grid-cols-5 gap-2">
+                          {Array.from({ length: exerciseSetCount }, (_, index) => (
+                            <div key={index}>
+                              <span className="text-xs text-gray-500">Set {index + 1}</span>
+                              <select {...exerciseForm.register(`set_variations.${index}`)} className={SELECT_CLASS_NAME}>
+                                {Object.entries(SET_VARIATION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                              </select>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
                       <FormField control={exerciseForm.control} name="series_description" render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Series Description</FormLabel>
+                          <FormLabel>Instructions</FormLabel>
                           <FormControl>
                             <textarea {...field} className="flex h-24 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2" placeholder="Describe how to perform this exercise..." />
                           </FormControl>
@@ -330,8 +590,8 @@ export default function TrainerWorkouts() {
                         </FormItem>
                       )} />
                       <div className="flex justify-end space-x-3">
-                        <Button type="button" variant="outline" onClick={() => setShowExerciseForm(false)} disabled={submitting}>Cancel</Button>
-                        <Button type="submit" variant="blue" isLoading={submitting}>Create Exercise</Button>
+                        <Button type="button" variant="outline" onClick={closeExerciseForm} disabled={submitting}>Cancel</Button>
+                        <Button type="submit" variant="blue" isLoading={submitting}>{editingExercise ? 'Save Changes' : 'Create Exercise'}</Button>
                       </div>
                     </form>
                   </Form>
@@ -347,8 +607,8 @@ export default function TrainerWorkouts() {
                     <Icon name="dumbbell" size={24} className="text-gray-400" />
                   </div>
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No Exercises Created</h3>
-                  <p className="text-gray-600 mb-6">Start by creating exercises with simple series descriptions.</p>
-                  <Button variant="blue" onClick={() => setShowExerciseForm(true)}>
+                  <p className="text-gray-600 mb-6">Start by creating exercises with sets, reps and load targets.</p>
+                  <Button variant="blue" onClick={() => openExerciseForm()}>
                     <Icon name="dumbbell" size={16} className="mr-2" />Create Your First Exercise
                   </Button>
                 </CardContent>
@@ -367,10 +627,17 @@ export default function TrainerWorkouts() {
             {/* Workout Form */}
             {showWorkoutForm && (
               <Card>
-                <CardHeader><CardTitle>Create New Workout</CardTitle></CardHeader>
+                <CardHeader>
+                  <CardTitle>{editingWorkout ? `Edit ${editingWorkout.workout_name}` : 'Create New Workout'}</CardTitle>
+                  {editingWorkout && (
+                    <p className="text-sm text-gray-500">
+                      Sessions clients have already started or completed keep the version they were given.
+                    </p>
+                  )}
+                </CardHeader>
                 <CardContent>
                   <Form {...workoutForm}>
-                    <form onSubmit={workoutForm.handleSubmit(handleCreateWorkout)} className="space-y-4">
+                    <form onSubmit={workoutForm.handleSubmit(handleSubmitWorkout)} className="space-y-4">
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <FormField control={workoutForm.control} name="workout_name" render={({ field }) => (
                           <FormItem>
@@ -410,10 +677,15 @@ export default function TrainerWorkouts() {
                             <div className="space-y-2">
                               {exercises.map((exercise) => (
                                 <label key={exercise.id} className="flex items-start space-x-3 p-2 hover:bg-gray-50 rounded cursor-pointer">
-                                  <input type="checkbox" value={exercise.id} {...workoutForm.register('selected_exercise_ids')} className="mt-1" />
+                                  <input
+                                    type="checkbox"
+                                    checked={selectedExerciseIds.includes(exercise.id)}
+                                    onChange={() => toggleWorkoutExercise(exercise.id)}
+                                    className="mt-1"
+                                  />
                                   <div className="flex-1">
                                     <span className="font-medium">{exercise.exercise_name}</span>
-                                    <p className="text-sm text-blue-600 font-medium">{exercise.series}</p>
+                                    <p className="text-sm text-blue-600 font-medium">{formatPrescription(exercise.prescription)}</p>
                                     <p className="text-xs text-gray-600 mt-1">{exercise.series_description}</p>
                                   </div>
                                 </label>
@@ -425,9 +697,36 @@ export default function TrainerWorkouts() {
                           <p className="text-sm font-medium text-destructive mt-2">{workoutForm.formState.errors.selected_exercise_ids.message}</p>
                         )}
                       </div>
+                      {selectedExerciseIds.length > 0 && (
+                        <div>
+                          <label className="text-sm font-medium">Exercise Order & Notes</label>
+                          <p className="text-xs text-gray-500">Drag to reorder. Notes are shown to the client for this workout only.</p>
+                          <SortableList
+                            items={selectedExerciseIds}
+                            getKey={exerciseId => exerciseId}
+                            onReorder={ids => workoutForm.setValue('selected_exercise_ids', ids)}
+                            className="mt-2"
+                            renderItem={(exerciseId, index) => (
+                              <div className="space-y-1">
+                                <div className="flex items-center space-x-2 text-sm">
+                                  <span className="text-xs text-gray-500 font-mono w-6">#{index + 1}</span>
+                                  <span className="font-medium">{exercises.find(exercise => exercise.id === exerciseId)?.exercise_name}</span>
+                                </div>
+                                <Input
+                                  {...workoutForm.register(`exercise_notes.${exerciseId}`)}
+                                  placeholder="Note for this exercise (optional), e.g., pause at the bottom"
+                                  className="h-8"
+                                />
+                              </div>
+                            )}
+                          />
+                        </div>
+                      )}
                       <div className="flex justify-end space-x-3">
-                        <Button type="button" variant="outline" onClick={() => setShowWorkoutForm(false)} disabled={submitting}>Cancel</Button>
-                        <Button type="submit" variant="blue" isLoading={submitting} disabled={exercises.length === 0}>Create Workout</Button>
+                        <Button type="button" variant="outline" onClick={closeWorkoutForm} disabled={submitting}>Cancel</Button>
+                        <Button type="submit" variant="blue" isLoading={submitting} disabled={exercises.length === 0}>
+                          {editingWorkout ? 'Save Changes' : 'Create Workout'}
+                        </Button>
                       </div>
                     </form>
                   </Form>
@@ -449,7 +748,7 @@ export default function TrainerWorkouts() {
                   {exercises.length === 0 ? (
                     <Button variant="outline" onClick={() => setActiveTab('exercises')}>Create Exercises First</Button>
                   ) : (
-                    <Button variant="blue" onClick={() => setShowWorkoutForm(true)}>
+                    <Button variant="blue" onClick={() => openWorkoutForm()}>
                       <Icon name="calendar" size={16} className="mr-2" />Create Your First Workout
                     </Button>
                   )}
@@ -463,6 +762,8 @@ export default function TrainerWorkouts() {
           </div>
         )}
       </div>
+
+      <AssignToClientsModal target={assignTarget} onClose={() => setAssignTarget(null)} />
     </DashboardLayout>
   );
-}
\ No newline at end of file
+}
@@ -37,6 +37,8 @@ declare module '*.webp' {
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  readonly VITE_EMAIL_TRANSPORT?: 'edge-function' | 'memory' | 'console'
+  readonly VITE_PAYMENT_GATEWAY?: 'stripe' | 'mock'
 }
 
 interface ImportMeta {
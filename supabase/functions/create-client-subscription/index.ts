@@ -0,0 +1,22 @@
+// supabase/functions/create-client-subscription/index.ts - Starts a client's subscription to a trainer's plan; the work lives in src/lib/payments/server
+//
+// Called with the client's session, so the default JWT check stays on:
+//   supabase functions deploy create-client-subscription
+//   supabase secrets set STRIPE_SECRET_KEY=sk_...
+// The stripe-webhook function activates the relation once the first invoice is paid.
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { createSupabaseBillingStore, handleCreateClientSubscription, serveBillingRequest } from '@/lib/payments/server';
+
+const serviceClient = createClient<Database>(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+const store = createSupabaseBillingStore(serviceClient);
+
+Deno.serve((req) => serveBillingRequest(
+  req,
+  { client: serviceClient, secretKey: Deno.env.get('STRIPE_SECRET_KEY') },
+  (request, stripe) => handleCreateClientSubscription(request, stripe, { store })
+));
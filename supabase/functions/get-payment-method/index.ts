@@ -0,0 +1,21 @@
+// supabase/functions/get-payment-method/index.ts - Reads the card the trainer's subscription is charged to; the work lives in src/lib/payments/server
+//
+// Called with the trainer's session, so the default JWT check stays on:
+//   supabase functions deploy get-payment-method
+//   supabase secrets set STRIPE_SECRET_KEY=sk_...
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { createSupabaseBillingStore, handleGetPaymentMethod, serveBillingRequest } from '@/lib/payments/server';
+
+const serviceClient = createClient<Database>(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+const store = createSupabaseBillingStore(serviceClient);
+
+Deno.serve((req) => serveBillingRequest(
+  req,
+  { client: serviceClient, secretKey: Deno.env.get('STRIPE_SECRET_KEY') },
+  (request, stripe) => handleGetPaymentMethod(request, stripe, { store })
+));
@@ -0,0 +1,48 @@
+// supabase/functions/send-email/index.ts - Emails announcing what a signed-in user just did; who may send what lives in src/lib/notifications/delivery
+//
+// Called with the user's session, so the default JWT check stays on:
+//   supabase functions deploy send-email
+//   supabase secrets set APP_URL=https://... RESEND_API_KEY=re_... EMAIL_FROM="Pumpee <hello@...>"
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import {
+  createNotifier,
+  createSupabaseNotificationStore,
+  handleNotificationRequest,
+  resolveMailer
+} from '@/lib/notifications/delivery';
+
+const serviceClient = createClient<Database>(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+const store = createSupabaseNotificationStore(serviceClient);
+const notifier = createNotifier({ store, mailer: resolveMailer(Deno.env), appUrl: Deno.env.get('APP_URL') ?? '' });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+  const { data: { user } } = await serviceClient.auth.getUser(token);
+  if (!user) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: 'Payload is not valid JSON' }, { status: 400 });
+  }
+
+  try {
+    const { status, body: responseBody } = await handleNotificationRequest({ body, userId: user.id }, { store, notifier });
+    return Response.json(responseBody, { status });
+  } catch (error) {
+    console.error('Error handling notification event:', error);
+    return Response.json({ error: 'Failed to send notifications' }, { status: 500 });
+  }
+});
@@ -0,0 +1,39 @@
+// supabase/functions/send-reminders/index.ts - Daily reminder emails; what is sent lives in src/lib/notifications/delivery/reminders.ts
+//
+// pg_cron calls it with a shared secret instead of a user's JWT (see the send_reminders migration), so deploy with:
+//   supabase functions deploy send-reminders --no-verify-jwt
+//   supabase secrets set REMINDERS_CRON_SECRET=... APP_URL=https://...
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { createNotifier, createSupabaseNotificationStore, resolveMailer, sendReminders } from '@/lib/notifications/delivery';
+
+const serviceClient = createClient<Database>(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+const store = createSupabaseNotificationStore(serviceClient);
+const notifier = createNotifier({ store, mailer: resolveMailer(Deno.env), appUrl: Deno.env.get('APP_URL') ?? '' });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const secret = Deno.env.get('REMINDERS_CRON_SECRET');
+  if (!secret) {
+    console.error('REMINDERS_CRON_SECRET is not set');
+    return Response.json({ error: 'Reminders are not configured' }, { status: 500 });
+  }
+  if (req.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const sent = await sendReminders(store, notifier, new Date().toISOString().slice(0, 10));
+    return Response.json({ sent });
+  } catch (error) {
+    console.error('Error sending reminders:', error);
+    return Response.json({ error: error instanceof Error ? error.message : 'Failed to send reminders' }, { status: 500 });
+  }
+});
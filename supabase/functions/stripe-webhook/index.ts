@@ -0,0 +1,40 @@
+// supabase/functions/stripe-webhook/index.ts - Stripe's webhook endpoint; verification and reconciliation live in src/lib/payments/webhooks
+//
+// Stripe signs its requests instead of sending a Supabase JWT, so deploy with:
+//   supabase functions deploy stripe-webhook --no-verify-jwt
+//   supabase secrets set STRIPE_WEBHOOK_SECRET=whsec_...
+// Failed payments and newly subscribed clients are emailed with the mailer secrets, see resolveMailer.
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { createSupabaseWebhookStore, handleStripeWebhook } from '@/lib/payments/webhooks';
+import { createNotifier, createSupabaseNotificationStore, resolveMailer } from '@/lib/notifications/delivery';
+
+const serviceClient = createClient<Database>(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+const store = createSupabaseWebhookStore(serviceClient);
+const notifier = createNotifier({
+  store: createSupabaseNotificationStore(serviceClient),
+  mailer: resolveMailer(Deno.env),
+  appUrl: Deno.env.get('APP_URL') ?? ''
+});
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const secret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    return Response.json({ received: false, error: 'Webhook is not configured' }, { status: 500 });
+  }
+
+  const { status, body } = await handleStripeWebhook(
+    { payload: await req.text(), signature: req.headers.get('Stripe-Signature') },
+    { secret, store, notifier }
+  );
+  return Response.json(body, { status });
+});
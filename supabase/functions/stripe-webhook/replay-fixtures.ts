@@ -0,0 +1,69 @@
+// supabase/functions/stripe-webhook/replay-fixtures.ts - Replays the recorded Stripe events and checks the billing they leave
+//
+// Not deployed with the function; run from the repository root with:
+//   npm run replay:stripe-fixtures
+// The events are delivered late and twice, as Stripe may, for a trainer's subscription and for a client's.
+import { StripeEvent, createMemoryWebhookStore, replayStripeEvents, toClientRelationEvent } from '@/lib/payments/webhooks';
+import invoicePaid from '@/lib/payments/webhooks/fixtures/invoice.paid.json' with { type: 'json' };
+import invoicePaymentFailed from '@/lib/payments/webhooks/fixtures/invoice.payment_failed.json' with { type: 'json' };
+import subscriptionUpdated from '@/lib/payments/webhooks/fixtures/customer.subscription.updated.json' with { type: 'json' };
+import subscriptionDeleted from '@/lib/payments/webhooks/fixtures/customer.subscription.deleted.json' with { type: 'json' };
+
+// From the fixtures' metadata and subscription
+const TRAINER_ID = '8b2f4c1e-3d7a-4e6b-9f10-2a5c7d8e9b01';
+const SUBSCRIPTION_ID = 'sub_1S7mVcKq2fXw9RtZbE4nH8sd';
+const RELATION_ID = 'replayed-client-trainer';
+
+// The failed payment arrives after the newer update it caused, and the paid invoice is redelivered
+const deliveries = [
+  invoicePaid,
+  subscriptionUpdated,
+  invoicePaymentFailed,
+  invoicePaid,
+  subscriptionDeleted
+] as unknown as StripeEvent[];
+const expectedOutcomes = ['processed', 'processed', 'ignored', 'duplicate', 'processed'];
+
+const failures: string[] = [];
+
+function expectEqual(label: string, actual: unknown, expected: unknown) {
+  if (actual !== expected) failures.push(`${label}: expected ${expected}, got ${actual}`);
+}
+
+async function replay(label: string, events: StripeEvent[], store: ReturnType<typeof createMemoryWebhookStore>) {
+  const replayed = await replayStripeEvents(events, store);
+  replayed.forEach(({ eventId, type, response }, index) => {
+    console.log(`${label} ${type} ${eventId}: ${response.status} ${response.body.outcome ?? response.body.error}`);
+    expectEqual(`${label} ${type} (delivery ${index + 1})`, response.body.outcome, expectedOutcomes[index]);
+  });
+}
+
+const trainerStore = createMemoryWebhookStore({
+  trainers: [{
+    trainer_id: TRAINER_ID,
+    subscription_tier_id: null,
+    stripe_customer_id: null,
+    stripe_subscription_id: null,
+    subscription_status: null,
+    billing_cycle: null,
+    current_period_start: null,
+    current_period_end: null,
+    cancel_at_period_end: false,
+    billing_synced_at: null
+  }]
+});
+await replay('trainer', deliveries, trainerStore);
+expectEqual('trainer status', trainerStore.trainers[0].subscription_status, 'canceled');
+expectEqual('trainer tier', trainerStore.trainers[0].subscription_tier_id, null);
+
+const clientStore = createMemoryWebhookStore({
+  clientRelations: [{ id: RELATION_ID, stripe_subscription_id: SUBSCRIPTION_ID, status: 'pending', billing_synced_at: null }]
+});
+await replay('client', deliveries.map(event => toClientRelationEvent(event, RELATION_ID)), clientStore);
+expectEqual('client relation status', clientStore.clientRelations[0].status, 'inactive');
+
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(failure));
+  Deno.exit(1);
+}
+console.log('All recorded events replayed as expected');
@@ -0,0 +1,22 @@
+// supabase/functions/update-subscription/index.ts - Switches a trainer's paid plan or billing cycle; the work lives in src/lib/payments/server
+//
+// Called with the trainer's session, so the default JWT check stays on:
+//   supabase functions deploy update-subscription
+//   supabase secrets set STRIPE_SECRET_KEY=sk_...
+// The stripe-webhook function records the new plan once the prorated invoice is paid.
+import { createClient } from '@supabase/supabase-js';
+import { Database } from '@/lib/database.types';
+import { createSupabaseBillingStore, handleUpdateSubscription, serveBillingRequest } from '@/lib/payments/server';
+
+const serviceClient = createClient<Database>(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
+const store = createSupabaseBillingStore(serviceClient);
+
+Deno.serve((req) => serveBillingRequest(
+  req,
+  { client: serviceClient, secretKey: Deno.env.get('STRIPE_SECRET_KEY') },
+  (request, stripe) => handleUpdateSubscription(request, stripe, { store })
+));
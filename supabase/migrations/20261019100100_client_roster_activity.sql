@@ -0,0 +1,49 @@
+-- Each client's newest measurement and completed workout for the trainer roster, in one call however many clients there are.
+-- Runs as the caller, so the row-level security on client_progress and client_workouts still decides what comes back.
+
+alter table public.client_workouts
+  add column if not exists completion_date timestamptz;
+
+create index if not exists client_progress_client_id_date_idx
+  on public.client_progress (client_id, date desc);
+
+create index if not exists client_workouts_completed_idx
+  on public.client_workouts (client_id, completion_date desc)
+  where status = 'completed' and completion_date is not null;
+
+create or replace function public.get_client_roster_activity(p_client_ids uuid[])
+returns table (client_id uuid, last_measurement jsonb, last_completed_workout jsonb)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    ids.client_id,
+    latest_progress.measurement,
+    latest_workout.workout
+  from unnest(p_client_ids) as ids(client_id)
+  left join (
+    select distinct on (progress.client_id) progress.client_id, to_jsonb(progress) as measurement
+    from client_progress progress
+    where progress.client_id = any(p_client_ids)
+    order by progress.client_id, progress.date desc
+  ) latest_progress on latest_progress.client_id = ids.client_id
+  left join (
+    select distinct on (client_workout.client_id)
+      client_workout.client_id,
+      jsonb_build_object(
+        'id', client_workout.id,
+        'workout_name', coalesce(workout.workout_name, 'Workout'),
+        'completion_date', client_workout.completion_date
+      ) as workout
+    from client_workouts client_workout
+    left join workouts workout on workout.id = client_workout.workout_id
+    where client_workout.client_id = any(p_client_ids)
+      and client_workout.status = 'completed'
+      and client_workout.completion_date is not null
+    order by client_workout.client_id, client_workout.completion_date desc
+  ) latest_workout on latest_workout.client_id = ids.client_id
+$$;
+
+revoke execute on function public.get_client_roster_activity(uuid[]) from public, anon;
+grant execute on function public.get_client_roster_activity(uuid[]) to authenticated;
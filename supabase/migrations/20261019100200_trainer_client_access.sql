@@ -0,0 +1,66 @@
+-- Trainers see a client's data only while the relation is live: active, or suspended after a failed payment.
+-- Pending requests, declined and ended relations keep the client's history private.
+
+alter table public.client_trainers
+  add column if not exists notes text;
+
+-- Mirrors LINKED_CLIENT_STATUSES in src/lib/constants.ts; change both together
+create or replace function public.trainer_can_view_client(p_client_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from client_trainers relation
+    join trainers trainer on trainer.id = relation.trainer_id
+    where relation.client_id = p_client_id
+      and relation.status in ('active', 'suspended')
+      and trainer.user_id = auth.uid()
+  )
+$$;
+
+create or replace function public.is_own_client(p_client_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from clients where id = p_client_id and user_id = auth.uid())
+$$;
+
+revoke execute on function public.trainer_can_view_client(uuid) from public, anon;
+grant execute on function public.trainer_can_view_client(uuid) to authenticated;
+revoke execute on function public.is_own_client(uuid) from public, anon;
+grant execute on function public.is_own_client(uuid) to authenticated;
+
+-- ============================================================================
+-- CLIENT DATA - restrictive policies narrow whatever the existing policies allow
+-- ============================================================================
+
+drop policy if exists "Only the client and their current trainers read progress" on public.client_progress;
+create policy "Only the client and their current trainers read progress"
+  on public.client_progress
+  as restrictive
+  for select
+  to authenticated
+  using (public.is_own_client(client_id) or public.trainer_can_view_client(client_id));
+
+drop policy if exists "Only the client and their current trainers read workouts" on public.client_workouts;
+create policy "Only the client and their current trainers read workouts"
+  on public.client_workouts
+  as restrictive
+  for select
+  to authenticated
+  using (public.is_own_client(client_id) or public.trainer_can_view_client(client_id));
+
+drop policy if exists "Only the client and their current trainers read menu plans" on public.client_menu_plans;
+create policy "Only the client and their current trainers read menu plans"
+  on public.client_menu_plans
+  as restrictive
+  for select
+  to authenticated
+  using (public.is_own_client(client_id) or public.trainer_can_view_client(client_id));
@@ -0,0 +1,104 @@
+-- Logged workout sessions and their sets. Clients write them only through complete_workout(),
+-- which closes the assignment and saves the log in one transaction.
+
+create table if not exists public.workout_logs (
+  id uuid primary key default gen_random_uuid(),
+  client_workout_id uuid not null unique references public.client_workouts (id) on delete cascade,
+  client_id uuid not null references public.clients (id) on delete cascade,
+  started_at timestamptz not null,
+  completed_at timestamptz,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists workout_logs_client_id_idx on public.workout_logs (client_id, completed_at desc);
+
+create table if not exists public.workout_log_sets (
+  id uuid primary key default gen_random_uuid(),
+  workout_log_id uuid not null references public.workout_logs (id) on delete cascade,
+  exercise_id uuid not null references public.exercises (id) on delete cascade,
+  set_number integer not null check (set_number > 0),
+  reps integer check (reps >= 0),
+  load_kg numeric(6, 2) check (load_kg >= 0),
+  rpe numeric(3, 1) check (rpe between 1 and 10),
+  created_at timestamptz not null default now(),
+  unique (workout_log_id, exercise_id, set_number)
+);
+
+alter table public.workout_logs enable row level security;
+alter table public.workout_log_sets enable row level security;
+
+drop policy if exists "Clients and their current trainers read workout logs" on public.workout_logs;
+create policy "Clients and their current trainers read workout logs"
+  on public.workout_logs
+  for select
+  to authenticated
+  using (public.is_own_client(client_id) or public.trainer_can_view_client(client_id));
+
+drop policy if exists "Clients and their current trainers read logged sets" on public.workout_log_sets;
+create policy "Clients and their current trainers read logged sets"
+  on public.workout_log_sets
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from workout_logs log
+      where log.id = workout_log_sets.workout_log_id
+        and (public.is_own_client(log.client_id) or public.trainer_can_view_client(log.client_id))
+    )
+  );
+
+-- ============================================================================
+-- COMPLETION
+-- ============================================================================
+
+-- Claims the assignment and saves the log with its sets, or does nothing at all. A double submit
+-- or a retry finds the assignment completed and gets hint 'already_completed' instead of a second log.
+create or replace function public.complete_workout(
+  p_client_workout_id uuid,
+  p_started_at timestamptz,
+  p_notes text,
+  p_sets jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_client_id uuid;
+  v_completed_at timestamptz := now();
+  v_log_id uuid;
+begin
+  select client.id into v_client_id from clients client where client.user_id = auth.uid();
+  if v_client_id is null then
+    raise exception 'Only client accounts can complete workouts' using errcode = '42501';
+  end if;
+
+  update client_workouts
+  set status = 'completed', completion_date = v_completed_at, updated_at = v_completed_at
+  where id = p_client_workout_id and client_id = v_client_id and status <> 'completed';
+
+  if not found then
+    if exists (select 1 from client_workouts where id = p_client_workout_id and client_id = v_client_id) then
+      raise exception 'This workout is already completed' using errcode = 'P0001', hint = 'already_completed';
+    end if;
+    raise exception 'Workout not found' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  insert into workout_logs (client_workout_id, client_id, started_at, completed_at, notes)
+  values (p_client_workout_id, v_client_id, p_started_at, v_completed_at, nullif(trim(p_notes), ''))
+  returning id into v_log_id;
+
+  insert into workout_log_sets (workout_log_id, exercise_id, set_number, reps, load_kg, rpe)
+  select v_log_id, logged.exercise_id, logged.set_number, logged.reps, logged.load_kg, logged.rpe
+  from jsonb_to_recordset(coalesce(p_sets, '[]'::jsonb))
+    as logged (exercise_id uuid, set_number integer, reps integer, load_kg numeric, rpe numeric);
+
+  return v_log_id;
+end
+$$;
+
+revoke execute on function public.complete_workout(uuid, timestamptz, text, jsonb) from public, anon;
+grant execute on function public.complete_workout(uuid, timestamptz, text, jsonb) to authenticated;
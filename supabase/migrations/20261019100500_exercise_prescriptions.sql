@@ -0,0 +1,99 @@
+-- Structured exercise prescriptions, and a one-time backfill of exercises saved with free-text series only.
+-- The original series text is left untouched.
+
+alter table public.exercises
+  add column if not exists prescription jsonb;
+
+-- SQL port of parseSeries in src/lib/prescription.ts, kept only for the length of this migration
+create or replace function public.parse_exercise_series(p_series text)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_text text := trim(coalesce(p_series, ''));
+  v_match text[];
+  v_sets integer := 3;
+  v_rep_min integer;
+  v_rep_max integer;
+  v_tempo text;
+  v_rest_seconds integer;
+  v_load_type text := 'none';
+  v_load_value numeric;
+  v_variations jsonb := '[]'::jsonb;
+begin
+  if v_text <> '' then
+    v_match := regexp_match(v_text, '(\d+)\s*(?:sets?|series|rounds?|x|×)', 'i');
+    if v_match is not null then
+      v_sets := least(greatest(v_match[1]::integer, 1), 10);
+    end if;
+
+    v_match := coalesce(
+      regexp_match(v_text, '(?:x|×)\s*(\d+)(?:\s*[-–]\s*(\d+))?\y(?!\s*(?:s\y|sec|min|%|kg))', 'i'),
+      regexp_match(v_text, '(\d+)(?:\s*[-–]\s*(\d+))?\s*reps?', 'i')
+    );
+    if v_match is not null then
+      v_rep_min := v_match[1]::integer;
+      v_rep_max := coalesce(v_match[2], v_match[1])::integer;
+    end if;
+
+    v_match := regexp_match(v_text, '(\d+(?:[.,]\d+)?)\s*%');
+    if v_match is not null then
+      v_load_type := 'percent_1rm';
+      v_load_value := replace(v_match[1], ',', '.')::numeric;
+    else
+      v_match := regexp_match(v_text, 'rpe\s*(\d+(?:[.,]\d+)?)', 'i');
+      if v_match is not null then
+        v_load_type := 'rpe';
+        v_load_value := replace(v_match[1], ',', '.')::numeric;
+      else
+        v_match := regexp_match(v_text, '(\d+(?:[.,]\d+)?)\s*kg', 'i');
+        if v_match is not null then
+          v_load_type := 'fixed_kg';
+          v_load_value := replace(v_match[1], ',', '.')::numeric;
+        end if;
+      end if;
+    end if;
+
+    v_match := coalesce(
+      regexp_match(v_text, 'tempo\s*([\dx](?:-[\dx]){2,3})', 'i'),
+      regexp_match(v_text, '\y(\d-\d-\d(?:-\d)?)\y')
+    );
+    if v_match is not null then
+      v_tempo := upper(v_match[1]);
+    end if;
+
+    v_match := coalesce(
+      regexp_match(v_text, 'rest\s*(\d+)\s*(s|sec|seconds?|m|min|minutes?)?', 'i'),
+      regexp_match(v_text, '(\d+)\s*(s|sec|seconds?|m|min|minutes?)\s*rest', 'i')
+    );
+    if v_match is not null then
+      v_rest_seconds := v_match[1]::integer * (case when lower(coalesce(v_match[2], '')) like 'm%' then 60 else 1 end);
+    end if;
+
+    -- Variations in free text only ever describe the final set
+    if v_text ~* 'amrap|max(?:imum)?\s*reps|to failure' then
+      v_variations := jsonb_build_array(jsonb_build_object('set_number', v_sets, 'type', 'amrap'));
+    elsif v_text ~* 'drop\s*-?\s*sets?' then
+      v_variations := jsonb_build_array(jsonb_build_object('set_number', v_sets, 'type', 'drop_set'));
+    end if;
+  end if;
+
+  return jsonb_build_object(
+    'sets', v_sets,
+    'rep_min', v_rep_min,
+    'rep_max', v_rep_max,
+    'tempo', v_tempo,
+    'rest_seconds', v_rest_seconds,
+    'load_type', v_load_type,
+    'load_value', v_load_value,
+    'set_variations', v_variations
+  );
+end
+$$;
+
+update public.exercises
+set prescription = public.parse_exercise_series(series)
+where prescription is null;
+
+drop function public.parse_exercise_series(text);
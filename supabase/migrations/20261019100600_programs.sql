@@ -0,0 +1,172 @@
+-- Multi-week training programs: a weekly template of workouts with phases and a progression rule.
+-- Assigning one records the client_programs link and every dated client_workouts row in one transaction.
+
+create or replace function public.is_own_trainer(p_trainer_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from trainers where id = p_trainer_id and user_id = auth.uid())
+$$;
+
+revoke execute on function public.is_own_trainer(uuid) from public, anon;
+grant execute on function public.is_own_trainer(uuid) to authenticated;
+
+create table if not exists public.programs (
+  id uuid primary key default gen_random_uuid(),
+  trainer_id uuid not null references public.trainers (id) on delete cascade,
+  program_name text not null check (length(trim(program_name)) > 0),
+  description text,
+  phases jsonb not null default '[]'::jsonb,
+  progression jsonb not null default '{"target": "none", "amount": 0, "per": "week"}'::jsonb,
+  duration_weeks integer not null check (duration_weeks between 1 and 52),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists programs_trainer_id_idx on public.programs (trainer_id);
+
+create table if not exists public.program_workouts (
+  id uuid primary key default gen_random_uuid(),
+  program_id uuid not null references public.programs (id) on delete cascade,
+  workout_id uuid not null references public.workouts (id) on delete cascade,
+  day_of_week integer not null check (day_of_week between 1 and 7),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists program_workouts_program_id_idx on public.program_workouts (program_id);
+
+create table if not exists public.client_programs (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients (id) on delete cascade,
+  program_id uuid not null references public.programs (id) on delete cascade,
+  start_date date not null,
+  end_date date,
+  status text not null default 'active' check (status in ('active', 'completed', 'cancelled')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists client_programs_client_id_idx on public.client_programs (client_id);
+
+alter table public.client_workouts
+  add column if not exists program_id uuid references public.programs (id) on delete set null,
+  add column if not exists program_week integer check (program_week > 0),
+  add column if not exists progression jsonb;
+
+alter table public.programs enable row level security;
+alter table public.program_workouts enable row level security;
+alter table public.client_programs enable row level security;
+
+drop policy if exists "Trainers manage their programs" on public.programs;
+create policy "Trainers manage their programs"
+  on public.programs
+  for all
+  to authenticated
+  using (public.is_own_trainer(trainer_id))
+  with check (public.is_own_trainer(trainer_id));
+
+drop policy if exists "Trainers manage their program schedules" on public.program_workouts;
+create policy "Trainers manage their program schedules"
+  on public.program_workouts
+  for all
+  to authenticated
+  using (exists (select 1 from programs where programs.id = program_workouts.program_id and public.is_own_trainer(programs.trainer_id)))
+  with check (
+    exists (select 1 from programs where programs.id = program_workouts.program_id and public.is_own_trainer(programs.trainer_id))
+    and exists (select 1 from workouts where workouts.id = program_workouts.workout_id and public.is_own_trainer(workouts.trainer_id))
+  );
+
+-- Written only by assign_program()
+drop policy if exists "Clients and their trainers read program assignments" on public.client_programs;
+create policy "Clients and their trainers read program assignments"
+  on public.client_programs
+  for select
+  to authenticated
+  using (
+    public.is_own_client(client_id)
+    or exists (select 1 from programs where programs.id = client_programs.program_id and public.is_own_trainer(programs.trainer_id))
+  );
+
+-- ============================================================================
+-- ASSIGNMENT
+-- ============================================================================
+
+-- p_schedule is buildProgramSchedule() from src/lib/programs.ts: one entry per dated session, each
+-- {workout_id, assigned_date, program_week, progression}. Only actively linked clients are assigned.
+create or replace function public.assign_program(
+  p_program_id uuid,
+  p_client_ids uuid[],
+  p_start_date date,
+  p_trainer_notes text,
+  p_schedule jsonb
+)
+returns setof uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_program programs%rowtype;
+  v_client_ids uuid[];
+begin
+  select program.* into v_program
+  from programs program
+  where program.id = p_program_id and public.is_own_trainer(program.trainer_id);
+
+  if not found then
+    raise exception 'Program not found' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  select array_agg(distinct relation.client_id) into v_client_ids
+  from client_trainers relation
+  where relation.trainer_id = v_program.trainer_id
+    and relation.status = 'active'
+    and relation.client_id = any(p_client_ids);
+
+  if v_client_ids is null then
+    raise exception 'None of the selected clients are active with you' using errcode = 'P0001', hint = 'client_not_linked';
+  end if;
+
+  if jsonb_array_length(coalesce(p_schedule, '[]'::jsonb)) = 0 then
+    raise exception 'Program has no workouts scheduled' using errcode = 'P0001', hint = 'empty_schedule';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_schedule) as session (workout_id uuid)
+    where not exists (
+      select 1 from program_workouts slot where slot.program_id = p_program_id and slot.workout_id = session.workout_id
+    )
+  ) then
+    raise exception 'The schedule includes a workout that is not in this program' using errcode = '22023';
+  end if;
+
+  insert into client_programs (client_id, program_id, start_date, end_date, status)
+  select client_id, p_program_id, p_start_date, p_start_date + v_program.duration_weeks * 7 - 1, 'active'
+  from unnest(v_client_ids) as client_id;
+
+  return query
+  with inserted as (
+    insert into client_workouts (client_id, workout_id, assigned_date, program_id, program_week, progression, trainer_notes, status)
+    select
+      client_id,
+      session.workout_id,
+      session.assigned_date,
+      p_program_id,
+      session.program_week,
+      session.progression,
+      nullif(trim(p_trainer_notes), ''),
+      'assigned'
+    from unnest(v_client_ids) as client_id
+    cross join jsonb_to_recordset(p_schedule)
+      as session (workout_id uuid, assigned_date date, program_week integer, progression jsonb)
+    returning id
+  )
+  select id from inserted;
+end
+$$;
+
+revoke execute on function public.assign_program(uuid, uuid[], date, text, jsonb) from public, anon;
+grant execute on function public.assign_program(uuid, uuid[], date, text, jsonb) to authenticated;
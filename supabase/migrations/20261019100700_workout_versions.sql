@@ -0,0 +1,308 @@
+-- In-place editing of workouts, exercises and menu plans. Each edit is one function call, so it either
+-- lands whole or not at all, and a workout's version only ever moves forward by one per edit.
+
+alter table public.workouts
+  add column if not exists version integer not null default 1;
+
+create table if not exists public.workout_versions (
+  id uuid primary key default gen_random_uuid(),
+  workout_id uuid not null references public.workouts (id) on delete cascade,
+  version integer not null,
+  snapshot jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (workout_id, version)
+);
+
+alter table public.client_workouts
+  add column if not exists workout_version_id uuid references public.workout_versions (id) on delete set null;
+
+alter table public.workout_versions enable row level security;
+
+-- Written only by the edit functions below
+drop policy if exists "Trainers and their clients read workout versions" on public.workout_versions;
+create policy "Trainers and their clients read workout versions"
+  on public.workout_versions
+  for select
+  to authenticated
+  using (
+    exists (select 1 from workouts where workouts.id = workout_versions.workout_id and public.is_own_trainer(workouts.trainer_id))
+    or exists (
+      select 1
+      from client_workouts session
+      where session.workout_version_id = workout_versions.id and public.is_own_client(session.client_id)
+    )
+  );
+
+-- ============================================================================
+-- VERSIONING
+-- ============================================================================
+
+-- The WorkoutSnapshot shape in src/lib/api/types.ts, read back by toClientWorkout
+create or replace function public.workout_snapshot(p_workout_id uuid)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'workout_name', workout.workout_name,
+    'workout_day', workout.workout_day,
+    'description', workout.description,
+    'workout_exercises', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', item.id,
+          'workout_id', item.workout_id,
+          'exercise_id', item.exercise_id,
+          'exercise_order', item.exercise_order,
+          'notes', item.notes,
+          'exercise', to_jsonb(exercise)
+        )
+        order by item.exercise_order
+      )
+      from workout_exercises item
+      left join exercises exercise on exercise.id = item.exercise_id
+      where item.workout_id = workout.id
+    ), '[]'::jsonb)
+  )
+  from workouts workout
+  where workout.id = p_workout_id
+$$;
+
+-- Run before editing a workout (or an exercise it contains), with the workouts locked. Sessions that were
+-- already started or completed get pinned to a snapshot of the current version, so their logs keep pointing
+-- at what was actually prescribed. Sessions still waiting to be started pick up the edit.
+create or replace function public.pin_workout_versions(p_workout_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workout record;
+  v_version_id uuid;
+begin
+  for v_workout in
+    select workout.id, workout.version
+    from workouts workout
+    where workout.id = any(p_workout_ids)
+      and exists (
+        select 1
+        from client_workouts session
+        where session.workout_id = workout.id
+          and session.status in ('in_progress', 'completed')
+          and session.workout_version_id is null
+      )
+  loop
+    insert into workout_versions (workout_id, version, snapshot)
+    values (v_workout.id, v_workout.version, public.workout_snapshot(v_workout.id))
+    on conflict (workout_id, version) do update set snapshot = workout_versions.snapshot
+    returning id into v_version_id;
+
+    update client_workouts
+    set workout_version_id = v_version_id
+    where workout_id = v_workout.id
+      and status in ('in_progress', 'completed')
+      and workout_version_id is null;
+  end loop;
+end
+$$;
+
+-- Internal to the edit functions
+revoke execute on function public.pin_workout_versions(uuid[]) from public, anon, authenticated;
+
+-- ============================================================================
+-- EDITS
+-- ============================================================================
+
+-- p_exercises is toWorkoutExerciseItems() from src/lib/api/helpers.ts: {exercise_id, exercise_order, notes} per exercise.
+-- The exercise list is replaced wholesale; logged sets reference exercise ids, not workout_exercises rows.
+create or replace function public.update_workout(
+  p_workout_id uuid,
+  p_workout_name text,
+  p_workout_day text,
+  p_description text,
+  p_exercises jsonb
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trainer_id uuid;
+begin
+  select trainer_id into v_trainer_id
+  from workouts
+  where id = p_workout_id and public.is_own_trainer(trainer_id)
+  for update;
+
+  if not found then
+    raise exception 'Workout not found' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_exercises, '[]'::jsonb)) as item (exercise_id uuid)
+    where not exists (select 1 from exercises where id = item.exercise_id and trainer_id = v_trainer_id)
+  ) then
+    raise exception 'The workout includes an exercise that is not yours' using errcode = '22023';
+  end if;
+
+  perform public.pin_workout_versions(array[p_workout_id]);
+
+  update workouts
+  set workout_name = p_workout_name,
+    workout_day = p_workout_day,
+    description = p_description,
+    version = version + 1,
+    updated_at = now()
+  where id = p_workout_id;
+
+  delete from workout_exercises where workout_id = p_workout_id;
+
+  insert into workout_exercises (workout_id, exercise_id, exercise_order, notes)
+  select p_workout_id, item.exercise_id, item.exercise_order, item.notes
+  from jsonb_to_recordset(coalesce(p_exercises, '[]'::jsonb))
+    as item (exercise_id uuid, exercise_order integer, notes text);
+end
+$$;
+
+-- p_workout_exercise_ids in their new order
+create or replace function public.reorder_workout_exercises(p_workout_id uuid, p_workout_exercise_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from workouts where id = p_workout_id and public.is_own_trainer(trainer_id) for update;
+
+  if not found then
+    raise exception 'Workout not found' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  perform public.pin_workout_versions(array[p_workout_id]);
+
+  update workout_exercises item
+  set exercise_order = ordered.position
+  from unnest(p_workout_exercise_ids) with ordinality as ordered (id, position)
+  where item.id = ordered.id and item.workout_id = p_workout_id;
+
+  update workouts set version = version + 1, updated_at = now() where id = p_workout_id;
+end
+$$;
+
+-- Workouts that contain the exercise get a new version, since their prescription changes too
+create or replace function public.update_exercise(
+  p_exercise_id uuid,
+  p_exercise_name text,
+  p_series text,
+  p_series_description text,
+  p_prescription jsonb
+)
+returns public.exercises
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_workout_ids uuid[];
+  v_exercise exercises%rowtype;
+begin
+  perform 1 from exercises where id = p_exercise_id and public.is_own_trainer(trainer_id) for update;
+
+  if not found then
+    raise exception 'Exercise not found' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  select coalesce(array_agg(distinct workout_id), '{}') into v_workout_ids
+  from workout_exercises
+  where exercise_id = p_exercise_id;
+
+  perform 1 from workouts where id = any(v_workout_ids) order by id for update;
+  perform public.pin_workout_versions(v_workout_ids);
+
+  update exercises
+  set exercise_name = p_exercise_name,
+    series = p_series,
+    series_description = p_series_description,
+    prescription = p_prescription,
+    updated_at = now()
+  where id = p_exercise_id
+  returning * into v_exercise;
+
+  update workouts set version = version + 1, updated_at = now() where id = any(v_workout_ids);
+
+  return v_exercise;
+end
+$$;
+
+-- p_menu_ids in plan order; the plan's meals are replaced wholesale
+create or replace function public.update_menu_plan(p_menu_plan_id uuid, p_plan_name text, p_menu_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trainer_id uuid;
+begin
+  select trainer_id into v_trainer_id
+  from menu_plans
+  where id = p_menu_plan_id and public.is_own_trainer(trainer_id)
+  for update;
+
+  if not found then
+    raise exception 'Menu plan not found' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  if exists (
+    select 1
+    from unnest(p_menu_ids) as menu_id
+    where not exists (select 1 from menus where id = menu_id and trainer_id = v_trainer_id)
+  ) then
+    raise exception 'The plan includes a meal that is not yours' using errcode = '22023';
+  end if;
+
+  update menu_plans set plan_name = p_plan_name, updated_at = now() where id = p_menu_plan_id;
+
+  delete from menu_plan_items where menu_plan_id = p_menu_plan_id;
+
+  insert into menu_plan_items (menu_plan_id, menu_id, meal_order)
+  select p_menu_plan_id, ordered.menu_id, ordered.position
+  from unnest(p_menu_ids) with ordinality as ordered (menu_id, position);
+end
+$$;
+
+-- p_menu_plan_item_ids in their new order
+create or replace function public.reorder_menu_plan_meals(p_menu_plan_id uuid, p_menu_plan_item_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform 1 from menu_plans where id = p_menu_plan_id and public.is_own_trainer(trainer_id) for update;
+
+  if not found then
+    raise exception 'Menu plan not found' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  update menu_plan_items item
+  set meal_order = ordered.position
+  from unnest(p_menu_plan_item_ids) with ordinality as ordered (id, position)
+  where item.id = ordered.id and item.menu_plan_id = p_menu_plan_id;
+end
+$$;
+
+revoke execute on function public.update_workout(uuid, text, text, text, jsonb) from public, anon;
+grant execute on function public.update_workout(uuid, text, text, text, jsonb) to authenticated;
+revoke execute on function public.reorder_workout_exercises(uuid, uuid[]) from public, anon;
+grant execute on function public.reorder_workout_exercises(uuid, uuid[]) to authenticated;
+revoke execute on function public.update_exercise(uuid, text, text, text, jsonb) from public, anon;
+grant execute on function public.update_exercise(uuid, text, text, text, jsonb) to authenticated;
+revoke execute on function public.update_menu_plan(uuid, text, uuid[]) from public, anon;
+grant execute on function public.update_menu_plan(uuid, text, uuid[]) to authenticated;
+revoke execute on function public.reorder_menu_plan_meals(uuid, uuid[]) from public, anon;
+grant execute on function public.reorder_menu_plan_meals(uuid, uuid[]) to authenticated;
@@ -0,0 +1,76 @@
+-- A menu plan's stored macro totals are the sum of its meals. Triggers keep them in step with every change
+-- to menu_plan_items or to a meal's macros, however the change is made.
+
+create or replace function public.refresh_menu_plan_totals(p_menu_plan_ids uuid[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update menu_plans plan
+  set total_calories = totals.calories,
+    total_protein = totals.protein,
+    total_carbohydrates = totals.carbohydrates,
+    total_fat = totals.fat,
+    updated_at = now()
+  from (
+    select
+      ids.menu_plan_id,
+      coalesce(sum(menu.calories), 0) as calories,
+      coalesce(sum(menu.protein), 0) as protein,
+      coalesce(sum(menu.carbohydrates), 0) as carbohydrates,
+      coalesce(sum(menu.fat), 0) as fat
+    from unnest(p_menu_plan_ids) as ids (menu_plan_id)
+    left join menu_plan_items item on item.menu_plan_id = ids.menu_plan_id
+    left join menus menu on menu.id = item.menu_id
+    group by ids.menu_plan_id
+  ) totals
+  where plan.id = totals.menu_plan_id
+    and (plan.total_calories, plan.total_protein, plan.total_carbohydrates, plan.total_fat)
+      is distinct from (totals.calories, totals.protein, totals.carbohydrates, totals.fat)
+$$;
+
+revoke execute on function public.refresh_menu_plan_totals(uuid[]) from public, anon, authenticated;
+
+create or replace function public.refresh_totals_for_plan_items()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_menu_plan_totals(array(
+    select new.menu_plan_id where tg_op <> 'DELETE'
+    union
+    select old.menu_plan_id where tg_op <> 'INSERT'
+  ));
+  return null;
+end
+$$;
+
+create or replace function public.refresh_totals_for_meal()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_menu_plan_totals(array(
+    select distinct menu_plan_id from menu_plan_items where menu_id = new.id
+  ));
+  return null;
+end
+$$;
+
+drop trigger if exists refresh_menu_plan_totals on public.menu_plan_items;
+create trigger refresh_menu_plan_totals
+  after insert or update or delete on public.menu_plan_items
+  for each row execute function public.refresh_totals_for_plan_items();
+
+drop trigger if exists refresh_menu_plan_totals on public.menus;
+create trigger refresh_menu_plan_totals
+  after update of calories, protein, carbohydrates, fat on public.menus
+  for each row execute function public.refresh_totals_for_meal();
+
+-- Plans saved before the triggers may hold stale totals
+select public.refresh_menu_plan_totals(array(select id from public.menu_plans));
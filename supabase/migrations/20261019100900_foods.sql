@@ -0,0 +1,59 @@
+-- Each trainer's food catalog (nutrients per 100 g) and the ingredients that meals are built from.
+-- Both are private to the trainer; clients only ever see a meal's resulting macros.
+
+create table if not exists public.foods (
+  id uuid primary key default gen_random_uuid(),
+  trainer_id uuid not null references public.trainers (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  category text not null default 'other'
+    check (category in ('protein', 'dairy_eggs', 'grains', 'legumes', 'vegetables', 'fruit', 'fats', 'other')),
+  calories numeric not null check (calories >= 0),
+  protein numeric not null check (protein >= 0),
+  carbohydrates numeric not null check (carbohydrates >= 0),
+  fat numeric not null check (fat >= 0),
+  source text not null default 'custom' check (source in ('dataset', 'custom')),
+  source_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists foods_trainer_id_idx on public.foods (trainer_id, name);
+
+-- Re-seeding the bundled dataset skips foods the trainer already has
+create unique index if not exists foods_trainer_source_id_key
+  on public.foods (trainer_id, source_id)
+  where source_id is not null;
+
+create table if not exists public.menu_ingredients (
+  id uuid primary key default gen_random_uuid(),
+  menu_id uuid not null references public.menus (id) on delete cascade,
+  food_id uuid not null references public.foods (id) on delete restrict,
+  grams numeric not null check (grams > 0),
+  ingredient_order integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists menu_ingredients_menu_id_idx on public.menu_ingredients (menu_id);
+create index if not exists menu_ingredients_food_id_idx on public.menu_ingredients (food_id);
+
+alter table public.foods enable row level security;
+alter table public.menu_ingredients enable row level security;
+
+drop policy if exists "Trainers manage their foods" on public.foods;
+create policy "Trainers manage their foods"
+  on public.foods
+  for all
+  to authenticated
+  using (public.is_own_trainer(trainer_id))
+  with check (public.is_own_trainer(trainer_id));
+
+-- Both the meal and the food must be the trainer's own
+drop policy if exists "Trainers manage their meal ingredients" on public.menu_ingredients;
+create policy "Trainers manage their meal ingredients"
+  on public.menu_ingredients
+  for all
+  to authenticated
+  using (exists (select 1 from menus where menus.id = menu_ingredients.menu_id and public.is_own_trainer(menus.trainer_id)))
+  with check (
+    exists (select 1 from menus where menus.id = menu_ingredients.menu_id and public.is_own_trainer(menus.trainer_id))
+    and exists (select 1 from foods where foods.id = menu_ingredients.food_id and public.is_own_trainer(foods.trainer_id))
+  );
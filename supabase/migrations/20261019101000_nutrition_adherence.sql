@@ -0,0 +1,158 @@
+-- Daily meal check-offs and the adherence score built from them. Clients write only their own check-ins,
+-- and only for meals in a plan assigned to them; the score is kept by a trigger so it cannot be written directly.
+
+create table if not exists public.meal_checkins (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients (id) on delete cascade,
+  client_menu_plan_id uuid not null references public.client_menu_plans (id) on delete cascade,
+  menu_id uuid not null references public.menus (id) on delete cascade,
+  date date not null,
+  status text not null check (status in ('eaten', 'substituted', 'skipped')),
+  substitute_note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (client_id, date, menu_id)
+);
+
+create table if not exists public.nutrition_adherence (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients (id) on delete cascade,
+  client_menu_plan_id uuid not null references public.client_menu_plans (id) on delete cascade,
+  date date not null,
+  score integer not null check (score between 0 and 100),
+  meals_planned integer not null default 0,
+  meals_eaten integer not null default 0,
+  meals_substituted integer not null default 0,
+  meals_skipped integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (client_id, date)
+);
+
+alter table public.meal_checkins enable row level security;
+alter table public.nutrition_adherence enable row level security;
+
+drop policy if exists "Clients and their trainers read meal check-ins" on public.meal_checkins;
+create policy "Clients and their trainers read meal check-ins"
+  on public.meal_checkins
+  for select
+  to authenticated
+  using (public.is_own_client(client_id) or public.trainer_can_view_client(client_id));
+
+-- The meal must be in the client's own assigned plan
+drop policy if exists "Clients check off meals from their own plans" on public.meal_checkins;
+create policy "Clients check off meals from their own plans"
+  on public.meal_checkins
+  for all
+  to authenticated
+  using (public.is_own_client(client_id))
+  with check (
+    public.is_own_client(client_id)
+    and exists (
+      select 1
+      from client_menu_plans assignment
+      join menu_plan_items item on item.menu_plan_id = assignment.menu_plan_id
+      where assignment.id = meal_checkins.client_menu_plan_id
+        and assignment.client_id = meal_checkins.client_id
+        and item.menu_id = meal_checkins.menu_id
+    )
+  );
+
+-- Written only by the trigger below
+drop policy if exists "Clients and their trainers read adherence" on public.nutrition_adherence;
+create policy "Clients and their trainers read adherence"
+  on public.nutrition_adherence
+  for select
+  to authenticated
+  using (public.is_own_client(client_id) or public.trainer_can_view_client(client_id));
+
+-- ============================================================================
+-- SCORING
+-- ============================================================================
+
+-- Same weights and rounding as calculateAdherenceScore() in src/lib/nutrition.ts: a substitution counts
+-- for half and meals not checked off count as missed
+create or replace function public.refresh_nutrition_adherence(p_client_id uuid, p_client_menu_plan_id uuid, p_date date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_planned integer;
+  v_eaten integer;
+  v_substituted integer;
+  v_skipped integer;
+begin
+  -- The assignment itself is being deleted, taking its check-ins and scores with it
+  if not exists (select 1 from client_menu_plans where id = p_client_menu_plan_id) then
+    return;
+  end if;
+
+  select count(*) into v_planned
+  from client_menu_plans assignment
+  join menu_plan_items item on item.menu_plan_id = assignment.menu_plan_id
+  where assignment.id = p_client_menu_plan_id;
+
+  select
+    count(*) filter (where status = 'eaten'),
+    count(*) filter (where status = 'substituted'),
+    count(*) filter (where status = 'skipped')
+  into v_eaten, v_substituted, v_skipped
+  from meal_checkins
+  where client_id = p_client_id and client_menu_plan_id = p_client_menu_plan_id and date = p_date;
+
+  insert into nutrition_adherence (
+    client_id, client_menu_plan_id, date, score, meals_planned, meals_eaten, meals_substituted, meals_skipped
+  )
+  values (
+    p_client_id,
+    p_client_menu_plan_id,
+    p_date,
+    case
+      when v_planned = 0 then 0
+      else round(least(v_eaten + v_substituted * 0.5, v_planned) / v_planned * 100)
+    end,
+    v_planned,
+    v_eaten,
+    v_substituted,
+    v_skipped
+  )
+  on conflict (client_id, date) do update
+  set client_menu_plan_id = excluded.client_menu_plan_id,
+    score = excluded.score,
+    meals_planned = excluded.meals_planned,
+    meals_eaten = excluded.meals_eaten,
+    meals_substituted = excluded.meals_substituted,
+    meals_skipped = excluded.meals_skipped,
+    updated_at = now();
+end
+$$;
+
+revoke execute on function public.refresh_nutrition_adherence(uuid, uuid, date) from public, anon, authenticated;
+
+create or replace function public.refresh_adherence_for_checkin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op <> 'DELETE' then
+    perform public.refresh_nutrition_adherence(new.client_id, new.client_menu_plan_id, new.date);
+  end if;
+
+  if tg_op = 'DELETE'
+    or (tg_op = 'UPDATE' and (old.client_id, old.client_menu_plan_id, old.date) is distinct from (new.client_id, new.client_menu_plan_id, new.date))
+  then
+    perform public.refresh_nutrition_adherence(old.client_id, old.client_menu_plan_id, old.date);
+  end if;
+
+  return null;
+end
+$$;
+
+drop trigger if exists refresh_nutrition_adherence on public.meal_checkins;
+create trigger refresh_nutrition_adherence
+  after insert or update or delete on public.meal_checkins
+  for each row execute function public.refresh_adherence_for_checkin();
@@ -0,0 +1,162 @@
+-- One conversation per trainer-client relation, readable only by its two participants. Messages are sent and
+-- marked read through the functions below, so nobody can edit a message body or post into someone else's thread.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  client_trainer_id uuid not null unique references public.client_trainers (id) on delete cascade,
+  last_message_at timestamptz,
+  last_message_preview text,
+  last_message_sender_id uuid references public.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- MESSAGE_MAX_LENGTH in src/lib/messaging.ts
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  sender_id uuid not null references public.users (id) on delete cascade,
+  body text not null default '' check (length(body) <= 2000),
+  attachment jsonb check (attachment is null or attachment ->> 'type' in ('workout', 'menu_plan', 'measurement')),
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (length(trim(body)) > 0 or attachment is not null)
+);
+
+create index if not exists messages_conversation_id_idx on public.messages (conversation_id, created_at);
+create index if not exists messages_unread_idx on public.messages (conversation_id) where read_at is null;
+
+create or replace function public.is_relation_participant(p_client_trainer_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from client_trainers relation
+    join clients client on client.id = relation.client_id
+    join trainers trainer on trainer.id = relation.trainer_id
+    where relation.id = p_client_trainer_id
+      and auth.uid() in (client.user_id, trainer.user_id)
+  )
+$$;
+
+revoke execute on function public.is_relation_participant(uuid) from public, anon;
+grant execute on function public.is_relation_participant(uuid) to authenticated;
+
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
+
+-- Written only by send_message() and mark_conversation_read()
+drop policy if exists "Participants read their conversations" on public.conversations;
+create policy "Participants read their conversations"
+  on public.conversations
+  for select
+  to authenticated
+  using (public.is_relation_participant(client_trainer_id));
+
+drop policy if exists "Participants read their messages" on public.messages;
+create policy "Participants read their messages"
+  on public.messages
+  for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from conversations
+      where conversations.id = messages.conversation_id
+        and public.is_relation_participant(conversations.client_trainer_id)
+    )
+  );
+
+-- ============================================================================
+-- SENDING AND READING
+-- ============================================================================
+
+-- Creates the conversation on the first message of a relation. Only an active relation can be written to,
+-- and only while the trainer's plan includes In-App Messaging; trainer_has_entitlement() is defined with the
+-- other entitlement checks in 20261019140000_entitlements.sql.
+create or replace function public.send_message(p_client_trainer_id uuid, p_body text, p_attachment jsonb)
+returns public.messages
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trainer_id uuid;
+  v_conversation_id uuid;
+  v_body text := trim(coalesce(p_body, ''));
+  v_message messages%rowtype;
+begin
+  if v_body = '' and p_attachment is null then
+    raise exception 'Write a message or attach something to send' using errcode = '22023', hint = 'empty_message';
+  end if;
+
+  if length(v_body) > 2000 then
+    raise exception 'Messages can be at most 2000 characters' using errcode = '22023', hint = 'message_too_long';
+  end if;
+
+  select relation.trainer_id into v_trainer_id
+  from client_trainers relation
+  where relation.id = p_client_trainer_id
+    and relation.status = 'active'
+    and public.is_relation_participant(relation.id);
+
+  if not found then
+    raise exception 'This trainer relationship is no longer active' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  if not public.trainer_has_entitlement(v_trainer_id, 'in_app_messaging') then
+    raise exception 'In-App Messaging is not included in this trainer''s plan' using errcode = '42501', hint = 'feature_locked';
+  end if;
+
+  insert into conversations (client_trainer_id)
+  values (p_client_trainer_id)
+  on conflict (client_trainer_id) do update set updated_at = now()
+  returning id into v_conversation_id;
+
+  insert into messages (conversation_id, sender_id, body, attachment)
+  values (v_conversation_id, auth.uid(), v_body, p_attachment)
+  returning * into v_message;
+
+  -- Attachment names follow MESSAGE_ATTACHMENT_LABELS in src/lib/messaging.ts
+  update conversations
+  set last_message_at = v_message.created_at,
+    last_message_preview = case
+      when v_body <> '' then left(v_body, 120)
+      else 'Shared a ' || case p_attachment ->> 'type'
+        when 'menu_plan' then 'menu plan'
+        else p_attachment ->> 'type'
+      end
+    end,
+    last_message_sender_id = auth.uid(),
+    updated_at = now()
+  where id = v_conversation_id;
+
+  return v_message;
+end
+$$;
+
+-- Sets read_at on the other participant's messages, which is what their read receipts show
+create or replace function public.mark_conversation_read(p_conversation_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update messages message
+  set read_at = now()
+  from conversations conversation
+  where conversation.id = p_conversation_id
+    and message.conversation_id = conversation.id
+    and message.sender_id <> auth.uid()
+    and message.read_at is null
+    and public.is_relation_participant(conversation.client_trainer_id)
+$$;
+
+revoke execute on function public.send_message(uuid, text, jsonb) from public, anon;
+grant execute on function public.send_message(uuid, text, jsonb) to authenticated;
+revoke execute on function public.mark_conversation_read(uuid) from public, anon;
+grant execute on function public.mark_conversation_read(uuid) to authenticated;
@@ -0,0 +1,36 @@
+-- The client's daily Table of Feelings check-in. Clients keep their own; their trainers may read them, and
+-- 20261019140000_entitlements.sql further limits that to trainers whose plan includes Table of Feelings.
+
+-- Scales and limits follow src/lib/wellbeing.ts: 1-5 for mood, energy and stress, MAX_SLEEP_HOURS, and a
+-- soreness level of 0-3 per region
+create table if not exists public.wellbeing_checkins (
+  id uuid primary key default gen_random_uuid(),
+  client_id uuid not null references public.clients (id) on delete cascade,
+  date date not null,
+  mood integer not null check (mood between 1 and 5),
+  energy integer not null check (energy between 1 and 5),
+  sleep_hours numeric not null check (sleep_hours between 0 and 24),
+  stress integer not null check (stress between 1 and 5),
+  soreness jsonb not null default '{}'::jsonb check (jsonb_typeof(soreness) = 'object'),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (client_id, date)
+);
+
+alter table public.wellbeing_checkins enable row level security;
+
+drop policy if exists "Clients manage their wellbeing check-ins" on public.wellbeing_checkins;
+create policy "Clients manage their wellbeing check-ins"
+  on public.wellbeing_checkins
+  for all
+  to authenticated
+  using (public.is_own_client(client_id))
+  with check (public.is_own_client(client_id));
+
+drop policy if exists "Trainers read their clients' wellbeing check-ins" on public.wellbeing_checkins;
+create policy "Trainers read their clients' wellbeing check-ins"
+  on public.wellbeing_checkins
+  for select
+  to authenticated
+  using (public.trainer_can_view_client(client_id));
@@ -0,0 +1,41 @@
+-- Email notification preferences and the record of what was sent. Users keep their own preferences; the log
+-- is written and read only by the notifier, through the service role.
+
+-- A missing row means every notification is on, as withDefaultPreferences() in src/lib/notifications/templates.ts
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.users (id) on delete cascade,
+  email_enabled boolean not null default true,
+  workout_assigned boolean not null default true,
+  menu_plan_assigned boolean not null default true,
+  missed_workout boolean not null default true,
+  measurement_reminder boolean not null default true,
+  payment_failed boolean not null default true,
+  new_client boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One row per user for each notification about a reference, so a rerun never sends it twice
+create table if not exists public.notification_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  type text not null check (type in (
+    'workout_assigned', 'menu_plan_assigned', 'missed_workout', 'measurement_reminder', 'payment_failed', 'new_client'
+  )),
+  reference_id text not null,
+  sent_at timestamptz not null default now(),
+  unique (type, reference_id, user_id)
+);
+
+alter table public.notification_preferences enable row level security;
+alter table public.notification_log enable row level security;
+
+drop policy if exists "Users manage their notification preferences" on public.notification_preferences;
+create policy "Users manage their notification preferences"
+  on public.notification_preferences
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- notification_log has no policies: only the service role reaches it
@@ -0,0 +1,46 @@
+-- The trainer's public directory profile. Any signed-in user can read a listed profile; only the trainer
+-- can read an unlisted one or change their own.
+
+create table if not exists public.trainer_profiles (
+  trainer_id uuid primary key references public.trainers (id) on delete cascade,
+  bio text,
+  specialties text[] not null default '{}',
+  photo_url text,
+  location text,
+  offers_online boolean not null default true,
+  offers_in_person boolean not null default false,
+  is_listed boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (offers_online or offers_in_person)
+);
+
+create index if not exists trainer_profiles_listed_idx on public.trainer_profiles (trainer_id) where is_listed;
+
+-- Plans the trainer shows on their profile; new plans are published
+alter table public.trainer_subscription_tiers
+  add column if not exists is_published boolean not null default true;
+
+alter table public.trainer_profiles enable row level security;
+
+drop policy if exists "Listed trainer profiles are public" on public.trainer_profiles;
+create policy "Listed trainer profiles are public"
+  on public.trainer_profiles
+  for select
+  to authenticated
+  using (is_listed or public.is_own_trainer(trainer_id));
+
+drop policy if exists "Trainers create their profile" on public.trainer_profiles;
+create policy "Trainers create their profile"
+  on public.trainer_profiles
+  for insert
+  to authenticated
+  with check (public.is_own_trainer(trainer_id));
+
+drop policy if exists "Trainers update their profile" on public.trainer_profiles;
+create policy "Trainers update their profile"
+  on public.trainer_profiles
+  for update
+  to authenticated
+  using (public.is_own_trainer(trainer_id))
+  with check (public.is_own_trainer(trainer_id));
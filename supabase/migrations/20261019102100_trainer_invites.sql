@@ -0,0 +1,77 @@
+-- Invite links that sign a client up straight onto one of the trainer's plans. Only the trainer reads their
+-- invites; anyone holding a code can preview that one invite through get_trainer_invite_preview(), so codes
+-- can't be listed.
+
+create table if not exists public.trainer_invites (
+  id uuid primary key default gen_random_uuid(),
+  trainer_id uuid not null references public.trainers (id) on delete cascade,
+  trainer_subscription_tier_id uuid not null references public.trainer_subscription_tiers (id) on delete cascade,
+  code text not null unique,
+  max_uses integer check (max_uses > 0),
+  use_count integer not null default 0 check (use_count >= 0),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists trainer_invites_trainer_id_idx on public.trainer_invites (trainer_id, created_at);
+
+alter table public.trainer_invites enable row level security;
+
+-- Uses are counted by redeem_trainer_invite()
+drop policy if exists "Trainers manage their invites" on public.trainer_invites;
+create policy "Trainers manage their invites"
+  on public.trainer_invites
+  for all
+  to authenticated
+  using (public.is_own_trainer(trainer_id))
+  with check (
+    public.is_own_trainer(trainer_id)
+    and exists (
+      select 1
+      from trainer_subscription_tiers tier
+      where tier.id = trainer_invites.trainer_subscription_tier_id and tier.trainer_id = trainer_invites.trainer_id
+    )
+  );
+
+-- The invite landing page shows it before the client signs in; status is worked out by getInviteStatus()
+-- in src/lib/api/helpers.ts
+create or replace function public.get_trainer_invite_preview(p_code text)
+returns table (
+  code text,
+  trainer_id uuid,
+  trainer_name text,
+  tier_name text,
+  tier_price numeric,
+  billing_cycle text,
+  max_uses integer,
+  use_count integer,
+  expires_at timestamptz,
+  revoked_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    invite.code,
+    invite.trainer_id,
+    trainer_user.full_name,
+    tier.name,
+    tier.price,
+    tier.billing_cycle,
+    invite.max_uses,
+    invite.use_count,
+    invite.expires_at,
+    invite.revoked_at
+  from trainer_invites invite
+  join trainers trainer on trainer.id = invite.trainer_id
+  left join users trainer_user on trainer_user.id = trainer.user_id
+  left join trainer_subscription_tiers tier on tier.id = invite.trainer_subscription_tier_id
+  where invite.code = p_code
+$$;
+
+revoke execute on function public.get_trainer_invite_preview(text) from public;
+grant execute on function public.get_trainer_invite_preview(text) to anon, authenticated;
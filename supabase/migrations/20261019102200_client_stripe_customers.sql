@@ -0,0 +1,32 @@
+-- The Stripe customer a client pays their trainers' plans from, set by the create-client-subscription
+-- edge function so every checkout reuses the same customer and saved card
+
+alter table public.clients
+  add column if not exists stripe_customer_id text;
+
+create index if not exists clients_stripe_customer_id_idx on public.clients (stripe_customer_id);
+
+-- Only the service role sets it; a client pointing it at someone else's customer would bill their card
+create or replace function public.protect_client_billing()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.stripe_customer_id := null;
+  else
+    new.stripe_customer_id := old.stripe_customer_id;
+  end if;
+
+  return new;
+end
+$$;
+
+drop trigger if exists protect_client_billing on public.clients;
+create trigger protect_client_billing
+  before insert or update on public.clients
+  for each row execute function public.protect_client_billing();
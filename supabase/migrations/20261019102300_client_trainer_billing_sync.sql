@@ -0,0 +1,5 @@
+-- When the stripe-webhook edge function last applied an event to a client's plan subscription, so an
+-- older event Stripe delivers late doesn't overwrite a newer status, as trainers.billing_synced_at does
+
+alter table public.client_trainers
+  add column if not exists billing_synced_at timestamptz;
@@ -0,0 +1,35 @@
+-- Billing state written by the stripe-webhook edge function, and the log of events it has applied
+
+alter table public.trainers
+  add column if not exists stripe_customer_id text,
+  add column if not exists stripe_subscription_id text,
+  add column if not exists subscription_status text
+    check (subscription_status in ('incomplete', 'active', 'past_due', 'canceled')),
+  add column if not exists billing_cycle text check (billing_cycle in ('monthly', 'yearly')),
+  add column if not exists current_period_start timestamptz,
+  add column if not exists current_period_end timestamptz,
+  add column if not exists cancel_at_period_end boolean not null default false,
+  add column if not exists billing_synced_at timestamptz;
+
+create index if not exists trainers_stripe_customer_id_idx on public.trainers (stripe_customer_id);
+
+alter table public.client_trainers
+  add column if not exists stripe_subscription_id text,
+  add column if not exists billing_cycle text check (billing_cycle in ('monthly', 'yearly'));
+
+create index if not exists client_trainers_stripe_subscription_id_idx on public.client_trainers (stripe_subscription_id);
+
+-- One row per Stripe event id, so a redelivered event is recognised and not applied twice
+create table if not exists public.stripe_events (
+  id text primary key,
+  type text not null,
+  status text not null default 'processing'
+    check (status in ('processing', 'processed', 'ignored', 'failed')),
+  error text,
+  payload jsonb not null,
+  created_at timestamptz not null default now(),
+  processed_at timestamptz
+);
+
+-- No policies: only the service role used by stripe-webhook reads or writes it
+alter table public.stripe_events enable row level security;
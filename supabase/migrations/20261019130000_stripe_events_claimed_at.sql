@@ -0,0 +1,3 @@
+-- When a delivery last claimed the event; a 'processing' row older than the lease belongs to a delivery that died
+alter table public.stripe_events
+  add column if not exists claimed_at timestamptz not null default now();
@@ -0,0 +1,198 @@
+-- Server-side half of src/lib/entitlements.ts. The browser checks only give early, readable errors;
+-- these hold for any caller, including one talking to the API directly.
+
+-- Mirrors TIER_ENTITLEMENTS in src/lib/entitlements.ts; change both together. No tier means Basic.
+create or replace function public.tier_entitlements(p_tier_name text)
+returns text[]
+language sql
+immutable
+as $$
+  select case coalesce(p_tier_name, 'Basic')
+    when 'Basic' then array['basic_analytics', 'progress_measurement', 'menu_planning', 'training_plans']
+    when 'Advanced' then array['basic_analytics', 'progress_measurement', 'menu_planning', 'training_plans',
+      'table_of_feelings', 'email_notifications']
+    when 'Pro' then array['basic_analytics', 'progress_measurement', 'menu_planning', 'training_plans',
+      'table_of_feelings', 'email_notifications', 'in_app_messaging', 'advanced_analytics']
+    when 'Arnold' then array['basic_analytics', 'progress_measurement', 'menu_planning', 'training_plans',
+      'table_of_feelings', 'email_notifications', 'in_app_messaging', 'advanced_analytics']
+    else array[]::text[]
+  end
+$$;
+
+create or replace function public.trainer_has_entitlement(p_trainer_id uuid, p_entitlement text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p_entitlement = any(public.tier_entitlements((
+    select tier.name
+    from trainers trainer
+    left join subscription_tiers tier on tier.id = trainer.subscription_tier_id
+    where trainer.id = p_trainer_id
+  )))
+$$;
+
+-- ============================================================================
+-- PLAN AND BILLING - only Stripe, through the service role, moves a trainer between plans
+-- ============================================================================
+
+create or replace function public.protect_trainer_billing()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    new.subscription_tier_id := (select id from subscription_tiers where name = 'Basic');
+    new.stripe_customer_id := null;
+    new.stripe_subscription_id := null;
+    new.subscription_status := null;
+    new.billing_cycle := null;
+    new.current_period_start := null;
+    new.current_period_end := null;
+    new.cancel_at_period_end := false;
+    new.billing_synced_at := null;
+  else
+    new.subscription_tier_id := old.subscription_tier_id;
+    new.stripe_customer_id := old.stripe_customer_id;
+    new.stripe_subscription_id := old.stripe_subscription_id;
+    new.subscription_status := old.subscription_status;
+    new.billing_cycle := old.billing_cycle;
+    new.current_period_start := old.current_period_start;
+    new.current_period_end := old.current_period_end;
+    new.cancel_at_period_end := old.cancel_at_period_end;
+    new.billing_synced_at := old.billing_synced_at;
+  end if;
+
+  return new;
+end
+$$;
+
+drop trigger if exists protect_trainer_billing on public.trainers;
+create trigger protect_trainer_billing
+  before insert or update on public.trainers
+  for each row execute function public.protect_trainer_billing();
+
+-- ============================================================================
+-- CLIENT LIMIT
+-- ============================================================================
+
+-- Clients never activate themselves: the trainer accepts them, or Stripe confirms their payment
+create or replace function public.guard_client_activation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated')
+    or new.status <> 'active'
+    or (tg_op = 'UPDATE' and old.status = 'active') then
+    return new;
+  end if;
+
+  if not exists (select 1 from trainers where id = new.trainer_id and user_id = auth.uid()) then
+    raise exception 'Only the trainer or a confirmed payment can activate a client'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end
+$$;
+
+-- Checked on every activation, whoever makes it. Locking the trainer row serialises concurrent
+-- activations, so two checkouts paid at once can't both take the last place. A paid activation
+-- that fails here is retried by Stripe and goes through once the trainer has room again.
+create or replace function public.enforce_client_capacity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_tier_id uuid;
+  v_client_limit integer;
+  v_active_clients integer;
+begin
+  if new.status <> 'active' or (tg_op = 'UPDATE' and old.status = 'active') then
+    return new;
+  end if;
+
+  select trainer.subscription_tier_id into v_tier_id
+  from trainers trainer
+  where trainer.id = new.trainer_id
+  for update;
+
+  -- DEFAULT_CLIENT_LIMIT for trainers on no tier; a null client_limit is unlimited
+  if v_tier_id is null then
+    v_client_limit := 10;
+  else
+    select client_limit into v_client_limit from subscription_tiers where id = v_tier_id;
+    if v_client_limit is null then
+      return new;
+    end if;
+  end if;
+
+  select count(*) into v_active_clients
+  from client_trainers
+  where trainer_id = new.trainer_id and status = 'active' and id <> new.id;
+
+  if v_active_clients >= v_client_limit then
+    raise exception 'This trainer has reached the %-client limit of their plan', v_client_limit
+      using errcode = 'P0001', hint = 'client_limit_reached';
+  end if;
+
+  return new;
+end
+$$;
+
+drop trigger if exists guard_client_activation on public.client_trainers;
+create trigger guard_client_activation
+  before insert or update of status on public.client_trainers
+  for each row execute function public.guard_client_activation();
+
+drop trigger if exists enforce_client_capacity on public.client_trainers;
+create trigger enforce_client_capacity
+  before insert or update of status on public.client_trainers
+  for each row execute function public.enforce_client_capacity();
+
+-- ============================================================================
+-- FEATURES - restrictive policies narrow whatever the existing policies allow
+-- ============================================================================
+
+drop policy if exists "Trainers need Table of Feelings to read check-ins" on public.wellbeing_checkins;
+create policy "Trainers need Table of Feelings to read check-ins"
+  on public.wellbeing_checkins
+  as restrictive
+  for select
+  to authenticated
+  using (
+    exists (select 1 from clients where clients.id = wellbeing_checkins.client_id and clients.user_id = auth.uid())
+    or exists (
+      select 1
+      from client_trainers
+      join trainers on trainers.id = client_trainers.trainer_id
+      where client_trainers.client_id = wellbeing_checkins.client_id
+        and trainers.user_id = auth.uid()
+        and public.trainer_has_entitlement(trainers.id, 'table_of_feelings')
+    )
+  );
+
+drop policy if exists "Messaging needs a plan with In-App Messaging" on public.messages;
+create policy "Messaging needs a plan with In-App Messaging"
+  on public.messages
+  as restrictive
+  for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from conversations
+      join client_trainers on client_trainers.id = conversations.client_trainer_id
+      where conversations.id = messages.conversation_id
+        and public.trainer_has_entitlement(client_trainers.trainer_id, 'in_app_messaging')
+    )
+  );
@@ -0,0 +1,92 @@
+-- Invite redemption in one transaction: the invite row is locked while it is checked and its use counted,
+-- so concurrent redemptions can't take more places than max_uses allows
+
+create or replace function public.redeem_trainer_invite(p_code text)
+returns table (relation_id uuid, relation_status text, linked boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_client_id uuid;
+  v_invite trainer_invites%rowtype;
+  v_existing client_trainers%rowtype;
+  v_is_free boolean;
+  v_status text;
+begin
+  select client.id into v_client_id from clients client where client.user_id = auth.uid();
+  if v_client_id is null then
+    raise exception 'Only client accounts can accept invites' using errcode = '42501';
+  end if;
+
+  select * into v_invite from trainer_invites invite where invite.code = p_code for update;
+  if not found then
+    raise exception 'This invite link is not valid' using errcode = 'P0002', hint = 'not_found';
+  end if;
+
+  select (coalesce(tier.price, 0) = 0) into v_is_free
+  from trainer_subscription_tiers tier
+  where tier.id = v_invite.trainer_subscription_tier_id;
+
+  -- Free plans start straight away; paid ones wait for the client's first payment at checkout
+  v_status := case when coalesce(v_is_free, true) then 'active' else 'pending' end;
+
+  select * into v_existing
+  from client_trainers relation
+  where relation.client_id = v_client_id
+    and relation.trainer_id = v_invite.trainer_id
+    and relation.status in ('active', 'pending', 'suspended')
+  order by relation.created_at desc
+  limit 1
+  for update;
+
+  -- Opening the same link again is harmless and does not use up the invite
+  if v_existing.status = 'active' or (
+    v_existing.status = 'pending' and v_status = 'pending'
+    and v_existing.trainer_subscription_tier_id = v_invite.trainer_subscription_tier_id
+  ) then
+    return query select v_existing.id, v_existing.status, false;
+    return;
+  end if;
+
+  if v_invite.revoked_at is not null then
+    raise exception 'This invite was revoked by the trainer' using errcode = 'P0001', hint = 'revoked';
+  elsif v_invite.expires_at is not null and v_invite.expires_at <= now() then
+    raise exception 'This invite has expired' using errcode = 'P0001', hint = 'expired';
+  elsif v_invite.max_uses is not null and v_invite.use_count >= v_invite.max_uses then
+    raise exception 'This invite has already been used' using errcode = 'P0001', hint = 'used_up';
+  end if;
+
+  update trainer_invites
+  set use_count = use_count + 1, updated_at = now()
+  where id = v_invite.id;
+
+  -- A pending request or lapsed subscription with the same trainer moves onto the invite's plan.
+  -- Activation runs through enforce_client_capacity, which rolls the whole redemption back when the trainer is full.
+  if v_existing.id is not null then
+    update client_trainers
+    set trainer_subscription_tier_id = v_invite.trainer_subscription_tier_id,
+      status = v_status,
+      subscription_start = case when v_status = 'active' then now() else subscription_start end,
+      updated_at = now()
+    where id = v_existing.id;
+
+    return query select v_existing.id, v_status, true;
+    return;
+  end if;
+
+  return query
+  insert into client_trainers (client_id, trainer_id, trainer_subscription_tier_id, status, subscription_start)
+  values (
+    v_client_id,
+    v_invite.trainer_id,
+    v_invite.trainer_subscription_tier_id,
+    v_status,
+    case when v_status = 'active' then now() end
+  )
+  returning client_trainers.id, client_trainers.status, true;
+end
+$$;
+
+revoke execute on function public.redeem_trainer_invite(text) from public, anon;
+grant execute on function public.redeem_trainer_invite(text) to authenticated;
@@ -0,0 +1,27 @@
+-- Runs the send-reminders edge function every morning. The URL and the shared secret come from Vault,
+-- so they stay out of the migration; create them once per project:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<same value as REMINDERS_CRON_SECRET>', 'reminders_cron_secret');
+-- What was sent is recorded in notification_log, which also stops a rerun from repeating it.
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.unschedule('send-reminders')
+where exists (select 1 from cron.job where jobname = 'send-reminders');
+
+select cron.schedule(
+  'send-reminders',
+  '0 7 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/send-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'reminders_cron_secret')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+  $$
+);